@@ -11,6 +11,26 @@ import AddEmployee from "./pages/AddEmployee";
 import ActivityLog from "./pages/ActivityLog";
 import ImportData from "./pages/ImportData";
 import LocationsManagement from "./pages/LocationsManagement";
+import DepartmentsManagement from "./pages/DepartmentsManagement";
+import Assets from "./pages/Assets";
+import AssetDetails from "./pages/AssetDetails";
+import Maintenance from "./pages/Maintenance";
+import Tickets from "./pages/Tickets";
+import TicketDetails from "./pages/TicketDetails";
+import Licenses from "./pages/Licenses";
+import LicenseDetails from "./pages/LicenseDetails";
+import WarrantyReport from "./pages/WarrantyReport";
+import Consumables from "./pages/Consumables";
+import IpManagement from "./pages/IpManagement";
+import DuplicateReport from "./pages/DuplicateReport";
+import Directory from "./pages/Directory";
+import Scan from "./pages/Scan";
+import Offboardings from "./pages/Offboardings";
+import OffboardingDetails from "./pages/OffboardingDetails";
+import Onboarding from "./pages/Onboarding";
+import RecycleBin from "./pages/RecycleBin";
+import Users from "./pages/Users";
+import ChangeRequests from "./pages/ChangeRequests";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -30,6 +50,26 @@ const App = () => (
             <Route path="/activity-log" element={<ActivityLog />} />
             <Route path="/import-data" element={<ImportData />} />
             <Route path="/locations" element={<LocationsManagement />} />
+            <Route path="/departments" element={<DepartmentsManagement />} />
+            <Route path="/assets" element={<Assets />} />
+            <Route path="/assets/:id" element={<AssetDetails />} />
+            <Route path="/maintenance" element={<Maintenance />} />
+            <Route path="/tickets" element={<Tickets />} />
+            <Route path="/tickets/:id" element={<TicketDetails />} />
+            <Route path="/licenses" element={<Licenses />} />
+            <Route path="/licenses/:id" element={<LicenseDetails />} />
+            <Route path="/warranty" element={<WarrantyReport />} />
+            <Route path="/consumables" element={<Consumables />} />
+            <Route path="/ip-addresses" element={<IpManagement />} />
+            <Route path="/duplicates" element={<DuplicateReport />} />
+            <Route path="/directory" element={<Directory />} />
+            <Route path="/scan" element={<Scan />} />
+            <Route path="/offboarding" element={<Offboardings />} />
+            <Route path="/offboarding/:employeeId" element={<OffboardingDetails />} />
+            <Route path="/onboarding/:employeeId" element={<Onboarding />} />
+            <Route path="/recycle-bin" element={<RecycleBin />} />
+            <Route path="/users" element={<Users />} />
+            <Route path="/change-requests" element={<ChangeRequests />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
@@ -1,37 +1,83 @@
-import { useQuery } from '@tanstack/react-query';
-import { supabase } from '@/integrations/supabase/client';
+import { useState } from 'react';
+import * as XLSX from 'xlsx';
+import { toast } from 'sonner';
+import { useAuth } from '@/hooks/useAuth';
+import { useProfiles, getProfileName } from '@/hooks/useProfiles';
+import {
+  AUDIT_PAGE_SIZE,
+  EMPTY_AUDIT_FILTERS,
+  fetchAllAuditLogs,
+  useAuditLog,
+  type AuditLogFilters,
+} from '@/hooks/useActivityLog';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Loader2, UserCheck, UserX, UserCog, Calendar } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2, UserCheck, UserX, UserCog, RotateCcw, Search, Filter, X, Download, FileSpreadsheet, ChevronLeft, ChevronRight } from 'lucide-react';
 import { format } from 'date-fns';
-
-interface AuditLog {
-  id: string;
-  employee_id: string;
-  action: 'INSERT' | 'UPDATE' | 'DELETE';
-  changed_by: string;
-  changed_by_email: string;
-  changed_by_name: string | null;
-  old_data: any;
-  new_data: any;
-  changes: any;
-  created_at: string;
-}
+import { EmployeePicker } from '@/components/EmployeePicker';
+import { FieldDiffView } from '@/components/FieldDiffView';
+import { RestoreVersionDialog } from '@/components/RestoreVersionDialog';
+import {
+  AUDIT_ACTIONS,
+  AUDITED_FIELDS,
+  getAuditActorName,
+  getAuditExportRows,
+  getAuditFieldLabel,
+  getAuditSummary,
+  type AuditLog,
+} from '@/lib/audit';
 
 export const ActivityLog = () => {
-  const { data: logs, isLoading } = useQuery({
-    queryKey: ['activity-logs'],
-    queryFn: async () => {
-      const { data, error } = await supabase
-        .from('employee_audit_log')
-        .select('*')
-        .order('created_at', { ascending: false })
-        .limit(100);
+  const { isAdmin } = useAuth();
+  const { data: profiles } = useProfiles();
+  const [restoreLog, setRestoreLog] = useState<AuditLog | null>(null);
+  const [filters, setFilters] = useState<AuditLogFilters>(EMPTY_AUDIT_FILTERS);
+  const [searchInput, setSearchInput] = useState('');
+  const [page, setPage] = useState(0);
+  const [isExporting, setIsExporting] = useState(false);
+  const { data, isLoading, isFetching } = useAuditLog(filters, page);
+
+  const logs = data?.logs || [];
+  const count = data?.count || 0;
+  const pageCount = Math.max(1, Math.ceil(count / AUDIT_PAGE_SIZE));
+  const hasFilters = JSON.stringify(filters) !== JSON.stringify(EMPTY_AUDIT_FILTERS);
+
+  // Any filter change starts again from the first page
+  const updateFilters = (values: Partial<AuditLogFilters>) => {
+    setFilters(prev => ({ ...prev, ...values }));
+    setPage(0);
+  };
+
+  const clearFilters = () => {
+    setFilters(EMPTY_AUDIT_FILTERS);
+    setSearchInput('');
+    setPage(0);
+  };
+
+  const exportLogs = async (bookType: 'csv' | 'xlsx') => {
+    setIsExporting(true);
+    try {
+      const allLogs = await fetchAllAuditLogs(filters);
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(getAuditExportRows(allLogs)), 'Activity Log');
+      XLSX.writeFile(workbook, `activity_log_${new Date().toISOString().split('T')[0]}.${bookType}`, { bookType });
 
-      if (error) throw error;
-      return data as AuditLog[];
-    },
-  });
+      toast.success(bookType === 'csv' ? 'Exported to CSV' : 'Exported to Excel');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'An error occurred');
+    } finally {
+      setIsExporting(false);
+    }
+  };
 
   const getActionIcon = (action: string) => {
     switch (action) {
@@ -55,77 +101,209 @@ export const ActivityLog = () => {
     return <Badge variant={variants[action] || 'default'}>{action}</Badge>;
   };
 
-  const getChangeSummary = (log: AuditLog) => {
-    if (log.action === 'INSERT') {
-      return `Created employee: ${log.new_data?.name || 'Unknown'}`;
-    }
-    if (log.action === 'DELETE') {
-      return `Deleted employee: ${log.old_data?.name || 'Unknown'}`;
-    }
-    if (log.action === 'UPDATE' && log.changes) {
-      const changedFields = Object.keys(log.changes);
-      return `Updated ${changedFields.length} field${changedFields.length > 1 ? 's' : ''}: ${changedFields.join(', ')}`;
-    }
-    return 'Updated employee record';
-  };
-
-  if (isLoading) {
-    return (
-      <div className="flex items-center justify-center py-12">
-        <Loader2 className="h-8 w-8 animate-spin text-primary" />
-      </div>
-    );
-  }
-
-  if (!logs || logs.length === 0) {
-    return (
+  return (
+    <div className="space-y-4">
       <Card>
-        <CardContent className="py-12 text-center">
-          <p className="text-muted-foreground">No activity logs found</p>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <Filter className="h-5 w-5 text-primary" />
+            <CardTitle className="text-foreground">Search & Filter</CardTitle>
+          </div>
+          <CardDescription>Search inside changed values, e.g. an IP address or a name</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form
+            className="flex flex-col md:flex-row gap-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              updateFilters({ search: searchInput });
+            }}
+          >
+            <div className="flex-1 relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search changes..."
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                className="pl-9"
+              />
+            </div>
+            <Button type="submit" variant="secondary">
+              Search
+            </Button>
+            <Button type="button" onClick={() => exportLogs('csv')} variant="outline" disabled={isExporting || count === 0}>
+              <Download className="h-4 w-4 mr-2" />
+              CSV
+            </Button>
+            <Button type="button" onClick={() => exportLogs('xlsx')} variant="outline" disabled={isExporting || count === 0}>
+              {isExporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileSpreadsheet className="h-4 w-4 mr-2" />}
+              Excel
+            </Button>
+          </form>
+          <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-6">
+            <Select value={filters.action} onValueChange={(action) => updateFilters({ action })}>
+              <SelectTrigger>
+                <SelectValue placeholder="Action" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Actions</SelectItem>
+                {AUDIT_ACTIONS.map(action => (
+                  <SelectItem key={action.value} value={action.value}>
+                    {action.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={filters.actorId} onValueChange={(actorId) => updateFilters({ actorId })}>
+              <SelectTrigger>
+                <SelectValue placeholder="Changed by" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Anyone</SelectItem>
+                {profiles?.map(profile => (
+                  <SelectItem key={profile.id} value={profile.id}>
+                    {getProfileName(profile)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={filters.field} onValueChange={(field) => updateFilters({ field })}>
+              <SelectTrigger>
+                <SelectValue placeholder="Field changed" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any Field</SelectItem>
+                {AUDITED_FIELDS.map(field => (
+                  <SelectItem key={field} value={field} className="capitalize">
+                    {getAuditFieldLabel(field)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex gap-1">
+              <EmployeePicker
+                value={filters.employeeId}
+                onChange={(employeeId) => updateFilters({ employeeId })}
+                placeholder="Any employee"
+              />
+              {filters.employeeId && (
+                <Button variant="ghost" size="icon" onClick={() => updateFilters({ employeeId: null })}>
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+            <Input
+              type="date"
+              value={filters.from}
+              onChange={(e) => updateFilters({ from: e.target.value })}
+              aria-label="From date"
+            />
+            <Input
+              type="date"
+              value={filters.to}
+              onChange={(e) => updateFilters({ to: e.target.value })}
+              aria-label="To date"
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-muted-foreground flex items-center gap-2">
+              {count === 0
+                ? 'No entries'
+                : `Showing ${page * AUDIT_PAGE_SIZE + 1}–${Math.min((page + 1) * AUDIT_PAGE_SIZE, count)} of ${count} entries`}
+              {isFetching && <Loader2 className="h-3 w-3 animate-spin" />}
+            </p>
+            {hasFilters && (
+              <Button variant="ghost" size="sm" onClick={clearFilters}>
+                <X className="h-4 w-4 mr-1" />
+                Clear filters
+              </Button>
+            )}
+          </div>
         </CardContent>
       </Card>
-    );
-  }
 
-  return (
-    <div className="space-y-4">
-      {logs.map((log) => (
-        <Card key={log.id} className="hover-lift transition-all duration-200">
-          <CardHeader>
-            <div className="flex items-start justify-between">
-              <div className="space-y-1">
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : logs.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <p className="text-muted-foreground">No activity logs found</p>
+          </CardContent>
+        </Card>
+      ) : (
+        logs.map((log) => (
+          <Card key={log.id} className="hover-lift transition-all duration-200">
+            <CardHeader>
+              <div className="flex items-start justify-between">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    {getActionIcon(log.action)}
+                    <CardTitle className="text-lg">{getAuditSummary(log)}</CardTitle>
+                  </div>
+                  <CardDescription>
+                    By {getAuditActorName(log)} • {format(new Date(log.created_at), 'PPpp')}
+                  </CardDescription>
+                </div>
                 <div className="flex items-center gap-2">
-                  {getActionIcon(log.action)}
-                  <CardTitle className="text-lg">{getChangeSummary(log)}</CardTitle>
+                  {isAdmin && (log.old_data || log.new_data) && (
+                    <Button size="sm" variant="outline" onClick={() => setRestoreLog(log)}>
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                      Restore
+                    </Button>
+                  )}
+                  {getActionBadge(log.action)}
                 </div>
-                <CardDescription>
-                  By {log.changed_by_name || log.changed_by_email} • {format(new Date(log.created_at), 'PPpp')}
-                </CardDescription>
               </div>
-              {getActionBadge(log.action)}
-            </div>
-          </CardHeader>
-          {log.action === 'UPDATE' && log.changes && (
-            <CardContent>
-              <div className="space-y-2">
-                <p className="text-sm font-semibold text-foreground">Changes:</p>
-                <div className="grid gap-2">
-                  {Object.entries(log.changes).map(([field, change]: [string, any]) => (
-                    <div key={field} className="text-sm bg-muted p-3 rounded-md">
-                      <span className="font-medium capitalize">{field.replace(/_/g, ' ')}:</span>
-                      <div className="flex gap-2 items-center mt-1">
-                        <span className="text-muted-foreground line-through">{change.old || 'N/A'}</span>
-                        <span>→</span>
-                        <span className="text-foreground font-medium">{change.new || 'N/A'}</span>
-                      </div>
-                    </div>
-                  ))}
+            </CardHeader>
+            {log.action === 'UPDATE' && log.changes && (
+              <CardContent>
+                <div className="space-y-2">
+                  <p className="text-sm font-semibold text-foreground">Changes:</p>
+                  <div className="grid gap-2">
+                    {Object.entries(log.changes).map(([field, change]) => (
+                      <FieldDiffView key={field} field={field} oldValue={change.old} newValue={change.new} />
+                    ))}
+                  </div>
                 </div>
-              </div>
-            </CardContent>
-          )}
-        </Card>
-      ))}
+              </CardContent>
+            )}
+          </Card>
+        ))
+      )}
+
+      {pageCount > 1 && (
+        <div className="flex items-center justify-center gap-4">
+          <Button variant="outline" size="sm" onClick={() => setPage(p => p - 1)} disabled={page === 0 || isFetching}>
+            <ChevronLeft className="h-4 w-4 mr-1" />
+            Previous
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            Page {page + 1} of {pageCount}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage(p => p + 1)}
+            disabled={page + 1 >= pageCount || isFetching}
+          >
+            Next
+            <ChevronRight className="h-4 w-4 ml-1" />
+          </Button>
+        </div>
+      )}
+
+      {restoreLog && (
+        <RestoreVersionDialog
+          open={!!restoreLog}
+          onOpenChange={(open) => !open && setRestoreLog(null)}
+          auditId={restoreLog.id}
+          createdAt={restoreLog.created_at}
+          oldData={restoreLog.old_data}
+          newData={restoreLog.new_data}
+        />
+      )}
     </div>
   );
 };
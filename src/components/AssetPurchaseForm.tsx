@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2 } from 'lucide-react';
+import type { Asset } from '@/lib/assets';
+
+const purchaseSchema = z.object({
+  vendor: z.string().max(100).optional(),
+  purchase_order: z.string().max(100).optional(),
+  purchase_date: z.string().optional(),
+  cost: z.preprocess(
+    (value) => (value === '' || value === null ? undefined : value),
+    z.coerce.number().min(0, 'Cost cannot be negative').optional()
+  ),
+  warranty_end: z.string().optional(),
+});
+
+type PurchaseFormData = z.infer<typeof purchaseSchema>;
+
+interface AssetPurchaseFormProps {
+  asset: Asset;
+  onSuccess: () => void;
+  onCancel: () => void;
+}
+
+export const AssetPurchaseForm = ({ asset, onSuccess, onCancel }: AssetPurchaseFormProps) => {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    setError,
+    formState: { errors },
+  } = useForm<PurchaseFormData>({
+    resolver: zodResolver(purchaseSchema),
+    defaultValues: {
+      vendor: asset.vendor || '',
+      purchase_order: asset.purchase_order || '',
+      purchase_date: asset.purchase_date || '',
+      cost: asset.cost ?? undefined,
+      warranty_end: asset.warranty_end || '',
+    },
+  });
+
+  const onSubmit = async (data: PurchaseFormData) => {
+    if (data.purchase_date && data.warranty_end && data.warranty_end < data.purchase_date) {
+      setError('warranty_end', { message: 'Warranty cannot end before the purchase date' });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const { error } = await supabase
+        .from('assets')
+        .update({
+          vendor: data.vendor?.trim() || null,
+          purchase_order: data.purchase_order?.trim() || null,
+          purchase_date: data.purchase_date || null,
+          cost: data.cost ?? null,
+          warranty_end: data.warranty_end || null,
+        })
+        .eq('id', asset.id);
+
+      if (error) throw error;
+      toast.success('Purchase details updated');
+      onSuccess();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'An error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="vendor">Vendor</Label>
+          <Input id="vendor" {...register('vendor')} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="purchase_order">Purchase Order</Label>
+          <Input id="purchase_order" {...register('purchase_order')} placeholder="e.g., PO-2024-0113" />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="purchase_date">Purchase Date</Label>
+          <Input id="purchase_date" type="date" {...register('purchase_date')} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="cost">Cost</Label>
+          <Input id="cost" type="number" min={0} step="0.01" {...register('cost')} />
+          {errors.cost && <p className="text-sm text-destructive">{errors.cost.message}</p>}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="warranty_end">Warranty End Date</Label>
+          <Input id="warranty_end" type="date" {...register('warranty_end')} />
+          {errors.warranty_end && <p className="text-sm text-destructive">{errors.warranty_end.message}</p>}
+        </div>
+      </div>
+
+      <div className="flex gap-4">
+        <Button type="submit" disabled={isSubmitting} className="flex-1">
+          {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save
+        </Button>
+        <Button type="button" variant="outline" onClick={onCancel} disabled={isSubmitting}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,76 @@
+import { useQuery } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, ArrowRightLeft } from 'lucide-react';
+import { format } from 'date-fns';
+import { formatAsset } from '@/lib/assets';
+
+interface AssignmentTimelineProps {
+  assetId?: string;
+  employeeId?: string;
+}
+
+// Shows who held a device (by asset) or which devices a person held (by employee)
+export const AssignmentTimeline = ({ assetId, employeeId }: AssignmentTimelineProps) => {
+  const { data: assignments, isLoading } = useQuery({
+    queryKey: ['asset-assignments', assetId, employeeId],
+    queryFn: async () => {
+      let query = supabase
+        .from('asset_assignments')
+        .select('*, assets(asset_type, name, model, serial_number)')
+        .order('assigned_at', { ascending: false });
+
+      if (assetId) query = query.eq('asset_id', assetId);
+      if (employeeId) query = query.eq('employee_id', employeeId);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-6">
+        <Loader2 className="h-5 w-5 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!assignments || assignments.length === 0) {
+    return <p className="text-sm text-muted-foreground">No assignment history</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-border ml-2 space-y-4">
+      {assignments.map((assignment) => (
+        <li key={assignment.id} className="ml-4 animate-fade-in">
+          <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-primary" />
+          <div className="flex flex-wrap items-center gap-2">
+            <ArrowRightLeft className="h-4 w-4 text-muted-foreground" />
+            {employeeId && assignment.assets ? (
+              <Link to={`/assets/${assignment.asset_id}`} className="font-medium hover:underline">
+                {formatAsset(assignment.assets)}
+              </Link>
+            ) : (
+              <span className="font-medium">{assignment.employee_name || 'Deleted employee'}</span>
+            )}
+            {!assignment.returned_at && <Badge variant="secondary">Current</Badge>}
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {format(new Date(assignment.assigned_at), 'PP')}
+            {' → '}
+            {assignment.returned_at ? format(new Date(assignment.returned_at), 'PP') : 'Present'}
+          </p>
+          {assignment.assign_reason && (
+            <p className="text-sm">Assigned: {assignment.assign_reason}</p>
+          )}
+          {assignment.return_reason && (
+            <p className="text-sm">Returned: {assignment.return_reason}</p>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+};
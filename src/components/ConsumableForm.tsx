@@ -0,0 +1,193 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import { useDeployedPrinters } from '@/hooks/useConsumables';
+import { CONSUMABLE_KINDS, normalizePrinterModel, type Consumable } from '@/lib/consumables';
+
+const consumableSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(200),
+  part_number: z.string().max(100).optional(),
+  kind: z.string(),
+  printer_models: z.string().max(1000),
+  min_per_printer: z.coerce.number().int('Whole units only').min(0, 'Cannot be negative'),
+  notes: z.string().max(1000).optional(),
+});
+
+type ConsumableFormData = z.infer<typeof consumableSchema>;
+
+interface ConsumableFormProps {
+  consumable?: Consumable;
+  onSuccess: () => void;
+  onCancel: () => void;
+}
+
+const splitModels = (value: string) => {
+  const seen = new Set<string>();
+  return value
+    .split(',')
+    .map(m => m.trim().replace(/\s+/g, ' '))
+    .filter(m => {
+      const key = normalizePrinterModel(m);
+      if (!m || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+export const ConsumableForm = ({ consumable, onSuccess, onCancel }: ConsumableFormProps) => {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { data: printers } = useDeployedPrinters();
+
+  const {
+    register,
+    handleSubmit,
+    setValue,
+    watch,
+    formState: { errors },
+  } = useForm<ConsumableFormData>({
+    resolver: zodResolver(consumableSchema),
+    defaultValues: {
+      name: consumable?.name || '',
+      part_number: consumable?.part_number || '',
+      kind: consumable?.kind || 'toner',
+      printer_models: consumable?.printer_models.join(', ') || '',
+      min_per_printer: consumable?.min_per_printer ?? 1,
+      notes: consumable?.notes || '',
+    },
+  });
+
+  const kind = watch('kind');
+  const printerModels = watch('printer_models');
+
+  // Offer the models actually deployed that aren't listed yet
+  const listed = new Set(splitModels(printerModels).map(normalizePrinterModel));
+  const suggestions = [...new Map(
+    (printers || [])
+      .filter(p => p.model && !listed.has(normalizePrinterModel(p.model)))
+      .map(p => [normalizePrinterModel(p.model!), p.model!.trim()])
+  ).values()].sort();
+
+  const addModel = (model: string) => {
+    setValue('printer_models', [...splitModels(printerModels), model].join(', '));
+  };
+
+  const onSubmit = async (data: ConsumableFormData) => {
+    setIsSubmitting(true);
+    try {
+      const values = {
+        name: data.name,
+        part_number: data.part_number?.trim() || null,
+        kind: data.kind,
+        printer_models: splitModels(data.printer_models),
+        min_per_printer: data.min_per_printer,
+        notes: data.notes || null,
+      };
+
+      const { data: { user } } = await supabase.auth.getUser();
+      const { error } = consumable?.id
+        ? await supabase.from('consumables').update(values).eq('id', consumable.id)
+        : await supabase.from('consumables').insert({ ...values, created_by: user?.id });
+
+      if (error) {
+        throw error.code === '23505' ? new Error('A consumable with this part number already exists') : error;
+      }
+      toast.success(consumable ? 'Consumable updated' : 'Consumable added');
+
+      onSuccess();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'An error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="consumable_name">Name *</Label>
+          <Input id="consumable_name" {...register('name')} placeholder="e.g., HP 58A Black Toner" />
+          {errors.name && <p className="text-sm text-destructive">{errors.name.message}</p>}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="part_number">Part Number</Label>
+          <Input id="part_number" {...register('part_number')} placeholder="e.g., CF258A" />
+        </div>
+        <div className="space-y-2">
+          <Label>Kind</Label>
+          <Select value={kind} onValueChange={(value) => setValue('kind', value)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CONSUMABLE_KINDS.map(k => (
+                <SelectItem key={k.value} value={k.value}>
+                  {k.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="min_per_printer">Minimum Stock per Printer</Label>
+          <Input id="min_per_printer" type="number" min={0} {...register('min_per_printer')} />
+          {errors.min_per_printer && <p className="text-sm text-destructive">{errors.min_per_printer.message}</p>}
+        </div>
+        <div className="space-y-2 md:col-span-2">
+          <Label htmlFor="printer_models">Fits Printer Models</Label>
+          <Input
+            id="printer_models"
+            {...register('printer_models')}
+            placeholder="Comma separated, e.g., LaserJet Pro M404dn, LaserJet Pro M428fdw"
+          />
+          {suggestions.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              <span className="text-xs text-muted-foreground">Deployed models:</span>
+              {suggestions.map(model => (
+                <Button
+                  key={model}
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="h-6 px-2 text-xs"
+                  onClick={() => addModel(model)}
+                >
+                  {model}
+                </Button>
+              ))}
+            </div>
+          )}
+        </div>
+        <div className="space-y-2 md:col-span-2">
+          <Label htmlFor="consumable_notes">Notes</Label>
+          <Textarea id="consumable_notes" {...register('notes')} />
+        </div>
+      </div>
+
+      <div className="flex gap-4">
+        <Button type="submit" disabled={isSubmitting} className="flex-1">
+          {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {consumable ? 'Update Consumable' : 'Add Consumable'}
+        </Button>
+        <Button type="button" variant="outline" onClick={onCancel} disabled={isSubmitting}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,236 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2 } from 'lucide-react';
+import { EmployeePicker } from '@/components/EmployeePicker';
+import { useLocations } from '@/hooks/useLocations';
+import { useConsumables } from '@/hooks/useConsumables';
+import { formatAsset } from '@/lib/assets';
+import { fitsPrinterModel, formatConsumable } from '@/lib/consumables';
+
+const NO_PRINTER = '__none__';
+
+interface ConsumableTransactionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  transactionType: 'receive' | 'issue';
+  consumableId?: string;
+  locationId?: string;
+}
+
+// Receive stock into a location, or issue it to an employee's printer
+export const ConsumableTransactionDialog = ({
+  open,
+  onOpenChange,
+  transactionType,
+  consumableId: initialConsumableId,
+  locationId: initialLocationId,
+}: ConsumableTransactionDialogProps) => {
+  const queryClient = useQueryClient();
+  const { data: consumables } = useConsumables();
+  const { data: locations } = useLocations();
+  const [consumableId, setConsumableId] = useState('');
+  const [locationId, setLocationId] = useState('');
+  const [quantity, setQuantity] = useState('1');
+  const [employeeId, setEmployeeId] = useState<string | null>(null);
+  const [assetId, setAssetId] = useState(NO_PRINTER);
+  const [notes, setNotes] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const isIssue = transactionType === 'issue';
+
+  useEffect(() => {
+    if (!open) return;
+    setConsumableId(initialConsumableId || '');
+    setLocationId(initialLocationId || '');
+    setQuantity('1');
+    setEmployeeId(null);
+    setAssetId(NO_PRINTER);
+    setNotes('');
+  }, [open, initialConsumableId, initialLocationId]);
+
+  const { data: employeePrinters } = useQuery({
+    queryKey: ['employee-printers', employeeId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('assets')
+        .select('*')
+        .eq('employee_id', employeeId!)
+        .eq('asset_type', 'printer');
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: isIssue && !!employeeId,
+  });
+
+  const consumable = consumables?.find(c => c.id === consumableId);
+  // Printers this item fits come first, but any of the employee's printers can be picked
+  const printers = [...(employeePrinters || [])].sort((a, b) =>
+    Number(!!consumable && fitsPrinterModel(consumable, b.model)) -
+    Number(!!consumable && fitsPrinterModel(consumable, a.model))
+  );
+
+  const handleSubmit = async () => {
+    const amount = Number(quantity);
+    if (!consumableId || !locationId) {
+      toast.error('Select a consumable and location');
+      return;
+    }
+    if (!Number.isInteger(amount) || amount < 1) {
+      toast.error('Quantity must be a whole number above zero');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      const { error } = await supabase.from('consumable_transactions').insert({
+        consumable_id: consumableId,
+        location_id: locationId,
+        transaction_type: transactionType,
+        quantity: amount,
+        employee_id: isIssue ? employeeId : null,
+        asset_id: isIssue && assetId !== NO_PRINTER ? assetId : null,
+        notes: notes.trim() || null,
+        performed_by: user?.id,
+      });
+
+      if (error) throw error;
+      toast.success(isIssue ? 'Consumable issued' : 'Stock received');
+      queryClient.invalidateQueries({ queryKey: ['consumable-stock'] });
+      queryClient.invalidateQueries({ queryKey: ['consumable-transactions'] });
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'An error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{isIssue ? 'Issue Consumable' : 'Receive Stock'}</DialogTitle>
+          <DialogDescription>
+            {isIssue ? 'Hand out stock from a location' : 'Add delivered stock to a location'}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Consumable</Label>
+            <Select value={consumableId} onValueChange={setConsumableId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select consumable" />
+              </SelectTrigger>
+              <SelectContent>
+                {consumables?.map(c => (
+                  <SelectItem key={c.id} value={c.id}>
+                    {formatConsumable(c)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Location</Label>
+              <Select value={locationId} onValueChange={setLocationId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select location" />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations?.map(loc => (
+                    <SelectItem key={loc.id} value={loc.id}>
+                      {loc.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="consumable-quantity">Quantity</Label>
+              <Input
+                id="consumable-quantity"
+                type="number"
+                min={1}
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+              />
+            </div>
+          </div>
+          {isIssue && (
+            <>
+              <div className="space-y-2">
+                <Label>Requested By</Label>
+                <EmployeePicker
+                  value={employeeId}
+                  onChange={(id) => {
+                    setEmployeeId(id);
+                    setAssetId(NO_PRINTER);
+                  }}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Printer</Label>
+                <Select value={assetId} onValueChange={setAssetId} disabled={!employeeId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_PRINTER}>Not recorded</SelectItem>
+                    {printers.map(printer => (
+                      <SelectItem key={printer.id} value={printer.id}>
+                        {formatAsset(printer)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="consumable-notes">Notes</Label>
+            <Textarea
+              id="consumable-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder={isIssue ? 'e.g., Ticket #42' : 'e.g., Invoice number or supplier'}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {isIssue ? 'Issue' : 'Receive'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,5 +1,5 @@
-import { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useState, useEffect } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -10,17 +10,66 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Switch } from '@/components/ui/switch';
-import { Loader2, Plus, Trash2 } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ExternalLink, Loader2, Plus, Trash2 } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
+import { useAppSettings } from '@/hooks/useAppSettings';
+import { useLocations } from '@/hooks/useLocations';
+import { useMyLocationScope } from '@/hooks/useUserRoles';
+import { useDepartments, getDepartmentsForLocation, findDepartment, findSection } from '@/hooks/useDepartments';
+import { ASSET_TYPES, type Asset } from '@/lib/assets';
+import { useSubnets, useIpUsage } from '@/hooks/useSubnets';
+import { findSubnet, formatCidr, getReservedReason, isValidIPv4, suggestNextFreeIp } from '@/lib/ipam';
+import { fetchIdentifierRecords } from '@/hooks/useDuplicates';
+import {
+  describeDuplicate,
+  findDuplicates,
+  getAssetIdentifiers,
+  getEmployeeIdentifiers,
+  getIdentifierRecordPath,
+  type DuplicateMatch,
+} from '@/lib/duplicates';
 
-interface CustomPeripheral {
-  id: string;
+interface DeviceRow {
+  key: string;
+  id?: string; // Set for devices already stored in assets
+  asset_type: string;
   name: string;
   model: string;
-  serial: string;
-  [key: string]: string; // Add index signature for Json compatibility
+  serial_number: string;
 }
 
+const toDeviceRow = (asset: Asset): DeviceRow => ({
+  key: asset.id,
+  id: asset.id,
+  asset_type: asset.asset_type,
+  name: asset.name || '',
+  model: asset.model || '',
+  serial_number: asset.serial_number || '',
+});
+
+const isEmptyDevice = (device: DeviceRow) =>
+  !device.name.trim() && !device.model.trim() && !device.serial_number.trim();
+
+// Select items can't have an empty value, so "None" uses a placeholder
+const NONE = '__none__';
+
 const employeeSchema = z.object({
   employee_code: z.string().max(50).optional(),
   name: z.string().max(100).optional(),
@@ -31,16 +80,20 @@ const employeeSchema = z.object({
   location: z.string().min(1, 'Location is required').max(100),
   computer_name: z.string().max(100).optional(),
   computer_serial: z.string().max(100).optional(),
-  ip_address: z.string().max(15).optional(),
+  ip_address: z
+    .string()
+    .trim()
+    .refine(value => !value || isValidIPv4(value), 'Enter a valid IPv4 address, e.g. 192.168.1.10')
+    .optional(),
   specs: z.string().max(500).optional(),
-  led_model: z.string().max(100).optional(),
-  led_serial: z.string().max(100).optional(),
-  printer_model: z.string().max(100).optional(),
-  printer_serial: z.string().max(100).optional(),
-  scanner_model: z.string().max(100).optional(),
-  scanner_serial: z.string().max(100).optional(),
-  keyboard: z.string().max(100).optional(),
-  mouse: z.string().max(100).optional(),
+  computer_vendor: z.string().max(100).optional(),
+  computer_purchase_order: z.string().max(100).optional(),
+  computer_purchase_date: z.string().optional(),
+  computer_cost: z.preprocess(
+    (value) => (value === '' || value === null ? undefined : value),
+    z.coerce.number().min(0, 'Cost cannot be negative').optional()
+  ),
+  computer_warranty_end: z.string().optional(),
   internet_access: z.boolean(),
   usb_access: z.boolean(),
   last_pm: z.string().optional(),
@@ -56,17 +109,25 @@ interface EmployeeFormProps {
 
 export const EmployeeForm = ({ employee, onSuccess }: EmployeeFormProps) => {
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [customPeripherals, setCustomPeripherals] = useState<CustomPeripheral[]>(
-    employee?.custom_peripherals || []
-  );
+  const [devices, setDevices] = useState<DeviceRow[]>([]);
+  const [originalAssets, setOriginalAssets] = useState<Asset[]>([]);
+  const [duplicateCheck, setDuplicateCheck] = useState<{ data: EmployeeFormData; matches: DuplicateMatch[] } | null>(null);
   const navigate = useNavigate();
   const { isAdmin } = useAuth();
+  const { data: settings } = useAppSettings();
+  const { data: locations } = useLocations();
+  // Technicians can only file employees under their own locations
+  const { data: locationScope } = useMyLocationScope();
+  const { data: departments } = useDepartments();
+  const { data: subnets } = useSubnets();
+  const { data: ipUsage } = useIpUsage();
 
   const {
     register,
     handleSubmit,
     formState: { errors },
     setValue,
+    setError,
     watch,
   } = useForm<EmployeeFormData>({
     resolver: zodResolver(employeeSchema),
@@ -78,27 +139,218 @@ export const EmployeeForm = ({ employee, onSuccess }: EmployeeFormProps) => {
 
   const internetAccess = watch('internet_access');
   const usbAccess = watch('usb_access');
+  const selectedLocation = watch('location');
+  const selectedDepartment = watch('department');
+  const selectedSection = watch('section');
+
+  const locationId = locations?.find(l => l.name === selectedLocation)?.id;
+  // Same-named departments (global and location-scoped) are offered once
+  const departmentNames = [...new Set(
+    getDepartmentsForLocation(departments || [], locationId).map(d => d.name)
+  )];
+  const department = selectedDepartment
+    ? findDepartment(departments || [], selectedDepartment, locationId)
+    : undefined;
+
+  const ipAddress = watch('ip_address')?.trim() || '';
+  const locationSubnets = subnets?.filter(s => s.location_id === locationId) || [];
+  const otherIps = ipUsage?.filter(u => u.id !== employee?.id) || [];
+  const nextFreeIp = suggestNextFreeIp(locationSubnets, otherIps.map(u => u.ip_address!.trim()));
 
-  const addCustomPeripheral = () => {
-    setCustomPeripherals([
-      ...customPeripherals,
-      { id: crypto.randomUUID(), name: '', model: '', serial: '' }
+  // Addresses outside this location's subnets, or reserved within them, can't be saved
+  const getIpProblem = (ip: string) => {
+    if (locationSubnets.length === 0) return null;
+    const subnet = findSubnet(locationSubnets, ip);
+    if (!subnet) return `Outside the subnets of ${selectedLocation}`;
+    const reserved = getReservedReason(ip, subnet);
+    return reserved ? `${ip} ${reserved} of ${formatCidr(subnet)}` : null;
+  };
+  const ipProblem = ipAddress && isValidIPv4(ipAddress) ? getIpProblem(ipAddress) : null;
+  // Addresses already in use are only a warning, confirmed through the duplicate check on save
+  const ipUsedBy = ipAddress ? otherIps.find(u => u.ip_address?.trim() === ipAddress)?.name : undefined;
+
+  useEffect(() => {
+    if (!employee?.id) return;
+
+    const fetchAssets = async () => {
+      const { data, error } = await supabase
+        .from('assets')
+        .select('*')
+        .eq('employee_id', employee.id)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        toast.error(error.message);
+        return;
+      }
+
+      setOriginalAssets(data || []);
+      setDevices((data || []).map(toDeviceRow));
+    };
+
+    fetchAssets();
+  }, [employee?.id]);
+
+  // Custom device types are limited to admins, as the old custom peripherals were
+  const deviceTypes = ASSET_TYPES.filter(t => isAdmin || t.value !== 'other');
+  // Devices can't go through the approval queue, so only admins change them on
+  // existing employees while it's on. New employees get theirs with the record.
+  const devicesLocked = !!employee?.id && !isAdmin && !!settings?.require_change_approval;
+
+  const addDevice = () => {
+    setDevices([
+      ...devices,
+      { key: crypto.randomUUID(), asset_type: 'monitor', name: '', model: '', serial_number: '' }
     ]);
   };
 
-  const removeCustomPeripheral = (id: string) => {
-    setCustomPeripherals(customPeripherals.filter(p => p.id !== id));
+  const removeDevice = (key: string) => {
+    setDevices(devices.filter(d => d.key !== key));
   };
 
-  const updateCustomPeripheral = (id: string, field: keyof Omit<CustomPeripheral, 'id'>, value: string) => {
-    setCustomPeripherals(customPeripherals.map(p => 
-      p.id === id ? { ...p, [field]: value } : p
+  const updateDevice = (key: string, field: keyof Omit<DeviceRow, 'key' | 'id'>, value: string) => {
+    setDevices(devices.map(d => 
+      d.key === key ? { ...d, [field]: value } : d
     ));
   };
 
-  const onSubmit = async (data: EmployeeFormData) => {
+  const toDeviceValues = (device: DeviceRow) => ({
+    asset_type: device.asset_type,
+    name: device.asset_type === 'other' ? device.name.trim() || null : null,
+    model: device.model.trim() || null,
+    serial_number: device.serial_number.trim() || null,
+  });
+
+  const isDeviceUnchanged = (device: DeviceRow) => {
+    const original = originalAssets.find(a => a.id === device.id);
+    const values = toDeviceValues(device);
+    return !!original
+      && original.asset_type === values.asset_type
+      && original.name === values.name
+      && original.model === values.model
+      && original.serial_number === values.serial_number;
+  };
+
+  const hasDeviceChanges = () => {
+    const validDevices = devices.filter(d => !isEmptyDevice(d));
+    return validDevices.length !== originalAssets.length || !validDevices.every(isDeviceUnchanged);
+  };
+
+  // Returns the devices written, so the update email can read their audit entries
+  const saveDevices = async (employeeId: string, userId: string) => {
+    const validDevices = devices.filter(d => !isEmptyDevice(d));
+    const keptIds = new Set(validDevices.filter(d => d.id).map(d => d.id));
+
+    // Devices removed from the form go back to stock instead of being deleted
+    const removedIds = originalAssets.filter(a => !keptIds.has(a.id)).map(a => a.id);
+    if (removedIds.length > 0) {
+      const { error } = await supabase
+        .from('assets')
+        .update({ employee_id: null, status: 'in_stock' })
+        .in('id', removedIds);
+      if (error) throw error;
+    }
+
+    const savedIds = [...removedIds];
+    for (const device of validDevices) {
+      const values = toDeviceValues(device);
+
+      if (device.id) {
+        if (isDeviceUnchanged(device)) continue;
+
+        const { error } = await supabase
+          .from('assets')
+          .update(values)
+          .eq('id', device.id);
+        if (error) throw error;
+        savedIds.push(device.id);
+      } else {
+        const { data: inserted, error } = await supabase
+          .from('assets')
+          .insert({ ...values, employee_id: employeeId, status: 'assigned', created_by: userId })
+          .select('id')
+          .single();
+        if (error) throw error;
+        savedIds.push(inserted.id);
+      }
+    }
+    return savedIds;
+  };
+
+  // Department and section must come from the managed tree for the chosen location
+  const validateDepartment = (data: EmployeeFormData) => {
+    if (!data.department) {
+      if (data.section) {
+        setError('section', { message: 'Select a department first' });
+        return false;
+      }
+      return true;
+    }
+
+    const match = findDepartment(departments || [], data.department, locationId);
+    if (!match) {
+      setError('department', { message: `"${data.department}" is not a department at ${data.location}` });
+      return false;
+    }
+    if (data.section && !findSection(match, data.section)) {
+      setError('section', { message: `"${data.section}" is not a section of ${match.name}` });
+      return false;
+    }
+    return true;
+  };
+
+  const validateIpAddress = (data: EmployeeFormData) => {
+    const ip = data.ip_address?.trim();
+    if (!ip) return true;
+
+    const problem = getIpProblem(ip);
+    if (problem) {
+      setError('ip_address', { message: problem });
+      return false;
+    }
+    return true;
+  };
+
+  // Likely duplicates are only a warning; the user can open them or save anyway
+  const checkDuplicates = async (data: EmployeeFormData) => {
+    const candidates = [
+      ...getEmployeeIdentifiers({ ...data, id: employee?.id }),
+      ...devices
+        .filter(d => !isEmptyDevice(d))
+        .flatMap(d => getAssetIdentifiers({ ...d, employee_id: employee?.id }, data.name || null)),
+    ];
+    if (candidates.length === 0) return [];
+
+    return findDuplicates(await fetchIdentifierRecords(), candidates, employee?.id);
+  };
+
+  const onSubmit = async (data: EmployeeFormData, skipDuplicateCheck = false) => {
+    if (!validateDepartment(data)) return;
+    if (data.computer_purchase_date && data.computer_warranty_end && data.computer_warranty_end < data.computer_purchase_date) {
+      setError('computer_warranty_end', { message: 'Warranty cannot end before the purchase date' });
+      return;
+    }
+
+    // Cleared dates and cost are stored as null rather than empty strings
+    const values = {
+      ...data,
+      computer_purchase_date: data.computer_purchase_date || null,
+      computer_cost: data.computer_cost ?? null,
+      computer_warranty_end: data.computer_warranty_end || null,
+    };
+
+    let nextPath = '/dashboard';
     setIsSubmitting(true);
     try {
+      if (!validateIpAddress(data)) return;
+      if (!skipDuplicateCheck) {
+        const matches = await checkDuplicates(data);
+        if (matches.length > 0) {
+          setDuplicateCheck({ data, matches });
+          return;
+        }
+      }
+
       const { data: { user } } = await supabase.auth.getUser();
       
       if (!user) {
@@ -106,10 +358,19 @@ export const EmployeeForm = ({ employee, onSuccess }: EmployeeFormProps) => {
         return;
       }
 
-      // Filter custom peripherals to only include items with at least a name
-      const validPeripherals = customPeripherals.filter(p => p.name.trim() !== '');
+      // Checked at save time, since an admin may have switched it on since the form opened
+      const { data: needsApproval, error: settingsError } = isAdmin
+        ? { data: false, error: null }
+        : await supabase.rpc('change_approval_required');
+      if (settingsError) throw settingsError;
 
       if (employee?.id) {
+        // Device changes can't be queued for approval
+        if (needsApproval && hasDeviceChanges()) {
+          toast.error('Only admins can change devices while edits need approval');
+          return;
+        }
+
         // Get user profile for notification
         const { data: profile } = await supabase
           .from('profiles')
@@ -117,52 +378,76 @@ export const EmployeeForm = ({ employee, onSuccess }: EmployeeFormProps) => {
           .eq('id', user.id)
           .single();
 
-        // Update existing employee
-        const { error } = await supabase
-          .from('employees')
-          .update({ ...data, custom_peripherals: validPeripherals })
-          .eq('id', employee.id);
-
-        if (error) throw error;
-        toast.success('Employee updated successfully');
-
-        // Send notification email to admins
-        try {
-          await supabase.functions.invoke('send-employee-update-notification', {
-            body: {
-              employeeName: data.name,
-              employeeDepartment: data.department,
-              employeeSection: data.section,
-              changedBy: profile?.full_name || user.email || 'Unknown User',
-              changedByEmail: profile?.email || user.email || 'unknown@email.com',
-              oldData: employee,
-              newData: data,
-            },
+        if (needsApproval) {
+          // Record edits wait for an admin; devices are left as they are
+          const { data: requestId, error } = await supabase.rpc('request_employee_change', {
+            _employee_id: employee.id,
+            _values: values,
           });
-        } catch (emailError) {
-          console.error('Failed to send notification:', emailError);
-          // Don't show error to user as the update was successful
+
+          if (error) throw error;
+          toast.success(requestId ? 'Changes sent to an admin for approval' : 'Employee updated successfully');
+        } else {
+          // Update existing employee
+          const { error } = await supabase
+            .from('employees')
+            .update(values)
+            .eq('id', employee.id);
+
+          if (error) throw error;
+          const assetIds = await saveDevices(employee.id, user.id);
+          toast.success('Employee updated successfully');
+
+          // Send notification email to admins
+          try {
+            await supabase.functions.invoke('send-employee-update-notification', {
+              body: {
+                employeeName: data.name,
+                employeeDepartment: data.department,
+                employeeSection: data.section,
+                changedBy: profile?.full_name || user.email || 'Unknown User',
+                changedByEmail: profile?.email || user.email || 'unknown@email.com',
+                employeeId: employee.id,
+                assetIds,
+                oldData: employee,
+                newData: data,
+              },
+            });
+          } catch (emailError) {
+            console.error('Failed to send notification:', emailError);
+            // Don't show error to user as the update was successful
+          }
         }
       } else {
         // Create new employee
         const employeeData: any = {
-          ...data,
+          ...values,
           created_by: user.id,
-          custom_peripherals: validPeripherals,
         };
         
-        const { error } = await supabase
+        const { data: created, error } = await supabase
           .from('employees')
-          .insert(employeeData);
+          .insert(employeeData)
+          .select('id')
+          .single();
 
         if (error) throw error;
+        await saveDevices(created.id, user.id);
         toast.success('Employee added successfully');
+
+        // The rest of the joiner's setup is tracked on the onboarding checklist
+        const { error: onboardingError } = await supabase.rpc('start_onboarding', { _employee_id: created.id });
+        if (onboardingError) {
+          toast.error(`Onboarding checklist not started: ${onboardingError.message}`);
+        } else {
+          nextPath = `/onboarding/${created.id}`;
+        }
       }
 
       if (onSuccess) {
         onSuccess();
       } else {
-        navigate('/dashboard');
+        navigate(nextPath);
       }
     } catch (error: any) {
       toast.error(error.message || 'An error occurred');
@@ -172,7 +457,7 @@ export const EmployeeForm = ({ employee, onSuccess }: EmployeeFormProps) => {
   };
 
   return (
-    <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+    <form onSubmit={handleSubmit(data => onSubmit(data))} className="space-y-6">
       <Card>
         <CardHeader>
           <CardTitle>Personal Information</CardTitle>
@@ -200,12 +485,46 @@ export const EmployeeForm = ({ employee, onSuccess }: EmployeeFormProps) => {
           </div>
           <div className="space-y-2">
             <Label htmlFor="department">Department</Label>
-            <Input id="department" {...register('department')} />
+            <Select
+              value={selectedDepartment || undefined}
+              onValueChange={(value) => {
+                setValue('department', value === NONE ? '' : value, { shouldValidate: true });
+                setValue('section', '');
+              }}
+            >
+              <SelectTrigger id="department">
+                <SelectValue placeholder={selectedLocation ? 'Select department' : 'Select a location first'} />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>None</SelectItem>
+                {departmentNames.map(name => (
+                  <SelectItem key={name} value={name}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
             {errors.department && <p className="text-sm text-destructive">{errors.department.message}</p>}
           </div>
           <div className="space-y-2">
             <Label htmlFor="section">Section</Label>
-            <Input id="section" {...register('section')} />
+            <Select
+              value={selectedSection || undefined}
+              onValueChange={(value) => setValue('section', value === NONE ? '' : value, { shouldValidate: true })}
+              disabled={!department}
+            >
+              <SelectTrigger id="section">
+                <SelectValue placeholder={department ? 'Select section' : 'Select a department first'} />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>None</SelectItem>
+                {department?.sections.map(section => (
+                  <SelectItem key={section.id} value={section.name}>
+                    {section.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
             {errors.section && <p className="text-sm text-destructive">{errors.section.message}</p>}
           </div>
           <div className="space-y-2">
@@ -214,7 +533,21 @@ export const EmployeeForm = ({ employee, onSuccess }: EmployeeFormProps) => {
           </div>
           <div className="space-y-2">
             <Label htmlFor="location">Location *</Label>
-            <Input id="location" {...register('location')} placeholder="e.g., Kashmir Road" />
+            <Select
+              value={selectedLocation || undefined}
+              onValueChange={(value) => setValue('location', value, { shouldValidate: true })}
+            >
+              <SelectTrigger id="location">
+                <SelectValue placeholder="Select location" />
+              </SelectTrigger>
+              <SelectContent>
+                {locations?.filter(loc => !locationScope || locationScope.editable.includes(loc.name)).map(loc => (
+                  <SelectItem key={loc.id} value={loc.name}>
+                    {loc.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
             {errors.location && <p className="text-sm text-destructive">{errors.location.message}</p>}
           </div>
         </CardContent>
@@ -236,16 +569,65 @@ export const EmployeeForm = ({ employee, onSuccess }: EmployeeFormProps) => {
           </div>
           <div className="space-y-2">
             <Label htmlFor="ip_address">IP Address</Label>
-            <Input id="ip_address" {...register('ip_address')} placeholder="192.168.1.1" />
+            <Input id="ip_address" {...register('ip_address')} placeholder={nextFreeIp || '192.168.1.1'} />
+            {errors.ip_address ? (
+              <p className="text-sm text-destructive">{errors.ip_address.message}</p>
+            ) : ipProblem ? (
+              <p className="text-sm text-destructive">{ipProblem}</p>
+            ) : ipUsedBy ? (
+              <p className="text-sm text-muted-foreground">Also assigned to {ipUsedBy}; you'll be asked to confirm on save</p>
+            ) : locationSubnets.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {selectedLocation}: {locationSubnets.map(formatCidr).join(', ')}
+              </p>
+            )}
+            {nextFreeIp && nextFreeIp !== ipAddress && (!ipAddress || !!ipProblem || !!ipUsedBy) && (
+              <Button
+                type="button"
+                variant="link"
+                size="sm"
+                className="h-auto p-0"
+                onClick={() => setValue('ip_address', nextFreeIp, { shouldValidate: true })}
+              >
+                Use next free address {nextFreeIp}
+              </Button>
+            )}
           </div>
           <div className="space-y-2">
             <Label htmlFor="last_pm">Last Preventive Maintenance</Label>
             <Input id="last_pm" type="date" {...register('last_pm')} />
+            <p className="text-xs text-muted-foreground">
+              Set automatically when a PM visit and checklist is logged
+            </p>
           </div>
           <div className="space-y-2 md:col-span-2">
             <Label htmlFor="specs">Specifications</Label>
             <Input id="specs" {...register('specs')} placeholder="CPU, RAM, Storage, etc." />
           </div>
+          <div className="space-y-2">
+            <Label htmlFor="computer_vendor">Vendor</Label>
+            <Input id="computer_vendor" {...register('computer_vendor')} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="computer_purchase_order">Purchase Order</Label>
+            <Input id="computer_purchase_order" {...register('computer_purchase_order')} placeholder="e.g., PO-2024-0113" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="computer_purchase_date">Purchase Date</Label>
+            <Input id="computer_purchase_date" type="date" {...register('computer_purchase_date')} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="computer_cost">Cost</Label>
+            <Input id="computer_cost" type="number" min={0} step="0.01" {...register('computer_cost')} />
+            {errors.computer_cost && <p className="text-sm text-destructive">{errors.computer_cost.message}</p>}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="computer_warranty_end">Warranty End Date</Label>
+            <Input id="computer_warranty_end" type="date" {...register('computer_warranty_end')} />
+            {errors.computer_warranty_end && (
+              <p className="text-sm text-destructive">{errors.computer_warranty_end.message}</p>
+            )}
+          </div>
         </CardContent>
       </Card>
 
@@ -254,96 +636,84 @@ export const EmployeeForm = ({ employee, onSuccess }: EmployeeFormProps) => {
           <CardTitle>Peripherals</CardTitle>
           <CardDescription>Monitor, printer, and other devices</CardDescription>
         </CardHeader>
-        <CardContent className="space-y-6">
-          <div className="grid gap-4 md:grid-cols-2">
-            <div className="space-y-2">
-              <Label htmlFor="led_model">Monitor/LED Model</Label>
-              <Input id="led_model" {...register('led_model')} />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="led_serial">Monitor Serial Number</Label>
-              <Input id="led_serial" {...register('led_serial')} />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="printer_model">Printer Model</Label>
-              <Input id="printer_model" {...register('printer_model')} />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="printer_serial">Printer Serial Number</Label>
-              <Input id="printer_serial" {...register('printer_serial')} />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="scanner_model">Scanner Model</Label>
-              <Input id="scanner_model" {...register('scanner_model')} />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="scanner_serial">Scanner Serial Number</Label>
-              <Input id="scanner_serial" {...register('scanner_serial')} />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="keyboard">Keyboard</Label>
-              <Input id="keyboard" {...register('keyboard')} />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="mouse">Mouse</Label>
-              <Input id="mouse" {...register('mouse')} />
-            </div>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between">
+            <p className="text-xs text-muted-foreground">
+              {devicesLocked
+                ? 'Edits need approval, so only admins can change devices'
+                : 'Each device is tracked as its own asset'}
+            </p>
+            <Button type="button" variant="outline" size="sm" onClick={addDevice} disabled={devicesLocked}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Device
+            </Button>
           </div>
 
-          {/* Custom Peripherals Section - Admin Only */}
-          {isAdmin && (
-            <div className="border-t pt-6 space-y-4">
-              <div className="flex items-center justify-between">
-                <div>
-                  <h4 className="text-sm font-medium">Additional Peripherals</h4>
-                  <p className="text-xs text-muted-foreground">Add custom peripheral devices</p>
-                </div>
-                <Button type="button" variant="outline" size="sm" onClick={addCustomPeripheral}>
-                  <Plus className="h-4 w-4 mr-1" />
-                  Add Item
+          {devices.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-4">No devices assigned</p>
+          )}
+
+          {devices.map((device) => (
+            <div key={device.key} className="grid gap-3 md:grid-cols-5 p-4 border rounded-lg bg-muted/30">
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select
+                  value={device.asset_type}
+                  onValueChange={(value) => updateDevice(device.key, 'asset_type', value)}
+                  disabled={devicesLocked || (!isAdmin && device.asset_type === 'other')}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(device.asset_type === 'other' && !isAdmin ? ASSET_TYPES : deviceTypes).map(type => (
+                      <SelectItem key={type.value} value={type.value}>
+                        {type.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Device Name</Label>
+                <Input 
+                  placeholder={device.asset_type === 'other' ? 'e.g., Webcam' : 'Named by type'}
+                  value={device.name}
+                  disabled={devicesLocked || device.asset_type !== 'other'}
+                  onChange={(e) => updateDevice(device.key, 'name', e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Model</Label>
+                <Input 
+                  placeholder="Model number"
+                  value={device.model}
+                  disabled={devicesLocked}
+                  onChange={(e) => updateDevice(device.key, 'model', e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Serial Number</Label>
+                <Input 
+                  placeholder="Serial number"
+                  value={device.serial_number}
+                  disabled={devicesLocked}
+                  onChange={(e) => updateDevice(device.key, 'serial_number', e.target.value)}
+                />
+              </div>
+              <div className="flex items-end">
+                <Button 
+                  type="button" 
+                  variant="destructive" 
+                  size="icon"
+                  onClick={() => removeDevice(device.key)}
+                  disabled={devicesLocked}
+                >
+                  <Trash2 className="h-4 w-4" />
                 </Button>
               </div>
-              
-              {customPeripherals.map((peripheral) => (
-                <div key={peripheral.id} className="grid gap-3 md:grid-cols-4 p-4 border rounded-lg bg-muted/30">
-                  <div className="space-y-2">
-                    <Label>Device Name</Label>
-                    <Input 
-                      placeholder="e.g., Webcam"
-                      value={peripheral.name}
-                      onChange={(e) => updateCustomPeripheral(peripheral.id, 'name', e.target.value)}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label>Model</Label>
-                    <Input 
-                      placeholder="Model number"
-                      value={peripheral.model}
-                      onChange={(e) => updateCustomPeripheral(peripheral.id, 'model', e.target.value)}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label>Serial Number</Label>
-                    <Input 
-                      placeholder="Serial number"
-                      value={peripheral.serial}
-                      onChange={(e) => updateCustomPeripheral(peripheral.id, 'serial', e.target.value)}
-                    />
-                  </div>
-                  <div className="flex items-end">
-                    <Button 
-                      type="button" 
-                      variant="destructive" 
-                      size="icon"
-                      onClick={() => removeCustomPeripheral(peripheral.id)}
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
-                  </div>
-                </div>
-              ))}
             </div>
-          )}
+          ))}
         </CardContent>
       </Card>
 
@@ -390,6 +760,46 @@ export const EmployeeForm = ({ employee, onSuccess }: EmployeeFormProps) => {
           Cancel
         </Button>
       </div>
+
+      <AlertDialog open={!!duplicateCheck} onOpenChange={(open) => !open && setDuplicateCheck(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Possible duplicate</AlertDialogTitle>
+            <AlertDialogDescription>
+              Some details on this employee are already recorded elsewhere. Open the existing record to check it
+              before saving.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <ul className="space-y-2">
+            {duplicateCheck?.matches.map((match, index) => (
+              <li
+                key={index}
+                className="flex items-center justify-between gap-2 p-3 rounded-lg border border-border/50 text-sm"
+              >
+                <span>{describeDuplicate(match)}</span>
+                <Button asChild size="sm" variant="outline" className="shrink-0">
+                  <Link to={getIdentifierRecordPath(match.existing)} target="_blank" rel="noreferrer">
+                    <ExternalLink className="h-4 w-4 mr-1" />
+                    Open
+                  </Link>
+                </Button>
+              </li>
+            ))}
+          </ul>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Go Back</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                const data = duplicateCheck!.data;
+                setDuplicateCheck(null);
+                onSubmit(data, true);
+              }}
+            >
+              Save Anyway
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </form>
   );
 };
@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Check, ChevronsUpDown } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface EmployeePickerProps {
+  value: string | null;
+  onChange: (employeeId: string) => void;
+  placeholder?: string;
+  disabled?: boolean;
+}
+
+export const EmployeePicker = ({ value, onChange, placeholder = 'Select employee...', disabled }: EmployeePickerProps) => {
+  const [open, setOpen] = useState(false);
+
+  const { data: employees } = useQuery({
+    queryKey: ['employee-options'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('employees')
+        .select('id, name, employee_code, location')
+        .is('archived_at', null)
+        .is('deleted_at', null)
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const selected = employees?.find(e => e.id === value);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          disabled={disabled}
+          className={cn('w-full justify-between font-normal', !selected && 'text-muted-foreground')}
+        >
+          <span className="truncate">{selected ? selected.name || 'Unnamed' : placeholder}</span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search by name, code or location..." />
+          <CommandList>
+            <CommandEmpty>No employees found</CommandEmpty>
+            <CommandGroup>
+              {employees?.map(employee => (
+                <CommandItem
+                  key={employee.id}
+                  value={`${employee.name || ''} ${employee.employee_code || ''} ${employee.location || ''} ${employee.id}`}
+                  onSelect={() => {
+                    onChange(employee.id);
+                    setOpen(false);
+                  }}
+                >
+                  <Check className={cn('mr-2 h-4 w-4', value === employee.id ? 'opacity-100' : 'opacity-0')} />
+                  <div className="flex flex-col">
+                    <span>{employee.name || 'Unnamed'}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {[employee.employee_code, employee.location].filter(Boolean).join(' • ')}
+                    </span>
+                  </div>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import * as XLSX from 'xlsx';
@@ -12,6 +13,7 @@ import {
 } from '@/components/ui/table';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import {
   Select,
   SelectContent,
@@ -38,11 +40,31 @@ import {
 } from '@/components/ui/alert-dialog';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { EmployeeForm } from './EmployeeForm';
-import { Download, Edit, Eye, Loader2, Search, Trash2, Filter, Users, Calendar as CalendarIcon, X, FileSpreadsheet, Printer } from 'lucide-react';
+import { AssignmentTimeline } from './AssignmentTimeline';
+import { PmHistory } from './PmHistory';
+import { PmLogDialog } from './PmLogDialog';
+import { TicketList } from './TicketList';
+import { LabelDialog } from './LabelDialog';
+import { Download, Edit, Eye, Loader2, Search, Trash2, Filter, Users, Calendar as CalendarIcon, X, FileSpreadsheet, Printer, Wrench, QrCode, UserMinus } from 'lucide-react';
 import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
+import { useLocations } from '@/hooks/useLocations';
+import { useMyLocationScope } from '@/hooks/useUserRoles';
+import { useCanLogPm } from '@/hooks/usePmSchedule';
+import { useAuth } from '@/hooks/useAuth';
+import { useDepartments, getDepartmentsForLocation } from '@/hooks/useDepartments';
+import { ASSET_TYPES, formatAsset, getAssetName, getAssetStatusLabel, type Asset } from '@/lib/assets';
+import {
+  LICENSE_EXPIRY_LABELS,
+  getLicenseExpiryStatus,
+  getLicenseModelLabel,
+  type LicenseSeat,
+  type SoftwareLicense,
+} from '@/lib/licenses';
+import { getEmploymentStatusLabel, getEmploymentStatusVariant } from '@/lib/offboarding';
+import { WARRANTY_STATUS_LABELS, formatCost, getWarrantyStatus, getWarrantyStatusVariant } from '@/lib/warranty';
 
 interface Employee {
   id: string;
@@ -53,11 +75,25 @@ interface Employee {
   section: string;
   location: string | null;
   computer_name: string | null;
+  computer_serial: string | null;
   ip_address: string | null;
   extension_number: string | null;
+  employment_status: string;
+  exit_date: string | null;
+  archived_at: string | null;
+  deleted_at: string | null;
+  created_by: string | null;
   created_at: string;
 }
 
+// Everything the view dialog shows about one employee
+const fetchEmployeeDetails = (employeeId: string) =>
+  supabase
+    .from('employees')
+    .select('*, assets(*), license_seats(*, software_licenses(*))')
+    .eq('id', employeeId)
+    .single();
+
 interface EmployeeTableProps {
   isAdmin: boolean;
 }
@@ -71,14 +107,36 @@ export const EmployeeTable = ({ isAdmin }: EmployeeTableProps) => {
   const [selectedEmployee, setSelectedEmployee] = useState<any>(null);
   const [isViewOpen, setIsViewOpen] = useState(false);
   const [isEditOpen, setIsEditOpen] = useState(false);
+  const [isPmLogOpen, setIsPmLogOpen] = useState(false);
+  const [isLabelsOpen, setIsLabelsOpen] = useState(false);
   const [deleteEmployee, setDeleteEmployee] = useState<Employee | null>(null);
-  const [departments, setDepartments] = useState<string[]>([]);
-  const [locations, setLocations] = useState<string[]>([]);
-  const [sections, setSections] = useState<string[]>([]);
   const [locationFilter, setLocationFilter] = useState('all');
   const [sectionFilter, setSectionFilter] = useState('all');
+  const [statusFilter, setStatusFilter] = useState('current');
   const [fromDate, setFromDate] = useState<Date | undefined>(undefined);
   const [toDate, setToDate] = useState<Date | undefined>(undefined);
+  const { data: locationRegistry } = useLocations();
+  const { data: departmentTree } = useDepartments();
+  const { data: locationScope } = useMyLocationScope();
+  const canLogPm = useCanLogPm();
+  const { user } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
+
+  // Cascading filter options come from the managed registries
+  const locations = (locationRegistry || []).map(l => l.name);
+  const departmentsAtLocation = locationFilter === 'all'
+    ? departmentTree || []
+    : getDepartmentsForLocation(
+        departmentTree || [],
+        locationRegistry?.find(l => l.name === locationFilter)?.id
+      );
+  const departments = [...new Set(departmentsAtLocation.map(d => d.name))];
+  const sections = [...new Set(
+    departmentsAtLocation
+      .filter(d => departmentFilter === 'all' || d.name === departmentFilter)
+      .flatMap(d => d.sections.map(sec => sec.name))
+  )].sort();
 
   useEffect(() => {
     fetchEmployees();
@@ -100,12 +158,18 @@ export const EmployeeTable = ({ isAdmin }: EmployeeTableProps) => {
             setEmployees(prev => [payload.new as Employee, ...prev]);
             toast.success('New employee added');
           } else if (payload.eventType === 'UPDATE') {
-            setEmployees(prev => 
-              prev.map(emp => emp.id === payload.new.id ? payload.new as Employee : emp)
-            );
+            const updated = payload.new as Employee;
+            if (updated.deleted_at) {
+              setEmployees(prev => prev.filter(emp => emp.id !== updated.id));
+            } else {
+              setEmployees(prev =>
+                prev.some(emp => emp.id === updated.id)
+                  ? prev.map(emp => emp.id === updated.id ? updated : emp)
+                  : [updated, ...prev]
+              );
+            }
           } else if (payload.eventType === 'DELETE') {
             setEmployees(prev => prev.filter(emp => emp.id !== payload.old.id));
-            toast.success('Employee deleted successfully');
           }
         }
       )
@@ -116,60 +180,40 @@ export const EmployeeTable = ({ isAdmin }: EmployeeTableProps) => {
     };
   }, []);
 
+  // Links to a single employee (e.g. from the duplicate report) open its view dialog
   useEffect(() => {
-    filterEmployees();
-  }, [employees, searchTerm, departmentFilter, locationFilter, sectionFilter, fromDate, toDate]);
+    const employeeId = searchParams.get('employee');
+    if (!employeeId) return;
 
-  // Reset department filter when location changes and update available departments
-  useEffect(() => {
-    if (locationFilter === 'all') {
-      // Show all departments when no location is selected
-      const uniqueDepts = [...new Set(employees.map(e => e.department).filter(dept => dept && dept.trim() !== ''))];
-      setDepartments(uniqueDepts);
-    } else {
-      // Show only departments that exist at the selected location
-      const deptsAtLocation = [...new Set(
-        employees
-          .filter(e => e.location === locationFilter)
-          .map(e => e.department)
-          .filter(dept => dept && dept.trim() !== '')
-      )];
-      setDepartments(deptsAtLocation);
-      
-      // Reset department filter if current selection is not available at this location
-      if (departmentFilter !== 'all' && !deptsAtLocation.includes(departmentFilter)) {
-        setDepartmentFilter('all');
+    fetchEmployeeDetails(employeeId).then(({ data, error }) => {
+      if (error) {
+        toast.error(error.message);
+        return;
       }
-    }
-  }, [locationFilter, employees]);
+      setSelectedEmployee(data);
+      setIsViewOpen(true);
+    });
+    searchParams.delete('employee');
+    setSearchParams(searchParams, { replace: true });
+  }, [searchParams, setSearchParams]);
 
-  // Reset section filter when department changes and update available sections
   useEffect(() => {
-    let filteredByLocation = employees;
-    if (locationFilter !== 'all') {
-      filteredByLocation = filteredByLocation.filter(e => e.location === locationFilter);
+    filterEmployees();
+  }, [employees, searchTerm, departmentFilter, locationFilter, sectionFilter, statusFilter, fromDate, toDate]);
+
+  // Reset department filter if current selection is not available at this location
+  useEffect(() => {
+    if (departmentFilter !== 'all' && departmentTree && !departments.includes(departmentFilter)) {
+      setDepartmentFilter('all');
     }
+  }, [locationFilter, departmentTree]);
 
-    if (departmentFilter === 'all') {
-      // Show all sections when no department is selected (but still respect location filter)
-      const uniqueSections = [...new Set(filteredByLocation.map(e => e.section).filter(sec => sec && sec.trim() !== ''))];
-      setSections(uniqueSections);
-    } else {
-      // Show only sections that exist in the selected department
-      const sectionsInDept = [...new Set(
-        filteredByLocation
-          .filter(e => e.department === departmentFilter)
-          .map(e => e.section)
-          .filter(sec => sec && sec.trim() !== '')
-      )];
-      setSections(sectionsInDept);
-      
-      // Reset section filter if current selection is not available in this department
-      if (sectionFilter !== 'all' && !sectionsInDept.includes(sectionFilter)) {
-        setSectionFilter('all');
-      }
+  // Reset section filter if current selection is not available in this department
+  useEffect(() => {
+    if (sectionFilter !== 'all' && departmentTree && !sections.includes(sectionFilter)) {
+      setSectionFilter('all');
     }
-  }, [departmentFilter, locationFilter, employees]);
+  }, [departmentFilter, locationFilter, departmentTree]);
 
   const fetchEmployees = async () => {
     setLoading(true);
@@ -177,19 +221,12 @@ export const EmployeeTable = ({ isAdmin }: EmployeeTableProps) => {
       const { data, error } = await supabase
         .from('employees')
         .select('*')
+        .is('deleted_at', null)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
 
       setEmployees(data || []);
-      
-      // Extract unique departments, filtering out empty strings
-      const uniqueDepts = [...new Set(data?.map(e => e.department).filter(dept => dept && dept.trim() !== '') || [])];
-      setDepartments(uniqueDepts);
-      
-      // Extract unique locations
-      const uniqueLocations = [...new Set(data?.map(e => e.location).filter(loc => loc && loc.trim() !== '') || [])];
-      setLocations(uniqueLocations);
     } catch (error: any) {
       toast.error(error.message);
     } finally {
@@ -200,6 +237,13 @@ export const EmployeeTable = ({ isAdmin }: EmployeeTableProps) => {
   const filterEmployees = () => {
     let filtered = employees;
 
+    // Employment status filter; archived leavers are hidden unless asked for
+    if (statusFilter === 'current') {
+      filtered = filtered.filter(e => !e.archived_at);
+    } else if (statusFilter !== 'all') {
+      filtered = filtered.filter(e => e.employment_status === statusFilter);
+    }
+
     // Location filter
     if (locationFilter !== 'all') {
       filtered = filtered.filter(e => e.location === locationFilter);
@@ -253,11 +297,7 @@ export const EmployeeTable = ({ isAdmin }: EmployeeTableProps) => {
   };
 
   const handleView = async (employeeId: string) => {
-    const { data, error } = await supabase
-      .from('employees')
-      .select('*')
-      .eq('id', employeeId)
-      .single();
+    const { data, error } = await fetchEmployeeDetails(employeeId);
 
     if (error) {
       toast.error(error.message);
@@ -268,6 +308,14 @@ export const EmployeeTable = ({ isAdmin }: EmployeeTableProps) => {
     setIsViewOpen(true);
   };
 
+  // Mirrors the update policies: admins, technicians at the employee's
+  // location, and otherwise whoever added the record
+  const canEdit = (employee: Employee) =>
+    isAdmin
+    || (locationScope
+      ? !!employee.location && locationScope.editable.includes(employee.location)
+      : employee.created_by === user?.id);
+
   const handleEdit = async (employeeId: string) => {
     const { data, error } = await supabase
       .from('employees')
@@ -288,14 +336,12 @@ export const EmployeeTable = ({ isAdmin }: EmployeeTableProps) => {
     if (!deleteEmployee) return;
 
     try {
-      const { error } = await supabase
-        .from('employees')
-        .delete()
-        .eq('id', deleteEmployee.id);
+      const { error } = await supabase.rpc('delete_employee', { _employee_id: deleteEmployee.id });
 
       if (error) throw error;
+      toast.success(`${deleteEmployee.name} moved to the recycle bin`);
 
-      // Real-time subscription will handle the UI update and toast
+      // Real-time subscription will handle the UI update
     } catch (error: any) {
       toast.error(error.message);
     } finally {
@@ -339,42 +385,116 @@ export const EmployeeTable = ({ isAdmin }: EmployeeTableProps) => {
     toast.success('Exported to CSV');
   };
 
-  const exportToExcel = () => {
-    const data = filteredEmployees.map((e: any) => ({
-      'Name': e.name,
-      'Username': e.username,
-      'Email': e.email,
-      'Location': e.location || '',
-      'Department': e.department,
-      'Section': e.section,
-      'Extension': e.extension_number || '',
-      // Computer Information
-      'Computer Name': e.computer_name || '',
-      'Computer Serial': e.computer_serial || '',
-      'IP Address': e.ip_address || '',
-      'Specifications': e.specs || '',
-      'Last PM Date': e.last_pm ? new Date(e.last_pm).toLocaleDateString() : '',
-      // Peripherals & Devices
-      'LED/LCD Model': e.led_model || '',
-      'LED/LCD Serial': e.led_serial || '',
-      'Printer Model': e.printer_model || '',
-      'Printer Serial': e.printer_serial || '',
-      'Scanner Model': e.scanner_model || '',
-      'Scanner Serial': e.scanner_serial || '',
-      'Keyboard': e.keyboard ? 'Yes' : 'No',
-      'Mouse': e.mouse ? 'Yes' : 'No',
-      // Access Permissions
-      'Internet Access': e.internet_access ? 'Yes' : 'No',
-      'USB Access': e.usb_access ? 'Yes' : 'No',
-      // Custom Peripherals
-      'Custom Peripherals': e.custom_peripherals?.length > 0 
-        ? e.custom_peripherals.map((p: any) => `${p.name}${p.model ? ` (${p.model})` : ''}${p.serial ? ` - ${p.serial}` : ''}`).join('; ')
-        : '',
-    }));
+  const exportToExcel = async () => {
+    const [{ data: assets, error }, { data: seats, error: seatsError }] = await Promise.all([
+      supabase
+        .from('assets')
+        .select('*')
+        .not('employee_id', 'is', null)
+        .order('created_at', { ascending: true }),
+      supabase
+        .from('license_seats')
+        .select('*, software_licenses(*, software_license_keys(license_key))')
+        .order('assigned_at', { ascending: true }),
+    ]);
+
+    if (error || seatsError) {
+      toast.error((error || seatsError)!.message);
+      return;
+    }
+
+    const seatsByEmployee = new Map<string, string[]>();
+    seats?.forEach(seat => {
+      const list = seatsByEmployee.get(seat.employee_id) || [];
+      list.push(seat.software_licenses.software_name);
+      seatsByEmployee.set(seat.employee_id, list);
+    });
+
+    const assetsByEmployee = new Map<string, Asset[]>();
+    assets?.forEach(asset => {
+      const list = assetsByEmployee.get(asset.employee_id!) || [];
+      list.push(asset);
+      assetsByEmployee.set(asset.employee_id!, list);
+    });
+
+    const data = filteredEmployees.map((e: any) => {
+      const employeeAssets = assetsByEmployee.get(e.id) || [];
+      // One column per device type, listing every device of that type
+      const devices = Object.fromEntries(
+        ASSET_TYPES.map(type => [
+          type.label,
+          employeeAssets
+            .filter(a => a.asset_type === type.value)
+            .map(formatAsset)
+            .join('; '),
+        ])
+      );
+
+      return {
+        'Name': e.name,
+        'Username': e.username,
+        'Email': e.email,
+        'Location': e.location || '',
+        'Department': e.department,
+        'Section': e.section,
+        'Extension': e.extension_number || '',
+        // Computer Information
+        'Computer Name': e.computer_name || '',
+        'Computer Serial': e.computer_serial || '',
+        'IP Address': e.ip_address || '',
+        'Specifications': e.specs || '',
+        'Last PM Date': e.last_pm ? new Date(e.last_pm).toLocaleDateString() : '',
+        'Computer Vendor': e.computer_vendor || '',
+        'Purchase Order': e.computer_purchase_order || '',
+        'Purchase Date': e.computer_purchase_date ? new Date(e.computer_purchase_date).toLocaleDateString() : '',
+        'Cost': e.computer_cost ?? '',
+        'Warranty End': e.computer_warranty_end ? new Date(e.computer_warranty_end).toLocaleDateString() : '',
+        // Peripherals & Devices
+        ...devices,
+        'Software': (seatsByEmployee.get(e.id) || []).join('; '),
+        // Access Permissions
+        'Internet Access': e.internet_access ? 'Yes' : 'No',
+        'USB Access': e.usb_access ? 'Yes' : 'No',
+      };
+    });
+
+    const employeesById = new Map(filteredEmployees.map(e => [e.id, e]));
+    const assetData = (assets || [])
+      .filter(a => employeesById.has(a.employee_id!))
+      .map(a => ({
+        'Device': getAssetName(a),
+        'Model': a.model || '',
+        'Serial Number': a.serial_number || '',
+        'Status': getAssetStatusLabel(a.status),
+        'Vendor': a.vendor || '',
+        'Purchase Order': a.purchase_order || '',
+        'Purchase Date': a.purchase_date ? new Date(a.purchase_date).toLocaleDateString() : '',
+        'Cost': a.cost ?? '',
+        'Warranty End': a.warranty_end ? new Date(a.warranty_end).toLocaleDateString() : '',
+        'Assigned To': employeesById.get(a.employee_id!)?.name || '',
+        'Location': employeesById.get(a.employee_id!)?.location || '',
+      }));
+
+    const licenseData = (seats || [])
+      .filter(s => employeesById.has(s.employee_id))
+      .map(s => ({
+        'Software': s.software_licenses.software_name,
+        'Vendor': s.software_licenses.vendor || '',
+        'Model': getLicenseModelLabel(s.software_licenses.license_model),
+        // Only admins can read keys, so they stay out of exports made by anyone else
+        ...(isAdmin ? { 'License Key': s.software_licenses.software_license_keys?.license_key || '' } : {}),
+        'Assigned To': employeesById.get(s.employee_id)?.name || '',
+        'Computer': s.computer_name || s.computer_serial || '',
+        'Expiry Date': s.software_licenses.expiry_date
+          ? new Date(s.software_licenses.expiry_date).toLocaleDateString()
+          : '',
+      }));
 
     const worksheet = XLSX.utils.json_to_sheet(data);
     const workbook = XLSX.utils.book_new();
     XLSX.utils.book_append_sheet(workbook, worksheet, 'Employees');
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(assetData), 'Assets');
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(licenseData), 'Licenses');
     XLSX.writeFile(workbook, `employees_${new Date().toISOString().split('T')[0]}.xlsx`);
     
     toast.success('Exported to Excel');
@@ -449,24 +569,24 @@ export const EmployeeTable = ({ isAdmin }: EmployeeTableProps) => {
   const printEmployeeDetails = () => {
     if (!selectedEmployee) return;
     
-    const customPeripherals = selectedEmployee.custom_peripherals || [];
-    const customPeripheralsHtml = customPeripherals.length > 0 
+    const assets: Asset[] = selectedEmployee.assets || [];
+    const assetsHtml = assets.length > 0 
       ? `
-        <h3>Additional Peripherals</h3>
         <table>
-          <thead><tr><th>Name</th><th>Model</th><th>Serial</th></tr></thead>
+          <thead><tr><th>Device</th><th>Model</th><th>Serial</th><th>Status</th></tr></thead>
           <tbody>
-            ${customPeripherals.map((p: any) => `
+            ${assets.map(a => `
               <tr>
-                <td>${p.name || '-'}</td>
-                <td>${p.model || '-'}</td>
-                <td>${p.serial || '-'}</td>
+                <td>${getAssetName(a)}</td>
+                <td>${a.model || '-'}</td>
+                <td>${a.serial_number || '-'}</td>
+                <td>${getAssetStatusLabel(a.status)}</td>
               </tr>
             `).join('')}
           </tbody>
         </table>
       `
-      : '';
+      : '<p>No devices assigned</p>';
 
     const printContent = `
       <html>
@@ -510,18 +630,7 @@ export const EmployeeTable = ({ isAdmin }: EmployeeTableProps) => {
           <div class="field"><div class="label">System Specifications</div><div class="value">${selectedEmployee.specs || '-'}</div></div>
           
           <h3>Peripherals & Devices</h3>
-          <div class="grid">
-            <div class="field"><div class="label">LED/LCD Model</div><div class="value">${selectedEmployee.led_model || '-'}</div></div>
-            <div class="field"><div class="label">LED/LCD Serial</div><div class="value">${selectedEmployee.led_serial || '-'}</div></div>
-            <div class="field"><div class="label">Printer Model</div><div class="value">${selectedEmployee.printer_model || '-'}</div></div>
-            <div class="field"><div class="label">Printer Serial</div><div class="value">${selectedEmployee.printer_serial || '-'}</div></div>
-            <div class="field"><div class="label">Scanner Model</div><div class="value">${selectedEmployee.scanner_model || '-'}</div></div>
-            <div class="field"><div class="label">Scanner Serial</div><div class="value">${selectedEmployee.scanner_serial || '-'}</div></div>
-            <div class="field"><div class="label">Keyboard</div><div class="value">${selectedEmployee.keyboard ? 'Yes' : 'No'}</div></div>
-            <div class="field"><div class="label">Mouse</div><div class="value">${selectedEmployee.mouse ? 'Yes' : 'No'}</div></div>
-          </div>
-          
-          ${customPeripheralsHtml}
+          ${assetsHtml}
           
           <h3>Access Permissions</h3>
           <div class="grid">
@@ -618,6 +727,17 @@ export const EmployeeTable = ({ isAdmin }: EmployeeTableProps) => {
                 ))}
               </SelectContent>
             </Select>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-full md:w-[150px]">
+                <SelectValue placeholder="Status" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="current">Current</SelectItem>
+                <SelectItem value="leaving">Leaving</SelectItem>
+                <SelectItem value="left">Left</SelectItem>
+                <SelectItem value="all">All Statuses</SelectItem>
+              </SelectContent>
+            </Select>
             <Button onClick={exportToCSV} variant="outline">
               <Download className="h-4 w-4 mr-2" />
               CSV
@@ -630,6 +750,10 @@ export const EmployeeTable = ({ isAdmin }: EmployeeTableProps) => {
               <Printer className="h-4 w-4 mr-2" />
               Print
             </Button>
+            <Button onClick={() => setIsLabelsOpen(true)} variant="outline" disabled={filteredEmployees.length === 0}>
+              <QrCode className="h-4 w-4 mr-2" />
+              Labels
+            </Button>
           </div>
           
           {/* Date Range Filter */}
@@ -735,7 +859,14 @@ export const EmployeeTable = ({ isAdmin }: EmployeeTableProps) => {
                 ) : (
                   filteredEmployees.map((employee) => (
               <TableRow key={employee.id} className="transition-all duration-200 hover:bg-accent/50">
-                <TableCell className="font-medium">{employee.name}</TableCell>
+                <TableCell className="font-medium">
+                  {employee.name}
+                  {employee.employment_status !== 'active' && (
+                    <Badge variant={getEmploymentStatusVariant(employee.employment_status)} className="ml-2">
+                      {getEmploymentStatusLabel(employee.employment_status)}
+                    </Badge>
+                  )}
+                </TableCell>
                       <TableCell>{employee.email}</TableCell>
                       <TableCell>{employee.location || '-'}</TableCell>
                       <TableCell>{employee.department}</TableCell>
@@ -750,14 +881,24 @@ export const EmployeeTable = ({ isAdmin }: EmployeeTableProps) => {
                           >
                             <Eye className="h-4 w-4" />
                           </Button>
+                          {canEdit(employee) && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => handleEdit(employee.id)}
+                            >
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                          )}
                           {isAdmin && (
                             <>
                               <Button
                                 size="sm"
                                 variant="ghost"
-                                onClick={() => handleEdit(employee.id)}
+                                title="Offboard"
+                                onClick={() => navigate(`/offboarding/${employee.id}`)}
                               >
-                                <Edit className="h-4 w-4" />
+                                <UserMinus className="h-4 w-4" />
                               </Button>
                               <Button
                                 size="sm"
@@ -828,6 +969,13 @@ export const EmployeeTable = ({ isAdmin }: EmployeeTableProps) => {
                     <p className="text-sm font-medium text-muted-foreground">Location</p>
                     <p className="font-medium">{selectedEmployee.location || '-'}</p>
                   </div>
+                  <div className="animate-fade-in">
+                    <p className="text-sm font-medium text-muted-foreground">Employment Status</p>
+                    <p className="font-medium">
+                      {getEmploymentStatusLabel(selectedEmployee.employment_status)}
+                      {selectedEmployee.exit_date && ` (exit ${format(new Date(selectedEmployee.exit_date), 'PP')})`}
+                    </p>
+                  </div>
                 </div>
               </div>
 
@@ -859,71 +1007,147 @@ export const EmployeeTable = ({ isAdmin }: EmployeeTableProps) => {
                     <p className="text-sm font-medium text-muted-foreground">System Specifications</p>
                     <p className="font-medium">{selectedEmployee.specs || '-'}</p>
                   </div>
-                </div>
-              </div>
-
-              {/* Peripherals */}
-              <div className="space-y-3">
-                <h3 className="text-lg font-semibold text-accent">Peripherals & Devices</h3>
-                <div className="grid grid-cols-2 gap-4 p-4 bg-primary/10 rounded-lg border border-primary/20">
-                  <div className="animate-fade-in">
-                    <p className="text-sm font-medium text-muted-foreground">LED/LCD Model</p>
-                    <p className="font-medium">{selectedEmployee.led_model || '-'}</p>
-                  </div>
-                  <div className="animate-fade-in">
-                    <p className="text-sm font-medium text-muted-foreground">LED/LCD Serial</p>
-                    <p className="font-medium">{selectedEmployee.led_serial || '-'}</p>
-                  </div>
-                  <div className="animate-fade-in">
-                    <p className="text-sm font-medium text-muted-foreground">Printer Model</p>
-                    <p className="font-medium">{selectedEmployee.printer_model || '-'}</p>
-                  </div>
-                  <div className="animate-fade-in">
-                    <p className="text-sm font-medium text-muted-foreground">Printer Serial</p>
-                    <p className="font-medium">{selectedEmployee.printer_serial || '-'}</p>
-                  </div>
                   <div className="animate-fade-in">
-                    <p className="text-sm font-medium text-muted-foreground">Scanner Model</p>
-                    <p className="font-medium">{selectedEmployee.scanner_model || '-'}</p>
+                    <p className="text-sm font-medium text-muted-foreground">Vendor</p>
+                    <p className="font-medium">{selectedEmployee.computer_vendor || '-'}</p>
                   </div>
                   <div className="animate-fade-in">
-                    <p className="text-sm font-medium text-muted-foreground">Scanner Serial</p>
-                    <p className="font-medium">{selectedEmployee.scanner_serial || '-'}</p>
+                    <p className="text-sm font-medium text-muted-foreground">Purchase Order</p>
+                    <p className="font-medium">{selectedEmployee.computer_purchase_order || '-'}</p>
                   </div>
                   <div className="animate-fade-in">
-                    <p className="text-sm font-medium text-muted-foreground">Keyboard</p>
+                    <p className="text-sm font-medium text-muted-foreground">Purchase Date</p>
                     <p className="font-medium">
-                      {selectedEmployee.keyboard ? 'Yes' : 'No'}
+                      {selectedEmployee.computer_purchase_date
+                        ? new Date(selectedEmployee.computer_purchase_date).toLocaleDateString()
+                        : '-'}
                     </p>
                   </div>
                   <div className="animate-fade-in">
-                    <p className="text-sm font-medium text-muted-foreground">Mouse</p>
-                    <p className="font-medium">
-                      {selectedEmployee.mouse ? 'Yes' : 'No'}
-                    </p>
+                    <p className="text-sm font-medium text-muted-foreground">Cost</p>
+                    <p className="font-medium">{formatCost(selectedEmployee.computer_cost)}</p>
+                  </div>
+                  <div className="animate-fade-in">
+                    <p className="text-sm font-medium text-muted-foreground">Warranty</p>
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium">
+                        {selectedEmployee.computer_warranty_end
+                          ? new Date(selectedEmployee.computer_warranty_end).toLocaleDateString()
+                          : '-'}
+                      </p>
+                      {selectedEmployee.computer_warranty_end && (
+                        <Badge variant={getWarrantyStatusVariant(getWarrantyStatus(selectedEmployee.computer_warranty_end))}>
+                          {WARRANTY_STATUS_LABELS[getWarrantyStatus(selectedEmployee.computer_warranty_end)]}
+                        </Badge>
+                      )}
+                    </div>
                   </div>
                 </div>
               </div>
 
-              {/* Custom Peripherals */}
-              {selectedEmployee.custom_peripherals && selectedEmployee.custom_peripherals.length > 0 && (
-                <div className="space-y-3">
-                  <h3 className="text-lg font-semibold text-chart-4">Additional Peripherals</h3>
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4 p-4 bg-chart-4/10 rounded-lg border border-chart-4/20">
-                    {selectedEmployee.custom_peripherals.map((peripheral: any, index: number) => (
-                      <div key={index} className="animate-fade-in p-3 bg-background/50 rounded-md border">
-                        <p className="font-medium text-foreground">{peripheral.name}</p>
-                        {peripheral.model && (
-                          <p className="text-sm text-muted-foreground">Model: {peripheral.model}</p>
+              {/* Peripherals */}
+              <div className="space-y-3">
+                <h3 className="text-lg font-semibold text-accent">Peripherals & Devices</h3>
+                {selectedEmployee.assets?.length > 0 ? (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4 p-4 bg-primary/10 rounded-lg border border-primary/20">
+                    {selectedEmployee.assets.map((asset: Asset) => (
+                      <Link
+                        key={asset.id}
+                        to={`/assets/${asset.id}`}
+                        className="animate-fade-in p-3 bg-background/50 rounded-md border hover:border-primary/50 transition-colors"
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <p className="font-medium text-foreground">{getAssetName(asset)}</p>
+                          <span className="text-xs text-muted-foreground">{getAssetStatusLabel(asset.status)}</span>
+                        </div>
+                        {asset.model && (
+                          <p className="text-sm text-muted-foreground">Model: {asset.model}</p>
                         )}
-                        {peripheral.serial && (
-                          <p className="text-sm text-muted-foreground">Serial: {peripheral.serial}</p>
+                        {asset.serial_number && (
+                          <p className="text-sm text-muted-foreground">Serial: {asset.serial_number}</p>
                         )}
-                      </div>
+                      </Link>
                     ))}
                   </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground p-4 bg-primary/10 rounded-lg border border-primary/20">
+                    No devices assigned
+                  </p>
+                )}
+              </div>
+
+              {/* Software Licenses */}
+              <div className="space-y-3">
+                <h3 className="text-lg font-semibold text-secondary">Software Licenses</h3>
+                {selectedEmployee.license_seats?.length > 0 ? (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4 p-4 bg-secondary/10 rounded-lg border border-secondary/20">
+                    {selectedEmployee.license_seats.map((seat: LicenseSeat & { software_licenses: SoftwareLicense }) => {
+                      const expiryStatus = getLicenseExpiryStatus(seat.software_licenses.expiry_date);
+                      return (
+                        <Link
+                          key={seat.id}
+                          to={`/licenses/${seat.license_id}`}
+                          className="animate-fade-in p-3 bg-background/50 rounded-md border hover:border-secondary/50 transition-colors"
+                        >
+                          <div className="flex items-center justify-between gap-2">
+                            <p className="font-medium text-foreground">{seat.software_licenses.software_name}</p>
+                            <span className="text-xs text-muted-foreground">
+                              {getLicenseModelLabel(seat.software_licenses.license_model)}
+                            </span>
+                          </div>
+                          {(seat.computer_name || seat.computer_serial) && (
+                            <p className="text-sm text-muted-foreground">
+                              Computer: {seat.computer_name || seat.computer_serial}
+                            </p>
+                          )}
+                          {seat.software_licenses.expiry_date && (
+                            <p className={cn('text-sm', expiryStatus === 'ok' ? 'text-muted-foreground' : 'text-destructive')}>
+                              {expiryStatus && expiryStatus !== 'ok' ? LICENSE_EXPIRY_LABELS[expiryStatus] : 'Expires'}:{' '}
+                              {format(new Date(seat.software_licenses.expiry_date), 'PP')}
+                            </p>
+                          )}
+                        </Link>
+                      );
+                    })}
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground p-4 bg-secondary/10 rounded-lg border border-secondary/20">
+                    No software licenses assigned
+                  </p>
+                )}
+              </div>
+
+              {/* Assignment History */}
+              <div className="space-y-3">
+                <h3 className="text-lg font-semibold text-primary">Assignment History</h3>
+                <div className="p-4 bg-muted/50 rounded-lg border border-border">
+                  <AssignmentTimeline employeeId={selectedEmployee.id} />
                 </div>
-              )}
+              </div>
+
+              {/* Maintenance History */}
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-lg font-semibold text-secondary">Maintenance History</h3>
+                  {canLogPm && (
+                    <Button size="sm" variant="outline" onClick={() => setIsPmLogOpen(true)}>
+                      <Wrench className="h-4 w-4 mr-2" />
+                      Log PM
+                    </Button>
+                  )}
+                </div>
+                <div className="p-4 bg-secondary/10 rounded-lg border border-secondary/20">
+                  <PmHistory employeeId={selectedEmployee.id} />
+                </div>
+              </div>
+
+              {/* Helpdesk Tickets */}
+              <div className="space-y-3">
+                <h3 className="text-lg font-semibold text-primary">Helpdesk Tickets</h3>
+                <div className="p-4 bg-muted/50 rounded-lg border border-border">
+                  <TicketList employeeId={selectedEmployee.id} isAdmin={isAdmin} />
+                </div>
+              </div>
 
               {/* Access Permissions */}
               <div className="space-y-3">
@@ -944,6 +1168,18 @@ export const EmployeeTable = ({ isAdmin }: EmployeeTableProps) => {
         </DialogContent>
       </Dialog>
 
+      {selectedEmployee && (
+        <PmLogDialog
+          open={isPmLogOpen}
+          onOpenChange={(open) => {
+            setIsPmLogOpen(open);
+            if (!open) handleView(selectedEmployee.id);
+          }}
+          employeeId={selectedEmployee.id}
+          label={selectedEmployee.computer_name || selectedEmployee.name}
+        />
+      )}
+
       {/* Edit Dialog */}
       <Dialog open={isEditOpen} onOpenChange={setIsEditOpen}>
         <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto">
@@ -969,8 +1205,8 @@ export const EmployeeTable = ({ isAdmin }: EmployeeTableProps) => {
           <AlertDialogHeader>
             <AlertDialogTitle>Are you sure?</AlertDialogTitle>
             <AlertDialogDescription>
-              This will permanently delete {deleteEmployee?.name}'s record. This action cannot be
-              undone.
+              {deleteEmployee?.name}'s record will be moved to the recycle bin, where an admin can restore it
+              until it is purged. To record someone leaving, use Offboard instead so their history is kept.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -981,6 +1217,8 @@ export const EmployeeTable = ({ isAdmin }: EmployeeTableProps) => {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      <LabelDialog open={isLabelsOpen} onOpenChange={setIsLabelsOpen} employees={filteredEmployees} />
     </div>
   );
 };
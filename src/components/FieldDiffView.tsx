@@ -0,0 +1,70 @@
+import { Badge } from '@/components/ui/badge';
+import { getAuditFieldLabel } from '@/lib/audit';
+import { diffFieldValues, formatDiffValue, type ValueChange } from '@/lib/fieldDiff';
+
+interface FieldDiffViewProps {
+  field: string;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+const CHANGE_BADGES = {
+  added: { label: 'Added', variant: 'default' },
+  removed: { label: 'Removed', variant: 'destructive' },
+  changed: { label: 'Changed', variant: 'secondary' },
+} as const;
+
+const ValueChangeLine = ({ change }: { change: ValueChange }) => (
+  <div className="flex flex-wrap gap-2 items-center">
+    <span className="capitalize text-muted-foreground">{getAuditFieldLabel(change.field)}:</span>
+    <span className="text-muted-foreground line-through">{change.oldValue || 'N/A'}</span>
+    <span>→</span>
+    <span className="text-foreground font-medium">{change.newValue || 'N/A'}</span>
+  </div>
+);
+
+// One changed field from the audit log; JSON lists are shown item by item
+export const FieldDiffView = ({ field, oldValue, newValue }: FieldDiffViewProps) => {
+  const diff = diffFieldValues(oldValue, newValue);
+
+  return (
+    <div className="text-sm bg-muted p-3 rounded-md">
+      <span className="font-medium capitalize">{getAuditFieldLabel(field)}:</span>
+      {diff?.kind === 'list' ? (
+        <ul className="mt-2 space-y-2">
+          {diff.items.map((item, index) => (
+            <li key={index} className="space-y-1">
+              <div className="flex items-center gap-2">
+                <Badge variant={CHANGE_BADGES[item.kind].variant}>{CHANGE_BADGES[item.kind].label}</Badge>
+                <span className="font-medium">{item.label}</span>
+              </div>
+              {item.kind === 'changed' ? (
+                <div className="pl-2 space-y-1">
+                  {item.changes.map(change => (
+                    <ValueChangeLine key={change.field} change={change} />
+                  ))}
+                </div>
+              ) : item.changes.length > 0 && (
+                <p className="pl-2 text-muted-foreground">
+                  {item.changes.map(change => `${getAuditFieldLabel(change.field)} ${change.newValue}`).join(', ')}
+                </p>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : diff?.kind === 'object' ? (
+        <div className="mt-1 space-y-1">
+          {diff.changes.map(change => (
+            <ValueChangeLine key={change.field} change={change} />
+          ))}
+        </div>
+      ) : (
+        <div className="flex gap-2 items-center mt-1">
+          <span className="text-muted-foreground line-through">{formatDiffValue(oldValue) || 'N/A'}</span>
+          <span>→</span>
+          <span className="text-foreground font-medium">{formatDiffValue(newValue) || 'N/A'}</span>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,142 @@
+import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { getProfileName, type Profile } from '@/hooks/useProfiles';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import { LocationChecklist } from '@/components/LocationChecklist';
+import { APP_ROLES, getRoleLabel, isLocationScopedRole, type AppRole } from '@/lib/roles';
+
+interface GrantRoleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  profile: Profile;
+  heldRoles: AppRole[];
+  // Set when changing the locations of a role the user already holds
+  editRole?: AppRole;
+  initialLocationIds?: string[];
+}
+
+export const GrantRoleDialog = ({
+  open,
+  onOpenChange,
+  profile,
+  heldRoles,
+  editRole,
+  initialLocationIds = [],
+}: GrantRoleDialogProps) => {
+  const queryClient = useQueryClient();
+  const availableRoles = APP_ROLES.filter(r => !heldRoles.includes(r.value));
+  const [role, setRole] = useState<AppRole | undefined>(editRole || availableRoles[0]?.value);
+  const [locationIds, setLocationIds] = useState<string[]>(initialLocationIds);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const scoped = !!role && isLocationScopedRole(role);
+
+  const handleSubmit = async () => {
+    if (!role) return;
+    if (scoped && locationIds.length === 0) {
+      toast.error('Choose at least one location for this role');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase.rpc('grant_role', {
+        _user_id: profile.id,
+        _role: role,
+        _location_ids: scoped ? locationIds : undefined,
+      });
+
+      if (error) throw error;
+      toast.success(
+        editRole
+          ? `${getRoleLabel(role)} locations updated for ${getProfileName(profile)}`
+          : `${getRoleLabel(role)} role granted to ${getProfileName(profile)}`
+      );
+      queryClient.invalidateQueries({ queryKey: ['user-roles'] });
+      queryClient.invalidateQueries({ queryKey: ['role-audit-log'] });
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !isSaving && onOpenChange(value)}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            {editRole ? `${getRoleLabel(editRole)} Locations` : 'Grant Role'}
+          </DialogTitle>
+          <DialogDescription>
+            {editRole
+              ? `Choose where ${getProfileName(profile)} works as ${getRoleLabel(editRole).toLowerCase()}.`
+              : `Give ${getProfileName(profile)} a new role.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {!editRole && (
+            <div className="space-y-2">
+              <Label>Role</Label>
+              <Select value={role} onValueChange={(value) => setRole(value as AppRole)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select role" />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableRoles.map(r => (
+                    <SelectItem key={r.value} value={r.value}>
+                      {r.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {role && (
+                <p className="text-sm text-muted-foreground">
+                  {APP_ROLES.find(r => r.value === role)?.description}
+                </p>
+              )}
+            </div>
+          )}
+
+          {scoped && (
+            <div className="space-y-2">
+              <Label>Locations</Label>
+              <LocationChecklist value={locationIds} onChange={setLocationIds} />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSaving || !role}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {editRole ? 'Save Locations' : 'Grant Role'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
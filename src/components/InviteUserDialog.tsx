@@ -0,0 +1,165 @@
+import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { z } from 'zod';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import { LocationChecklist } from '@/components/LocationChecklist';
+import { APP_ROLES, isLocationScopedRole, type AppRole } from '@/lib/roles';
+import { INVITATION_EXPIRY_OPTIONS } from '@/lib/invitations';
+
+const emailSchema = z.string().trim().email('Invalid email address');
+
+interface InviteUserDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const InviteUserDialog = ({ open, onOpenChange }: InviteUserDialogProps) => {
+  const queryClient = useQueryClient();
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<AppRole>('employee');
+  const [locationIds, setLocationIds] = useState<string[]>([]);
+  const [expiresInDays, setExpiresInDays] = useState(7);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const scoped = isLocationScopedRole(role);
+
+  const handleSubmit = async () => {
+    const parsed = emailSchema.safeParse(email);
+    if (!parsed.success) {
+      toast.error(parsed.error.errors[0].message);
+      return;
+    }
+    if (scoped && locationIds.length === 0) {
+      toast.error('Choose at least one location for this role');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { data: invitationId, error } = await supabase.rpc('create_invitation', {
+        _email: parsed.data,
+        _role: role,
+        _location_ids: scoped ? locationIds : undefined,
+        _expires_in_days: expiresInDays,
+      });
+
+      if (error) throw error;
+      queryClient.invalidateQueries({ queryKey: ['invitations'] });
+
+      try {
+        const { error: emailError } = await supabase.functions.invoke('send-invitation-email', {
+          body: { invitationId },
+        });
+        if (emailError) throw emailError;
+        toast.success(`Invitation sent to ${parsed.data}`);
+      } catch (emailError) {
+        console.error('Failed to send invitation email:', emailError);
+        toast.warning('Invitation created, but the email could not be sent. Copy the link from the list instead.');
+      }
+
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !isSaving && onOpenChange(value)}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Invite User</DialogTitle>
+          <DialogDescription>
+            They'll get an email with a sign-up link. The role is granted when they sign up.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="invite-email">Email</Label>
+            <Input
+              id="invite-email"
+              type="email"
+              placeholder="name@example.com"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Role</Label>
+            <Select value={role} onValueChange={(value) => setRole(value as AppRole)}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select role" />
+              </SelectTrigger>
+              <SelectContent>
+                {APP_ROLES.map(r => (
+                  <SelectItem key={r.value} value={r.value}>
+                    {r.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-muted-foreground">
+              {APP_ROLES.find(r => r.value === role)?.description}
+            </p>
+          </div>
+
+          {scoped && (
+            <div className="space-y-2">
+              <Label>Locations</Label>
+              <LocationChecklist value={locationIds} onChange={setLocationIds} />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Expires after</Label>
+            <Select value={String(expiresInDays)} onValueChange={(value) => setExpiresInDays(Number(value))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {INVITATION_EXPIRY_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={String(option.value)}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSaving}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Send Invitation
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
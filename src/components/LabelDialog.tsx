@@ -0,0 +1,296 @@
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Download, Loader2, QrCode } from 'lucide-react';
+import { getAssetName } from '@/lib/assets';
+import {
+  buildLabelSheetHtml,
+  getAssetRecordPath,
+  getEmployeeRecordPath,
+  getLabelQrDataUrl,
+  type LabelItem,
+} from '@/lib/labels';
+import {
+  LABEL_LANGUAGES,
+  LABEL_SIZES,
+  LABEL_TEMPLATES,
+  PRINTER_DPIS,
+  buildEpl,
+  buildZpl,
+  downloadLabelFile,
+  type LabelLanguage,
+  type LabelTemplate,
+} from '@/lib/thermalLabels';
+import { printHtml } from '@/lib/print';
+
+interface LabelEmployee {
+  id: string;
+  name: string;
+  location: string | null;
+  computer_name: string | null;
+  computer_serial: string | null;
+}
+
+interface LabelDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  employees: LabelEmployee[];
+}
+
+// Labels for the employees currently shown in the table, and optionally their devices.
+// Office printers get an HTML sheet; thermal printers get a ZPL or EPL file.
+export const LabelDialog = ({ open, onOpenChange, employees }: LabelDialogProps) => {
+  const [includeEmployees, setIncludeEmployees] = useState(true);
+  const [includeDevices, setIncludeDevices] = useState(false);
+  const [output, setOutput] = useState<'sheet' | LabelLanguage>('sheet');
+  const [size, setSize] = useState<string>(LABEL_SIZES[0].value);
+  const [customWidth, setCustomWidth] = useState('');
+  const [customHeight, setCustomHeight] = useState('');
+  const [dpi, setDpi] = useState(String(PRINTER_DPIS[0]));
+  const [template, setTemplate] = useState<LabelTemplate>('qr');
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  // EPL printers have no QR code support
+  const templates = LABEL_TEMPLATES.filter(t => output !== 'epl' || t.value !== 'qr');
+  const activeTemplate = templates.some(t => t.value === template) ? template : templates[0].value;
+
+  const getLabelItems = async (): Promise<LabelItem[]> => {
+    const items: LabelItem[] = includeEmployees
+      ? employees.map(e => ({
+          key: `employee-${e.id}`,
+          path: getEmployeeRecordPath(e.id),
+          title: e.computer_name || e.name,
+          subtitle: e.computer_name ? e.name : null,
+          detail: e.location,
+          code: e.computer_serial,
+        }))
+      : [];
+
+    if (includeDevices) {
+      // Assigned devices are filtered here rather than with a long id list in the query
+      const { data, error } = await supabase
+        .from('assets')
+        .select('id, asset_type, name, model, serial_number, employee_id')
+        .not('employee_id', 'is', null)
+        .order('asset_type', { ascending: true });
+      if (error) throw error;
+
+      const holders = new Map(employees.map(e => [e.id, e]));
+      data
+        .filter(a => holders.has(a.employee_id!))
+        .forEach(a => {
+          const holder = holders.get(a.employee_id!)!;
+          items.push({
+            key: `asset-${a.id}`,
+            path: getAssetRecordPath(a.id),
+            title: `${getAssetName(a)}${a.model ? ` ${a.model}` : ''}`,
+            subtitle: a.serial_number,
+            detail: holder.name,
+            code: a.serial_number,
+          });
+        });
+    }
+
+    return items;
+  };
+
+  const getLabelSize = () => {
+    if (size !== 'custom') {
+      const preset = LABEL_SIZES.find(s => s.value === size)!;
+      return { widthMm: preset.widthMm, heightMm: preset.heightMm };
+    }
+    const widthMm = Number(customWidth);
+    const heightMm = Number(customHeight);
+    if (!(widthMm >= 20 && widthMm <= 220 && heightMm >= 10 && heightMm <= 300)) {
+      throw new Error('Custom labels must be 20–220 mm wide and 10–300 mm high');
+    }
+    return { widthMm, heightMm };
+  };
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    try {
+      const labelSize = output === 'sheet' ? null : getLabelSize();
+      const items = await getLabelItems();
+      if (items.length === 0) {
+        toast.error('No labels to print');
+        return;
+      }
+
+      if (output === 'sheet') {
+        const labels = await Promise.all(items.map(async item => ({ item, qr: await getLabelQrDataUrl(item) })));
+        printHtml(buildLabelSheetHtml(labels));
+      } else {
+        const options = { ...labelSize!, dpi: Number(dpi), template: activeTemplate };
+        downloadLabelFile(output === 'zpl' ? buildZpl(items, options) : buildEpl(items, options), output);
+        toast.success(`${items.length} labels exported`);
+      }
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'An error occurred');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Labels</DialogTitle>
+          <DialogDescription>
+            One label per record for the {employees.length} employees in the current view. Scanning a QR code
+            opens that record.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="labels-employees" className="cursor-pointer">
+              Employees / computers
+            </Label>
+            <Switch id="labels-employees" checked={includeEmployees} onCheckedChange={setIncludeEmployees} />
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="labels-devices" className="cursor-pointer">
+              Assigned devices
+            </Label>
+            <Switch id="labels-devices" checked={includeDevices} onCheckedChange={setIncludeDevices} />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Output</Label>
+            <Select value={output} onValueChange={(value) => setOutput(value as 'sheet' | LabelLanguage)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="sheet">A4 sticker sheet (browser print)</SelectItem>
+                {LABEL_LANGUAGES.map(language => (
+                  <SelectItem key={language.value} value={language.value}>
+                    {language.label} (.{language.extension} file)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {output !== 'sheet' && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Label Size</Label>
+                <Select value={size} onValueChange={setSize}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LABEL_SIZES.map(preset => (
+                      <SelectItem key={preset.value} value={preset.value}>
+                        {preset.label}
+                      </SelectItem>
+                    ))}
+                    <SelectItem value="custom">Custom</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Printer Resolution</Label>
+                <Select value={dpi} onValueChange={setDpi}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PRINTER_DPIS.map(value => (
+                      <SelectItem key={value} value={String(value)}>
+                        {value} dpi
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {size === 'custom' && (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="label-width">Width (mm)</Label>
+                    <Input
+                      id="label-width"
+                      type="number"
+                      min={20}
+                      max={220}
+                      value={customWidth}
+                      onChange={(e) => setCustomWidth(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="label-height">Height (mm)</Label>
+                    <Input
+                      id="label-height"
+                      type="number"
+                      min={10}
+                      max={300}
+                      value={customHeight}
+                      onChange={(e) => setCustomHeight(e.target.value)}
+                    />
+                  </div>
+                </>
+              )}
+              <div className="space-y-2 col-span-2">
+                <Label>Template</Label>
+                <Select value={activeTemplate} onValueChange={(value) => setTemplate(value as LabelTemplate)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {templates.map(t => (
+                      <SelectItem key={t.value} value={t.value}>
+                        {t.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {activeTemplate === 'barcode' && (
+                  <p className="text-xs text-muted-foreground">
+                    The barcode encodes the serial number, or the computer name where there is none.
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isGenerating}>
+            Cancel
+          </Button>
+          <Button onClick={handleGenerate} disabled={isGenerating || (!includeEmployees && !includeDevices)}>
+            {isGenerating ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : output === 'sheet' ? (
+              <QrCode className="mr-2 h-4 w-4" />
+            ) : (
+              <Download className="mr-2 h-4 w-4" />
+            )}
+            {output === 'sheet' ? 'Print Labels' : `Download .${output}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,197 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import { LICENSE_MODELS, type SoftwareLicense } from '@/lib/licenses';
+
+const licenseSchema = z.object({
+  software_name: z.string().trim().min(1, 'Software name is required').max(200),
+  vendor: z.string().max(100).optional(),
+  license_key: z.string().max(500).optional(),
+  license_model: z.string(),
+  seats_purchased: z.coerce.number().int('Whole seats only').min(0, 'Seats cannot be negative'),
+  purchase_date: z.string().optional(),
+  expiry_date: z.string().optional(),
+  notes: z.string().max(1000).optional(),
+});
+
+type LicenseFormData = z.infer<typeof licenseSchema>;
+
+interface LicenseFormProps {
+  license?: SoftwareLicense;
+  // Kept apart from the license, where only admins can read it
+  licenseKey?: string | null;
+  seatsUsed?: number;
+  onSuccess: () => void;
+  onCancel: () => void;
+}
+
+export const LicenseForm = ({ license, licenseKey, seatsUsed = 0, onSuccess, onCancel }: LicenseFormProps) => {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    setValue,
+    watch,
+    setError,
+    formState: { errors },
+  } = useForm<LicenseFormData>({
+    resolver: zodResolver(licenseSchema),
+    defaultValues: {
+      software_name: license?.software_name || '',
+      vendor: license?.vendor || '',
+      license_key: licenseKey || '',
+      license_model: license?.license_model || 'per_user',
+      seats_purchased: license?.seats_purchased ?? 1,
+      purchase_date: license?.purchase_date || '',
+      expiry_date: license?.expiry_date || '',
+      notes: license?.notes || '',
+    },
+  });
+
+  const licenseModel = watch('license_model');
+
+  const onSubmit = async (data: LicenseFormData) => {
+    if (data.seats_purchased < seatsUsed) {
+      setError('seats_purchased', { message: `${seatsUsed} seats are already assigned` });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const values = {
+        software_name: data.software_name,
+        vendor: data.vendor || null,
+        license_model: data.license_model,
+        seats_purchased: data.seats_purchased,
+        purchase_date: data.purchase_date || null,
+        expiry_date: data.expiry_date || null,
+        notes: data.notes || null,
+      };
+
+      let licenseId = license?.id;
+      if (licenseId) {
+        const { error } = await supabase
+          .from('software_licenses')
+          .update(values)
+          .eq('id', licenseId);
+
+        if (error) throw error;
+      } else {
+        const { data: { user } } = await supabase.auth.getUser();
+
+        const { data: created, error } = await supabase
+          .from('software_licenses')
+          .insert({ ...values, created_by: user?.id })
+          .select('id')
+          .single();
+
+        if (error) throw error;
+        licenseId = created.id;
+      }
+
+      const key = data.license_key?.trim() || '';
+      if (key !== (licenseKey || '')) {
+        const { error } = key
+          ? await supabase
+            .from('software_license_keys')
+            .upsert({ license_id: licenseId, license_key: key })
+          : await supabase
+            .from('software_license_keys')
+            .delete()
+            .eq('license_id', licenseId);
+
+        if (error) throw error;
+      }
+
+      toast.success(license?.id ? 'License updated' : 'License added');
+
+      onSuccess();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'An error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="software_name">Software *</Label>
+          <Input id="software_name" {...register('software_name')} placeholder="e.g., Microsoft Office 2021" />
+          {errors.software_name && <p className="text-sm text-destructive">{errors.software_name.message}</p>}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="vendor">Vendor</Label>
+          <Input id="vendor" {...register('vendor')} />
+        </div>
+        <div className="space-y-2 md:col-span-2">
+          <Label htmlFor="license_key">License Key</Label>
+          <Input id="license_key" {...register('license_key')} className="font-mono" />
+        </div>
+        <div className="space-y-2">
+          <Label>License Model</Label>
+          <Select
+            value={licenseModel}
+            onValueChange={(value) => setValue('license_model', value)}
+            disabled={seatsUsed > 0}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LICENSE_MODELS.map(model => (
+                <SelectItem key={model.value} value={model.value}>
+                  {model.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="seats_purchased">Seats Purchased *</Label>
+          <Input id="seats_purchased" type="number" min={0} {...register('seats_purchased')} />
+          {errors.seats_purchased && <p className="text-sm text-destructive">{errors.seats_purchased.message}</p>}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="purchase_date">Purchase Date</Label>
+          <Input id="purchase_date" type="date" {...register('purchase_date')} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="expiry_date">Expiry Date</Label>
+          <Input id="expiry_date" type="date" {...register('expiry_date')} />
+        </div>
+        <div className="space-y-2 md:col-span-2">
+          <Label htmlFor="license_notes">Notes</Label>
+          <Textarea id="license_notes" {...register('notes')} />
+        </div>
+      </div>
+
+      <div className="flex gap-4">
+        <Button type="submit" disabled={isSubmitting} className="flex-1">
+          {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {license ? 'Update License' : 'Add License'}
+        </Button>
+        <Button type="button" variant="outline" onClick={onCancel} disabled={isSubmitting}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+};
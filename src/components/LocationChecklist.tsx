@@ -0,0 +1,29 @@
+import { useLocations } from '@/hooks/useLocations';
+import { Checkbox } from '@/components/ui/checkbox';
+
+interface LocationChecklistProps {
+  value: string[];
+  onChange: (locationIds: string[]) => void;
+}
+
+export const LocationChecklist = ({ value, onChange }: LocationChecklistProps) => {
+  const { data: locations } = useLocations();
+
+  const toggleLocation = (id: string, checked: boolean) => {
+    onChange(checked ? [...value, id] : value.filter(l => l !== id));
+  };
+
+  return (
+    <div className="grid gap-2 sm:grid-cols-2 max-h-64 overflow-y-auto rounded-md border p-3">
+      {locations?.map(location => (
+        <label key={location.id} className="flex items-center gap-2 text-sm">
+          <Checkbox
+            checked={value.includes(location.id)}
+            onCheckedChange={(checked) => toggleLocation(location.id, checked === true)}
+          />
+          {location.name}
+        </label>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,132 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Loader2 } from 'lucide-react';
+import { findLocation, normalizeLocationName, type Location } from '@/hooks/useLocations';
+
+const locationSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  address: z.string().max(255).optional(),
+  contact_person: z.string().max(100).optional(),
+  phone: z.string().max(30).optional(),
+  notes: z.string().max(1000).optional(),
+});
+
+type LocationFormData = z.infer<typeof locationSchema>;
+
+interface LocationFormProps {
+  location?: Location;
+  locations: Location[];
+  onSuccess: () => void;
+  onCancel: () => void;
+}
+
+export const LocationForm = ({ location, locations, onSuccess, onCancel }: LocationFormProps) => {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<LocationFormData>({
+    resolver: zodResolver(locationSchema),
+    defaultValues: {
+      name: location?.name || '',
+      address: location?.address || '',
+      contact_person: location?.contact_person || '',
+      phone: location?.phone || '',
+      notes: location?.notes || '',
+    },
+  });
+
+  const onSubmit = async (data: LocationFormData) => {
+    const name = normalizeLocationName(data.name);
+    const existing = findLocation(locations, name);
+    if (existing && existing.id !== location?.id) {
+      toast.error(`"${existing.name}" already exists. Merge into it instead.`);
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const values = {
+        name,
+        address: data.address || null,
+        contact_person: data.contact_person || null,
+        phone: data.phone || null,
+        notes: data.notes || null,
+      };
+
+      if (location?.id) {
+        // Renaming cascades to every employee at this location
+        const { error } = await supabase
+          .from('locations')
+          .update(values)
+          .eq('id', location.id);
+
+        if (error) throw error;
+        toast.success(location.name !== name ? `Renamed to ${name}` : 'Location updated');
+      } else {
+        const { data: { user } } = await supabase.auth.getUser();
+
+        const { error } = await supabase
+          .from('locations')
+          .insert({ ...values, created_by: user?.id });
+
+        if (error) throw error;
+        toast.success('Location added');
+      }
+
+      onSuccess();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'An error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-2 md:col-span-2">
+          <Label htmlFor="location-name">Name *</Label>
+          <Input id="location-name" {...register('name')} placeholder="e.g., Kashmir Road" />
+          {errors.name && <p className="text-sm text-destructive">{errors.name.message}</p>}
+        </div>
+        <div className="space-y-2 md:col-span-2">
+          <Label htmlFor="location-address">Address</Label>
+          <Input id="location-address" {...register('address')} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="location-contact">Contact Person</Label>
+          <Input id="location-contact" {...register('contact_person')} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="location-phone">Phone</Label>
+          <Input id="location-phone" {...register('phone')} />
+        </div>
+        <div className="space-y-2 md:col-span-2">
+          <Label htmlFor="location-notes">Notes</Label>
+          <Textarea id="location-notes" {...register('notes')} />
+        </div>
+      </div>
+
+      <div className="flex gap-4">
+        <Button type="submit" disabled={isSubmitting} className="flex-1">
+          {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {location ? 'Update Location' : 'Add Location'}
+        </Button>
+        <Button type="button" variant="outline" onClick={onCancel} disabled={isSubmitting}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,64 @@
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { UserCheck } from 'lucide-react';
+import { useOpenOnboardings } from '@/hooks/useOnboarding';
+
+const MAX_ITEMS = 6;
+
+// Dashboard progress of new joiners whose onboarding checklist is still open
+export const OnboardingList = () => {
+  const navigate = useNavigate();
+  const { data: checklists, isLoading } = useOpenOnboardings();
+
+  if (isLoading || !checklists || checklists.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <UserCheck className="h-5 w-5" />
+          Onboarding
+          <Badge>{checklists.length} in progress</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="grid gap-2 md:grid-cols-2">
+          {checklists.slice(0, MAX_ITEMS).map(checklist => (
+            <button
+              key={checklist.employeeId}
+              type="button"
+              onClick={() => navigate(`/onboarding/${checklist.employeeId}`)}
+              className="text-left p-3 rounded-lg border border-border/50 transition-all duration-200 hover:bg-accent/50 space-y-2"
+            >
+              <div className="flex items-center justify-between gap-2">
+                <p className="font-medium truncate">{checklist.employeeName}</p>
+                <div className="flex items-center gap-2 shrink-0">
+                  {checklist.overdue > 0 && <Badge variant="destructive">{checklist.overdue} overdue</Badge>}
+                  <span className="text-sm text-muted-foreground">
+                    {checklist.done} / {checklist.total}
+                  </span>
+                </div>
+              </div>
+              <Progress value={(checklist.done / checklist.total) * 100} />
+              {checklist.nextDue && (
+                <p className="text-xs text-muted-foreground">
+                  Next due {format(new Date(`${checklist.nextDue}T00:00:00`), 'PP')}
+                </p>
+              )}
+            </button>
+          ))}
+        </div>
+        {checklists.length > MAX_ITEMS && (
+          <p className="text-sm text-muted-foreground text-center pt-2">
+            and {checklists.length - MAX_ITEMS} more
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,243 @@
+import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2, Plus, Edit, ListChecks } from 'lucide-react';
+import { format } from 'date-fns';
+import { usePmChecklists, type PmChecklist } from '@/hooks/usePmChecklists';
+
+interface TemplateState {
+  id?: string;
+  name: string;
+  description: string;
+  items: string;
+}
+
+const parseItems = (items: string) =>
+  items.split('\n').map(item => item.trim()).filter(Boolean);
+
+// Admins define checklists; changing the items publishes a new version
+export const PmChecklistManager = () => {
+  const queryClient = useQueryClient();
+  const { data: checklists, isLoading } = usePmChecklists();
+  const [template, setTemplate] = useState<TemplateState | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['pm-checklists'] });
+
+  const openTemplate = (checklist?: PmChecklist) => {
+    setTemplate({
+      id: checklist?.id,
+      name: checklist?.name || '',
+      description: checklist?.description || '',
+      items: checklist?.current?.items.join('\n') || '',
+    });
+  };
+
+  const handleSave = async () => {
+    if (!template) return;
+    const name = template.name.trim();
+    const items = parseItems(template.items);
+
+    if (!name) {
+      toast.error('Name is required');
+      return;
+    }
+    if (items.length === 0) {
+      toast.error('Add at least one checklist item');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const values = { name, description: template.description.trim() || null };
+      let templateId = template.id;
+
+      if (templateId) {
+        const { error } = await supabase
+          .from('pm_checklist_templates')
+          .update(values)
+          .eq('id', templateId);
+
+        if (error) throw error;
+      } else {
+        const { data, error } = await supabase
+          .from('pm_checklist_templates')
+          .insert({ ...values, created_by: user?.id })
+          .select('id')
+          .single();
+
+        if (error) throw error;
+        templateId = data.id;
+      }
+
+      const current = checklists?.find(c => c.id === templateId)?.current;
+      const itemsChanged = !current || current.items.join('\n') !== items.join('\n');
+
+      if (itemsChanged) {
+        // version is numbered by the database
+        const { error } = await supabase
+          .from('pm_checklist_versions')
+          .insert({ template_id: templateId, items, created_by: user?.id });
+
+        if (error) throw error;
+      }
+
+      toast.success(template.id && itemsChanged ? 'New checklist version published' : 'Checklist saved');
+      refresh();
+      setTemplate(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'An error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleToggleActive = async (checklist: PmChecklist, isActive: boolean) => {
+    const { error } = await supabase
+      .from('pm_checklist_templates')
+      .update({ is_active: isActive })
+      .eq('id', checklist.id);
+
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+    refresh();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ListChecks className="h-5 w-5" />
+              Checklist Templates
+            </CardTitle>
+            <CardDescription>
+              Editing items publishes a new version; past visits keep the version they used
+            </CardDescription>
+          </div>
+          <Button onClick={() => openTemplate()} className="hover-scale">
+            <Plus className="h-4 w-4 mr-2" />
+            New Template
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : checklists?.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No checklist templates yet</p>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            {checklists?.map(checklist => (
+              <Card key={checklist.id} className="border-border/50">
+                <CardContent className="p-4 space-y-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <div>
+                      <p className="font-medium flex items-center gap-2">
+                        {checklist.name}
+                        {checklist.current && <Badge variant="secondary">v{checklist.current.version}</Badge>}
+                      </p>
+                      {checklist.description && (
+                        <p className="text-sm text-muted-foreground">{checklist.description}</p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        checked={checklist.is_active}
+                        onCheckedChange={(checked) => handleToggleActive(checklist, checked)}
+                      />
+                      <Button size="sm" variant="ghost" onClick={() => openTemplate(checklist)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <ol className="list-decimal list-inside text-sm space-y-1">
+                    {checklist.current?.items.map((item, index) => (
+                      <li key={index}>{item}</li>
+                    ))}
+                  </ol>
+                  {checklist.current?.created_at && (
+                    <p className="text-xs text-muted-foreground">
+                      Published {format(new Date(checklist.current.created_at), 'PP')}
+                      {checklist.versions.length > 1 && ` • ${checklist.versions.length} versions`}
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!template} onOpenChange={(open) => !open && setTemplate(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{template?.id ? 'Edit' : 'New'} Checklist Template</DialogTitle>
+            <DialogDescription>One checklist item per line</DialogDescription>
+          </DialogHeader>
+          {template && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="checklist-name">Name</Label>
+                <Input
+                  id="checklist-name"
+                  value={template.name}
+                  onChange={(e) => setTemplate({ ...template, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="checklist-description">Description</Label>
+                <Input
+                  id="checklist-description"
+                  value={template.description}
+                  onChange={(e) => setTemplate({ ...template, description: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="checklist-items">Items</Label>
+                <Textarea
+                  id="checklist-items"
+                  rows={8}
+                  value={template.items}
+                  onChange={(e) => setTemplate({ ...template, items: e.target.value })}
+                  placeholder={'Dust cleaned\nAntivirus updated\nDisk health OK\nUPS tested'}
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTemplate(null)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Loader2, Wrench, ArrowRight } from 'lucide-react';
+import { PmLogDialog } from '@/components/PmLogDialog';
+import { useCanLogPm, usePmSchedule, type PmScheduleItem } from '@/hooks/usePmSchedule';
+import { usePmFollowUps } from '@/hooks/usePmChecklists';
+import { PM_STATUS_LABELS, getPmDeviceTypeLabel, getPmStatusVariant } from '@/lib/pm';
+
+const MAX_ITEMS = 8;
+
+// Dashboard list of devices whose preventive maintenance is due or overdue
+export const PmDueList = () => {
+  const navigate = useNavigate();
+  const { data: schedule, isLoading } = usePmSchedule();
+  const { data: followUps } = usePmFollowUps();
+  const canLogPm = useCanLogPm();
+  const [logItem, setLogItem] = useState<PmScheduleItem | null>(null);
+
+  const pending = schedule?.filter(item => item.status !== 'ok') || [];
+  const overdue = pending.filter(item => item.status === 'overdue' || item.status === 'never').length;
+  const dueSoon = pending.length - overdue;
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Wrench className="h-5 w-5" />
+            PM Due / Overdue
+            {!isLoading && (
+              <>
+                <Badge variant="destructive">{overdue} overdue</Badge>
+                <Badge>{dueSoon} due soon</Badge>
+                {followUps && followUps.length > 0 && (
+                  <Badge variant="outline">{followUps.length} follow-ups</Badge>
+                )}
+              </>
+            )}
+          </CardTitle>
+          <Button variant="ghost" size="sm" onClick={() => navigate('/maintenance')}>
+            Full schedule
+            <ArrowRight className="h-4 w-4 ml-2" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : pending.length === 0 ? (
+          <p className="text-sm text-muted-foreground">All devices are up to date</p>
+        ) : (
+          <div className="space-y-2">
+            {pending.slice(0, MAX_ITEMS).map(item => (
+              <div
+                key={item.key}
+                className="flex items-center justify-between gap-4 p-3 rounded-lg border border-border/50"
+              >
+                <div className="min-w-0">
+                  <p className="font-medium truncate">
+                    {item.label}
+                    <span className="text-sm text-muted-foreground ml-2">
+                      {getPmDeviceTypeLabel(item.deviceType)}
+                    </span>
+                  </p>
+                  <p className="text-sm text-muted-foreground truncate">
+                    {[item.holder, item.location].filter(Boolean).join(' • ') || 'Unassigned'}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <div className="text-right">
+                    <Badge variant={getPmStatusVariant(item.status)}>{PM_STATUS_LABELS[item.status]}</Badge>
+                    {item.nextDue && (
+                      <p className="text-xs text-muted-foreground mt-1">{format(item.nextDue, 'PP')}</p>
+                    )}
+                  </div>
+                  {canLogPm && (
+                    <Button size="sm" variant="outline" onClick={() => setLogItem(item)}>
+                      Log PM
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+            {pending.length > MAX_ITEMS && (
+              <p className="text-sm text-muted-foreground text-center pt-2">
+                and {pending.length - MAX_ITEMS} more
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      {logItem && (
+        <PmLogDialog
+          open={!!logItem}
+          onOpenChange={(open) => !open && setLogItem(null)}
+          employeeId={logItem.employeeId}
+          assetId={logItem.assetId}
+          label={logItem.label}
+        />
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,139 @@
+import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2, AlertTriangle } from 'lucide-react';
+import { usePmFollowUps } from '@/hooks/usePmChecklists';
+import { formatAsset } from '@/lib/assets';
+
+interface ResolveState {
+  id: string;
+  item: string;
+}
+
+// Failed checklist items waiting for someone to fix them
+export const PmFollowUps = () => {
+  const queryClient = useQueryClient();
+  const { data: followUps, isLoading } = usePmFollowUps();
+  const [resolving, setResolving] = useState<ResolveState | null>(null);
+  const [note, setNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleResolve = async () => {
+    if (!resolving) return;
+
+    setIsSubmitting(true);
+    try {
+      const { error } = await supabase.rpc('resolve_pm_follow_up', {
+        _result_id: resolving.id,
+        _note: note.trim() || undefined,
+      });
+
+      if (error) throw error;
+
+      toast.success('Follow-up resolved');
+      queryClient.invalidateQueries({ queryKey: ['pm-follow-ups'] });
+      queryClient.invalidateQueries({ queryKey: ['pm-records'] });
+      setResolving(null);
+      setNote('');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'An error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AlertTriangle className="h-5 w-5 text-destructive" />
+          Follow-up Work
+          {followUps && followUps.length > 0 && <Badge variant="destructive">{followUps.length}</Badge>}
+        </CardTitle>
+        <CardDescription>Checklist items that failed during a PM visit</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : !followUps || followUps.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No open follow-ups</p>
+        ) : (
+          <div className="space-y-2">
+            {followUps.map(followUp => {
+              const record = followUp.pm_records;
+              const device = record?.employees
+                ? record.employees.computer_name || record.employees.name
+                : record?.assets
+                  ? formatAsset(record.assets)
+                  : 'Unknown device';
+
+              return (
+                <div
+                  key={followUp.id}
+                  className="flex items-center justify-between gap-4 p-3 rounded-lg border border-border/50"
+                >
+                  <div className="min-w-0">
+                    <p className="font-medium">{followUp.item}</p>
+                    {followUp.comment && <p className="text-sm">{followUp.comment}</p>}
+                    <p className="text-sm text-muted-foreground">
+                      {device}
+                      {record?.employees?.location && ` • ${record.employees.location}`}
+                      {record && ` • ${format(new Date(record.performed_at), 'PP')}`}
+                      {record?.performed_by_name && ` by ${record.performed_by_name}`}
+                    </p>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setResolving({ id: followUp.id, item: followUp.item })}
+                  >
+                    Resolve
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!resolving} onOpenChange={(open) => !open && setResolving(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Resolve Follow-up</DialogTitle>
+            <DialogDescription>{resolving?.item}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="follow-up-note">What was done</Label>
+            <Textarea id="follow-up-note" value={note} onChange={(e) => setNote(e.target.value)} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setResolving(null)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button onClick={handleResolve} disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Resolve
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -0,0 +1,89 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, Wrench, Check, X } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface PmHistoryProps {
+  employeeId?: string;
+  assetId?: string;
+}
+
+export const PmHistory = ({ employeeId, assetId }: PmHistoryProps) => {
+  const { data: records, isLoading } = useQuery({
+    queryKey: ['pm-records', employeeId, assetId],
+    queryFn: async () => {
+      let query = supabase
+        .from('pm_records')
+        .select('*, pm_check_results(*), pm_checklist_versions(version, pm_checklist_templates(name))')
+        .order('performed_at', { ascending: false })
+        .order('created_at', { ascending: false });
+
+      if (employeeId) query = query.eq('employee_id', employeeId);
+      if (assetId) query = query.eq('asset_id', assetId);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-6">
+        <Loader2 className="h-5 w-5 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!records || records.length === 0) {
+    return <p className="text-sm text-muted-foreground">No maintenance visits logged</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-border ml-2 space-y-4">
+      {records.map((record) => (
+        <li key={record.id} className="ml-4 animate-fade-in">
+          <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-primary" />
+          <div className="flex flex-wrap items-center gap-2">
+            <Wrench className="h-4 w-4 text-muted-foreground" />
+            <span className="font-medium">{format(new Date(record.performed_at), 'PP')}</span>
+            {record.performed_by_name && (
+              <span className="text-sm text-muted-foreground">by {record.performed_by_name}</span>
+            )}
+          </div>
+          {record.pm_checklist_versions && (
+            <div className="mt-2 space-y-1">
+              <Badge variant="outline">
+                {record.pm_checklist_versions.pm_checklist_templates?.name} v{record.pm_checklist_versions.version}
+              </Badge>
+              <ul className="text-sm space-y-1">
+                {[...record.pm_check_results]
+                  .sort((a, b) => a.position - b.position)
+                  .map(result => (
+                    <li key={result.id} className="flex items-start gap-2">
+                      {result.passed ? (
+                        <Check className="h-4 w-4 mt-0.5 text-primary shrink-0" />
+                      ) : (
+                        <X className="h-4 w-4 mt-0.5 text-destructive shrink-0" />
+                      )}
+                      <span>
+                        {result.item}
+                        {result.comment && <span className="text-muted-foreground"> — {result.comment}</span>}
+                        {!result.passed && (
+                          <span className="text-xs text-muted-foreground ml-2">
+                            {result.resolved_at ? 'Resolved' : 'Open follow-up'}
+                          </span>
+                        )}
+                      </span>
+                    </li>
+                  ))}
+              </ul>
+            </div>
+          )}
+          {record.notes && <p className="text-sm whitespace-pre-wrap">{record.notes}</p>}
+        </li>
+      ))}
+    </ol>
+  );
+};
@@ -0,0 +1,235 @@
+import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2, Plus, Edit, Trash2, CalendarClock } from 'lucide-react';
+import { useLocations } from '@/hooks/useLocations';
+import { usePmIntervals } from '@/hooks/usePmSchedule';
+import { PM_DEVICE_TYPES, getPmDeviceTypeLabel, type PmInterval } from '@/lib/pm';
+
+const ANY = '__any__';
+
+interface RuleState {
+  id?: string;
+  locationId: string;
+  deviceType: string;
+  intervalDays: string;
+}
+
+export const PmIntervalsManager = () => {
+  const queryClient = useQueryClient();
+  const { data: intervals, isLoading } = usePmIntervals();
+  const { data: locations } = useLocations();
+  const [rule, setRule] = useState<RuleState | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const getLocationName = (locationId: string | null) =>
+    locationId ? locations?.find(l => l.id === locationId)?.name || 'Unknown' : 'All locations';
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['pm-intervals'] });
+    queryClient.invalidateQueries({ queryKey: ['pm-schedule'] });
+  };
+
+  const openRule = (interval?: PmInterval) => {
+    setRule({
+      id: interval?.id,
+      locationId: interval?.location_id || ANY,
+      deviceType: interval?.device_type || ANY,
+      intervalDays: String(interval?.interval_days || 90),
+    });
+  };
+
+  const handleSave = async () => {
+    if (!rule) return;
+    const intervalDays = parseInt(rule.intervalDays, 10);
+    if (!intervalDays || intervalDays < 1) {
+      toast.error('Interval must be at least 1 day');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const values = {
+        location_id: rule.locationId === ANY ? null : rule.locationId,
+        device_type: rule.deviceType === ANY ? null : rule.deviceType,
+        interval_days: intervalDays,
+      };
+
+      if (rule.id) {
+        const { error } = await supabase.from('pm_intervals').update(values).eq('id', rule.id);
+        if (error) throw error;
+      } else {
+        const { data: { user } } = await supabase.auth.getUser();
+        const { error } = await supabase.from('pm_intervals').insert({ ...values, created_by: user?.id });
+        if (error) throw error;
+      }
+
+      toast.success('PM interval saved');
+      refresh();
+      setRule(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'An error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (interval: PmInterval) => {
+    const { error } = await supabase.from('pm_intervals').delete().eq('id', interval.id);
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+    toast.success('PM interval removed');
+    refresh();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarClock className="h-5 w-5" />
+              PM Intervals
+            </CardTitle>
+            <CardDescription>
+              The most specific rule applies: location and type, then location, then type, then the default
+            </CardDescription>
+          </div>
+          <Button onClick={() => openRule()} className="hover-scale">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Rule
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="p-0">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Location</TableHead>
+                <TableHead>Device Type</TableHead>
+                <TableHead>Every</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {intervals?.map(interval => (
+                <TableRow key={interval.id}>
+                  <TableCell>{getLocationName(interval.location_id)}</TableCell>
+                  <TableCell>{getPmDeviceTypeLabel(interval.device_type)}</TableCell>
+                  <TableCell>{interval.interval_days} days</TableCell>
+                  <TableCell className="text-right">
+                    <Button size="sm" variant="ghost" onClick={() => openRule(interval)}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => handleDelete(interval)}>
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={!!rule} onOpenChange={(open) => !open && setRule(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{rule?.id ? 'Edit' : 'Add'} PM Interval</DialogTitle>
+            <DialogDescription>Leave location or type on "All" to apply more broadly</DialogDescription>
+          </DialogHeader>
+          {rule && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Location</Label>
+                <Select value={rule.locationId} onValueChange={(value) => setRule({ ...rule, locationId: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>All locations</SelectItem>
+                    {locations?.map(loc => (
+                      <SelectItem key={loc.id} value={loc.id}>
+                        {loc.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Device Type</Label>
+                <Select value={rule.deviceType} onValueChange={(value) => setRule({ ...rule, deviceType: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>All devices</SelectItem>
+                    {PM_DEVICE_TYPES.map(type => (
+                      <SelectItem key={type.value} value={type.value}>
+                        {type.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="pm-interval-days">Interval (days)</Label>
+                <Input
+                  id="pm-interval-days"
+                  type="number"
+                  min={1}
+                  value={rule.intervalDays}
+                  onChange={(e) => setRule({ ...rule, intervalDays: e.target.value })}
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRule(null)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -0,0 +1,226 @@
+import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2, Check, X } from 'lucide-react';
+import { usePmChecklists } from '@/hooks/usePmChecklists';
+
+const NO_CHECKLIST = '__none__';
+
+interface ItemResult {
+  passed: boolean | null;
+  comment: string;
+}
+
+interface PmLogDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  employeeId?: string | null;
+  assetId?: string | null;
+  label: string;
+}
+
+// Logs a completed visit with an optional checklist; the database moves last_pm forward
+export const PmLogDialog = ({ open, onOpenChange, employeeId, assetId, label }: PmLogDialogProps) => {
+  const queryClient = useQueryClient();
+  const [performedAt, setPerformedAt] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [notes, setNotes] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { data: checklists } = usePmChecklists();
+  const [selectedChecklist, setSelectedChecklist] = useState<string | null>(null);
+  const [results, setResults] = useState<ItemResult[]>([]);
+
+  const activeChecklists = checklists?.filter(c => c.is_active && c.current) || [];
+  // Computers get the first checklist unless the technician picks another
+  const checklistId = selectedChecklist ?? (employeeId ? activeChecklists[0]?.id : undefined) ?? NO_CHECKLIST;
+  const version = activeChecklists.find(c => c.id === checklistId)?.current;
+  const items = version?.items || [];
+
+  const handleChecklistChange = (value: string) => {
+    setSelectedChecklist(value);
+    setResults([]);
+  };
+
+  const updateResult = (index: number, changes: Partial<ItemResult>) => {
+    setResults(prev => {
+      const next = [...prev];
+      next[index] = { passed: null, comment: '', ...next[index], ...changes };
+      return next;
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (!performedAt) {
+      toast.error('Visit date is required');
+      return;
+    }
+
+    if (items.some((_, index) => results[index]?.passed == null)) {
+      toast.error('Mark every checklist item as pass or fail');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      const { data: record, error } = await supabase
+        .from('pm_records')
+        .insert({
+          employee_id: employeeId || null,
+          asset_id: employeeId ? null : assetId,
+          performed_at: performedAt,
+          performed_by: user?.id,
+          notes: notes.trim() || null,
+          checklist_version_id: version?.id || null,
+        })
+        .select('id')
+        .single();
+
+      if (error) throw error;
+
+      if (items.length > 0) {
+        const { error: resultsError } = await supabase.from('pm_check_results').insert(
+          items.map((item, index) => ({
+            pm_record_id: record.id,
+            position: index,
+            item,
+            passed: !!results[index].passed,
+            comment: results[index].comment.trim() || null,
+          }))
+        );
+
+        if (resultsError) throw resultsError;
+      }
+
+      toast.success('Maintenance visit logged');
+      queryClient.invalidateQueries({ queryKey: ['pm-schedule'] });
+      queryClient.invalidateQueries({ queryKey: ['pm-records'] });
+      queryClient.invalidateQueries({ queryKey: ['pm-follow-ups'] });
+      if (assetId) queryClient.invalidateQueries({ queryKey: ['asset', assetId] });
+      setNotes('');
+      setResults([]);
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'An error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Log Maintenance Visit</DialogTitle>
+          <DialogDescription>{label}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="pm-date">Visit Date</Label>
+            <Input
+              id="pm-date"
+              type="date"
+              value={performedAt}
+              max={format(new Date(), 'yyyy-MM-dd')}
+              onChange={(e) => setPerformedAt(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Checklist</Label>
+            <Select value={checklistId} onValueChange={handleChecklistChange}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_CHECKLIST}>No checklist</SelectItem>
+                {activeChecklists.map(checklist => (
+                  <SelectItem key={checklist.id} value={checklist.id}>
+                    {checklist.name} (v{checklist.current?.version})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {items.length > 0 && (
+            <div className="space-y-2">
+              {items.map((item, index) => {
+                const result = results[index];
+                return (
+                  <div key={index} className="p-3 rounded-lg border border-border/50 space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="text-sm font-medium">{item}</p>
+                      <div className="flex gap-1">
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant={result?.passed === true ? 'default' : 'outline'}
+                          onClick={() => updateResult(index, { passed: true })}
+                        >
+                          <Check className="h-4 w-4 mr-1" />
+                          Pass
+                        </Button>
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant={result?.passed === false ? 'destructive' : 'outline'}
+                          onClick={() => updateResult(index, { passed: false })}
+                        >
+                          <X className="h-4 w-4 mr-1" />
+                          Fail
+                        </Button>
+                      </div>
+                    </div>
+                    <Input
+                      placeholder={result?.passed === false ? 'What needs follow-up?' : 'Comment (optional)'}
+                      value={result?.comment || ''}
+                      onChange={(e) => updateResult(index, { comment: e.target.value })}
+                    />
+                  </div>
+                );
+              })}
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="pm-notes">Notes</Label>
+            <Textarea
+              id="pm-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Work done, parts replaced, issues found..."
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Log Visit
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,191 @@
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2 } from 'lucide-react';
+import {
+  getAuditFieldLabel,
+  getRestoreFieldDiffs,
+  type AuditSnapshot,
+  type AuditVersion,
+} from '@/lib/audit';
+
+interface RestoreVersionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  auditId: string;
+  createdAt: string;
+  oldData: AuditSnapshot | null;
+  newData: AuditSnapshot | null;
+}
+
+// Rolls an employee back to the version before or after one audited change
+export const RestoreVersionDialog = ({ open, onOpenChange, auditId, createdAt, oldData, newData }: RestoreVersionDialogProps) => {
+  const queryClient = useQueryClient();
+  const [version, setVersion] = useState<AuditVersion>(newData ? 'after' : 'before');
+  const [selectedFields, setSelectedFields] = useState<string[] | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const snapshot = version === 'after' ? newData : oldData;
+  const employeeId = (newData?.id || oldData?.id) as string | undefined;
+
+  const { data: current, isLoading: isLoadingCurrent } = useQuery({
+    queryKey: ['employee-version-current', employeeId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('employees')
+        .select('*')
+        .eq('id', employeeId!)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data as AuditSnapshot | null;
+    },
+    enabled: open && !!employeeId,
+  });
+
+  const { data: restorableFields, isLoading: isLoadingFields } = useQuery({
+    queryKey: ['employee-restorable-fields'],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('employee_restorable_fields');
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: open,
+  });
+
+  const isLoading = isLoadingCurrent || isLoadingFields;
+  const diffs = snapshot && !isLoading ? getRestoreFieldDiffs(snapshot, current || null, restorableFields || []) : [];
+  // Every changed field is ticked until the admin narrows it down
+  const selected = selectedFields ?? diffs.map(d => d.field);
+  const isPurged = !isLoading && !current;
+  const isWholeRecord = selected.length === diffs.length;
+
+  const handleVersionChange = (value: string) => {
+    setVersion(value as AuditVersion);
+    setSelectedFields(null);
+  };
+
+  const toggleField = (field: string, checked: boolean) => {
+    setSelectedFields(checked ? [...selected, field] : selected.filter(f => f !== field));
+  };
+
+  const handleRestore = async () => {
+    setIsSubmitting(true);
+    try {
+      const { error } = await supabase.rpc('restore_employee_version', {
+        _audit_id: auditId,
+        _version: version,
+        _fields: isWholeRecord ? undefined : selected,
+      });
+
+      if (error) throw error;
+      toast.success(isWholeRecord ? 'Employee restored to this version' : `Restored ${selected.length} field${selected.length > 1 ? 's' : ''}`);
+      queryClient.invalidateQueries({ queryKey: ['activity-logs'] });
+      queryClient.invalidateQueries({ queryKey: ['employee-version-current', employeeId] });
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'An error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Restore Version</DialogTitle>
+          <DialogDescription>
+            Roll {(snapshot?.name as string) || 'this employee'} back to how they were around{' '}
+            {format(new Date(createdAt), 'PPpp')}. The restore is logged as a change of its own.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup value={version} onValueChange={handleVersionChange} className="flex gap-6">
+          <div className="flex items-center gap-2">
+            <RadioGroupItem value="before" id="version-before" disabled={!oldData} />
+            <Label htmlFor="version-before">Before this change</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <RadioGroupItem value="after" id="version-after" disabled={!newData} />
+            <Label htmlFor="version-after">After this change</Label>
+          </div>
+        </RadioGroup>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : diffs.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4">The current record already matches this version</p>
+        ) : (
+          <div className="space-y-2">
+            {isPurged ? (
+              <p className="text-sm text-muted-foreground">
+                This employee has been purged, so the whole record will be recreated.
+              </p>
+            ) : (
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="restore-all"
+                  checked={isWholeRecord}
+                  onCheckedChange={(checked) => setSelectedFields(checked ? null : [])}
+                />
+                <Label htmlFor="restore-all" className="font-semibold">Whole record</Label>
+              </div>
+            )}
+            {diffs.map(diff => (
+              <div key={diff.field} className="flex items-start gap-2 text-sm bg-muted p-3 rounded-md">
+                <Checkbox
+                  id={`restore-${diff.field}`}
+                  checked={selected.includes(diff.field)}
+                  disabled={isPurged}
+                  onCheckedChange={(checked) => toggleField(diff.field, !!checked)}
+                />
+                <div className="min-w-0">
+                  <Label htmlFor={`restore-${diff.field}`} className="font-medium capitalize">
+                    {getAuditFieldLabel(diff.field)}
+                  </Label>
+                  <div className="flex flex-wrap gap-2 items-center mt-1">
+                    {!isPurged && (
+                      <>
+                        <span className="text-muted-foreground line-through break-all">{diff.current || 'N/A'}</span>
+                        <span>→</span>
+                      </>
+                    )}
+                    <span className="text-foreground font-medium break-all">{diff.restored || 'N/A'}</span>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleRestore} disabled={isSubmitting || isLoading || selected.length === 0}>
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {isWholeRecord ? 'Restore Record' : `Restore ${selected.length} Field${selected.length > 1 ? 's' : ''}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { useAuth } from '@/hooks/useAuth';
+import { useAppSettings } from '@/hooks/useAppSettings';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Globe, Plus, X } from 'lucide-react';
+import { normalizeEmailDomain } from '@/lib/invitations';
+
+export const SignupDomainsCard = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { data: settings } = useAppSettings();
+  const [newDomain, setNewDomain] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const domains = settings?.allowed_signup_domains || [];
+
+  const saveDomains = async (next: string[], message: string) => {
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from('app_settings')
+        .update({ allowed_signup_domains: next, updated_by: user?.id })
+        .eq('id', true);
+
+      if (error) throw error;
+      toast.success(message);
+      queryClient.invalidateQueries({ queryKey: ['app-settings'] });
+      return true;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'An error occurred');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const domain = normalizeEmailDomain(newDomain);
+    if (!domain) {
+      toast.error('Enter a domain such as example.com');
+      return;
+    }
+    if (domains.includes(domain)) {
+      toast.error(`${domain} is already allowed`);
+      return;
+    }
+
+    if (await saveDomains([...domains, domain], `Anyone with an @${domain} email can now sign up`)) {
+      setNewDomain('');
+    }
+  };
+
+  const handleRemove = (domain: string) =>
+    saveDomains(domains.filter(d => d !== domain), `@${domain} emails now need an invitation`);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Globe className="h-5 w-5 text-primary" />
+          <CardTitle className="text-foreground">Sign-up Domains</CardTitle>
+        </div>
+        <CardDescription>
+          People with an email on these domains can sign up on their own as employees. Everyone else needs an invitation.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {domains.length === 0 ? (
+            <span className="text-sm text-muted-foreground">No domains allowed — sign-up is by invitation only</span>
+          ) : (
+            domains.map(domain => (
+              <Badge key={domain} variant="secondary" className="gap-1 pr-1">
+                @{domain}
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-4 w-4 p-0"
+                  onClick={() => handleRemove(domain)}
+                  disabled={isSaving}
+                  title={`Remove ${domain}`}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </Badge>
+            ))
+          )}
+        </div>
+        <form onSubmit={handleAdd} className="flex gap-2 md:w-96">
+          <Input
+            placeholder="example.com"
+            value={newDomain}
+            onChange={(e) => setNewDomain(e.target.value)}
+            disabled={!settings}
+          />
+          <Button type="submit" variant="outline" disabled={!settings || isSaving || !newDomain.trim()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
@@ -14,7 +14,9 @@ export const StatsCards = () => {
     queryFn: async () => {
       const { data: employees, error } = await supabase
         .from('employees')
-        .select('department, created_at, location');
+        .select('department, created_at, location')
+        .is('archived_at', null)
+        .is('deleted_at', null);
       
       if (error) throw error;
 
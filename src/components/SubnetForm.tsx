@@ -0,0 +1,215 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import { useLocations } from '@/hooks/useLocations';
+import { ipToNumber, isInSubnet, isNetworkAddress, isValidIPv4, type Subnet } from '@/lib/ipam';
+
+const optionalIp = z
+  .string()
+  .trim()
+  .refine(value => !value || isValidIPv4(value), 'Enter a valid IPv4 address')
+  .optional();
+
+const subnetSchema = z
+  .object({
+    location_id: z.string().min(1, 'Location is required'),
+    name: z.string().max(100).optional(),
+    network: z.string().trim().refine(isValidIPv4, 'Enter a valid IPv4 network address'),
+    prefix_length: z.coerce.number().int().min(8, 'Prefix must be /8 to /30').max(30, 'Prefix must be /8 to /30'),
+    gateway: optionalIp,
+    dhcp_start: optionalIp,
+    dhcp_end: optionalIp,
+    vlan: z.preprocess(
+      (value) => (value === '' || value === null ? undefined : value),
+      z.coerce.number().int().min(1).max(4094, 'VLAN must be 1 to 4094').optional()
+    ),
+    notes: z.string().max(1000).optional(),
+  })
+  .superRefine((data, ctx) => {
+    if (!isValidIPv4(data.network) || data.prefix_length < 8 || data.prefix_length > 30) return;
+    if (!isNetworkAddress(data.network, data.prefix_length)) {
+      ctx.addIssue({ code: 'custom', path: ['network'], message: `Not the network address of a /${data.prefix_length}` });
+      return;
+    }
+
+    const inRange = (field: 'gateway' | 'dhcp_start' | 'dhcp_end') => {
+      const value = data[field];
+      if (value && isValidIPv4(value) && !isInSubnet(value, { network: data.network, prefix_length: data.prefix_length })) {
+        ctx.addIssue({ code: 'custom', path: [field], message: 'Outside this subnet' });
+      }
+    };
+    inRange('gateway');
+    inRange('dhcp_start');
+    inRange('dhcp_end');
+
+    if (!!data.dhcp_start !== !!data.dhcp_end) {
+      ctx.addIssue({ code: 'custom', path: [data.dhcp_start ? 'dhcp_end' : 'dhcp_start'], message: 'Set both ends of the range' });
+    } else if (data.dhcp_start && data.dhcp_end && isValidIPv4(data.dhcp_start) && isValidIPv4(data.dhcp_end)
+      && ipToNumber(data.dhcp_start) > ipToNumber(data.dhcp_end)) {
+      ctx.addIssue({ code: 'custom', path: ['dhcp_end'], message: 'Range ends before it starts' });
+    }
+  });
+
+type SubnetFormData = z.infer<typeof subnetSchema>;
+
+interface SubnetFormProps {
+  subnet?: Subnet;
+  onSuccess: () => void;
+  onCancel: () => void;
+}
+
+export const SubnetForm = ({ subnet, onSuccess, onCancel }: SubnetFormProps) => {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { data: locations } = useLocations();
+
+  const {
+    register,
+    handleSubmit,
+    setValue,
+    watch,
+    formState: { errors },
+  } = useForm<SubnetFormData>({
+    resolver: zodResolver(subnetSchema),
+    defaultValues: {
+      location_id: subnet?.location_id || '',
+      name: subnet?.name || '',
+      network: subnet?.network || '',
+      prefix_length: subnet?.prefix_length ?? 24,
+      gateway: subnet?.gateway || '',
+      dhcp_start: subnet?.dhcp_start || '',
+      dhcp_end: subnet?.dhcp_end || '',
+      vlan: subnet?.vlan ?? undefined,
+      notes: subnet?.notes || '',
+    },
+  });
+
+  const locationId = watch('location_id');
+
+  const onSubmit = async (data: SubnetFormData) => {
+    setIsSubmitting(true);
+    try {
+      const values = {
+        location_id: data.location_id,
+        name: data.name?.trim() || null,
+        network: data.network,
+        prefix_length: data.prefix_length,
+        gateway: data.gateway || null,
+        dhcp_start: data.dhcp_start || null,
+        dhcp_end: data.dhcp_end || null,
+        vlan: data.vlan ?? null,
+        notes: data.notes || null,
+      };
+
+      if (subnet?.id) {
+        const { error } = await supabase
+          .from('subnets')
+          .update(values)
+          .eq('id', subnet.id);
+
+        if (error) throw error;
+        toast.success('Subnet updated');
+      } else {
+        const { data: { user } } = await supabase.auth.getUser();
+
+        const { error } = await supabase
+          .from('subnets')
+          .insert({ ...values, created_by: user?.id });
+
+        if (error) throw error;
+        toast.success('Subnet added');
+      }
+
+      onSuccess();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'An error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label>Location *</Label>
+          <Select value={locationId || undefined} onValueChange={(value) => setValue('location_id', value, { shouldValidate: true })}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select location" />
+            </SelectTrigger>
+            <SelectContent>
+              {locations?.map(loc => (
+                <SelectItem key={loc.id} value={loc.id}>
+                  {loc.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {errors.location_id && <p className="text-sm text-destructive">{errors.location_id.message}</p>}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="subnet-name">Name</Label>
+          <Input id="subnet-name" {...register('name')} placeholder="e.g., Office LAN" />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="subnet-network">Network *</Label>
+          <Input id="subnet-network" {...register('network')} placeholder="192.168.10.0" />
+          {errors.network && <p className="text-sm text-destructive">{errors.network.message}</p>}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="subnet-prefix">Prefix Length *</Label>
+          <Input id="subnet-prefix" type="number" min={8} max={30} {...register('prefix_length')} />
+          {errors.prefix_length && <p className="text-sm text-destructive">{errors.prefix_length.message}</p>}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="subnet-gateway">Gateway</Label>
+          <Input id="subnet-gateway" {...register('gateway')} placeholder="192.168.10.1" />
+          {errors.gateway && <p className="text-sm text-destructive">{errors.gateway.message}</p>}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="subnet-vlan">VLAN</Label>
+          <Input id="subnet-vlan" type="number" min={1} max={4094} {...register('vlan')} />
+          {errors.vlan && <p className="text-sm text-destructive">{errors.vlan.message}</p>}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="subnet-dhcp-start">DHCP Range Start</Label>
+          <Input id="subnet-dhcp-start" {...register('dhcp_start')} placeholder="192.168.10.100" />
+          {errors.dhcp_start && <p className="text-sm text-destructive">{errors.dhcp_start.message}</p>}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="subnet-dhcp-end">DHCP Range End</Label>
+          <Input id="subnet-dhcp-end" {...register('dhcp_end')} placeholder="192.168.10.200" />
+          {errors.dhcp_end && <p className="text-sm text-destructive">{errors.dhcp_end.message}</p>}
+        </div>
+        <div className="space-y-2 md:col-span-2">
+          <Label htmlFor="subnet-notes">Notes</Label>
+          <Textarea id="subnet-notes" {...register('notes')} />
+        </div>
+      </div>
+
+      <div className="flex gap-4">
+        <Button type="submit" disabled={isSubmitting} className="flex-1">
+          {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {subnet ? 'Update Subnet' : 'Add Subnet'}
+        </Button>
+        <Button type="button" variant="outline" onClick={onCancel} disabled={isSubmitting}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+};
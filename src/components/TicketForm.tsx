@@ -0,0 +1,235 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import { EmployeePicker } from '@/components/EmployeePicker';
+import { useMyEmployee } from '@/hooks/useProfiles';
+import { formatAsset } from '@/lib/assets';
+import { TICKET_PRIORITIES } from '@/lib/tickets';
+
+const NO_DEVICE = '__none__';
+
+const ticketSchema = z.object({
+  employee_id: z.string().min(1, 'Select an employee'),
+  title: z.string().trim().min(1, 'Title is required').max(200),
+  description: z.string().max(5000).optional(),
+  priority: z.string(),
+  device_serial: z.string().optional(),
+});
+
+type TicketFormData = z.infer<typeof ticketSchema>;
+
+interface TicketFormProps {
+  isAdmin: boolean;
+  employeeId?: string;
+  deviceSerial?: string;
+  onSuccess: (ticketId: string) => void;
+  onCancel: () => void;
+}
+
+// Admins raise tickets for anyone, everybody else for their own equipment
+export const TicketForm = ({ isAdmin, employeeId, deviceSerial: initialDeviceSerial, onSuccess, onCancel }: TicketFormProps) => {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { data: myEmployee, isLoading: isLoadingMe } = useMyEmployee();
+
+  const {
+    register,
+    handleSubmit,
+    setValue,
+    watch,
+    formState: { errors },
+  } = useForm<TicketFormData>({
+    resolver: zodResolver(ticketSchema),
+    values: {
+      employee_id: employeeId || (isAdmin ? '' : myEmployee?.id || ''),
+      title: '',
+      description: '',
+      priority: 'medium',
+      device_serial: initialDeviceSerial || '',
+    },
+    resetOptions: { keepDirtyValues: true },
+  });
+
+  const selectedEmployee = watch('employee_id');
+  const priority = watch('priority');
+  const deviceSerial = watch('device_serial');
+
+  // Serials of the computer and devices the employee holds
+  const { data: devices } = useQuery({
+    queryKey: ['ticket-devices', selectedEmployee],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('employees')
+        .select('computer_name, computer_serial, assets(asset_type, name, model, serial_number)')
+        .eq('id', selectedEmployee)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return [];
+
+      const options: { serial: string; label: string }[] = [];
+      if (data.computer_serial) {
+        options.push({
+          serial: data.computer_serial,
+          label: `Computer${data.computer_name ? ` (${data.computer_name})` : ''} - ${data.computer_serial}`,
+        });
+      }
+      data.assets.forEach(asset => {
+        if (asset.serial_number) options.push({ serial: asset.serial_number, label: formatAsset(asset) });
+      });
+      return options;
+    },
+    enabled: !!selectedEmployee,
+  });
+
+  const canRaise = isAdmin || (!!myEmployee && (!employeeId || employeeId === myEmployee.id));
+
+  const onSubmit = async (data: TicketFormData) => {
+    setIsSubmitting(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      const { data: ticket, error } = await supabase
+        .from('tickets')
+        .insert({
+          employee_id: data.employee_id,
+          title: data.title,
+          description: data.description?.trim() || null,
+          priority: data.priority,
+          device_serial: data.device_serial || null,
+          created_by: user?.id,
+        })
+        .select('id, ticket_number')
+        .single();
+
+      if (error) throw error;
+
+      toast.success(`Ticket #${ticket.ticket_number} raised`);
+      onSuccess(ticket.id);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'An error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!isAdmin && isLoadingMe) {
+    return (
+      <div className="flex items-center justify-center py-6">
+        <Loader2 className="h-5 w-5 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!canRaise) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          {myEmployee
+            ? 'You can only raise tickets about your own equipment.'
+            : 'Your account is not linked to an employee record. Ask IT to set your email on your employee record.'}
+        </p>
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Close
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+      {isAdmin && !employeeId && (
+        <div className="space-y-2">
+          <Label>Employee *</Label>
+          <EmployeePicker
+            value={selectedEmployee || null}
+            onChange={(value) => {
+              setValue('employee_id', value, { shouldValidate: true });
+              setValue('device_serial', '');
+            }}
+          />
+          {errors.employee_id && <p className="text-sm text-destructive">{errors.employee_id.message}</p>}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="ticket-title">Title *</Label>
+        <Input id="ticket-title" {...register('title')} placeholder="e.g., Printer not responding" />
+        {errors.title && <p className="text-sm text-destructive">{errors.title.message}</p>}
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label>Priority</Label>
+          <Select value={priority} onValueChange={(value) => setValue('priority', value)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TICKET_PRIORITIES.map(p => (
+                <SelectItem key={p.value} value={p.value}>
+                  {p.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Device</Label>
+          <Select
+            value={deviceSerial || NO_DEVICE}
+            onValueChange={(value) => setValue('device_serial', value === NO_DEVICE ? '' : value)}
+            disabled={!selectedEmployee}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_DEVICE}>Not device specific</SelectItem>
+              {devices?.map(device => (
+                <SelectItem key={device.serial} value={device.serial}>
+                  {device.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="ticket-description">Description</Label>
+        <Textarea
+          id="ticket-description"
+          rows={5}
+          {...register('description')}
+          placeholder="What happened, error messages, when it started..."
+        />
+      </div>
+
+      <div className="flex gap-4">
+        <Button type="submit" disabled={isSubmitting} className="flex-1">
+          {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Raise Ticket
+        </Button>
+        <Button type="button" variant="outline" onClick={onCancel} disabled={isSubmitting}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+};
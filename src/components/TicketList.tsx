@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2, Plus, LifeBuoy } from 'lucide-react';
+import { TicketForm } from '@/components/TicketForm';
+import {
+  formatTicketNumber,
+  getTicketPriorityLabel,
+  getTicketPriorityVariant,
+  getTicketStatusLabel,
+  getTicketStatusVariant,
+} from '@/lib/tickets';
+
+interface TicketListProps {
+  employeeId?: string | null;
+  deviceSerial?: string | null; // Lists the device's tickets, whoever raised them
+  isAdmin: boolean;
+}
+
+// Ticket history of one employee or device, shown in the employee view dialog and on device pages
+export const TicketList = ({ employeeId, deviceSerial, isAdmin }: TicketListProps) => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [isNewOpen, setIsNewOpen] = useState(false);
+
+  const { data: tickets, isLoading } = useQuery({
+    queryKey: ['tickets', deviceSerial || employeeId],
+    queryFn: async () => {
+      let query = supabase.from('tickets').select('*');
+      query = deviceSerial ? query.eq('device_serial', deviceSerial) : query.eq('employee_id', employeeId!);
+      const { data, error } = await query.order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!(deviceSerial || employeeId),
+  });
+
+  return (
+    <div className="space-y-3">
+      {employeeId && (
+        <div className="flex justify-end">
+          <Button size="sm" variant="outline" onClick={() => setIsNewOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Ticket
+          </Button>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-6">
+          <Loader2 className="h-5 w-5 animate-spin text-primary" />
+        </div>
+      ) : !tickets || tickets.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No tickets raised</p>
+      ) : (
+        <ul className="space-y-2">
+          {tickets.map(ticket => (
+            <li key={ticket.id}>
+              <Link
+                to={`/tickets/${ticket.id}`}
+                className="flex items-center justify-between gap-2 p-3 bg-background/50 rounded-md border hover:border-primary/50 transition-colors"
+              >
+                <div className="min-w-0">
+                  <p className="font-medium truncate">
+                    <LifeBuoy className="inline h-4 w-4 mr-1 text-muted-foreground" />
+                    {formatTicketNumber(ticket)} {ticket.title}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {ticket.created_at && format(new Date(ticket.created_at), 'PP')}
+                    {ticket.device_serial && ` • ${ticket.device_serial}`}
+                  </p>
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  <Badge variant={getTicketPriorityVariant(ticket.priority)}>
+                    {getTicketPriorityLabel(ticket.priority)}
+                  </Badge>
+                  <Badge variant={getTicketStatusVariant(ticket.status)}>
+                    {getTicketStatusLabel(ticket.status)}
+                  </Badge>
+                </div>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Dialog open={isNewOpen} onOpenChange={setIsNewOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>New Ticket</DialogTitle>
+            <DialogDescription>
+              Raise a helpdesk ticket for {deviceSerial ? 'this device' : 'this employee'}
+            </DialogDescription>
+          </DialogHeader>
+          <TicketForm
+            isAdmin={isAdmin}
+            employeeId={employeeId || undefined}
+            deviceSerial={deviceSerial || undefined}
+            onSuccess={(ticketId) => {
+              setIsNewOpen(false);
+              queryClient.invalidateQueries({ queryKey: ['tickets'] });
+              navigate(`/tickets/${ticketId}`);
+            }}
+            onCancel={() => setIsNewOpen(false)}
+          />
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ShieldCheck, ShieldAlert, ShieldX, ShieldQuestion, Loader2, ArrowRight } from 'lucide-react';
+import { useWarrantyReport } from '@/hooks/useWarrantyReport';
+import { WARRANTY_EXPIRY_WARNING_DAYS, WARRANTY_STATUS_LABELS, type WarrantyStatus } from '@/lib/warranty';
+
+const STATUS_CARDS: { status: WarrantyStatus; icon: typeof ShieldCheck; gradient: string; subtitle?: string }[] = [
+  { status: 'active', icon: ShieldCheck, gradient: 'from-green-500 to-emerald-500' },
+  {
+    status: 'expiring',
+    icon: ShieldAlert,
+    gradient: 'from-amber-500 to-yellow-500',
+    subtitle: `Within ${WARRANTY_EXPIRY_WARNING_DAYS} days`,
+  },
+  { status: 'expired', icon: ShieldX, gradient: 'from-orange-500 to-red-500' },
+  { status: 'unknown', icon: ShieldQuestion, gradient: 'from-indigo-500 to-purple-500' },
+];
+
+// Dashboard summary of hardware warranty coverage, each card opening the report
+export const WarrantyCards = () => {
+  const navigate = useNavigate();
+  const { data: items, isLoading } = useWarrantyReport();
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-foreground flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5 text-primary" />
+          Hardware Warranty
+        </h3>
+        <Button variant="ghost" size="sm" onClick={() => navigate('/warranty')}>
+          Full report
+          <ArrowRight className="h-4 w-4 ml-2" />
+        </Button>
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {STATUS_CARDS.map((card, index) => {
+          const Icon = card.icon;
+          return (
+            <Card
+              key={card.status}
+              className="overflow-hidden hover-lift animate-fade-in border-border/50 cursor-pointer"
+              style={{ animationDelay: `${index * 100}ms` }}
+              onClick={() => navigate(`/warranty?status=${card.status}`)}
+            >
+              <CardContent className="p-4">
+                <div className="flex items-center justify-between">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xs font-medium text-muted-foreground mb-1 truncate">
+                      {WARRANTY_STATUS_LABELS[card.status]}
+                    </p>
+                    <h3 className="text-2xl font-bold text-foreground">
+                      {items?.filter(item => item.status === card.status).length || 0}
+                    </h3>
+                    {card.subtitle && (
+                      <p className="text-xs text-muted-foreground mt-1">{card.subtitle}</p>
+                    )}
+                  </div>
+                  <div className={`bg-gradient-to-br ${card.gradient} p-2 rounded-lg`}>
+                    <Icon className="h-5 w-5 text-white" />
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { addDays } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import type { AuditLog } from '@/lib/audit';
+
+export const AUDIT_PAGE_SIZE = 25;
+
+// PostgREST returns at most this many rows per request
+const EXPORT_BATCH_SIZE = 1000;
+
+export interface AuditLogFilters {
+  action: string;
+  actorId: string;
+  employeeId: string | null;
+  field: string;
+  // yyyy-MM-dd, inclusive
+  from: string;
+  to: string;
+  search: string;
+}
+
+export const EMPTY_AUDIT_FILTERS: AuditLogFilters = {
+  action: 'all',
+  actorId: 'all',
+  employeeId: null,
+  field: 'all',
+  from: '',
+  to: '',
+  search: '',
+};
+
+const buildAuditLogQuery = (filters: AuditLogFilters, withCount = false) => {
+  let query = supabase
+    .from('employee_audit_log')
+    .select('id, employee_id, action, changed_by, changed_by_email, changed_by_name, old_data, new_data, changes, restored_from, change_request_id, asset_id, created_at', withCount ? { count: 'exact' } : undefined);
+
+  if (filters.action !== 'all') query = query.eq('action', filters.action);
+  if (filters.actorId !== 'all') query = query.eq('changed_by', filters.actorId);
+  if (filters.employeeId) query = query.eq('employee_id', filters.employeeId);
+  if (filters.field !== 'all') query = query.not(`changes->${filters.field}`, 'is', null);
+  if (filters.from) query = query.gte('created_at', new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) query = query.lt('created_at', addDays(new Date(`${filters.to}T00:00:00`), 1).toISOString());
+  if (filters.search.trim()) {
+    query = query.textSearch('search_vector', filters.search.trim(), { type: 'websearch', config: 'simple' });
+  }
+
+  return query.order('created_at', { ascending: false });
+};
+
+export const useAuditLog = (filters: AuditLogFilters, page: number) => {
+  return useQuery({
+    queryKey: ['activity-logs', filters, page],
+    queryFn: async () => {
+      const start = page * AUDIT_PAGE_SIZE;
+      const { data, count, error } = await buildAuditLogQuery(filters, true).range(start, start + AUDIT_PAGE_SIZE - 1);
+
+      if (error) throw error;
+      return { logs: data as AuditLog[], count: count || 0 };
+    },
+    placeholderData: keepPreviousData,
+  });
+};
+
+// Every entry matching the filters, for export
+export const fetchAllAuditLogs = async (filters: AuditLogFilters) => {
+  const logs: AuditLog[] = [];
+  for (let start = 0; ; start += EXPORT_BATCH_SIZE) {
+    const { data, error } = await buildAuditLogQuery(filters).range(start, start + EXPORT_BATCH_SIZE - 1);
+
+    if (error) throw error;
+    logs.push(...(data as AuditLog[]));
+    if (data.length < EXPORT_BATCH_SIZE) return logs;
+  }
+};
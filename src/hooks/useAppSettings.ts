@@ -0,0 +1,20 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type AppSettings = Tables<'app_settings'>;
+
+export const useAppSettings = () => {
+  return useQuery({
+    queryKey: ['app-settings'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('app_settings')
+        .select('*')
+        .maybeSingle();
+
+      if (error) throw error;
+      return data as AppSettings | null;
+    },
+  });
+};
@@ -69,7 +69,7 @@ export const useAuth = () => {
     return { error: null };
   };
 
-  const signUp = async (email: string, password: string, fullName: string) => {
+  const signUp = async (email: string, password: string, fullName: string, inviteToken?: string) => {
     const redirectUrl = `${window.location.origin}/`;
     
     const { error } = await supabase.auth.signUp({
@@ -79,12 +79,20 @@ export const useAuth = () => {
         emailRedirectTo: redirectUrl,
         data: {
           full_name: fullName,
+          // Checked against the invitation when the account is created
+          invite_token: inviteToken,
         },
       },
     });
     
     if (error) {
-      toast.error(error.message);
+      // handle_new_user rejects emails without an invitation or an allowed domain,
+      // which surfaces as a generic database error
+      toast.error(
+        /database error saving new user/i.test(error.message)
+          ? 'Sign-up is by invitation only. Ask an admin to invite you, or use your work email.'
+          : error.message
+      );
       return { error };
     }
     
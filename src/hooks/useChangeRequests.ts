@@ -0,0 +1,44 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { ChangeRequest } from '@/lib/changeRequests';
+
+export type ChangeRequestWithEmployee = ChangeRequest & {
+  employees: { name: string; location: string | null } | null;
+};
+
+// Admins see every request; everyone else only their own (enforced by RLS)
+export const useChangeRequests = (status: 'pending' | 'reviewed') => {
+  return useQuery({
+    queryKey: ['change-requests', status],
+    queryFn: async () => {
+      let query = supabase
+        .from('employee_change_requests')
+        .select('*, employees(name, location)')
+        .order('created_at', { ascending: status === 'pending' });
+
+      query = status === 'pending'
+        ? query.eq('status', 'pending')
+        : query.neq('status', 'pending').limit(100);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return data as ChangeRequestWithEmployee[];
+    },
+  });
+};
+
+export const usePendingChangeRequestCount = (enabled = true) => {
+  return useQuery({
+    queryKey: ['change-requests', 'pending-count'],
+    queryFn: async () => {
+      const { count, error } = await supabase
+        .from('employee_change_requests')
+        .select('id', { count: 'exact', head: true })
+        .eq('status', 'pending');
+
+      if (error) throw error;
+      return count || 0;
+    },
+    enabled,
+  });
+};
@@ -0,0 +1,119 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { fitsPrinterModel, type Consumable } from '@/lib/consumables';
+
+export interface ConsumableStockLevel {
+  key: string;
+  consumable: Consumable;
+  locationId: string;
+  location: string;
+  quantity: number;
+  deployedPrinters: number;
+  minimum: number;
+  isLow: boolean;
+}
+
+export const useConsumables = () => {
+  return useQuery({
+    queryKey: ['consumables'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('consumables')
+        .select('*')
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return data as Consumable[];
+    },
+  });
+};
+
+// Models of printers currently handed out, with where they are deployed. Printers
+// held by employees in the recycle bin or the archive don't count.
+export const useDeployedPrinters = () => {
+  return useQuery({
+    queryKey: ['deployed-printers'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('assets')
+        .select('id, model, serial_number, employee_id, employees!inner(name, location)')
+        .eq('asset_type', 'printer')
+        .eq('status', 'assigned')
+        .is('employees.deleted_at', null)
+        .is('employees.archived_at', null);
+
+      if (error) throw error;
+      return data;
+    },
+  });
+};
+
+// Stock of every consumable at every location that holds it or runs a printer it fits.
+// The minimum is the per-printer level times the matching printers deployed there.
+export const useConsumableStock = () => {
+  return useQuery({
+    queryKey: ['consumable-stock'],
+    queryFn: async () => {
+      const [consumablesResult, stockResult, locationsResult, printersResult] = await Promise.all([
+        supabase.from('consumables').select('*').order('name', { ascending: true }),
+        supabase.from('consumable_stock').select('*'),
+        supabase.from('locations').select('id, name').order('name', { ascending: true }),
+        supabase
+          .from('assets')
+          .select('model, employees!inner(location)')
+          .eq('asset_type', 'printer')
+          .eq('status', 'assigned')
+          .is('employees.deleted_at', null)
+          .is('employees.archived_at', null),
+      ]);
+
+      if (consumablesResult.error) throw consumablesResult.error;
+      if (stockResult.error) throw stockResult.error;
+      if (locationsResult.error) throw locationsResult.error;
+      if (printersResult.error) throw printersResult.error;
+
+      const levels: ConsumableStockLevel[] = [];
+      for (const consumable of consumablesResult.data) {
+        for (const location of locationsResult.data) {
+          const stock = stockResult.data.find(
+            s => s.consumable_id === consumable.id && s.location_id === location.id
+          );
+          const deployedPrinters = printersResult.data.filter(
+            p => p.employees.location === location.name && fitsPrinterModel(consumable, p.model)
+          ).length;
+          if (!stock && deployedPrinters === 0) continue;
+
+          const quantity = stock?.quantity || 0;
+          const minimum = deployedPrinters * consumable.min_per_printer;
+          levels.push({
+            key: `${consumable.id}-${location.id}`,
+            consumable,
+            locationId: location.id,
+            location: location.name,
+            quantity,
+            deployedPrinters,
+            minimum,
+            isLow: quantity < minimum,
+          });
+        }
+      }
+      return levels;
+    },
+  });
+};
+
+export const useConsumableTransactions = () => {
+  return useQuery({
+    queryKey: ['consumable-transactions'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('consumable_transactions')
+        .select('*, consumables(name, part_number), locations(name), employees(name), assets(model, serial_number)')
+        .order('created_at', { ascending: false })
+        .limit(100);
+
+      if (error) throw error;
+      return data;
+    },
+  });
+};
@@ -0,0 +1,42 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Section = Tables<'sections'>;
+export type Department = Tables<'departments'> & { sections: Section[] };
+
+export const useDepartments = () => {
+  return useQuery({
+    queryKey: ['departments'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('departments')
+        .select('*, sections(*)')
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+
+      return (data as Department[]).map(d => ({
+        ...d,
+        sections: [...d.sections].sort((a, b) => a.name.localeCompare(b.name)),
+      }));
+    },
+  });
+};
+
+// Departments offered at a location: the global ones plus those scoped to it
+export const getDepartmentsForLocation = (departments: Department[], locationId?: string | null) =>
+  departments.filter(d => !d.location_id || d.location_id === locationId);
+
+export const findDepartment = (departments: Department[], name: string, locationId?: string | null) => {
+  const normalized = name.trim().replace(/\s+/g, ' ').toLowerCase();
+  const available = getDepartmentsForLocation(departments, locationId)
+    .filter(d => d.name.toLowerCase() === normalized);
+  // Prefer the location's own department over a global one with the same name
+  return available.find(d => d.location_id) || available[0];
+};
+
+export const findSection = (department: Department, name: string) => {
+  const normalized = name.trim().replace(/\s+/g, ' ').toLowerCase();
+  return department.sections.find(s => s.name.toLowerCase() === normalized);
+};
@@ -0,0 +1,42 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  getAssetIdentifiers,
+  getEmployeeIdentifiers,
+  groupDuplicates,
+  type IdentifierRecord,
+} from '@/lib/duplicates';
+
+// Every identifier currently on record: employee fields plus device serials
+export const fetchIdentifierRecords = async (): Promise<IdentifierRecord[]> => {
+  const [employeesResult, assetsResult] = await Promise.all([
+    supabase
+      .from('employees')
+      .select('id, name, employee_code, computer_name, computer_serial, ip_address')
+      .is('archived_at', null)
+      .is('deleted_at', null),
+    supabase
+      .from('assets')
+      .select('id, asset_type, name, serial_number, employee_id, employees(name)')
+      .not('serial_number', 'is', null)
+      // Stock devices, or devices whose holder is neither archived nor in the recycle bin
+      .is('employees.archived_at', null)
+      .is('employees.deleted_at', null)
+      .or('employee_id.is.null,employees.not.is.null'),
+  ]);
+
+  if (employeesResult.error) throw employeesResult.error;
+  if (assetsResult.error) throw assetsResult.error;
+
+  return [
+    ...employeesResult.data.flatMap(getEmployeeIdentifiers),
+    ...assetsResult.data.flatMap(a => getAssetIdentifiers(a, a.employees?.name || null)),
+  ];
+};
+
+export const useDuplicateReport = () => {
+  return useQuery({
+    queryKey: ['duplicate-report'],
+    queryFn: async () => groupDuplicates(await fetchIdentifierRecords()),
+  });
+};
@@ -0,0 +1,21 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Invitation } from '@/lib/invitations';
+
+// Only admins can read invitations
+export const useInvitations = (enabled = true) => {
+  return useQuery({
+    queryKey: ['invitations'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('user_invitations')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(100);
+
+      if (error) throw error;
+      return data as Invitation[];
+    },
+    enabled,
+  });
+};
@@ -0,0 +1,28 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Location = Tables<'locations'>;
+
+export const useLocations = () => {
+  return useQuery({
+    queryKey: ['locations'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('locations')
+        .select('*')
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return data as Location[];
+    },
+  });
+};
+
+// Collapse whitespace so " kashmir  road" matches "Kashmir Road"
+export const normalizeLocationName = (name: string) => name.trim().replace(/\s+/g, ' ');
+
+export const findLocation = (locations: Location[], name: string) => {
+  const normalized = normalizeLocationName(name).toLowerCase();
+  return locations.find(l => l.name.toLowerCase() === normalized);
+};
@@ -0,0 +1,62 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { getOnboardingProgress, sortOnboardingTasks, type OnboardingTask, type OnboardingProgress } from '@/lib/onboarding';
+
+export interface OnboardingChecklist extends OnboardingProgress {
+  employeeId: string;
+  employeeName: string;
+  tasks: OnboardingTask[];
+}
+
+// Checklists with at least one open task, most overdue first
+export const useOpenOnboardings = () => {
+  return useQuery({
+    queryKey: ['onboarding'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('onboarding_tasks')
+        .select('*, employees!inner(name, archived_at, deleted_at)')
+        .is('employees.archived_at', null)
+        .is('employees.deleted_at', null);
+
+      if (error) throw error;
+
+      const byEmployee = new Map<string, OnboardingChecklist>();
+      for (const { employees, ...task } of data) {
+        const checklist = byEmployee.get(task.employee_id) || {
+          employeeId: task.employee_id,
+          employeeName: employees.name,
+          tasks: [],
+          ...getOnboardingProgress([]),
+        };
+        checklist.tasks.push(task);
+        byEmployee.set(task.employee_id, checklist);
+      }
+
+      return [...byEmployee.values()]
+        .map(checklist => ({
+          ...checklist,
+          tasks: sortOnboardingTasks(checklist.tasks),
+          ...getOnboardingProgress(checklist.tasks),
+        }))
+        .filter(checklist => checklist.done < checklist.total)
+        .sort((a, b) => b.overdue - a.overdue || (a.nextDue || '').localeCompare(b.nextDue || ''));
+    },
+  });
+};
+
+export const useOnboardingTasks = (employeeId: string | undefined) => {
+  return useQuery({
+    queryKey: ['onboarding', employeeId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('onboarding_tasks')
+        .select('*')
+        .eq('employee_id', employeeId!);
+
+      if (error) throw error;
+      return sortOnboardingTasks(data);
+    },
+    enabled: !!employeeId,
+  });
+};
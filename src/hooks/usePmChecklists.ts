@@ -0,0 +1,47 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { PmChecklistTemplate, PmChecklistVersion } from '@/lib/pm';
+
+export type PmChecklist = PmChecklistTemplate & {
+  versions: PmChecklistVersion[];
+  current?: PmChecklistVersion;
+};
+
+export const usePmChecklists = () => {
+  return useQuery({
+    queryKey: ['pm-checklists'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('pm_checklist_templates')
+        .select('*, pm_checklist_versions(*)')
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+
+      return data.map(({ pm_checklist_versions, ...template }): PmChecklist => {
+        const versions = [...pm_checklist_versions].sort((a, b) => b.version - a.version);
+        return { ...template, versions, current: versions[0] };
+      });
+    },
+  });
+};
+
+// Failed checklist items nobody has resolved yet
+export const usePmFollowUps = () => {
+  return useQuery({
+    queryKey: ['pm-follow-ups'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('pm_check_results')
+        .select('*, pm_records(performed_at, performed_by_name, employee_id, asset_id, employees(name, computer_name, location), assets(asset_type, name, model, serial_number))')
+        .eq('passed', false)
+        .is('resolved_at', null);
+
+      if (error) throw error;
+
+      return data.sort((a, b) =>
+        (a.pm_records?.performed_at || '').localeCompare(b.pm_records?.performed_at || '')
+      );
+    },
+  });
+};
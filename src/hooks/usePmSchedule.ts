@@ -0,0 +1,124 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useHasRole } from '@/hooks/useUserRoles';
+import { formatAsset } from '@/lib/assets';
+import {
+  DEFAULT_PM_INTERVAL_DAYS,
+  findPmInterval,
+  getNextPmDue,
+  getPmStatus,
+  type PmInterval,
+  type PmStatus,
+} from '@/lib/pm';
+
+export interface PmScheduleItem {
+  key: string;
+  employeeId: string | null;
+  assetId: string | null;
+  deviceType: string;
+  label: string;
+  holder: string | null;
+  location: string | null;
+  lastPm: string | null;
+  intervalDays: number;
+  nextDue: Date | null;
+  status: PmStatus;
+}
+
+export const usePmIntervals = () => {
+  return useQuery({
+    queryKey: ['pm-intervals'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('pm_intervals')
+        .select('*')
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data as PmInterval[];
+    },
+  });
+};
+
+// Every computer, plus peripherals whose type has its own PM rule
+export const usePmSchedule = () => {
+  return useQuery({
+    queryKey: ['pm-schedule'],
+    queryFn: async () => {
+      const [employeesResult, assetsResult, intervalsResult, locationsResult] = await Promise.all([
+        supabase
+          .from('employees')
+          .select('id, name, location, computer_name, computer_serial, last_pm')
+          .is('archived_at', null)
+          .is('deleted_at', null),
+        supabase
+          .from('assets')
+          .select('id, asset_type, name, model, serial_number, last_pm, employee_id, employees(name, location)')
+          .neq('status', 'retired')
+          // Stock devices, or devices whose holder is neither archived nor in the recycle bin
+          .is('employees.archived_at', null)
+          .is('employees.deleted_at', null)
+          .or('employee_id.is.null,employees.not.is.null'),
+        supabase.from('pm_intervals').select('*'),
+        supabase.from('locations').select('id, name'),
+      ]);
+
+      if (employeesResult.error) throw employeesResult.error;
+      if (assetsResult.error) throw assetsResult.error;
+      if (intervalsResult.error) throw intervalsResult.error;
+      if (locationsResult.error) throw locationsResult.error;
+
+      const intervals = intervalsResult.data;
+      const locationIds = new Map(locationsResult.data.map(l => [l.name, l.id]));
+      const scheduledTypes = new Set(intervals.map(i => i.device_type).filter(Boolean));
+
+      const buildItem = (
+        base: Omit<PmScheduleItem, 'intervalDays' | 'nextDue' | 'status'>
+      ): PmScheduleItem => {
+        const rule = findPmInterval(intervals, base.location ? locationIds.get(base.location) : null, base.deviceType);
+        const intervalDays = rule?.interval_days || DEFAULT_PM_INTERVAL_DAYS;
+        const nextDue = getNextPmDue(base.lastPm, intervalDays);
+        return { ...base, intervalDays, nextDue, status: getPmStatus(nextDue) };
+      };
+
+      const computers = employeesResult.data
+        .filter(e => e.computer_name || e.computer_serial)
+        .map(e => buildItem({
+          key: `employee-${e.id}`,
+          employeeId: e.id,
+          assetId: null,
+          deviceType: 'computer',
+          label: e.computer_name || e.computer_serial || 'Computer',
+          holder: e.name,
+          location: e.location,
+          lastPm: e.last_pm,
+        }));
+
+      const assets = assetsResult.data
+        .filter(a => scheduledTypes.has(a.asset_type))
+        .map(a => buildItem({
+          key: `asset-${a.id}`,
+          employeeId: null,
+          assetId: a.id,
+          deviceType: a.asset_type,
+          label: formatAsset(a),
+          holder: a.employees?.name || null,
+          location: a.employees?.location || null,
+          lastPm: a.last_pm,
+        }));
+
+      // Never serviced first, then by how soon they are due
+      return [...computers, ...assets].sort((a, b) => {
+        if (!a.nextDue || !b.nextDue) return a.nextDue ? 1 : b.nextDue ? -1 : 0;
+        return a.nextDue.getTime() - b.nextDue.getTime();
+      });
+    },
+  });
+};
+
+// Only admins and technicians log PM visits, matching the pm_records policy
+export const useCanLogPm = () => {
+  const { data: isAdmin } = useHasRole('admin');
+  const { data: isTechnician } = useHasRole('technician');
+  return !!isAdmin || !!isTechnician;
+};
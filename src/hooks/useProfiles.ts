@@ -0,0 +1,44 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Profile = Tables<'profiles'>;
+
+export const useProfiles = () => {
+  return useQuery({
+    queryKey: ['profiles'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('*')
+        .order('full_name', { ascending: true });
+
+      if (error) throw error;
+      return data as Profile[];
+    },
+  });
+};
+
+export const getProfileName = (profile?: Pick<Profile, 'full_name' | 'email'> | null) =>
+  profile ? profile.full_name || profile.email : undefined;
+
+// The employee record of the signed-in user, matched by email
+export const useMyEmployee = () => {
+  return useQuery({
+    queryKey: ['my-employee'],
+    queryFn: async () => {
+      const { data: employeeId, error } = await supabase.rpc('current_employee_id');
+      if (error) throw error;
+      if (!employeeId) return null;
+
+      const { data, error: employeeError } = await supabase
+        .from('employees')
+        .select('id, name')
+        .eq('id', employeeId)
+        .maybeSingle();
+
+      if (employeeError) throw employeeError;
+      return data;
+    },
+  });
+};
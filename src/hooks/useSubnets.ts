@@ -0,0 +1,36 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { ipToNumber, type Subnet } from '@/lib/ipam';
+
+export const useSubnets = () => {
+  return useQuery({
+    queryKey: ['subnets'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('subnets')
+        .select('*');
+
+      if (error) throw error;
+      return (data as Subnet[]).sort((a, b) => ipToNumber(a.network) - ipToNumber(b.network));
+    },
+  });
+};
+
+// Every address recorded against an employee's computer
+export const useIpUsage = () => {
+  return useQuery({
+    queryKey: ['ip-usage'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('employees')
+        .select('id, name, location, computer_name, ip_address')
+        .not('ip_address', 'is', null)
+        .neq('ip_address', '')
+        .is('archived_at', null)
+        .is('deleted_at', null);
+
+      if (error) throw error;
+      return data;
+    },
+  });
+};
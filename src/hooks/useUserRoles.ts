@@ -0,0 +1,93 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { getLocationScope, type AppRole } from '@/lib/roles';
+
+export type RoleAuditLog = Tables<'role_audit_log'>;
+
+export interface UserRoleGrant {
+  role: AppRole;
+  locationIds: string[];
+}
+
+// Roles of every user, keyed by user id. Only admins can read other users' roles.
+export const useUserRoles = (enabled = true) => {
+  return useQuery({
+    queryKey: ['user-roles'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('user_roles')
+        .select('user_id, role, user_role_locations(location_id)');
+
+      if (error) throw error;
+
+      const rolesByUser = new Map<string, UserRoleGrant[]>();
+      for (const { user_id, role, user_role_locations } of data) {
+        const grant = { role, locationIds: user_role_locations.map(l => l.location_id) };
+        rolesByUser.set(user_id, [...(rolesByUser.get(user_id) || []), grant]);
+      }
+      return rolesByUser;
+    },
+    enabled,
+  });
+};
+
+// Locations the signed-in user is limited to, or null when they see everything
+export const useMyLocationScope = () => {
+  return useQuery({
+    queryKey: ['my-location-scope'],
+    queryFn: async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return null;
+
+      const { data, error } = await supabase
+        .from('user_roles')
+        .select('role, user_role_locations(locations(name))')
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+      return getLocationScope(data.map(grant => ({
+        role: grant.role,
+        locations: grant.user_role_locations.map(l => l.locations.name),
+      })));
+    },
+  });
+};
+
+// Whether the signed-in user holds the role, at any location
+export const useHasRole = (role: AppRole) => {
+  return useQuery({
+    queryKey: ['has-role', role],
+    queryFn: async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return false;
+
+      const { data, error } = await supabase
+        .from('user_roles')
+        .select('id')
+        .eq('user_id', user.id)
+        .eq('role', role)
+        .maybeSingle();
+
+      if (error) throw error;
+      return !!data;
+    },
+  });
+};
+
+export const useRoleAuditLog = (enabled = true) => {
+  return useQuery({
+    queryKey: ['role-audit-log'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('role_audit_log')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(100);
+
+      if (error) throw error;
+      return data as RoleAuditLog[];
+    },
+    enabled,
+  });
+};
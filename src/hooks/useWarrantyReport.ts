@@ -0,0 +1,89 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { formatAsset } from '@/lib/assets';
+import { WARRANTY_ASSET_TYPES, getWarrantyStatus, type WarrantyStatus } from '@/lib/warranty';
+
+export interface WarrantyItem {
+  key: string;
+  employeeId: string | null;
+  assetId: string | null;
+  deviceType: string;
+  label: string;
+  serial: string | null;
+  holder: string | null;
+  location: string | null;
+  vendor: string | null;
+  purchaseOrder: string | null;
+  purchaseDate: string | null;
+  cost: number | null;
+  warrantyEnd: string | null;
+  status: WarrantyStatus;
+}
+
+// Every computer, monitor, printer and scanner still in service, with its warranty position
+export const useWarrantyReport = () => {
+  return useQuery({
+    queryKey: ['warranty-report'],
+    queryFn: async () => {
+      const [employeesResult, assetsResult] = await Promise.all([
+        supabase
+          .from('employees')
+          .select('id, name, location, computer_name, computer_serial, computer_vendor, computer_purchase_order, computer_purchase_date, computer_cost, computer_warranty_end')
+          .is('deleted_at', null),
+        supabase
+          .from('assets')
+          .select('id, asset_type, name, model, serial_number, vendor, purchase_order, purchase_date, cost, warranty_end, employee_id, employees(name, location)')
+          .in('asset_type', WARRANTY_ASSET_TYPES)
+          .neq('status', 'retired')
+          // Stock devices, or devices whose holder isn't in the recycle bin
+          .is('employees.deleted_at', null)
+          .or('employee_id.is.null,employees.not.is.null'),
+      ]);
+
+      if (employeesResult.error) throw employeesResult.error;
+      if (assetsResult.error) throw assetsResult.error;
+
+      const computers: WarrantyItem[] = employeesResult.data
+        .filter(e => e.computer_name || e.computer_serial)
+        .map(e => ({
+          key: `employee-${e.id}`,
+          employeeId: e.id,
+          assetId: null,
+          deviceType: 'computer',
+          label: e.computer_name || e.computer_serial || 'Computer',
+          serial: e.computer_serial,
+          holder: e.name,
+          location: e.location,
+          vendor: e.computer_vendor,
+          purchaseOrder: e.computer_purchase_order,
+          purchaseDate: e.computer_purchase_date,
+          cost: e.computer_cost,
+          warrantyEnd: e.computer_warranty_end,
+          status: getWarrantyStatus(e.computer_warranty_end),
+        }));
+
+      const assets: WarrantyItem[] = assetsResult.data.map(a => ({
+        key: `asset-${a.id}`,
+        employeeId: null,
+        assetId: a.id,
+        deviceType: a.asset_type,
+        label: formatAsset(a),
+        serial: a.serial_number,
+        holder: a.employees?.name || null,
+        location: a.employees?.location || null,
+        vendor: a.vendor,
+        purchaseOrder: a.purchase_order,
+        purchaseDate: a.purchase_date,
+        cost: a.cost,
+        warrantyEnd: a.warranty_end,
+        status: getWarrantyStatus(a.warranty_end),
+      }));
+
+      // Soonest to lapse first, devices without warranty data last
+      return [...computers, ...assets].sort((a, b) => {
+        if (!a.warrantyEnd || !b.warrantyEnd) return a.warrantyEnd ? -1 : b.warrantyEnd ? 1 : 0;
+        return a.warrantyEnd.localeCompare(b.warrantyEnd);
+      });
+    },
+  });
+};
@@ -14,11 +14,343 @@ export type Database = {
   }
   public: {
     Tables: {
+      app_settings: {
+        Row: {
+          allowed_signup_domains: string[]
+          id: boolean
+          require_change_approval: boolean
+          updated_at: string | null
+          updated_by: string | null
+        }
+        Insert: {
+          allowed_signup_domains?: string[]
+          id?: boolean
+          require_change_approval?: boolean
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Update: {
+          allowed_signup_domains?: string[]
+          id?: boolean
+          require_change_approval?: boolean
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      asset_assignments: {
+        Row: {
+          asset_id: string
+          assign_reason: string | null
+          assigned_at: string
+          assigned_by: string | null
+          employee_id: string | null
+          employee_name: string | null
+          id: string
+          return_reason: string | null
+          returned_at: string | null
+          returned_by: string | null
+        }
+        Insert: {
+          asset_id: string
+          assign_reason?: string | null
+          assigned_at?: string
+          assigned_by?: string | null
+          employee_id?: string | null
+          employee_name?: string | null
+          id?: string
+          return_reason?: string | null
+          returned_at?: string | null
+          returned_by?: string | null
+        }
+        Update: {
+          asset_id?: string
+          assign_reason?: string | null
+          assigned_at?: string
+          assigned_by?: string | null
+          employee_id?: string | null
+          employee_name?: string | null
+          id?: string
+          return_reason?: string | null
+          returned_at?: string | null
+          returned_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "asset_assignments_asset_id_fkey"
+            columns: ["asset_id"]
+            isOneToOne: false
+            referencedRelation: "assets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "asset_assignments_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      assets: {
+        Row: {
+          asset_type: string
+          cost: number | null
+          created_at: string | null
+          created_by: string | null
+          employee_id: string | null
+          id: string
+          last_pm: string | null
+          model: string | null
+          name: string | null
+          notes: string | null
+          purchase_date: string | null
+          purchase_order: string | null
+          serial_number: string | null
+          status: string
+          updated_at: string | null
+          vendor: string | null
+          warranty_end: string | null
+        }
+        Insert: {
+          asset_type: string
+          cost?: number | null
+          created_at?: string | null
+          created_by?: string | null
+          employee_id?: string | null
+          id?: string
+          last_pm?: string | null
+          model?: string | null
+          name?: string | null
+          notes?: string | null
+          purchase_date?: string | null
+          purchase_order?: string | null
+          serial_number?: string | null
+          status?: string
+          updated_at?: string | null
+          vendor?: string | null
+          warranty_end?: string | null
+        }
+        Update: {
+          asset_type?: string
+          cost?: number | null
+          created_at?: string | null
+          created_by?: string | null
+          employee_id?: string | null
+          id?: string
+          last_pm?: string | null
+          model?: string | null
+          name?: string | null
+          notes?: string | null
+          purchase_date?: string | null
+          purchase_order?: string | null
+          serial_number?: string | null
+          status?: string
+          updated_at?: string | null
+          vendor?: string | null
+          warranty_end?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "assets_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      consumable_stock: {
+        Row: {
+          consumable_id: string
+          id: string
+          location_id: string
+          quantity: number
+          updated_at: string | null
+        }
+        Insert: {
+          consumable_id: string
+          id?: string
+          location_id: string
+          quantity?: number
+          updated_at?: string | null
+        }
+        Update: {
+          consumable_id?: string
+          id?: string
+          location_id?: string
+          quantity?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "consumable_stock_consumable_id_fkey"
+            columns: ["consumable_id"]
+            isOneToOne: false
+            referencedRelation: "consumables"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "consumable_stock_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      consumable_transactions: {
+        Row: {
+          asset_id: string | null
+          consumable_id: string
+          created_at: string
+          employee_id: string | null
+          id: string
+          location_id: string
+          notes: string | null
+          performed_by: string | null
+          performed_by_name: string | null
+          quantity: number
+          transaction_type: string
+        }
+        Insert: {
+          asset_id?: string | null
+          consumable_id: string
+          created_at?: string
+          employee_id?: string | null
+          id?: string
+          location_id: string
+          notes?: string | null
+          performed_by?: string | null
+          performed_by_name?: string | null
+          quantity: number
+          transaction_type: string
+        }
+        Update: {
+          asset_id?: string | null
+          consumable_id?: string
+          created_at?: string
+          employee_id?: string | null
+          id?: string
+          location_id?: string
+          notes?: string | null
+          performed_by?: string | null
+          performed_by_name?: string | null
+          quantity?: number
+          transaction_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "consumable_transactions_asset_id_fkey"
+            columns: ["asset_id"]
+            isOneToOne: false
+            referencedRelation: "assets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "consumable_transactions_consumable_id_fkey"
+            columns: ["consumable_id"]
+            isOneToOne: false
+            referencedRelation: "consumables"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "consumable_transactions_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "consumable_transactions_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      consumables: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          id: string
+          kind: string
+          min_per_printer: number
+          name: string
+          notes: string | null
+          part_number: string | null
+          printer_models: string[]
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          kind?: string
+          min_per_printer?: number
+          name: string
+          notes?: string | null
+          part_number?: string | null
+          printer_models?: string[]
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          kind?: string
+          min_per_printer?: number
+          name?: string
+          notes?: string | null
+          part_number?: string | null
+          printer_models?: string[]
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      departments: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          id: string
+          location_id: string | null
+          name: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          location_id?: string | null
+          name: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          location_id?: string | null
+          name?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "departments_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       employee_audit_log: {
         Row: {
           action: string
-          changed_by: string
-          changed_by_email: string
+          asset_id: string | null
+          change_request_id: string | null
+          changed_by: string | null
+          changed_by_email: string | null
           changed_by_name: string | null
           changes: Json | null
           created_at: string
@@ -26,11 +358,15 @@ export type Database = {
           id: string
           new_data: Json | null
           old_data: Json | null
+          restored_from: string | null
+          search_vector: unknown | null
         }
         Insert: {
           action: string
-          changed_by: string
-          changed_by_email: string
+          asset_id?: string | null
+          change_request_id?: string | null
+          changed_by?: string | null
+          changed_by_email?: string | null
           changed_by_name?: string | null
           changes?: Json | null
           created_at?: string
@@ -38,11 +374,15 @@ export type Database = {
           id?: string
           new_data?: Json | null
           old_data?: Json | null
+          restored_from?: string | null
+          search_vector?: unknown | null
         }
         Update: {
           action?: string
-          changed_by?: string
-          changed_by_email?: string
+          asset_id?: string | null
+          change_request_id?: string | null
+          changed_by?: string | null
+          changed_by_email?: string | null
           changed_by_name?: string | null
           changes?: Json | null
           created_at?: string
@@ -50,8 +390,17 @@ export type Database = {
           id?: string
           new_data?: Json | null
           old_data?: Json | null
+          restored_from?: string | null
+          search_vector?: unknown | null
         }
         Relationships: [
+          {
+            foreignKeyName: "employee_audit_log_change_request_id_fkey"
+            columns: ["change_request_id"]
+            isOneToOne: false
+            referencedRelation: "employee_change_requests"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "employee_audit_log_employee_id_fkey"
             columns: ["employee_id"]
@@ -59,33 +408,95 @@ export type Database = {
             referencedRelation: "employees"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "employee_audit_log_restored_from_fkey"
+            columns: ["restored_from"]
+            isOneToOne: false
+            referencedRelation: "employee_audit_log"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      employee_change_requests: {
+        Row: {
+          changes: Json
+          created_at: string
+          employee_id: string
+          id: string
+          notified_at: string | null
+          requested_by: string
+          requested_by_name: string | null
+          review_comment: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          reviewed_by_name: string | null
+          status: string
+        }
+        Insert: {
+          changes: Json
+          created_at?: string
+          employee_id: string
+          id?: string
+          notified_at?: string | null
+          requested_by: string
+          requested_by_name?: string | null
+          review_comment?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          reviewed_by_name?: string | null
+          status?: string
+        }
+        Update: {
+          changes?: Json
+          created_at?: string
+          employee_id?: string
+          id?: string
+          notified_at?: string | null
+          requested_by?: string
+          requested_by_name?: string | null
+          review_comment?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          reviewed_by_name?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "employee_change_requests_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
         ]
       }
       employees: {
         Row: {
+          archived_at: string | null
+          computer_cost: number | null
           computer_name: string | null
+          computer_purchase_date: string | null
+          computer_purchase_order: string | null
           computer_serial: string | null
+          computer_vendor: string | null
+          computer_warranty_end: string | null
           created_at: string | null
           created_by: string | null
-          custom_peripherals: Json | null
+          deleted_at: string | null
+          deleted_by: string | null
+          deleted_by_name: string | null
           department: string | null
           email: string | null
           employee_code: string | null
+          employment_status: string
+          exit_date: string | null
           extension_number: string | null
           id: string
           internet_access: boolean | null
           ip_address: string | null
-          keyboard: string | null
           last_pm: string | null
-          led_model: string | null
-          led_serial: string | null
           location: string | null
-          mouse: string | null
           name: string | null
-          printer_model: string | null
-          printer_serial: string | null
-          scanner_model: string | null
-          scanner_serial: string | null
           section: string | null
           specs: string | null
           updated_at: string | null
@@ -93,29 +504,31 @@ export type Database = {
           username: string | null
         }
         Insert: {
+          archived_at?: string | null
+          computer_cost?: number | null
           computer_name?: string | null
+          computer_purchase_date?: string | null
+          computer_purchase_order?: string | null
           computer_serial?: string | null
+          computer_vendor?: string | null
+          computer_warranty_end?: string | null
           created_at?: string | null
           created_by?: string | null
-          custom_peripherals?: Json | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+          deleted_by_name?: string | null
           department?: string | null
           email?: string | null
           employee_code?: string | null
+          employment_status?: string
+          exit_date?: string | null
           extension_number?: string | null
           id?: string
           internet_access?: boolean | null
           ip_address?: string | null
-          keyboard?: string | null
           last_pm?: string | null
-          led_model?: string | null
-          led_serial?: string | null
           location?: string | null
-          mouse?: string | null
           name?: string | null
-          printer_model?: string | null
-          printer_serial?: string | null
-          scanner_model?: string | null
-          scanner_serial?: string | null
           section?: string | null
           specs?: string | null
           updated_at?: string | null
@@ -123,84 +536,1054 @@ export type Database = {
           username?: string | null
         }
         Update: {
+          archived_at?: string | null
+          computer_cost?: number | null
           computer_name?: string | null
+          computer_purchase_date?: string | null
+          computer_purchase_order?: string | null
           computer_serial?: string | null
+          computer_vendor?: string | null
+          computer_warranty_end?: string | null
           created_at?: string | null
           created_by?: string | null
-          custom_peripherals?: Json | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+          deleted_by_name?: string | null
           department?: string | null
           email?: string | null
           employee_code?: string | null
+          employment_status?: string
+          exit_date?: string | null
           extension_number?: string | null
           id?: string
           internet_access?: boolean | null
           ip_address?: string | null
-          keyboard?: string | null
           last_pm?: string | null
-          led_model?: string | null
-          led_serial?: string | null
           location?: string | null
-          mouse?: string | null
           name?: string | null
-          printer_model?: string | null
-          printer_serial?: string | null
-          scanner_model?: string | null
-          scanner_serial?: string | null
           section?: string | null
           specs?: string | null
           updated_at?: string | null
           usb_access?: boolean | null
           username?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "employees_location_fkey"
+            columns: ["location"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["name"]
+          },
+        ]
       }
-      profiles: {
+      license_seats: {
         Row: {
-          created_at: string | null
-          email: string
-          full_name: string | null
+          assigned_at: string
+          assigned_by: string | null
+          computer_name: string | null
+          computer_serial: string | null
+          employee_id: string
           id: string
+          license_id: string
         }
         Insert: {
-          created_at?: string | null
-          email: string
-          full_name?: string | null
-          id: string
+          assigned_at?: string
+          assigned_by?: string | null
+          computer_name?: string | null
+          computer_serial?: string | null
+          employee_id: string
+          id?: string
+          license_id: string
         }
         Update: {
-          created_at?: string | null
-          email?: string
-          full_name?: string | null
+          assigned_at?: string
+          assigned_by?: string | null
+          computer_name?: string | null
+          computer_serial?: string | null
+          employee_id?: string
           id?: string
+          license_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "license_seats_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "license_seats_license_id_fkey"
+            columns: ["license_id"]
+            isOneToOne: false
+            referencedRelation: "software_licenses"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      user_roles: {
+      locations: {
         Row: {
+          address: string | null
+          contact_person: string | null
           created_at: string | null
+          created_by: string | null
           id: string
-          role: Database["public"]["Enums"]["app_role"]
-          user_id: string
+          name: string
+          notes: string | null
+          phone: string | null
+          updated_at: string | null
         }
         Insert: {
+          address?: string | null
+          contact_person?: string | null
           created_at?: string | null
+          created_by?: string | null
           id?: string
-          role: Database["public"]["Enums"]["app_role"]
-          user_id: string
+          name: string
+          notes?: string | null
+          phone?: string | null
+          updated_at?: string | null
         }
         Update: {
+          address?: string | null
+          contact_person?: string | null
           created_at?: string | null
+          created_by?: string | null
           id?: string
-          role?: Database["public"]["Enums"]["app_role"]
-          user_id?: string
+          name?: string
+          notes?: string | null
+          phone?: string | null
+          updated_at?: string | null
         }
         Relationships: []
       }
-    }
+      offboarding_items: {
+        Row: {
+          asset_id: string | null
+          created_at: string | null
+          id: string
+          item_type: string
+          label: string
+          license_id: string | null
+          notes: string | null
+          offboarding_id: string
+          resolved_at: string | null
+          resolved_by: string | null
+          resolved_by_name: string | null
+          serial: string | null
+          status: string
+        }
+        Insert: {
+          asset_id?: string | null
+          created_at?: string | null
+          id?: string
+          item_type: string
+          label: string
+          license_id?: string | null
+          notes?: string | null
+          offboarding_id: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          resolved_by_name?: string | null
+          serial?: string | null
+          status?: string
+        }
+        Update: {
+          asset_id?: string | null
+          created_at?: string | null
+          id?: string
+          item_type?: string
+          label?: string
+          license_id?: string | null
+          notes?: string | null
+          offboarding_id?: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          resolved_by_name?: string | null
+          serial?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "offboarding_items_asset_id_fkey"
+            columns: ["asset_id"]
+            isOneToOne: false
+            referencedRelation: "assets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "offboarding_items_license_id_fkey"
+            columns: ["license_id"]
+            isOneToOne: false
+            referencedRelation: "software_licenses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "offboarding_items_offboarding_id_fkey"
+            columns: ["offboarding_id"]
+            isOneToOne: false
+            referencedRelation: "offboardings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      offboardings: {
+        Row: {
+          completed_at: string | null
+          created_at: string | null
+          employee_id: string
+          exit_date: string
+          hr_notes: string | null
+          hr_signed_at: string | null
+          hr_signed_by: string | null
+          hr_signed_by_name: string | null
+          id: string
+          it_notes: string | null
+          it_signed_at: string | null
+          it_signed_by: string | null
+          it_signed_by_name: string | null
+          reason: string | null
+          started_by: string | null
+          started_by_name: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string | null
+          employee_id: string
+          exit_date: string
+          hr_notes?: string | null
+          hr_signed_at?: string | null
+          hr_signed_by?: string | null
+          hr_signed_by_name?: string | null
+          id?: string
+          it_notes?: string | null
+          it_signed_at?: string | null
+          it_signed_by?: string | null
+          it_signed_by_name?: string | null
+          reason?: string | null
+          started_by?: string | null
+          started_by_name?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string | null
+          employee_id?: string
+          exit_date?: string
+          hr_notes?: string | null
+          hr_signed_at?: string | null
+          hr_signed_by?: string | null
+          hr_signed_by_name?: string | null
+          id?: string
+          it_notes?: string | null
+          it_signed_at?: string | null
+          it_signed_by?: string | null
+          it_signed_by_name?: string | null
+          reason?: string | null
+          started_by?: string | null
+          started_by_name?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "offboardings_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: true
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      onboarding_tasks: {
+        Row: {
+          assignee_id: string | null
+          completed_at: string | null
+          completed_by: string | null
+          completed_by_name: string | null
+          created_at: string | null
+          due_date: string | null
+          employee_id: string
+          id: string
+          label: string
+          notes: string | null
+          sort_order: number
+          task_key: string
+          updated_at: string | null
+        }
+        Insert: {
+          assignee_id?: string | null
+          completed_at?: string | null
+          completed_by?: string | null
+          completed_by_name?: string | null
+          created_at?: string | null
+          due_date?: string | null
+          employee_id: string
+          id?: string
+          label: string
+          notes?: string | null
+          sort_order?: number
+          task_key: string
+          updated_at?: string | null
+        }
+        Update: {
+          assignee_id?: string | null
+          completed_at?: string | null
+          completed_by?: string | null
+          completed_by_name?: string | null
+          created_at?: string | null
+          due_date?: string | null
+          employee_id?: string
+          id?: string
+          label?: string
+          notes?: string | null
+          sort_order?: number
+          task_key?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "onboarding_tasks_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pm_check_results: {
+        Row: {
+          comment: string | null
+          id: string
+          item: string
+          passed: boolean
+          pm_record_id: string
+          position: number
+          resolution_note: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+        }
+        Insert: {
+          comment?: string | null
+          id?: string
+          item: string
+          passed: boolean
+          pm_record_id: string
+          position: number
+          resolution_note?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+        }
+        Update: {
+          comment?: string | null
+          id?: string
+          item?: string
+          passed?: boolean
+          pm_record_id?: string
+          position?: number
+          resolution_note?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pm_check_results_pm_record_id_fkey"
+            columns: ["pm_record_id"]
+            isOneToOne: false
+            referencedRelation: "pm_records"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pm_checklist_templates: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          description: string | null
+          id: string
+          is_active: boolean
+          name: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      pm_checklist_versions: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          id: string
+          items: string[]
+          template_id: string
+          version: number
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          items: string[]
+          template_id: string
+          version?: number
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          items?: string[]
+          template_id?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pm_checklist_versions_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "pm_checklist_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pm_intervals: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          device_type: string | null
+          id: string
+          interval_days: number
+          location_id: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          device_type?: string | null
+          id?: string
+          interval_days: number
+          location_id?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          device_type?: string | null
+          id?: string
+          interval_days?: number
+          location_id?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pm_intervals_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pm_records: {
+        Row: {
+          asset_id: string | null
+          checklist_version_id: string | null
+          created_at: string | null
+          employee_id: string | null
+          id: string
+          notes: string | null
+          performed_at: string
+          performed_by: string | null
+          performed_by_name: string | null
+        }
+        Insert: {
+          asset_id?: string | null
+          checklist_version_id?: string | null
+          created_at?: string | null
+          employee_id?: string | null
+          id?: string
+          notes?: string | null
+          performed_at?: string
+          performed_by?: string | null
+          performed_by_name?: string | null
+        }
+        Update: {
+          asset_id?: string | null
+          checklist_version_id?: string | null
+          created_at?: string | null
+          employee_id?: string | null
+          id?: string
+          notes?: string | null
+          performed_at?: string
+          performed_by?: string | null
+          performed_by_name?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pm_records_asset_id_fkey"
+            columns: ["asset_id"]
+            isOneToOne: false
+            referencedRelation: "assets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pm_records_checklist_version_id_fkey"
+            columns: ["checklist_version_id"]
+            isOneToOne: false
+            referencedRelation: "pm_checklist_versions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pm_records_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          created_at: string | null
+          email: string
+          full_name: string | null
+          id: string
+        }
+        Insert: {
+          created_at?: string | null
+          email: string
+          full_name?: string | null
+          id: string
+        }
+        Update: {
+          created_at?: string | null
+          email?: string
+          full_name?: string | null
+          id?: string
+        }
+        Relationships: []
+      }
+      role_audit_log: {
+        Row: {
+          action: string
+          changed_by: string | null
+          changed_by_name: string | null
+          created_at: string
+          id: string
+          location_name: string | null
+          role: Database["public"]["Enums"]["app_role"]
+          user_email: string | null
+          user_id: string
+          user_name: string | null
+        }
+        Insert: {
+          action: string
+          changed_by?: string | null
+          changed_by_name?: string | null
+          created_at?: string
+          id?: string
+          location_name?: string | null
+          role: Database["public"]["Enums"]["app_role"]
+          user_email?: string | null
+          user_id: string
+          user_name?: string | null
+        }
+        Update: {
+          action?: string
+          changed_by?: string | null
+          changed_by_name?: string | null
+          created_at?: string
+          id?: string
+          location_name?: string | null
+          role?: Database["public"]["Enums"]["app_role"]
+          user_email?: string | null
+          user_id?: string
+          user_name?: string | null
+        }
+        Relationships: []
+      }
+      sections: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          department_id: string
+          id: string
+          name: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          department_id: string
+          id?: string
+          name: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          department_id?: string
+          id?: string
+          name?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sections_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      software_license_keys: {
+        Row: {
+          license_id: string
+          license_key: string
+          updated_at: string | null
+        }
+        Insert: {
+          license_id: string
+          license_key: string
+          updated_at?: string | null
+        }
+        Update: {
+          license_id?: string
+          license_key?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "software_license_keys_license_id_fkey"
+            columns: ["license_id"]
+            isOneToOne: true
+            referencedRelation: "software_licenses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      software_licenses: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          expiry_date: string | null
+          id: string
+          license_key_hint: string | null
+          license_model: string
+          notes: string | null
+          purchase_date: string | null
+          seats_purchased: number
+          software_name: string
+          updated_at: string | null
+          vendor: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          expiry_date?: string | null
+          id?: string
+          license_key_hint?: string | null
+          license_model?: string
+          notes?: string | null
+          purchase_date?: string | null
+          seats_purchased?: number
+          software_name: string
+          updated_at?: string | null
+          vendor?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          expiry_date?: string | null
+          id?: string
+          license_key_hint?: string | null
+          license_model?: string
+          notes?: string | null
+          purchase_date?: string | null
+          seats_purchased?: number
+          software_name?: string
+          updated_at?: string | null
+          vendor?: string | null
+        }
+        Relationships: []
+      }
+      subnets: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          dhcp_end: string | null
+          dhcp_start: string | null
+          gateway: string | null
+          id: string
+          location_id: string
+          name: string | null
+          network: string
+          notes: string | null
+          prefix_length: number
+          updated_at: string | null
+          vlan: number | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          dhcp_end?: string | null
+          dhcp_start?: string | null
+          gateway?: string | null
+          id?: string
+          location_id: string
+          name?: string | null
+          network: string
+          notes?: string | null
+          prefix_length: number
+          updated_at?: string | null
+          vlan?: number | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          dhcp_end?: string | null
+          dhcp_start?: string | null
+          gateway?: string | null
+          id?: string
+          location_id?: string
+          name?: string | null
+          network?: string
+          notes?: string | null
+          prefix_length?: number
+          updated_at?: string | null
+          vlan?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "subnets_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ticket_comments: {
+        Row: {
+          author_id: string | null
+          author_name: string | null
+          body: string
+          created_at: string | null
+          id: string
+          is_system: boolean
+          ticket_id: string
+        }
+        Insert: {
+          author_id?: string | null
+          author_name?: string | null
+          body: string
+          created_at?: string | null
+          id?: string
+          is_system?: boolean
+          ticket_id: string
+        }
+        Update: {
+          author_id?: string | null
+          author_name?: string | null
+          body?: string
+          created_at?: string | null
+          id?: string
+          is_system?: boolean
+          ticket_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ticket_comments_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "tickets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tickets: {
+        Row: {
+          assignee_id: string | null
+          created_at: string | null
+          created_by: string | null
+          description: string | null
+          device_serial: string | null
+          employee_id: string | null
+          employee_name: string | null
+          id: string
+          priority: string
+          resolution: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          status: string
+          ticket_number: number
+          title: string
+          updated_at: string | null
+        }
+        Insert: {
+          assignee_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          device_serial?: string | null
+          employee_id?: string | null
+          employee_name?: string | null
+          id?: string
+          priority?: string
+          resolution?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          ticket_number?: never
+          title: string
+          updated_at?: string | null
+        }
+        Update: {
+          assignee_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          device_serial?: string | null
+          employee_id?: string | null
+          employee_name?: string | null
+          id?: string
+          priority?: string
+          resolution?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+          ticket_number?: never
+          title?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tickets_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "employees"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_invitations: {
+        Row: {
+          accepted_at: string | null
+          accepted_by: string | null
+          created_at: string
+          email: string
+          expires_at: string
+          id: string
+          invited_by: string | null
+          invited_by_name: string | null
+          location_ids: string[]
+          revoked_at: string | null
+          role: Database["public"]["Enums"]["app_role"]
+          token: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          email: string
+          expires_at: string
+          id?: string
+          invited_by?: string | null
+          invited_by_name?: string | null
+          location_ids?: string[]
+          revoked_at?: string | null
+          role: Database["public"]["Enums"]["app_role"]
+          token?: string
+        }
+        Update: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string
+          email?: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          invited_by_name?: string | null
+          location_ids?: string[]
+          revoked_at?: string | null
+          role?: Database["public"]["Enums"]["app_role"]
+          token?: string
+        }
+        Relationships: []
+      }
+      user_role_locations: {
+        Row: {
+          created_at: string | null
+          id: string
+          location_id: string
+          user_role_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          location_id: string
+          user_role_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          location_id?: string
+          user_role_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_role_locations_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_role_locations_user_role_id_fkey"
+            columns: ["user_role_id"]
+            isOneToOne: false
+            referencedRelation: "user_roles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_roles: {
+        Row: {
+          created_at: string | null
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: []
+      }
+    }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      assign_asset: {
+        Args: {
+          _asset_id: string
+          _employee_id: string
+          _reason?: string
+        }
+        Returns: undefined
+      }
+      can_edit_asset_holder: {
+        Args: {
+          _employee_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      can_edit_location: {
+        Args: {
+          _location: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      can_view_employee: {
+        Args: {
+          _employee_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      can_view_location: {
+        Args: {
+          _location: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      cancel_offboarding: {
+        Args: {
+          _offboarding_id: string
+        }
+        Returns: undefined
+      }
+      change_approval_required: {
+        Args: never
+        Returns: boolean
+      }
+      create_invitation: {
+        Args: {
+          _email: string
+          _expires_in_days?: number
+          _location_ids?: string[]
+          _role: Database["public"]["Enums"]["app_role"]
+        }
+        Returns: string
+      }
+      current_employee_id: {
+        Args: never
+        Returns: string
+      }
+      delete_employee: {
+        Args: {
+          _employee_id: string
+        }
+        Returns: undefined
+      }
+      employee_restorable_fields: {
+        Args: never
+        Returns: string[]
+      }
+      get_invitation: {
+        Args: {
+          _token: string
+        }
+        Returns: {
+          email: string
+          expires_at: string
+          role: Database["public"]["Enums"]["app_role"]
+        }[]
+      }
+      grant_role: {
+        Args: {
+          _location_ids?: string[]
+          _role: Database["public"]["Enums"]["app_role"]
+          _user_id: string
+        }
+        Returns: undefined
+      }
+      has_location_role: {
+        Args: {
+          _location: string
+          _roles: Database["public"]["Enums"]["app_role"][]
+          _user_id: string
+        }
+        Returns: boolean
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -208,9 +1591,137 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_location_scoped: {
+        Args: {
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      merge_departments: {
+        Args: {
+          _source_id: string
+          _target_id: string
+        }
+        Returns: undefined
+      }
+      merge_locations: {
+        Args: {
+          _source_id: string
+          _target_id: string
+        }
+        Returns: undefined
+      }
+      merge_sections: {
+        Args: {
+          _source_id: string
+          _target_id: string
+        }
+        Returns: undefined
+      }
+      purge_deleted_employees: {
+        Args: {
+          _employee_id?: string
+          _retention_days?: number
+        }
+        Returns: number
+      }
+      rename_department: {
+        Args: {
+          _department_id: string
+          _name: string
+        }
+        Returns: undefined
+      }
+      rename_section: {
+        Args: {
+          _name: string
+          _section_id: string
+        }
+        Returns: undefined
+      }
+      request_employee_change: {
+        Args: {
+          _employee_id: string
+          _values: Json
+        }
+        Returns: string
+      }
+      resolve_offboarding_item: {
+        Args: {
+          _item_id: string
+          _notes?: string
+          _status: string
+        }
+        Returns: undefined
+      }
+      resolve_pm_follow_up: {
+        Args: {
+          _note?: string
+          _result_id: string
+        }
+        Returns: undefined
+      }
+      restore_employee: {
+        Args: {
+          _employee_id: string
+        }
+        Returns: undefined
+      }
+      restore_employee_version: {
+        Args: {
+          _audit_id: string
+          _fields?: string[]
+          _version?: string
+        }
+        Returns: string
+      }
+      return_asset: {
+        Args: {
+          _asset_id: string
+          _reason?: string
+          _status?: string
+        }
+        Returns: undefined
+      }
+      review_change_request: {
+        Args: {
+          _approve: boolean
+          _comment?: string
+          _request_id: string
+        }
+        Returns: undefined
+      }
+      sign_offboarding: {
+        Args: {
+          _department: string
+          _notes?: string
+          _offboarding_id: string
+        }
+        Returns: undefined
+      }
+      start_offboarding: {
+        Args: {
+          _employee_id: string
+          _exit_date: string
+          _reason?: string
+        }
+        Returns: string
+      }
+      start_onboarding: {
+        Args: {
+          _employee_id: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
-      app_role: "admin" | "employee"
+      app_role:
+        | "admin"
+        | "employee"
+        | "viewer"
+        | "technician"
+        | "location_manager"
+        | "hr"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -338,7 +1849,14 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ["admin", "employee"],
+      app_role: [
+        "admin",
+        "employee",
+        "viewer",
+        "technician",
+        "location_manager",
+        "hr",
+      ],
     },
   },
 } as const
@@ -0,0 +1,32 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Asset = Tables<'assets'>;
+
+export const ASSET_TYPES = [
+  { value: 'monitor', label: 'Monitor/LED' },
+  { value: 'printer', label: 'Printer' },
+  { value: 'scanner', label: 'Scanner' },
+  { value: 'keyboard', label: 'Keyboard' },
+  { value: 'mouse', label: 'Mouse' },
+  { value: 'other', label: 'Other' },
+] as const;
+
+export const ASSET_STATUSES = [
+  { value: 'assigned', label: 'Assigned' },
+  { value: 'in_stock', label: 'In Stock' },
+  { value: 'in_repair', label: 'In Repair' },
+  { value: 'retired', label: 'Retired' },
+] as const;
+
+export const getAssetTypeLabel = (type: string) =>
+  ASSET_TYPES.find(t => t.value === type)?.label || type;
+
+export const getAssetStatusLabel = (status: string) =>
+  ASSET_STATUSES.find(s => s.value === status)?.label || status;
+
+// Custom devices carry their own name, standard ones are named by type
+export const getAssetName = (asset: Pick<Asset, 'asset_type' | 'name'>) =>
+  asset.asset_type === 'other' && asset.name ? asset.name : getAssetTypeLabel(asset.asset_type);
+
+export const formatAsset = (asset: Pick<Asset, 'asset_type' | 'name' | 'model' | 'serial_number'>) =>
+  `${getAssetName(asset)}${asset.model ? ` (${asset.model})` : ''}${asset.serial_number ? ` - ${asset.serial_number}` : ''}`;
@@ -0,0 +1,153 @@
+import type { Json } from '@/integrations/supabase/types';
+import { diffFieldValues } from '@/lib/fieldDiff';
+
+export type AuditSnapshot = Record<string, Json>;
+
+// Old and new values as text, as log_employee_change records them
+export type AuditChanges = Record<string, { old: string | null; new: string | null }>;
+
+export interface AuditLog {
+  id: string;
+  employee_id: string | null;
+  action: 'INSERT' | 'UPDATE' | 'DELETE';
+  changed_by: string | null;
+  changed_by_email: string | null;
+  changed_by_name: string | null;
+  old_data: AuditSnapshot | null;
+  new_data: AuditSnapshot | null;
+  changes: AuditChanges | null;
+  restored_from: string | null;
+  change_request_id: string | null;
+  // Set on device changes, logged against the device's holder
+  asset_id: string | null;
+  created_at: string;
+}
+
+export const AUDIT_ACTIONS = [
+  { value: 'INSERT', label: 'Created' },
+  { value: 'UPDATE', label: 'Updated' },
+  { value: 'DELETE', label: 'Deleted' },
+] as const;
+
+// Employee fields worth filtering the log by
+export const AUDITED_FIELDS = [
+  'name',
+  'username',
+  'email',
+  'employee_code',
+  'department',
+  'section',
+  'location',
+  'extension_number',
+  'computer_name',
+  'computer_serial',
+  'ip_address',
+  'specs',
+  'internet_access',
+  'usb_access',
+  'last_pm',
+  'devices',
+  'computer_vendor',
+  'computer_purchase_order',
+  'computer_purchase_date',
+  'computer_cost',
+  'computer_warranty_end',
+  'employment_status',
+  'exit_date',
+  'archived_at',
+  'deleted_at',
+];
+
+export type AuditVersion = 'before' | 'after';
+
+export interface RestoreFieldDiff {
+  field: string;
+  current: string;
+  restored: string;
+}
+
+export const getAuditFieldLabel = (field: string) => field.replace(/_/g, ' ');
+
+export const getAuditEmployeeName = (log: AuditLog) =>
+  formatAuditValue(log.new_data?.name ?? log.old_data?.name) || (log.asset_id ? 'Stock' : 'Unknown');
+
+export const getAuditActorName = (log: AuditLog) => log.changed_by_name || log.changed_by_email || 'System';
+
+export const getAuditSummary = (log: AuditLog) => {
+  const name = getAuditEmployeeName(log);
+  if (log.restored_from) {
+    return `Restored earlier version of ${name}`;
+  }
+  if (log.action === 'INSERT') {
+    return `Created employee: ${name}`;
+  }
+  if (log.action === 'DELETE') {
+    return `Deleted employee: ${name}`;
+  }
+  if (log.asset_id && log.changes?.devices) {
+    // One device per entry; stock devices have no holder to name
+    const diff = diffFieldValues(log.changes.devices.old, log.changes.devices.new);
+    const item = diff?.kind === 'list' ? diff.items[0] : null;
+    if (!item) return `Updated device of ${name}`;
+    if (item.kind === 'added') return log.employee_id ? `Device assigned to ${name}: ${item.label}` : `Device added to stock: ${item.label}`;
+    if (item.kind === 'removed') return log.employee_id ? `Device removed from ${name}: ${item.label}` : `Device deleted from stock: ${item.label}`;
+    return log.employee_id ? `Device updated for ${name}: ${item.label}` : `Stock device updated: ${item.label}`;
+  }
+  if (log.action === 'UPDATE' && log.changes?.deleted_at) {
+    return log.changes.deleted_at.new ? `Moved to recycle bin: ${name}` : `Restored employee: ${name}`;
+  }
+  if (log.action === 'UPDATE' && log.changes) {
+    const changedFields = Object.keys(log.changes);
+    if (log.change_request_id) {
+      return `Approved change request: ${changedFields.join(', ')}`;
+    }
+    return `Updated ${changedFields.length} field${changedFields.length > 1 ? 's' : ''}: ${changedFields.join(', ')}`;
+  }
+  return 'Updated employee record';
+};
+
+// One spreadsheet row per changed field, so exports can be filtered by field
+export const getAuditExportRows = (logs: AuditLog[]) =>
+  logs.flatMap(log => {
+    const base = {
+      'Date': new Date(log.created_at).toLocaleString(),
+      'Action': log.action,
+      'Employee': getAuditEmployeeName(log),
+      'Changed By': getAuditActorName(log),
+      'Summary': getAuditSummary(log),
+    };
+    const changes = log.action === 'UPDATE' && log.changes ? Object.entries(log.changes) : [];
+    if (changes.length === 0) {
+      return [{ ...base, 'Field': '', 'Old Value': '', 'New Value': '' }];
+    }
+    return changes.map(([field, change]) => ({
+      ...base,
+      'Field': field,
+      'Old Value': change.old || '',
+      'New Value': change.new || '',
+    }));
+  });
+
+export const formatAuditValue = (value: Json | undefined) => {
+  if (value === null || value === undefined || value === '') return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+// Fields where the snapshot differs from the record as it is now. Without a
+// current record (it was purged) every restorable field is listed. The
+// restorable fields come from employee_restorable_fields, so columns dropped
+// since the snapshot are left out.
+export const getRestoreFieldDiffs = (
+  snapshot: AuditSnapshot,
+  current: AuditSnapshot | null,
+  restorableFields: string[]
+): RestoreFieldDiff[] =>
+  Object.keys(snapshot)
+    .filter(field => restorableFields.includes(field))
+    .map(field => ({
+      field,
+      current: current ? formatAuditValue(current[field]) : '',
+      restored: formatAuditValue(snapshot[field]),
+    }))
+    .filter(diff => !current || diff.current !== diff.restored)
+    .sort((a, b) => a.field.localeCompare(b.field));
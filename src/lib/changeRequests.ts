@@ -0,0 +1,19 @@
+import type { Tables } from '@/integrations/supabase/types';
+import type { AuditChanges } from '@/lib/audit';
+
+export type ChangeRequest = Omit<Tables<'employee_change_requests'>, 'changes'> & {
+  // Same {field: {old, new}} shape as the audit log
+  changes: AuditChanges;
+};
+
+export const CHANGE_REQUEST_STATUSES = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'rejected', label: 'Rejected' },
+] as const;
+
+export const getChangeRequestStatusLabel = (status: string) =>
+  CHANGE_REQUEST_STATUSES.find(s => s.value === status)?.label || status;
+
+export const getChangeRequestStatusVariant = (status: string) =>
+  status === 'approved' ? 'default' : status === 'rejected' ? 'destructive' : 'outline';
@@ -0,0 +1,33 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Consumable = Tables<'consumables'>;
+export type ConsumableStock = Tables<'consumable_stock'>;
+export type ConsumableTransaction = Tables<'consumable_transactions'>;
+
+export const CONSUMABLE_KINDS = [
+  { value: 'toner', label: 'Toner' },
+  { value: 'drum', label: 'Drum' },
+  { value: 'ink', label: 'Ink' },
+  { value: 'ribbon', label: 'Ribbon' },
+  { value: 'other', label: 'Other' },
+] as const;
+
+export const TRANSACTION_TYPES = [
+  { value: 'receive', label: 'Received' },
+  { value: 'issue', label: 'Issued' },
+] as const;
+
+export const getConsumableKindLabel = (kind: string) =>
+  CONSUMABLE_KINDS.find(k => k.value === kind)?.label || kind;
+
+export const getTransactionTypeLabel = (type: string) =>
+  TRANSACTION_TYPES.find(t => t.value === type)?.label || type;
+
+// "HP LaserJet  M404dn" and "hp laserjet m404dn" are the same model
+export const normalizePrinterModel = (model: string) => model.trim().replace(/\s+/g, ' ').toLowerCase();
+
+export const fitsPrinterModel = (consumable: Pick<Consumable, 'printer_models'>, model: string | null) =>
+  !!model && consumable.printer_models.some(m => normalizePrinterModel(m) === normalizePrinterModel(model));
+
+export const formatConsumable = (consumable: Pick<Consumable, 'name' | 'part_number'>) =>
+  `${consumable.name}${consumable.part_number ? ` (${consumable.part_number})` : ''}`;
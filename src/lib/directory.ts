@@ -0,0 +1,97 @@
+import { escapeHtml } from '@/lib/html';
+
+// Desk phones register on this SIP domain; without it only tel: links are offered
+const SIP_DOMAIN = import.meta.env.VITE_SIP_DOMAIN as string | undefined;
+
+export interface DirectoryEntry {
+  id: string;
+  name: string | null;
+  department: string | null;
+  section: string | null;
+  location: string | null;
+  extension_number: string;
+  email: string | null;
+}
+
+export interface DirectoryGroup {
+  location: string;
+  entries: DirectoryEntry[];
+}
+
+// Extensions are often typed with spaces or dashes, which dialers don't accept
+export const normalizeExtension = (extension: string) => extension.replace(/[^\d+*#]/g, '');
+
+export const getTelLink = (extension: string) => `tel:${normalizeExtension(extension)}`;
+
+export const getSipLink = (extension: string) =>
+  SIP_DOMAIN ? `sip:${normalizeExtension(extension)}@${SIP_DOMAIN}` : null;
+
+export const matchesDirectorySearch = (entry: DirectoryEntry, term: string) =>
+  !term ||
+  [entry.name, entry.department, entry.section, entry.location, entry.extension_number]
+    .some(value => value?.toLowerCase().includes(term));
+
+// Groups follow the order of the location registry, with unplaced staff last
+export const groupByLocation = (entries: DirectoryEntry[], locationOrder: string[]): DirectoryGroup[] => {
+  const groups = new Map<string, DirectoryEntry[]>();
+  entries.forEach(entry => {
+    const location = entry.location || 'No Location';
+    groups.set(location, [...(groups.get(location) || []), entry]);
+  });
+
+  const rank = (location: string) => {
+    const index = locationOrder.indexOf(location);
+    return index === -1 ? locationOrder.length : index;
+  };
+
+  return [...groups.entries()]
+    .sort(([a], [b]) => rank(a) - rank(b) || a.localeCompare(b))
+    .map(([location, groupEntries]) => ({
+      location,
+      entries: groupEntries.sort((a, b) => (a.name || '').localeCompare(b.name || '')),
+    }));
+};
+
+// A compact list for reception, printed or saved as PDF from the browser's print dialog
+export const buildDirectoryPrintHtml = (groups: DirectoryGroup[]) => `
+  <html>
+    <head>
+      <title>Phone Directory</title>
+      <style>
+        body { font-family: Arial, sans-serif; padding: 20px; font-size: 12px; }
+        h1 { color: #333; margin-bottom: 4px; }
+        h2 { font-size: 15px; margin: 16px 0 6px; border-bottom: 2px solid #333; padding-bottom: 2px; }
+        table { width: 100%; border-collapse: collapse; }
+        th, td { border-bottom: 1px solid #ddd; padding: 4px 6px; text-align: left; }
+        th { background-color: #f4f4f4; }
+        td.ext { font-weight: bold; font-family: monospace; font-size: 13px; }
+        section { break-inside: avoid-page; }
+        .print-date { color: #666; font-size: 11px; margin-bottom: 10px; }
+      </style>
+    </head>
+    <body>
+      <h1>Phone Directory</h1>
+      <p class="print-date">Printed on: ${new Date().toLocaleString()}</p>
+      ${groups.map(group => `
+        <section>
+          <h2>${escapeHtml(group.location)}</h2>
+          <table>
+            <thead>
+              <tr><th>Name</th><th>Department</th><th>Section</th><th>Extension</th></tr>
+            </thead>
+            <tbody>
+              ${group.entries.map(entry => `
+                <tr>
+                  <td>${escapeHtml(entry.name || '-')}</td>
+                  <td>${escapeHtml(entry.department || '-')}</td>
+                  <td>${escapeHtml(entry.section || '-')}</td>
+                  <td class="ext">${escapeHtml(entry.extension_number)}</td>
+                </tr>
+              `).join('')}
+            </tbody>
+          </table>
+        </section>
+      `).join('')}
+    </body>
+  </html>
+`;
@@ -0,0 +1,138 @@
+import { getAssetName } from '@/lib/assets';
+import { getAssetRecordPath, getEmployeeRecordPath } from '@/lib/labels';
+
+// Identifiers that should be unique across the inventory. Serials share one
+// field so a computer serial also clashes with a monitor or printer serial.
+export type IdentifierField = 'employee_code' | 'computer_name' | 'ip_address' | 'serial';
+
+export const IDENTIFIER_FIELDS: { value: IdentifierField; label: string }[] = [
+  { value: 'employee_code', label: 'Employee Code' },
+  { value: 'computer_name', label: 'Computer Name' },
+  { value: 'ip_address', label: 'IP Address' },
+  { value: 'serial', label: 'Serial Number' },
+];
+
+export interface IdentifierRecord {
+  field: IdentifierField;
+  value: string;
+  employeeId: string | null;
+  employeeName: string | null;
+  assetId: string | null; // Set when the identifier is a device serial
+  source: string;
+}
+
+export interface DuplicateMatch {
+  candidate: IdentifierRecord;
+  existing: IdentifierRecord;
+}
+
+export interface DuplicateGroup {
+  field: IdentifierField;
+  value: string;
+  records: IdentifierRecord[];
+}
+
+export const getIdentifierFieldLabel = (field: IdentifierField) =>
+  IDENTIFIER_FIELDS.find(f => f.value === field)?.label || field;
+
+// Serials and host names are often typed in different cases
+export const normalizeIdentifier = (value: string) => value.trim().toLowerCase();
+
+interface EmployeeIdentifiers {
+  id?: string | null;
+  name?: string | null;
+  employee_code?: string | null;
+  computer_name?: string | null;
+  computer_serial?: string | null;
+  ip_address?: string | null;
+}
+
+export const getEmployeeIdentifiers = (employee: EmployeeIdentifiers): IdentifierRecord[] => {
+  const fields: [IdentifierField, string | null | undefined, string][] = [
+    ['employee_code', employee.employee_code, 'Employee code'],
+    ['computer_name', employee.computer_name, 'Computer name'],
+    ['ip_address', employee.ip_address, 'IP address'],
+    ['serial', employee.computer_serial, 'Computer'],
+  ];
+
+  return fields
+    .filter(([, value]) => value?.trim())
+    .map(([field, value, source]) => ({
+      field,
+      value: value!.trim(),
+      employeeId: employee.id || null,
+      employeeName: employee.name || null,
+      assetId: null,
+      source,
+    }));
+};
+
+interface AssetIdentifiers {
+  id?: string | null;
+  asset_type: string;
+  name?: string | null;
+  serial_number?: string | null;
+  employee_id?: string | null;
+}
+
+export const getAssetIdentifiers = (asset: AssetIdentifiers, employeeName: string | null = null): IdentifierRecord[] =>
+  asset.serial_number?.trim()
+    ? [{
+        field: 'serial',
+        value: asset.serial_number.trim(),
+        employeeId: asset.employee_id || null,
+        employeeName,
+        assetId: asset.id || null,
+        source: getAssetName({ asset_type: asset.asset_type, name: asset.name || null }),
+      }]
+    : [];
+
+// Records being saved never clash with the rows they are about to overwrite
+export const findDuplicates = (
+  existing: IdentifierRecord[],
+  candidates: IdentifierRecord[],
+  employeeId?: string | null
+): DuplicateMatch[] => {
+  const candidateAssetIds = new Set(candidates.map(c => c.assetId).filter(Boolean));
+  const others = existing.filter(record =>
+    record.assetId
+      ? !candidateAssetIds.has(record.assetId)
+      : !employeeId || record.employeeId !== employeeId
+  );
+
+  return candidates.flatMap(candidate => {
+    const key = normalizeIdentifier(candidate.value);
+    return others
+      .filter(record => record.field === candidate.field && normalizeIdentifier(record.value) === key)
+      .map(record => ({ candidate, existing: record }));
+  });
+};
+
+export const groupDuplicates = (records: IdentifierRecord[]): DuplicateGroup[] => {
+  const groups = new Map<string, DuplicateGroup>();
+  records.forEach(record => {
+    const key = `${record.field}:${normalizeIdentifier(record.value)}`;
+    const group = groups.get(key) || { field: record.field, value: record.value, records: [] };
+    group.records.push(record);
+    groups.set(key, group);
+  });
+
+  return [...groups.values()]
+    .filter(group => group.records.length > 1)
+    .sort((a, b) =>
+      IDENTIFIER_FIELDS.findIndex(f => f.value === a.field) - IDENTIFIER_FIELDS.findIndex(f => f.value === b.field) ||
+      a.value.localeCompare(b.value)
+    );
+};
+
+export const describeIdentifierRecord = (record: IdentifierRecord) => {
+  const owner = record.employeeName || 'Unnamed employee';
+  if (!record.assetId) return owner;
+  return record.employeeId ? `${record.source} assigned to ${owner}` : `${record.source} (unassigned)`;
+};
+
+export const describeDuplicate = (match: DuplicateMatch) =>
+  `${getIdentifierFieldLabel(match.candidate.field)} "${match.candidate.value}" is already recorded on ${describeIdentifierRecord(match.existing)}`;
+
+export const getIdentifierRecordPath = (record: IdentifierRecord) =>
+  record.assetId ? getAssetRecordPath(record.assetId) : getEmployeeRecordPath(record.employeeId!);
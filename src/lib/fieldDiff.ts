@@ -0,0 +1,2 @@
+// Shared with the notification email so both describe changes the same way
+export * from '../../supabase/functions/_shared/fieldDiff.ts';
@@ -0,0 +1,2 @@
+// Shared with the notification emails, for the printable sheets built here
+export * from '../../supabase/functions/_shared/html.ts';
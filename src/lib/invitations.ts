@@ -0,0 +1,37 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Invitation = Tables<'user_invitations'>;
+
+export type InvitationStatus = 'pending' | 'accepted' | 'revoked' | 'expired';
+
+export const INVITATION_EXPIRY_OPTIONS = [
+  { value: 1, label: '1 day' },
+  { value: 3, label: '3 days' },
+  { value: 7, label: '7 days' },
+  { value: 14, label: '14 days' },
+  { value: 30, label: '30 days' },
+] as const;
+
+export const getInvitationStatus = (invitation: Invitation): InvitationStatus => {
+  if (invitation.accepted_at) return 'accepted';
+  if (invitation.revoked_at) return 'revoked';
+  if (new Date(invitation.expires_at) <= new Date()) return 'expired';
+  return 'pending';
+};
+
+export const getInvitationStatusLabel = (status: InvitationStatus) =>
+  status.charAt(0).toUpperCase() + status.slice(1);
+
+export const getInvitationStatusVariant = (status: InvitationStatus) =>
+  status === 'accepted' ? 'default' : status === 'pending' ? 'outline' : 'secondary';
+
+// The sign-up page picks the token up from the query string
+export const getInvitationLink = (token: string) =>
+  `${window.location.origin}/auth?invite=${token}`;
+
+// Accepts "example.com", "@example.com" or a full address; returns null when
+// there's no usable domain
+export const normalizeEmailDomain = (input: string) => {
+  const domain = input.trim().toLowerCase().split('@').pop() || '';
+  return /^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(domain) ? domain : null;
+};
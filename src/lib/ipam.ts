@@ -0,0 +1,75 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Subnet = Tables<'subnets'>;
+
+const IPV4_PATTERN = /^(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)(\.(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)){3}$/;
+
+export const isValidIPv4 = (value: string) => IPV4_PATTERN.test(value.trim());
+
+// Addresses as unsigned 32-bit numbers so ranges can be compared
+export const ipToNumber = (ip: string) =>
+  ip.trim().split('.').reduce((n, octet) => n * 256 + Number(octet), 0);
+
+export const numberToIp = (n: number) =>
+  [24, 16, 8, 0].map(shift => Math.floor(n / 2 ** shift) % 256).join('.');
+
+export const formatCidr = (subnet: Pick<Subnet, 'network' | 'prefix_length'>) =>
+  `${subnet.network}/${subnet.prefix_length}`;
+
+export const getSubnetRange = (subnet: Pick<Subnet, 'network' | 'prefix_length'>) => {
+  const size = 2 ** (32 - subnet.prefix_length);
+  const network = ipToNumber(subnet.network);
+  return { network, broadcast: network + size - 1, size };
+};
+
+export const isNetworkAddress = (network: string, prefixLength: number) =>
+  ipToNumber(network) % 2 ** (32 - prefixLength) === 0;
+
+export const isInSubnet = (ip: string, subnet: Pick<Subnet, 'network' | 'prefix_length'>) => {
+  const { network, broadcast } = getSubnetRange(subnet);
+  const n = ipToNumber(ip);
+  return n >= network && n <= broadcast;
+};
+
+export const isInDhcpRange = (ip: string, subnet: Pick<Subnet, 'dhcp_start' | 'dhcp_end'>) => {
+  if (!subnet.dhcp_start || !subnet.dhcp_end) return false;
+  const n = ipToNumber(ip);
+  return n >= ipToNumber(subnet.dhcp_start) && n <= ipToNumber(subnet.dhcp_end);
+};
+
+export const findSubnet = <T extends Pick<Subnet, 'network' | 'prefix_length'>>(subnets: T[], ip: string) =>
+  subnets.find(subnet => isInSubnet(ip, subnet));
+
+export const getDhcpSize = (subnet: Pick<Subnet, 'dhcp_start' | 'dhcp_end'>) =>
+  subnet.dhcp_start && subnet.dhcp_end ? ipToNumber(subnet.dhcp_end) - ipToNumber(subnet.dhcp_start) + 1 : 0;
+
+// Host addresses left for static assignment once the gateway and DHCP pool are set aside
+export const getStaticCapacity = (subnet: Subnet) => {
+  const { size } = getSubnetRange(subnet);
+  return size - 2 - getDhcpSize(subnet) - (subnet.gateway && !isInDhcpRange(subnet.gateway, subnet) ? 1 : 0);
+};
+
+// Why an address can't be given to a device in this subnet, if it can't
+export const getReservedReason = (ip: string, subnet: Subnet) => {
+  const { network, broadcast } = getSubnetRange(subnet);
+  const n = ipToNumber(ip);
+  if (n === network) return 'is the network address';
+  if (n === broadcast) return 'is the broadcast address';
+  if (subnet.gateway && n === ipToNumber(subnet.gateway)) return 'is the gateway';
+  if (isInDhcpRange(ip, subnet)) return 'is inside the DHCP pool';
+  return null;
+};
+
+// The lowest static address not in use in any of the given subnets
+export const suggestNextFreeIp = (subnets: Subnet[], usedIps: string[]) => {
+  const used = new Set(usedIps.filter(isValidIPv4).map(ipToNumber));
+  for (const subnet of subnets) {
+    const { network, broadcast } = getSubnetRange(subnet);
+    for (let n = network + 1; n < broadcast; n++) {
+      if (used.has(n)) continue;
+      const ip = numberToIp(n);
+      if (!getReservedReason(ip, subnet)) return ip;
+    }
+  }
+  return null;
+};
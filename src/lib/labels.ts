@@ -0,0 +1,73 @@
+import QRCode from 'qrcode';
+import { escapeHtml } from '@/lib/html';
+
+// Stickers link to the record itself: employees open in the dashboard's view
+// dialog, devices on their own page
+export const getEmployeeRecordPath = (employeeId: string) => `/dashboard?employee=${employeeId}`;
+
+export const getAssetRecordPath = (assetId: string) => `/assets/${assetId}`;
+
+export interface LabelItem {
+  key: string;
+  path: string;
+  title: string;
+  subtitle: string | null;
+  detail: string | null;
+  code: string | null; // Serial number, printed as a barcode on thermal labels
+}
+
+const RECORD_PATHS = [
+  /^\/dashboard\?employee=[0-9a-f-]{36}$/i,
+  /^\/assets\/[0-9a-f-]{36}$/i,
+];
+
+// Accepts a scanned URL or bare path and returns the in-app path it points at.
+// Codes from other sites are rejected so a stray sticker can't redirect anywhere.
+export const parseRecordLink = (text: string, origin = window.location.origin): string | null => {
+  let url: URL;
+  try {
+    url = new URL(text.trim(), origin);
+  } catch {
+    return null;
+  }
+  if (url.origin !== origin) return null;
+
+  const path = `${url.pathname}${url.search}`;
+  return RECORD_PATHS.some(pattern => pattern.test(path)) ? path : null;
+};
+
+export const getLabelQrDataUrl = (item: LabelItem, origin = window.location.origin) =>
+  QRCode.toDataURL(`${origin}${item.path}`, { margin: 1, width: 240, errorCorrectionLevel: 'M' });
+
+// An A4 sheet of 3 x 7 stickers (63.5 x 38.1 mm, as on common label stock)
+export const buildLabelSheetHtml = (labels: { item: LabelItem; qr: string }[]) => `
+  <html>
+    <head>
+      <title>Asset Labels</title>
+      <style>
+        @page { size: A4; margin: 15mm 7mm; }
+        body { font-family: Arial, sans-serif; margin: 0; }
+        .sheet { display: grid; grid-template-columns: repeat(3, 63.5mm); grid-auto-rows: 38.1mm; column-gap: 2.5mm; }
+        .label { display: flex; align-items: center; gap: 2mm; padding: 2mm; box-sizing: border-box; overflow: hidden; break-inside: avoid; }
+        .label img { width: 32mm; height: 32mm; flex-shrink: 0; }
+        .text { min-width: 0; font-size: 8pt; line-height: 1.25; }
+        .title { font-weight: bold; font-size: 9pt; word-break: break-all; }
+        .muted { color: #555; word-break: break-all; }
+      </style>
+    </head>
+    <body>
+      <div class="sheet">
+        ${labels.map(({ item, qr }) => `
+          <div class="label">
+            <img src="${qr}" alt="" />
+            <div class="text">
+              <div class="title">${escapeHtml(item.title)}</div>
+              ${item.subtitle ? `<div>${escapeHtml(item.subtitle)}</div>` : ''}
+              ${item.detail ? `<div class="muted">${escapeHtml(item.detail)}</div>` : ''}
+            </div>
+          </div>
+        `).join('')}
+      </div>
+    </body>
+  </html>
+`;
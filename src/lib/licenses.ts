@@ -0,0 +1,36 @@
+import { differenceInCalendarDays, startOfDay } from 'date-fns';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type SoftwareLicense = Tables<'software_licenses'>;
+export type LicenseSeat = Tables<'license_seats'>;
+
+export const LICENSE_MODELS = [
+  { value: 'per_user', label: 'Per User' },
+  { value: 'per_device', label: 'Per Device' },
+] as const;
+
+// Licenses expiring within this many days are flagged
+export const LICENSE_EXPIRY_WARNING_DAYS = 30;
+
+export type LicenseExpiryStatus = 'expired' | 'expiring' | 'ok';
+
+export const getLicenseModelLabel = (model: string) =>
+  LICENSE_MODELS.find(m => m.value === model)?.label || model;
+
+export const getLicenseExpiryStatus = (expiryDate: string | null, today = new Date()): LicenseExpiryStatus | null => {
+  if (!expiryDate) return null;
+  const days = differenceInCalendarDays(new Date(expiryDate), startOfDay(today));
+  if (days < 0) return 'expired';
+  if (days <= LICENSE_EXPIRY_WARNING_DAYS) return 'expiring';
+  return 'ok';
+};
+
+export const LICENSE_EXPIRY_LABELS: Record<LicenseExpiryStatus, string> = {
+  expired: 'Expired',
+  expiring: 'Expiring soon',
+  ok: 'Active',
+};
+
+// Non-admins can't read keys, only the last few characters kept in license_key_hint
+export const formatLicenseKeyHint = (hint: string) =>
+  hint ? `•••••-${hint}` : '•••••';
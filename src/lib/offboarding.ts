@@ -0,0 +1,37 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Offboarding = Tables<'offboardings'>;
+export type OffboardingItem = Tables<'offboarding_items'>;
+
+export const EMPLOYMENT_STATUSES = [
+  { value: 'active', label: 'Active' },
+  { value: 'leaving', label: 'Leaving' },
+  { value: 'left', label: 'Left' },
+] as const;
+
+export const OFFBOARDING_ITEM_STATUSES = [
+  { value: 'pending', label: 'To recover' },
+  { value: 'returned', label: 'Returned' },
+  { value: 'missing', label: 'Not recovered' },
+] as const;
+
+export const OFFBOARDING_ITEM_TYPES = [
+  { value: 'computer', label: 'Computer' },
+  { value: 'asset', label: 'Device' },
+  { value: 'license', label: 'License seat' },
+] as const;
+
+export const getEmploymentStatusLabel = (status: string) =>
+  EMPLOYMENT_STATUSES.find(s => s.value === status)?.label || status;
+
+export const getEmploymentStatusVariant = (status: string) =>
+  status === 'left' ? 'secondary' : status === 'leaving' ? 'destructive' : 'default';
+
+export const getOffboardingItemStatusLabel = (status: string) =>
+  OFFBOARDING_ITEM_STATUSES.find(s => s.value === status)?.label || status;
+
+export const getOffboardingItemStatusVariant = (status: string) =>
+  status === 'returned' ? 'secondary' : status === 'missing' ? 'destructive' : 'outline';
+
+export const getOffboardingItemTypeLabel = (type: string) =>
+  OFFBOARDING_ITEM_TYPES.find(t => t.value === type)?.label || type;
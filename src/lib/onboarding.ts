@@ -0,0 +1,30 @@
+import { startOfDay } from 'date-fns';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type OnboardingTask = Tables<'onboarding_tasks'>;
+
+export interface OnboardingProgress {
+  done: number;
+  total: number;
+  overdue: number;
+  nextDue: string | null;
+}
+
+// Due dates are plain dates, so a task is only overdue from the day after
+export const isOnboardingTaskOverdue = (task: Pick<OnboardingTask, 'due_date' | 'completed_at'>, today = new Date()) =>
+  !task.completed_at && !!task.due_date && new Date(`${task.due_date}T00:00:00`) < startOfDay(today);
+
+export const sortOnboardingTasks = <T extends Pick<OnboardingTask, 'sort_order' | 'label'>>(tasks: T[]) =>
+  [...tasks].sort((a, b) => a.sort_order - b.sort_order || a.label.localeCompare(b.label));
+
+export const getOnboardingProgress = (tasks: Pick<OnboardingTask, 'due_date' | 'completed_at'>[]): OnboardingProgress => {
+  const open = tasks.filter(t => !t.completed_at);
+  const dueDates = open.map(t => t.due_date).filter((d): d is string => !!d).sort();
+
+  return {
+    done: tasks.length - open.length,
+    total: tasks.length,
+    overdue: open.filter(t => isOnboardingTaskOverdue(t)).length,
+    nextDue: dueDates[0] || null,
+  };
+};
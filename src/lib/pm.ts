@@ -0,0 +1,56 @@
+import { addDays, differenceInCalendarDays, startOfDay } from 'date-fns';
+import type { Tables } from '@/integrations/supabase/types';
+import { ASSET_TYPES } from '@/lib/assets';
+
+export type PmInterval = Tables<'pm_intervals'>;
+export type PmRecord = Tables<'pm_records'>;
+export type PmChecklistTemplate = Tables<'pm_checklist_templates'>;
+export type PmChecklistVersion = Tables<'pm_checklist_versions'>;
+export type PmCheckResult = Tables<'pm_check_results'>;
+
+export const PM_DEVICE_TYPES = [
+  { value: 'computer', label: 'Computer' },
+  ...ASSET_TYPES,
+];
+
+export const DEFAULT_PM_INTERVAL_DAYS = 90;
+
+// Items due within this many days show up as "due soon"
+export const PM_DUE_SOON_DAYS = 14;
+
+export type PmStatus = 'never' | 'overdue' | 'due' | 'ok';
+
+export const getPmDeviceTypeLabel = (type: string | null) =>
+  type ? PM_DEVICE_TYPES.find(t => t.value === type)?.label || type : 'All devices';
+
+const specificity = (rule: PmInterval) => (rule.location_id ? 2 : 0) + (rule.device_type ? 1 : 0);
+
+// The most specific rule wins: location + type, then location, then type, then the default
+export const findPmInterval = (intervals: PmInterval[], locationId: string | null | undefined, deviceType: string) =>
+  intervals
+    .filter(rule =>
+      (!rule.location_id || rule.location_id === locationId) &&
+      (!rule.device_type || rule.device_type === deviceType)
+    )
+    .sort((a, b) => specificity(b) - specificity(a))[0];
+
+export const getNextPmDue = (lastPm: string | null, intervalDays: number) =>
+  lastPm ? addDays(new Date(lastPm), intervalDays) : null;
+
+export const getPmStatus = (nextDue: Date | null, today = new Date()): PmStatus => {
+  if (!nextDue) return 'never';
+  const days = differenceInCalendarDays(nextDue, startOfDay(today));
+  if (days < 0) return 'overdue';
+  if (days <= PM_DUE_SOON_DAYS) return 'due';
+  return 'ok';
+};
+
+export const PM_STATUS_LABELS: Record<PmStatus, string> = {
+  never: 'No PM on record',
+  overdue: 'Overdue',
+  due: 'Due soon',
+  ok: 'Up to date',
+};
+
+export const getPmStatusVariant = (status: PmStatus) =>
+  status === 'overdue' || status === 'never' ? 'destructive' : status === 'due' ? 'default' : 'secondary';
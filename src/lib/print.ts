@@ -0,0 +1,20 @@
+// Prints a standalone HTML document through a hidden iframe, once its images have loaded
+export const printHtml = (html: string) => {
+  const iframe = document.createElement('iframe');
+  iframe.style.position = 'absolute';
+  iframe.style.width = '0';
+  iframe.style.height = '0';
+  iframe.style.border = 'none';
+  document.body.appendChild(iframe);
+
+  const frameWindow = iframe.contentWindow;
+  if (!frameWindow) return;
+
+  frameWindow.document.open();
+  frameWindow.onload = () => {
+    frameWindow.print();
+    setTimeout(() => document.body.removeChild(iframe), 1000);
+  };
+  frameWindow.document.write(html);
+  frameWindow.document.close();
+};
@@ -0,0 +1,6 @@
+import { addDays } from 'date-fns';
+
+// Matches the default in purge_deleted_employees, which runs nightly
+export const RECYCLE_BIN_RETENTION_DAYS = 30;
+
+export const getPurgeDate = (deletedAt: string) => addDays(new Date(deletedAt), RECYCLE_BIN_RETENTION_DAYS);
@@ -0,0 +1,46 @@
+import type { Database } from '@/integrations/supabase/types';
+
+export type AppRole = Database['public']['Enums']['app_role'];
+
+export const APP_ROLES: { value: AppRole; label: string; description: string }[] = [
+  { value: 'admin', label: 'Admin', description: 'Full access, including settings, deletions and user roles' },
+  { value: 'employee', label: 'Employee', description: 'Standard access given to everyone who signs up' },
+  { value: 'viewer', label: 'Viewer', description: 'Read-only access to their locations' },
+  { value: 'technician', label: 'Technician', description: 'Adds and edits employees and devices at their locations' },
+  { value: 'location_manager', label: 'Location Manager', description: 'Technician access plus the activity log for their locations' },
+  { value: 'hr', label: 'HR', description: 'Signs off offboardings for HR' },
+];
+
+// Roles that only apply at the locations they are granted for, enforced by
+// the row-level security policies
+export const LOCATION_SCOPED_ROLES: AppRole[] = ['viewer', 'technician', 'location_manager'];
+
+const EDITING_ROLES: AppRole[] = ['technician', 'location_manager'];
+
+export const getRoleLabel = (role: string) =>
+  APP_ROLES.find(r => r.value === role)?.label || role;
+
+export const isLocationScopedRole = (role: AppRole) => LOCATION_SCOPED_ROLES.includes(role);
+
+export interface RoleGrant {
+  role: AppRole;
+  locations: string[];
+}
+
+export interface LocationScope {
+  viewable: string[];
+  editable: string[];
+}
+
+// Mirrors is_location_scoped: admins and users without a scoped role are not
+// limited, and get null
+export const getLocationScope = (grants: RoleGrant[]): LocationScope | null => {
+  if (grants.some(g => g.role === 'admin')) return null;
+  const scoped = grants.filter(g => isLocationScopedRole(g.role));
+  if (scoped.length === 0) return null;
+
+  return {
+    viewable: [...new Set(scoped.flatMap(g => g.locations))],
+    editable: [...new Set(scoped.filter(g => EDITING_ROLES.includes(g.role)).flatMap(g => g.locations))],
+  };
+};
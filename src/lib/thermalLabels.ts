@@ -0,0 +1,149 @@
+import type { LabelItem } from '@/lib/labels';
+
+export type LabelLanguage = 'zpl' | 'epl';
+export type LabelTemplate = 'qr' | 'barcode' | 'text';
+
+export const LABEL_SIZES = [
+  { value: '50x25', label: '50 × 25 mm (2 × 1 in)', widthMm: 50.8, heightMm: 25.4 },
+  { value: '57x32', label: '57 × 32 mm (2.25 × 1.25 in)', widthMm: 57.2, heightMm: 31.8 },
+  { value: '76x51', label: '76 × 51 mm (3 × 2 in)', widthMm: 76.2, heightMm: 50.8 },
+  { value: '102x51', label: '102 × 51 mm (4 × 2 in)', widthMm: 101.6, heightMm: 50.8 },
+  { value: '102x152', label: '102 × 152 mm (4 × 6 in)', widthMm: 101.6, heightMm: 152.4 },
+] as const;
+
+export const PRINTER_DPIS = [203, 300] as const;
+
+export const LABEL_TEMPLATES: { value: LabelTemplate; label: string }[] = [
+  { value: 'qr', label: 'QR code + text' },
+  { value: 'barcode', label: 'Code 128 barcode + text' },
+  { value: 'text', label: 'Text only' },
+];
+
+export const LABEL_LANGUAGES: { value: LabelLanguage; label: string; extension: string }[] = [
+  { value: 'zpl', label: 'Zebra ZPL', extension: 'zpl' },
+  { value: 'epl', label: 'Zebra EPL2 (older printers)', extension: 'epl' },
+];
+
+export interface ThermalLabelOptions {
+  widthMm: number;
+  heightMm: number;
+  dpi: number;
+  template: LabelTemplate;
+  origin?: string;
+}
+
+const mmToDots = (mm: number, dpi: number) => Math.round((mm / 25.4) * dpi);
+
+// What the barcode encodes: the serial where there is one, otherwise the title
+const getBarcodeData = (item: LabelItem) => item.code || item.title;
+
+const getTextLines = (item: LabelItem, template: LabelTemplate) =>
+  [item.title, item.subtitle, item.detail, template === 'barcode' ? null : item.code]
+    .filter((line, index, lines): line is string => !!line && lines.indexOf(line) === index);
+
+// ^ and ~ start commands in ZPL, so field data is hex-escaped under ^FH
+const escapeZpl = (value: string) =>
+  value.replace(/[\\^~]/g, char => `\\${char.charCodeAt(0).toString(16).toUpperCase()}`);
+
+// A ~70 character link needs a version 5 QR code: 37 modules plus quiet zone
+const QR_MODULES = 41;
+
+// Code 128 uses 11 modules per character plus start, check and stop codes
+const getCode128Modules = (data: string) => (data.length + 3) * 11 + 2;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const buildZpl = (items: LabelItem[], options: ThermalLabelOptions) => {
+  const { dpi, template, origin = window.location.origin } = options;
+  const width = mmToDots(options.widthMm, dpi);
+  const height = mmToDots(options.heightMm, dpi);
+  const margin = mmToDots(2, dpi);
+
+  return items.map(item => {
+    const commands = ['^XA', '^CI28', `^PW${width}`, `^LL${height}`, '^LH0,0'];
+    let textX = margin;
+    let textY = margin;
+
+    if (template === 'qr') {
+      const magnification = clamp(Math.floor((height - 2 * margin) / QR_MODULES), 1, 10);
+      commands.push(`^FO${margin},${margin}^BQN,2,${magnification}^FH\\^FDMA,${escapeZpl(`${origin}${item.path}`)}^FS`);
+      textX = margin * 2 + magnification * QR_MODULES;
+    } else if (template === 'barcode') {
+      const data = getBarcodeData(item);
+      const moduleWidth = clamp(Math.floor((width - 2 * margin) / getCode128Modules(data)), 1, 4);
+      const barHeight = Math.round((height - 2 * margin) * 0.45);
+      commands.push(`^FO${margin},${margin}^BY${moduleWidth}^BCN,${barHeight},Y,N,N^FH\\^FD${escapeZpl(data)}^FS`);
+      textY = margin + barHeight + mmToDots(4, dpi);
+    }
+
+    const textWidth = width - textX - margin;
+    const lines = getTextLines(item, template);
+    const titleHeight = clamp(Math.round((height - textY - margin) / 4), mmToDots(2.5, dpi), mmToDots(6, dpi));
+    const lineHeight = Math.round(titleHeight * 0.75);
+
+    lines.forEach((line, index) => {
+      const fontHeight = index === 0 ? titleHeight : lineHeight;
+      if (textY + fontHeight > height - margin) return;
+      commands.push(`^FO${textX},${textY}^A0N,${fontHeight},${fontHeight}^FB${textWidth},1,0,L^FH\\^FD${escapeZpl(line)}^FS`);
+      textY += fontHeight + Math.round(fontHeight * 0.25);
+    });
+
+    commands.push('^PQ1', '^XZ');
+    return commands.join('\n');
+  }).join('\n');
+};
+
+// EPL2 resident fonts 1-4, as width and height in dots at 203 dpi
+const EPL_FONTS = [
+  { font: 1, width: 8, height: 12 },
+  { font: 2, width: 10, height: 16 },
+  { font: 3, width: 12, height: 20 },
+  { font: 4, width: 14, height: 24 },
+];
+
+const escapeEpl = (value: string) => value.replace(/["\\]/g, char => `\\${char}`);
+
+// EPL has no text wrapping, so lines are cut to the width of the label
+export const buildEpl = (items: LabelItem[], options: ThermalLabelOptions) => {
+  const { dpi, template } = options;
+  const width = mmToDots(options.widthMm, dpi);
+  const height = mmToDots(options.heightMm, dpi);
+  const margin = mmToDots(2, dpi);
+  const scale = dpi >= 300 ? 1.5 : 1;
+
+  return items.map(item => {
+    const commands = ['N', `q${width}`, `Q${height},24`];
+    let y = margin;
+
+    if (template === 'barcode') {
+      const data = getBarcodeData(item);
+      const narrow = clamp(Math.floor((width - 2 * margin) / getCode128Modules(data)), 1, 4);
+      const barHeight = Math.round((height - 2 * margin) * 0.45);
+      commands.push(`B${margin},${y},0,1,${narrow},${narrow},${barHeight},B,"${escapeEpl(data)}"`);
+      y += barHeight + Math.round(24 * scale) + mmToDots(1, dpi);
+    }
+
+    getTextLines(item, template).forEach((line, index) => {
+      const { font, width: charWidth, height: charHeight } = EPL_FONTS[index === 0 ? 3 : 1];
+      const lineHeight = Math.round(charHeight * scale);
+      if (y + lineHeight > height - margin) return;
+      const maxChars = Math.floor((width - 2 * margin) / Math.round(charWidth * scale));
+      commands.push(`A${margin},${y},0,${font},1,1,N,"${escapeEpl(line.slice(0, maxChars))}"`);
+      y += lineHeight + Math.round(lineHeight * 0.3);
+    });
+
+    commands.push('P1');
+    return commands.join('\n');
+  }).join('\n');
+};
+
+export const downloadLabelFile = (content: string, language: LabelLanguage) => {
+  const extension = LABEL_LANGUAGES.find(l => l.value === language)?.extension || language;
+  const blob = new Blob([content], { type: 'text/plain' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `labels_${new Date().toISOString().split('T')[0]}.${extension}`;
+  a.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,36 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Ticket = Tables<'tickets'>;
+export type TicketComment = Tables<'ticket_comments'>;
+
+export const TICKET_STATUSES = [
+  { value: 'open', label: 'Open' },
+  { value: 'in_progress', label: 'In Progress' },
+  { value: 'on_hold', label: 'On Hold' },
+  { value: 'resolved', label: 'Resolved' },
+  { value: 'closed', label: 'Closed' },
+] as const;
+
+export const TICKET_PRIORITIES = [
+  { value: 'low', label: 'Low' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'high', label: 'High' },
+  { value: 'urgent', label: 'Urgent' },
+] as const;
+
+export const getTicketStatusLabel = (status: string) =>
+  TICKET_STATUSES.find(s => s.value === status)?.label || status;
+
+export const getTicketPriorityLabel = (priority: string) =>
+  TICKET_PRIORITIES.find(p => p.value === priority)?.label || priority;
+
+// Resolved and closed tickets need a resolution note
+export const isTicketClosed = (status: string) => status === 'resolved' || status === 'closed';
+
+export const getTicketStatusVariant = (status: string) =>
+  isTicketClosed(status) ? 'secondary' : status === 'open' ? 'default' : 'outline';
+
+export const getTicketPriorityVariant = (priority: string) =>
+  priority === 'urgent' || priority === 'high' ? 'destructive' : 'secondary';
+
+export const formatTicketNumber = (ticket: Pick<Ticket, 'ticket_number'>) => `#${ticket.ticket_number}`;
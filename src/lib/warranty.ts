@@ -0,0 +1,42 @@
+import { differenceInCalendarDays, startOfDay } from 'date-fns';
+
+// Devices whose purchase and warranty details are tracked
+export const WARRANTY_DEVICE_TYPES = [
+  { value: 'computer', label: 'Computer' },
+  { value: 'monitor', label: 'Monitor/LED' },
+  { value: 'printer', label: 'Printer' },
+  { value: 'scanner', label: 'Scanner' },
+] as const;
+
+export const WARRANTY_ASSET_TYPES: string[] = WARRANTY_DEVICE_TYPES
+  .map(t => t.value)
+  .filter(type => type !== 'computer');
+
+// Warranties ending within this many days are flagged, leaving time to plan a refresh
+export const WARRANTY_EXPIRY_WARNING_DAYS = 90;
+
+export type WarrantyStatus = 'unknown' | 'expired' | 'expiring' | 'active';
+
+export const getWarrantyDeviceTypeLabel = (type: string) =>
+  WARRANTY_DEVICE_TYPES.find(t => t.value === type)?.label || type;
+
+export const getWarrantyStatus = (warrantyEnd: string | null, today = new Date()): WarrantyStatus => {
+  if (!warrantyEnd) return 'unknown';
+  const days = differenceInCalendarDays(new Date(warrantyEnd), startOfDay(today));
+  if (days < 0) return 'expired';
+  if (days <= WARRANTY_EXPIRY_WARNING_DAYS) return 'expiring';
+  return 'active';
+};
+
+export const WARRANTY_STATUS_LABELS: Record<WarrantyStatus, string> = {
+  unknown: 'No warranty data',
+  expired: 'Out of warranty',
+  expiring: 'Expiring soon',
+  active: 'Under warranty',
+};
+
+export const getWarrantyStatusVariant = (status: WarrantyStatus) =>
+  status === 'expired' ? 'destructive' : status === 'expiring' ? 'default' : status === 'active' ? 'secondary' : 'outline';
+
+export const formatCost = (cost: number | null) =>
+  cost === null ? '-' : cost.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
@@ -0,0 +1,462 @@
+import { useState } from 'react';
+import { useNavigate, useParams, Navigate } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/useAuth';
+import { useCanLogPm } from '@/hooks/usePmSchedule';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2, ArrowLeft, HardDrive, History, LogIn, LogOut, Wrench, ShieldCheck, Edit, LifeBuoy } from 'lucide-react';
+import { Footer } from '@/components/Footer';
+import { EmployeePicker } from '@/components/EmployeePicker';
+import { AssignmentTimeline } from '@/components/AssignmentTimeline';
+import { PmHistory } from '@/components/PmHistory';
+import { PmLogDialog } from '@/components/PmLogDialog';
+import { TicketList } from '@/components/TicketList';
+import { AssetPurchaseForm } from '@/components/AssetPurchaseForm';
+import { format } from 'date-fns';
+import { ASSET_STATUSES, formatAsset, getAssetName, getAssetStatusLabel, getAssetTypeLabel } from '@/lib/assets';
+import {
+  WARRANTY_ASSET_TYPES,
+  WARRANTY_STATUS_LABELS,
+  formatCost,
+  getWarrantyStatus,
+  getWarrantyStatusVariant,
+} from '@/lib/warranty';
+
+const AssetDetails = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user, loading, isAdmin } = useAuth();
+  const canLogPm = useCanLogPm();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [isAssignOpen, setIsAssignOpen] = useState(false);
+  const [isReturnOpen, setIsReturnOpen] = useState(false);
+  const [isPmLogOpen, setIsPmLogOpen] = useState(false);
+  const [isPurchaseOpen, setIsPurchaseOpen] = useState(false);
+  const [assignTo, setAssignTo] = useState<string | null>(null);
+  const [reason, setReason] = useState('');
+  const [returnStatus, setReturnStatus] = useState('in_stock');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { data: asset, isLoading } = useQuery({
+    queryKey: ['asset', id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('assets')
+        .select('*, employees(name, location, department)')
+        .eq('id', id!)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user && !!id,
+  });
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['asset', id] });
+    queryClient.invalidateQueries({ queryKey: ['asset-assignments'] });
+    queryClient.invalidateQueries({ queryKey: ['assets'] });
+    queryClient.invalidateQueries({ queryKey: ['warranty-report'] });
+  };
+
+  const warrantyStatus = getWarrantyStatus(asset?.warranty_end || null);
+
+  const closeDialogs = () => {
+    setIsAssignOpen(false);
+    setIsReturnOpen(false);
+    setAssignTo(null);
+    setReason('');
+    setReturnStatus('in_stock');
+  };
+
+  const handleAssign = async () => {
+    if (!assignTo) {
+      toast.error('Select an employee');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const { error } = await supabase.rpc('assign_asset', {
+        _asset_id: id!,
+        _employee_id: assignTo,
+        _reason: reason.trim() || undefined,
+      });
+
+      if (error) throw error;
+      toast.success('Asset assigned');
+      closeDialogs();
+      refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'An error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleReturn = async () => {
+    setIsSubmitting(true);
+    try {
+      const { error } = await supabase.rpc('return_asset', {
+        _asset_id: id!,
+        _reason: reason.trim() || undefined,
+        _status: returnStatus,
+      });
+
+      if (error) throw error;
+      toast.success('Asset returned');
+      closeDialogs();
+      refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'An error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <header className="border-b border-border bg-card animate-fade-in shadow-md">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center gap-4">
+            <Button onClick={() => navigate('/assets')} variant="ghost" size="icon" className="hover-scale">
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div className="flex items-center gap-2">
+              <HardDrive className="h-6 w-6 text-primary" />
+              <div>
+                <h1 className="text-2xl font-bold text-foreground">
+                  {asset ? getAssetName(asset) : 'Asset'}
+                </h1>
+                <p className="text-sm text-muted-foreground">
+                  {asset?.serial_number ? `Serial ${asset.serial_number}` : 'Device details and history'}
+                </p>
+              </div>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 animate-fade-in-up flex-1">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : !asset ? (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <p className="text-muted-foreground">Asset not found</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-6 lg:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle>Device</CardTitle>
+                  <Badge variant={asset.status === 'assigned' ? 'default' : 'secondary'}>
+                    {getAssetStatusLabel(asset.status)}
+                  </Badge>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <p className="text-sm font-medium text-muted-foreground">Type</p>
+                    <p className="font-medium">{getAssetTypeLabel(asset.asset_type)}</p>
+                  </div>
+                  <div>
+                    <p className="text-sm font-medium text-muted-foreground">Model</p>
+                    <p className="font-medium">{asset.model || '-'}</p>
+                  </div>
+                  <div>
+                    <p className="text-sm font-medium text-muted-foreground">Serial Number</p>
+                    <p className="font-medium">{asset.serial_number || '-'}</p>
+                  </div>
+                  <div>
+                    <p className="text-sm font-medium text-muted-foreground">Assigned To</p>
+                    <p className="font-medium">
+                      {asset.employees
+                        ? `${asset.employees.name}${asset.employees.location ? ` (${asset.employees.location})` : ''}`
+                        : '-'}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-sm font-medium text-muted-foreground">Last PM Date</p>
+                    <p className="font-medium">{asset.last_pm ? format(new Date(asset.last_pm), 'PP') : '-'}</p>
+                  </div>
+                </div>
+
+                {isAdmin && (
+                  <div className="flex gap-2">
+                    <Button onClick={() => setIsAssignOpen(true)} className="hover-scale">
+                      <LogOut className="h-4 w-4 mr-2" />
+                      {asset.employee_id ? 'Reassign' : 'Assign'}
+                    </Button>
+                    {asset.employee_id && (
+                      <Button onClick={() => setIsReturnOpen(true)} variant="outline" className="hover-scale">
+                        <LogIn className="h-4 w-4 mr-2" />
+                        Return
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <div className="flex items-center gap-2">
+                  <History className="h-5 w-5 text-primary" />
+                  <CardTitle>Assignment History</CardTitle>
+                </div>
+                <CardDescription>Who held this device, from when to when, and why</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <AssignmentTimeline assetId={asset.id} />
+              </CardContent>
+            </Card>
+
+            {WARRANTY_ASSET_TYPES.includes(asset.asset_type) && (
+              <Card className="lg:col-span-2">
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      <ShieldCheck className="h-5 w-5 text-primary" />
+                      <CardTitle>Purchase & Warranty</CardTitle>
+                      <Badge variant={getWarrantyStatusVariant(warrantyStatus)}>
+                        {WARRANTY_STATUS_LABELS[warrantyStatus]}
+                      </Badge>
+                    </div>
+                    {isAdmin && (
+                      <Button onClick={() => setIsPurchaseOpen(true)} variant="outline" className="hover-scale">
+                        <Edit className="h-4 w-4 mr-2" />
+                        Edit
+                      </Button>
+                    )}
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                    <div>
+                      <p className="text-sm font-medium text-muted-foreground">Vendor</p>
+                      <p className="font-medium">{asset.vendor || '-'}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm font-medium text-muted-foreground">Purchase Order</p>
+                      <p className="font-medium">{asset.purchase_order || '-'}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm font-medium text-muted-foreground">Purchase Date</p>
+                      <p className="font-medium">
+                        {asset.purchase_date ? format(new Date(asset.purchase_date), 'PP') : '-'}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-sm font-medium text-muted-foreground">Cost</p>
+                      <p className="font-medium">{formatCost(asset.cost)}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm font-medium text-muted-foreground">Warranty End</p>
+                      <p className="font-medium">
+                        {asset.warranty_end ? format(new Date(asset.warranty_end), 'PP') : '-'}
+                      </p>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <Wrench className="h-5 w-5 text-primary" />
+                    <CardTitle>Maintenance History</CardTitle>
+                  </div>
+                  {canLogPm && (
+                    <Button onClick={() => setIsPmLogOpen(true)} variant="outline" className="hover-scale">
+                      Log PM
+                    </Button>
+                  )}
+                </div>
+                <CardDescription>Preventive maintenance visits logged against this device</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <PmHistory assetId={asset.id} />
+              </CardContent>
+            </Card>
+
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <div className="flex items-center gap-2">
+                  <LifeBuoy className="h-5 w-5 text-primary" />
+                  <CardTitle>Helpdesk Tickets</CardTitle>
+                </div>
+                <CardDescription>
+                  {asset.serial_number
+                    ? 'Tickets raised against this serial number'
+                    : 'Tickets are matched by serial number, which this device does not have'}
+                </CardDescription>
+              </CardHeader>
+              {asset.serial_number && (
+                <CardContent>
+                  <TicketList employeeId={asset.employee_id} deviceSerial={asset.serial_number} isAdmin={isAdmin} />
+                </CardContent>
+              )}
+            </Card>
+          </div>
+        )}
+      </main>
+
+      {asset && (
+        <PmLogDialog
+          open={isPmLogOpen}
+          onOpenChange={setIsPmLogOpen}
+          assetId={asset.id}
+          label={formatAsset(asset)}
+        />
+      )}
+
+      {/* Purchase Dialog */}
+      <Dialog open={isPurchaseOpen} onOpenChange={setIsPurchaseOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Purchase & Warranty</DialogTitle>
+            <DialogDescription>Where and when this device was bought, and how long it is covered</DialogDescription>
+          </DialogHeader>
+          {asset && (
+            <AssetPurchaseForm
+              asset={asset}
+              onSuccess={() => {
+                setIsPurchaseOpen(false);
+                refresh();
+              }}
+              onCancel={() => setIsPurchaseOpen(false)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Assign Dialog */}
+      <Dialog open={isAssignOpen} onOpenChange={(open) => !open && closeDialogs()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{asset?.employee_id ? 'Reassign Asset' : 'Assign Asset'}</DialogTitle>
+            <DialogDescription>
+              {asset?.employee_id
+                ? `This will return the device from ${asset.employees?.name} first.`
+                : 'Check this device out to an employee.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Employee</Label>
+              <EmployeePicker value={assignTo} onChange={setAssignTo} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="assign-reason">Reason</Label>
+              <Textarea
+                id="assign-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g., Replacement for faulty unit"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialogs} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button onClick={handleAssign} disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Assign
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Return Dialog */}
+      <Dialog open={isReturnOpen} onOpenChange={(open) => !open && closeDialogs()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Return Asset</DialogTitle>
+            <DialogDescription>Check this device back in from {asset?.employees?.name}.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>New Status</Label>
+              <Select value={returnStatus} onValueChange={setReturnStatus}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ASSET_STATUSES.filter(s => s.value !== 'assigned').map(status => (
+                    <SelectItem key={status.value} value={status.value}>
+                      {status.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="return-reason">Reason</Label>
+              <Textarea
+                id="return-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g., Employee transferred"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialogs} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button onClick={handleReturn} disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Return
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default AssetDetails;
@@ -0,0 +1,208 @@
+import { useState } from 'react';
+import { useNavigate, Navigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Loader2, ArrowLeft, HardDrive, Search, Filter } from 'lucide-react';
+import { Footer } from '@/components/Footer';
+import { ASSET_STATUSES, ASSET_TYPES, getAssetName, getAssetStatusLabel } from '@/lib/assets';
+import logo from '@/assets/logo.jpg';
+
+const Assets = () => {
+  const { user, loading } = useAuth();
+  const navigate = useNavigate();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [typeFilter, setTypeFilter] = useState('all');
+  const [statusFilter, setStatusFilter] = useState('all');
+
+  const { data: assets, isLoading } = useQuery({
+    queryKey: ['assets'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('assets')
+        .select('*, employees(name, location)')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user,
+  });
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  const term = searchTerm.toLowerCase();
+  const filteredAssets = assets?.filter(asset => {
+    if (typeFilter !== 'all' && asset.asset_type !== typeFilter) return false;
+    if (statusFilter !== 'all' && asset.status !== statusFilter) return false;
+    if (!term) return true;
+    return (
+      asset.serial_number?.toLowerCase().includes(term) ||
+      asset.model?.toLowerCase().includes(term) ||
+      asset.name?.toLowerCase().includes(term) ||
+      asset.employees?.name?.toLowerCase().includes(term)
+    );
+  });
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <header className="border-b border-border bg-card animate-fade-in shadow-md">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <img src={logo} alt="Logo" className="h-10 w-auto object-contain" />
+              <div className="flex items-center gap-2">
+                <HardDrive className="h-6 w-6 text-primary" />
+                <div>
+                  <h1 className="text-2xl font-bold text-foreground">Assets</h1>
+                  <p className="text-sm text-muted-foreground">Every device and who holds it</p>
+                </div>
+              </div>
+            </div>
+            <Button onClick={() => navigate('/dashboard')} variant="outline" className="hover-scale">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Dashboard
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 animate-fade-in-up flex-1 space-y-4">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <Filter className="h-5 w-5 text-primary" />
+              <CardTitle className="text-foreground">Search & Filter</CardTitle>
+            </div>
+            <CardDescription>Find devices by serial number, model or holder</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-col md:flex-row gap-4">
+              <div className="flex-1 relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search by serial, model, name or holder..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-9"
+                />
+              </div>
+              <Select value={typeFilter} onValueChange={setTypeFilter}>
+                <SelectTrigger className="w-full md:w-[180px]">
+                  <SelectValue placeholder="Type" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Types</SelectItem>
+                  {ASSET_TYPES.map(type => (
+                    <SelectItem key={type.value} value={type.value}>
+                      {type.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger className="w-full md:w-[180px]">
+                  <SelectValue placeholder="Status" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Statuses</SelectItem>
+                  {ASSET_STATUSES.map(status => (
+                    <SelectItem key={status.value} value={status.value}>
+                      {status.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="p-0">
+            {isLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-primary" />
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Device</TableHead>
+                      <TableHead>Model</TableHead>
+                      <TableHead>Serial Number</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Assigned To</TableHead>
+                      <TableHead>Location</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredAssets?.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                          No assets found
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      filteredAssets?.map(asset => (
+                        <TableRow
+                          key={asset.id}
+                          className="cursor-pointer transition-all duration-200 hover:bg-accent/50"
+                          onClick={() => navigate(`/assets/${asset.id}`)}
+                        >
+                          <TableCell className="font-medium">{getAssetName(asset)}</TableCell>
+                          <TableCell>{asset.model || '-'}</TableCell>
+                          <TableCell>{asset.serial_number || '-'}</TableCell>
+                          <TableCell>
+                            <Badge variant={asset.status === 'assigned' ? 'default' : 'secondary'}>
+                              {getAssetStatusLabel(asset.status)}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>{asset.employees?.name || '-'}</TableCell>
+                          <TableCell>{asset.employees?.location || '-'}</TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default Assets;
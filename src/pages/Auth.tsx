@@ -1,15 +1,19 @@
-import { useState } from 'react';
-import { useNavigate, Navigate } from 'react-router-dom';
+import { useEffect, useState } from 'react';
+import { useNavigate, Navigate, useSearchParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { getRoleLabel } from '@/lib/roles';
 import { z } from 'zod';
 import { Footer } from '@/components/Footer';
 import logo from '@/assets/logo.jpg';
-import { LogIn, UserPlus, Shield } from 'lucide-react';
+import { LogIn, UserPlus, Shield, Mail } from 'lucide-react';
 
 const loginSchema = z.object({
   email: z.string().email('Invalid email address'),
@@ -25,7 +29,9 @@ const signupSchema = loginSchema.extend({
 });
 
 const Auth = () => {
-  const [isSignUp, setIsSignUp] = useState(false);
+  const [searchParams] = useSearchParams();
+  const inviteToken = searchParams.get('invite') || undefined;
+  const [isSignUp, setIsSignUp] = useState(!!inviteToken);
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
@@ -34,6 +40,24 @@ const Auth = () => {
   const { signIn, signUp, user } = useAuth();
   const navigate = useNavigate();
 
+  // Invitation links open the sign-up form with the invited email filled in
+  const { data: invitation, isLoading: invitationLoading } = useQuery({
+    queryKey: ['invitation', inviteToken],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_invitation', { _token: inviteToken! });
+      if (error) throw error;
+      return data[0] || null;
+    },
+    enabled: !!inviteToken,
+    retry: false,
+  });
+
+  useEffect(() => {
+    if (invitation) {
+      setEmail(invitation.email);
+    }
+  }, [invitation]);
+
   if (user) {
     return <Navigate to="/dashboard" replace />;
   }
@@ -55,7 +79,8 @@ const Auth = () => {
           setErrors(fieldErrors);
           return;
         }
-        await signUp(email, password, fullName);
+        const { error } = await signUp(email, password, fullName, invitation ? inviteToken : undefined);
+        if (error) return;
         setIsSignUp(false);
         setEmail('');
         setPassword('');
@@ -94,7 +119,7 @@ const Auth = () => {
             </CardTitle>
             <CardDescription className="text-center">
               {isSignUp
-                ? 'Sign up to manage office devices and information'
+                ? 'Sign up with an invitation or your work email'
                 : 'Sign in to access the dashboard'}
             </CardDescription>
           </CardHeader>
@@ -137,6 +162,21 @@ const Auth = () => {
               </TabsContent>
               <TabsContent value="signup">
                 <form onSubmit={handleSubmit} className="space-y-4">
+                  {inviteToken && !invitationLoading && (
+                    invitation ? (
+                      <div className="flex items-start gap-2 rounded-md bg-muted/50 p-3 text-sm">
+                        <Mail className="h-4 w-4 mt-0.5 text-primary" />
+                        <p className="text-muted-foreground">
+                          You've been invited as <span className="font-medium text-foreground">{getRoleLabel(invitation.role)}</span>.
+                          This invitation expires {format(new Date(invitation.expires_at), 'PPp')}.
+                        </p>
+                      </div>
+                    ) : (
+                      <p className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">
+                        This invitation link is invalid, has expired or has already been used.
+                      </p>
+                    )
+                  )}
                   <div className="space-y-2">
                     <Label htmlFor="fullName">Full Name</Label>
                     <Input
@@ -157,6 +197,7 @@ const Auth = () => {
                       placeholder="you@example.com"
                       value={email}
                       onChange={(e) => setEmail(e.target.value)}
+                      readOnly={!!invitation}
                       required
                     />
                     {errors.email && <p className="text-sm text-destructive">{errors.email}</p>}
@@ -0,0 +1,286 @@
+import { useState } from 'react';
+import { useNavigate, Navigate } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { useAuth } from '@/hooks/useAuth';
+import { useAppSettings } from '@/hooks/useAppSettings';
+import { useChangeRequests, type ChangeRequestWithEmployee } from '@/hooks/useChangeRequests';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2, ArrowLeft, ClipboardCheck, Check, X } from 'lucide-react';
+import { Footer } from '@/components/Footer';
+import { FieldDiffView } from '@/components/FieldDiffView';
+import { getChangeRequestStatusLabel, getChangeRequestStatusVariant } from '@/lib/changeRequests';
+import logo from '@/assets/logo.jpg';
+
+interface Review {
+  request: ChangeRequestWithEmployee;
+  approve: boolean;
+}
+
+const ChangeRequests = () => {
+  const { user, loading, isAdmin } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { data: settings } = useAppSettings();
+  const { data: pending, isLoading: pendingLoading } = useChangeRequests('pending');
+  const { data: reviewed, isLoading: reviewedLoading } = useChangeRequests('reviewed');
+  const [review, setReview] = useState<Review | null>(null);
+  const [comment, setComment] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [isUpdatingSettings, setIsUpdatingSettings] = useState(false);
+
+  const toggleApproval = async (required: boolean) => {
+    setIsUpdatingSettings(true);
+    try {
+      const { error } = await supabase
+        .from('app_settings')
+        .update({ require_change_approval: required, updated_by: user?.id })
+        .eq('id', true);
+
+      if (error) throw error;
+      toast.success(required ? 'Edits by non-admins now need approval' : 'Edits by non-admins now apply immediately');
+      queryClient.invalidateQueries({ queryKey: ['app-settings'] });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'An error occurred');
+    } finally {
+      setIsUpdatingSettings(false);
+    }
+  };
+
+  const openReview = (request: ChangeRequestWithEmployee, approve: boolean) => {
+    setComment('');
+    setReview({ request, approve });
+  };
+
+  const handleReview = async () => {
+    if (!review) return;
+    const { request, approve } = review;
+    if (!approve && !comment.trim()) {
+      toast.error('Add a comment explaining the rejection');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase.rpc('review_change_request', {
+        _request_id: request.id,
+        _approve: approve,
+        _comment: comment.trim() || undefined,
+      });
+
+      if (error) throw error;
+      toast.success(approve ? 'Change request approved and applied' : 'Change request rejected');
+      queryClient.invalidateQueries({ queryKey: ['change-requests'] });
+      setReview(null);
+
+      if (!approve) {
+        // Let the requester know why
+        try {
+          await supabase.functions.invoke('send-change-request-notification', {
+            body: { requestId: request.id },
+          });
+        } catch (emailError) {
+          console.error('Failed to send notification:', emailError);
+        }
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'An error occurred');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  const renderRequest = (request: ChangeRequestWithEmployee) => (
+    <Card key={request.id}>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1">
+            <CardTitle className="text-lg">{request.employees?.name || 'Deleted employee'}</CardTitle>
+            <CardDescription>
+              Requested by {request.requested_by_name || 'Unknown'} • {format(new Date(request.created_at), 'PPp')}
+              {request.employees?.location && ` • ${request.employees.location}`}
+            </CardDescription>
+          </div>
+          {request.status === 'pending' && isAdmin ? (
+            <div className="flex gap-2">
+              <Button size="sm" onClick={() => openReview(request, true)}>
+                <Check className="h-4 w-4 mr-2" />
+                Approve
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => openReview(request, false)}>
+                <X className="h-4 w-4 mr-2" />
+                Reject
+              </Button>
+            </div>
+          ) : (
+            <Badge variant={getChangeRequestStatusVariant(request.status)}>
+              {getChangeRequestStatusLabel(request.status)}
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-2">
+          {Object.entries(request.changes).map(([field, change]) => (
+            <FieldDiffView key={field} field={field} oldValue={change.old} newValue={change.new} />
+          ))}
+        </div>
+        {request.reviewed_at && (
+          <div className="rounded-md bg-muted/50 p-3 text-sm">
+            <p className="text-muted-foreground">
+              {getChangeRequestStatusLabel(request.status)} by {request.reviewed_by_name || 'Unknown'} on{' '}
+              {format(new Date(request.reviewed_at), 'PPp')}
+            </p>
+            {request.review_comment && <p className="mt-1 text-foreground">{request.review_comment}</p>}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+
+  const renderList = (requests: ChangeRequestWithEmployee[] | undefined, isLoading: boolean, emptyText: string) =>
+    isLoading ? (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    ) : !requests || requests.length === 0 ? (
+      <Card>
+        <CardContent className="py-12 text-center">
+          <p className="text-muted-foreground">{emptyText}</p>
+        </CardContent>
+      </Card>
+    ) : (
+      <div className="space-y-4">{requests.map(renderRequest)}</div>
+    );
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <header className="border-b border-border bg-card animate-fade-in shadow-md">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <img src={logo} alt="Logo" className="h-10 w-auto object-contain" />
+              <div className="flex items-center gap-2">
+                <ClipboardCheck className="h-6 w-6 text-primary" />
+                <div>
+                  <h1 className="text-2xl font-bold text-foreground">Change Requests</h1>
+                  <p className="text-sm text-muted-foreground">
+                    {isAdmin ? 'Review edits made by non-admins' : 'Your edits waiting for review'}
+                  </p>
+                </div>
+              </div>
+            </div>
+            <Button onClick={() => navigate('/dashboard')} variant="outline" className="hover-scale">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Dashboard
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 animate-fade-in-up flex-1 space-y-6">
+        {isAdmin && (
+          <Card>
+            <CardContent className="py-4 flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="require-approval" className="text-base">Require approval</Label>
+                <p className="text-sm text-muted-foreground">
+                  Edits to employee records by non-admins wait here until an admin approves them
+                </p>
+              </div>
+              <Switch
+                id="require-approval"
+                checked={!!settings?.require_change_approval}
+                onCheckedChange={toggleApproval}
+                disabled={!settings || isUpdatingSettings}
+              />
+            </CardContent>
+          </Card>
+        )}
+
+        <Tabs defaultValue="pending">
+          <TabsList>
+            <TabsTrigger value="pending">
+              Pending
+              {!!pending?.length && <Badge variant="secondary" className="ml-2">{pending.length}</Badge>}
+            </TabsTrigger>
+            <TabsTrigger value="reviewed">Reviewed</TabsTrigger>
+          </TabsList>
+          <TabsContent value="pending" className="mt-4">
+            {renderList(pending, pendingLoading, 'No change requests waiting for review')}
+          </TabsContent>
+          <TabsContent value="reviewed" className="mt-4">
+            {renderList(reviewed, reviewedLoading, 'No reviewed change requests yet')}
+          </TabsContent>
+        </Tabs>
+      </main>
+
+      <Dialog open={!!review} onOpenChange={(open) => !open && !isSaving && setReview(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{review?.approve ? 'Approve' : 'Reject'} Change Request</DialogTitle>
+            <DialogDescription>
+              {review?.approve
+                ? `The changes will be applied to ${review.request.employees?.name || 'the employee'} and recorded in the activity log.`
+                : `${review?.request.requested_by_name || 'The requester'} will be emailed your comment.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="review-comment">Comment{review?.approve ? ' (optional)' : ''}</Label>
+            <Textarea
+              id="review-comment"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder={review?.approve ? 'Anything worth noting' : 'Why is this change being rejected?'}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReview(null)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleReview}
+              disabled={isSaving}
+              variant={review?.approve ? 'default' : 'destructive'}
+            >
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {review?.approve ? 'Approve' : 'Reject'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default ChangeRequests;
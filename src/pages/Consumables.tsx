@@ -0,0 +1,532 @@
+import { useState } from 'react';
+import { useNavigate, Navigate } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { useAuth } from '@/hooks/useAuth';
+import { useLocations } from '@/hooks/useLocations';
+import { useConsumables, useConsumableStock, useConsumableTransactions } from '@/hooks/useConsumables';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Loader2,
+  ArrowLeft,
+  Package,
+  Search,
+  Filter,
+  Plus,
+  Edit,
+  Trash2,
+  PackagePlus,
+  PackageMinus,
+  AlertTriangle,
+  History,
+} from 'lucide-react';
+import { Footer } from '@/components/Footer';
+import { ConsumableForm } from '@/components/ConsumableForm';
+import { ConsumableTransactionDialog } from '@/components/ConsumableTransactionDialog';
+import {
+  formatConsumable,
+  getConsumableKindLabel,
+  getTransactionTypeLabel,
+  type Consumable,
+} from '@/lib/consumables';
+import logo from '@/assets/logo.jpg';
+
+interface TransactionTarget {
+  transactionType: 'receive' | 'issue';
+  consumableId?: string;
+  locationId?: string;
+}
+
+const Consumables = () => {
+  const { user, loading, isAdmin } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [locationFilter, setLocationFilter] = useState('all');
+  const [lowOnly, setLowOnly] = useState(false);
+  const [transaction, setTransaction] = useState<TransactionTarget | null>(null);
+  const [editConsumable, setEditConsumable] = useState<Consumable | null>(null);
+  const [isAddOpen, setIsAddOpen] = useState(false);
+  const [deleteConsumable, setDeleteConsumable] = useState<Consumable | null>(null);
+
+  const { data: consumables, isLoading: isLoadingCatalog } = useConsumables();
+  const { data: stock, isLoading: isLoadingStock } = useConsumableStock();
+  const { data: transactions } = useConsumableTransactions();
+  const { data: locations } = useLocations();
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  const refreshCatalog = () => {
+    queryClient.invalidateQueries({ queryKey: ['consumables'] });
+    queryClient.invalidateQueries({ queryKey: ['consumable-stock'] });
+  };
+
+  const handleDelete = async () => {
+    if (!deleteConsumable) return;
+
+    const { error } = await supabase.from('consumables').delete().eq('id', deleteConsumable.id);
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+    toast.success('Consumable deleted');
+    setDeleteConsumable(null);
+    refreshCatalog();
+    queryClient.invalidateQueries({ queryKey: ['consumable-transactions'] });
+  };
+
+  const lowStock = stock?.filter(level => level.isLow) || [];
+
+  const term = searchTerm.toLowerCase();
+  const filteredStock = stock?.filter(level => {
+    if (lowOnly && !level.isLow) return false;
+    if (locationFilter !== 'all' && level.location !== locationFilter) return false;
+    if (!term) return true;
+    return (
+      level.consumable.name.toLowerCase().includes(term) ||
+      level.consumable.part_number?.toLowerCase().includes(term) ||
+      level.consumable.printer_models.some(m => m.toLowerCase().includes(term))
+    );
+  }) || [];
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <header className="border-b border-border bg-card animate-fade-in shadow-md">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <img src={logo} alt="Logo" className="h-10 w-auto object-contain" />
+              <div className="flex items-center gap-2">
+                <Package className="h-6 w-6 text-primary" />
+                <div>
+                  <h1 className="text-2xl font-bold text-foreground">Printer Consumables</h1>
+                  <p className="text-sm text-muted-foreground">Toner and supplies stock per location</p>
+                </div>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              {isAdmin && (
+                <>
+                  <Button onClick={() => setTransaction({ transactionType: 'receive' })} className="hover-scale">
+                    <PackagePlus className="h-4 w-4 mr-2" />
+                    Receive
+                  </Button>
+                  <Button
+                    onClick={() => setTransaction({ transactionType: 'issue' })}
+                    variant="secondary"
+                    className="hover-scale"
+                  >
+                    <PackageMinus className="h-4 w-4 mr-2" />
+                    Issue
+                  </Button>
+                </>
+              )}
+              <Button onClick={() => navigate('/dashboard')} variant="outline" className="hover-scale">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Dashboard
+              </Button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 animate-fade-in-up flex-1 space-y-4">
+        {lowStock.length > 0 && (
+          <Card className="border-destructive/50">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-destructive">
+                <AlertTriangle className="h-5 w-5" />
+                Low Stock
+                <Badge variant="destructive">{lowStock.length}</Badge>
+              </CardTitle>
+              <CardDescription>Below the level needed for the printers deployed at each location</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {lowStock.map(level => (
+                <div
+                  key={level.key}
+                  className="flex items-center justify-between gap-4 p-3 rounded-lg border border-border/50"
+                >
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{formatConsumable(level.consumable)}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {level.location} • {level.quantity} on hand, {level.minimum} needed for {level.deployedPrinters} printer{level.deployedPrinters === 1 ? '' : 's'}
+                    </p>
+                  </div>
+                  {isAdmin && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setTransaction({
+                        transactionType: 'receive',
+                        consumableId: level.consumable.id,
+                        locationId: level.locationId,
+                      })}
+                    >
+                      Receive
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <Filter className="h-5 w-5 text-primary" />
+              <CardTitle className="text-foreground">Stock Levels</CardTitle>
+            </div>
+            <CardDescription>Find consumables by name, part number or printer model</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-col md:flex-row gap-4 md:items-center">
+              <div className="flex-1 relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search consumables..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-9"
+                />
+              </div>
+              <Select value={locationFilter} onValueChange={setLocationFilter}>
+                <SelectTrigger className="w-full md:w-[180px]">
+                  <SelectValue placeholder="Location" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Locations</SelectItem>
+                  {locations?.map(loc => (
+                    <SelectItem key={loc.id} value={loc.name}>
+                      {loc.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex items-center gap-2">
+                <Switch id="low-only" checked={lowOnly} onCheckedChange={setLowOnly} />
+                <Label htmlFor="low-only" className="cursor-pointer">Low stock only</Label>
+              </div>
+            </div>
+
+            {isLoadingStock ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-primary" />
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Consumable</TableHead>
+                      <TableHead>Location</TableHead>
+                      <TableHead className="text-right">Printers Deployed</TableHead>
+                      <TableHead className="text-right">Minimum</TableHead>
+                      <TableHead className="text-right">On Hand</TableHead>
+                      <TableHead>Status</TableHead>
+                      {isAdmin && <TableHead className="text-right">Actions</TableHead>}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredStock.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={isAdmin ? 7 : 6} className="text-center py-8 text-muted-foreground">
+                          No stock found
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      filteredStock.map(level => (
+                        <TableRow key={level.key}>
+                          <TableCell className="font-medium">{formatConsumable(level.consumable)}</TableCell>
+                          <TableCell>{level.location}</TableCell>
+                          <TableCell className="text-right">{level.deployedPrinters}</TableCell>
+                          <TableCell className="text-right">{level.minimum}</TableCell>
+                          <TableCell className="text-right">{level.quantity}</TableCell>
+                          <TableCell>
+                            <Badge variant={level.isLow ? 'destructive' : 'secondary'}>
+                              {level.isLow ? 'Low' : 'OK'}
+                            </Badge>
+                          </TableCell>
+                          {isAdmin && (
+                            <TableCell className="text-right">
+                              <div className="flex justify-end gap-2">
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => setTransaction({
+                                    transactionType: 'receive',
+                                    consumableId: level.consumable.id,
+                                    locationId: level.locationId,
+                                  })}
+                                >
+                                  Receive
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  disabled={level.quantity === 0}
+                                  onClick={() => setTransaction({
+                                    transactionType: 'issue',
+                                    consumableId: level.consumable.id,
+                                    locationId: level.locationId,
+                                  })}
+                                >
+                                  Issue
+                                </Button>
+                              </div>
+                            </TableCell>
+                          )}
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle>Catalog</CardTitle>
+                <CardDescription>Which consumables each printer model takes</CardDescription>
+              </div>
+              {isAdmin && (
+                <Button onClick={() => setIsAddOpen(true)} variant="outline" className="hover-scale">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Consumable
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoadingCatalog ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-primary" />
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Part Number</TableHead>
+                      <TableHead>Kind</TableHead>
+                      <TableHead>Fits Models</TableHead>
+                      <TableHead className="text-right">Min per Printer</TableHead>
+                      {isAdmin && <TableHead className="text-right">Actions</TableHead>}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {consumables?.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={isAdmin ? 6 : 5} className="text-center py-8 text-muted-foreground">
+                          No consumables in the catalog
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      consumables?.map(consumable => (
+                        <TableRow key={consumable.id}>
+                          <TableCell className="font-medium">{consumable.name}</TableCell>
+                          <TableCell>{consumable.part_number || '-'}</TableCell>
+                          <TableCell>{getConsumableKindLabel(consumable.kind)}</TableCell>
+                          <TableCell>
+                            <div className="flex flex-wrap gap-1">
+                              {consumable.printer_models.length === 0
+                                ? '-'
+                                : consumable.printer_models.map(model => (
+                                  <Badge key={model} variant="outline">{model}</Badge>
+                                ))}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-right">{consumable.min_per_printer}</TableCell>
+                          {isAdmin && (
+                            <TableCell className="text-right">
+                              <div className="flex justify-end gap-2">
+                                <Button size="sm" variant="ghost" onClick={() => setEditConsumable(consumable)}>
+                                  <Edit className="h-4 w-4" />
+                                </Button>
+                                <Button size="sm" variant="ghost" onClick={() => setDeleteConsumable(consumable)}>
+                                  <Trash2 className="h-4 w-4 text-destructive" />
+                                </Button>
+                              </div>
+                            </TableCell>
+                          )}
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <History className="h-5 w-5 text-primary" />
+              <CardTitle>Recent Transactions</CardTitle>
+            </div>
+            <CardDescription>The last 100 receipts and issues</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {!transactions || transactions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No transactions yet</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Consumable</TableHead>
+                      <TableHead>Location</TableHead>
+                      <TableHead className="text-right">Qty</TableHead>
+                      <TableHead>Requested By</TableHead>
+                      <TableHead>Printer</TableHead>
+                      <TableHead>By</TableHead>
+                      <TableHead>Notes</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {transactions.map(t => (
+                      <TableRow key={t.id}>
+                        <TableCell>{format(new Date(t.created_at), 'PP p')}</TableCell>
+                        <TableCell>
+                          <Badge variant={t.transaction_type === 'issue' ? 'default' : 'secondary'}>
+                            {getTransactionTypeLabel(t.transaction_type)}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>{t.consumables ? formatConsumable(t.consumables) : '-'}</TableCell>
+                        <TableCell>{t.locations?.name || '-'}</TableCell>
+                        <TableCell className="text-right">{t.quantity}</TableCell>
+                        <TableCell>{t.employees?.name || '-'}</TableCell>
+                        <TableCell>{t.assets ? t.assets.model || t.assets.serial_number || 'Printer' : '-'}</TableCell>
+                        <TableCell>{t.performed_by_name || '-'}</TableCell>
+                        <TableCell className="max-w-[200px] truncate">{t.notes || '-'}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      {transaction && (
+        <ConsumableTransactionDialog
+          open={!!transaction}
+          onOpenChange={(open) => !open && setTransaction(null)}
+          transactionType={transaction.transactionType}
+          consumableId={transaction.consumableId}
+          locationId={transaction.locationId}
+        />
+      )}
+
+      <Dialog
+        open={isAddOpen || !!editConsumable}
+        onOpenChange={(open) => {
+          if (!open) {
+            setIsAddOpen(false);
+            setEditConsumable(null);
+          }
+        }}
+      >
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editConsumable ? 'Edit Consumable' : 'Add Consumable'}</DialogTitle>
+            <DialogDescription>List the printer models this item fits so low stock can be worked out</DialogDescription>
+          </DialogHeader>
+          <ConsumableForm
+            key={editConsumable?.id || 'new'}
+            consumable={editConsumable || undefined}
+            onSuccess={() => {
+              setIsAddOpen(false);
+              setEditConsumable(null);
+              refreshCatalog();
+            }}
+            onCancel={() => {
+              setIsAddOpen(false);
+              setEditConsumable(null);
+            }}
+          />
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleteConsumable} onOpenChange={(open) => !open && setDeleteConsumable(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleteConsumable?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its stock levels and transaction history will be removed as well.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-destructive">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default Consumables;
@@ -1,18 +1,30 @@
 import { useNavigate, Navigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { Button } from '@/components/ui/button';
-import { Loader2, LogOut, UserPlus, Database, Users, Shield, History, FileSpreadsheet, MapPin } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { useConsumableStock } from '@/hooks/useConsumables';
+import { useMyLocationScope } from '@/hooks/useUserRoles';
+import { usePendingChangeRequestCount } from '@/hooks/useChangeRequests';
+import { Loader2, LogOut, UserPlus, Database, Users, Shield, History, FileSpreadsheet, MapPin, HardDrive, Building2, Wrench, LifeBuoy, KeyRound, Package, Network, Copy, BookUser, ScanLine, UserMinus, Trash2, UserCog, ClipboardCheck } from 'lucide-react';
 import { EmployeeTable } from '@/components/EmployeeTable';
 import { Footer } from '@/components/Footer';
 import { StatsCards } from '@/components/StatsCards';
+import { WarrantyCards } from '@/components/WarrantyCards';
 import { PingChecker } from '@/components/PingChecker';
+import { PmDueList } from '@/components/PmDueList';
+import { OnboardingList } from '@/components/OnboardingList';
 import { ThemeToggle } from '@/components/ThemeToggle';
 import logo from '@/assets/logo.jpg';
 
 const Dashboard = () => {
   const { user, loading, signOut, isAdmin } = useAuth();
   const navigate = useNavigate();
-
+  const { data: consumableStock } = useConsumableStock();
+  const { data: locationScope } = useMyLocationScope();
+  const { data: pendingRequestCount } = usePendingChangeRequestCount(isAdmin);
+  // Viewers are read-only
+  const canAddEmployees = !locationScope || locationScope.editable.length > 0;
+  const lowStockCount = consumableStock?.filter(level => level.isLow).length || 0;
 
   if (loading) {
     return (
@@ -45,10 +57,12 @@ const Dashboard = () => {
               </div>
             </div>
             <div className="flex items-center gap-2">
-              <Button onClick={() => navigate('/add-employee')} variant="default" className="hover-scale">
-                <UserPlus className="h-4 w-4 mr-2" />
-                Add Employee
-              </Button>
+              {canAddEmployees && (
+                <Button onClick={() => navigate('/add-employee')} variant="default" className="hover-scale">
+                  <UserPlus className="h-4 w-4 mr-2" />
+                  Add Employee
+                </Button>
+              )}
               {isAdmin && (
                 <Button onClick={() => navigate('/import-data')} variant="secondary" className="hover-scale">
                   <FileSpreadsheet className="h-4 w-4 mr-2" />
@@ -61,10 +75,78 @@ const Dashboard = () => {
                   Locations
                 </Button>
               )}
+              {isAdmin && (
+                <Button onClick={() => navigate('/departments')} variant="outline" className="hover-scale">
+                  <Building2 className="h-4 w-4 mr-2" />
+                  Departments
+                </Button>
+              )}
+              <Button onClick={() => navigate('/scan')} variant="outline" className="hover-scale">
+                <ScanLine className="h-4 w-4 mr-2" />
+                Scan
+              </Button>
+              <Button onClick={() => navigate('/assets')} variant="outline" className="hover-scale">
+                <HardDrive className="h-4 w-4 mr-2" />
+                Assets
+              </Button>
+              <Button onClick={() => navigate('/licenses')} variant="outline" className="hover-scale">
+                <KeyRound className="h-4 w-4 mr-2" />
+                Licenses
+              </Button>
+              <Button onClick={() => navigate('/ip-addresses')} variant="outline" className="hover-scale">
+                <Network className="h-4 w-4 mr-2" />
+                IP Addresses
+              </Button>
+              <Button onClick={() => navigate('/duplicates')} variant="outline" className="hover-scale">
+                <Copy className="h-4 w-4 mr-2" />
+                Duplicates
+              </Button>
+              <Button onClick={() => navigate('/consumables')} variant="outline" className="hover-scale">
+                <Package className="h-4 w-4 mr-2" />
+                Consumables
+                {lowStockCount > 0 && (
+                  <Badge variant="destructive" className="ml-2">{lowStockCount} low</Badge>
+                )}
+              </Button>
+              <Button onClick={() => navigate('/maintenance')} variant="outline" className="hover-scale">
+                <Wrench className="h-4 w-4 mr-2" />
+                Maintenance
+              </Button>
+              <Button onClick={() => navigate('/directory')} variant="outline" className="hover-scale">
+                <BookUser className="h-4 w-4 mr-2" />
+                Directory
+              </Button>
+              <Button onClick={() => navigate('/offboarding')} variant="outline" className="hover-scale">
+                <UserMinus className="h-4 w-4 mr-2" />
+                Offboarding
+              </Button>
+              <Button onClick={() => navigate('/tickets')} variant="outline" className="hover-scale">
+                <LifeBuoy className="h-4 w-4 mr-2" />
+                Helpdesk
+              </Button>
+              <Button onClick={() => navigate('/change-requests')} variant="outline" className="hover-scale">
+                <ClipboardCheck className="h-4 w-4 mr-2" />
+                Change Requests
+                {!!pendingRequestCount && (
+                  <Badge variant="destructive" className="ml-2">{pendingRequestCount}</Badge>
+                )}
+              </Button>
               <Button onClick={() => navigate('/activity-log')} variant="outline" className="hover-scale">
                 <History className="h-4 w-4 mr-2" />
                 Activity Log
               </Button>
+              {isAdmin && (
+                <Button onClick={() => navigate('/recycle-bin')} variant="outline" className="hover-scale">
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Recycle Bin
+                </Button>
+              )}
+              {isAdmin && (
+                <Button onClick={() => navigate('/users')} variant="outline" className="hover-scale">
+                  <UserCog className="h-4 w-4 mr-2" />
+                  Users
+                </Button>
+              )}
               <ThemeToggle />
               <Button onClick={signOut} variant="ghost" className="hover-scale">
                 <LogOut className="h-4 w-4 mr-2" />
@@ -77,6 +159,12 @@ const Dashboard = () => {
 
       <main className="container mx-auto px-4 py-8 animate-fade-in-up flex-1">
         <StatsCards />
+
+        <WarrantyCards />
+
+        <OnboardingList />
+
+        <PmDueList />
         
         <div className="mb-8">
           <PingChecker />
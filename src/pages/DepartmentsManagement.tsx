@@ -0,0 +1,542 @@
+import { useState } from 'react';
+import { useNavigate, Navigate } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/useAuth';
+import { useLocations } from '@/hooks/useLocations';
+import { useDepartments, type Department, type Section } from '@/hooks/useDepartments';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Loader2, ArrowLeft, Building2, Search, Plus, Edit, Merge, Trash2 } from 'lucide-react';
+import { Footer } from '@/components/Footer';
+import logo from '@/assets/logo.jpg';
+
+const ALL_LOCATIONS = '__all__';
+
+type Kind = 'department' | 'section';
+
+interface EditState {
+  kind: Kind;
+  id?: string;
+  departmentId?: string;
+  name: string;
+  locationId: string;
+}
+
+interface MergeState {
+  kind: Kind;
+  id: string;
+  name: string;
+}
+
+interface DeleteState {
+  kind: Kind;
+  id: string;
+  name: string;
+  count: number;
+}
+
+const DepartmentsManagement = () => {
+  const { user, loading, isAdmin } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [editState, setEditState] = useState<EditState | null>(null);
+  const [mergeState, setMergeState] = useState<MergeState | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+  const [deleteState, setDeleteState] = useState<DeleteState | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { data: departments, isLoading } = useDepartments();
+  const { data: locations } = useLocations();
+
+  const { data: employees } = useQuery({
+    queryKey: ['department-usage'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('employees')
+        .select('department, section, location')
+        .is('deleted_at', null);
+
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  if (!isAdmin) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  const getLocationName = (locationId: string | null) =>
+    locations?.find(l => l.id === locationId)?.name;
+
+  // Employees using a department, within its location scope
+  const countDepartment = (department: Department, section?: Section) => {
+    const scope = getLocationName(department.location_id);
+    return employees?.filter(e =>
+      e.department === department.name &&
+      (!section || e.section === section.name) &&
+      (!department.location_id || e.location === scope)
+    ).length || 0;
+  };
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['departments'] });
+    queryClient.invalidateQueries({ queryKey: ['department-usage'] });
+    queryClient.invalidateQueries({ queryKey: ['employee-stats'] });
+  };
+
+  const runAction = async (action: () => Promise<{ error: Error | null }>, message: string) => {
+    setIsSubmitting(true);
+    try {
+      const { error } = await action();
+      if (error) throw error;
+      toast.success(message);
+      refresh();
+      return true;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'An error occurred');
+      return false;
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!editState) return;
+    const name = editState.name.trim().replace(/\s+/g, ' ');
+    if (!name) {
+      toast.error('Name is required');
+      return;
+    }
+
+    const locationId = editState.locationId === ALL_LOCATIONS ? null : editState.locationId;
+    let saved = false;
+
+    if (editState.kind === 'department') {
+      const existing = departments?.find(d => d.id === editState.id);
+      if (!existing) {
+        saved = await runAction(
+          async () => await supabase.from('departments').insert({ name, location_id: locationId, created_by: user.id }),
+          'Department added'
+        );
+      } else {
+        saved = true;
+        if (existing.location_id !== locationId) {
+          saved = await runAction(
+            async () => await supabase.from('departments').update({ location_id: locationId }).eq('id', existing.id),
+            'Department scope updated'
+          );
+        }
+        if (saved && existing.name !== name) {
+          saved = await runAction(
+            async () => await supabase.rpc('rename_department', { _department_id: existing.id, _name: name }),
+            `Renamed to ${name}`
+          );
+        }
+      }
+    } else if (!editState.id) {
+      saved = await runAction(
+        async () => await supabase.from('sections').insert({ name, department_id: editState.departmentId!, created_by: user.id }),
+        'Section added'
+      );
+    } else {
+      saved = await runAction(
+        async () => await supabase.rpc('rename_section', { _section_id: editState.id!, _name: name }),
+        `Renamed to ${name}`
+      );
+    }
+
+    if (saved) setEditState(null);
+  };
+
+  const handleMerge = async () => {
+    if (!mergeState || !mergeTargetId) return;
+
+    const merged = await runAction(
+      async () => mergeState.kind === 'department'
+        ? await supabase.rpc('merge_departments', { _source_id: mergeState.id, _target_id: mergeTargetId })
+        : await supabase.rpc('merge_sections', { _source_id: mergeState.id, _target_id: mergeTargetId }),
+      `Merged ${mergeState.name}`
+    );
+
+    if (merged) {
+      setMergeState(null);
+      setMergeTargetId('');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteState) return;
+
+    await runAction(
+      async () => await supabase
+        .from(deleteState.kind === 'department' ? 'departments' : 'sections')
+        .delete()
+        .eq('id', deleteState.id),
+      `Deleted ${deleteState.name}`
+    );
+    setDeleteState(null);
+  };
+
+  const term = searchTerm.toLowerCase();
+  const filteredDepartments = departments?.filter(d =>
+    d.name.toLowerCase().includes(term) ||
+    d.sections.some(s => s.name.toLowerCase().includes(term))
+  );
+
+  const mergeTargets = mergeState?.kind === 'department'
+    ? departments?.filter(d => d.id !== mergeState.id).map(d => ({
+        id: d.id,
+        label: `${d.name}${d.location_id ? ` (${getLocationName(d.location_id)})` : ''}`,
+      }))
+    : departments?.flatMap(d => d.sections
+        .filter(s => s.id !== mergeState?.id)
+        .map(s => ({ id: s.id, label: `${d.name} / ${s.name}` })));
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <header className="border-b border-border bg-card animate-fade-in shadow-md">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <img src={logo} alt="Logo" className="h-10 w-auto object-contain" />
+              <div className="flex items-center gap-2">
+                <Building2 className="h-6 w-6 text-primary" />
+                <div>
+                  <h1 className="text-2xl font-bold text-foreground">Departments & Sections</h1>
+                  <p className="text-sm text-muted-foreground">Manage the department and section tree</p>
+                </div>
+              </div>
+            </div>
+            <Button onClick={() => navigate('/dashboard')} variant="outline" className="hover-scale">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Dashboard
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 animate-fade-in-up flex-1">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="flex items-center gap-2">
+                <Building2 className="h-5 w-5" />
+                All Departments
+              </CardTitle>
+              <Button
+                onClick={() => setEditState({ kind: 'department', name: '', locationId: ALL_LOCATIONS })}
+                className="hover-scale"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Department
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="relative mb-4">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search departments or sections..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+
+            {isLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-primary" />
+              </div>
+            ) : filteredDepartments?.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                No departments found.
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                {filteredDepartments?.map(department => (
+                  <Card key={department.id} className="border-border/50">
+                    <CardContent className="p-4 space-y-3">
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="space-y-1">
+                          <p className="font-medium text-foreground">{department.name}</p>
+                          <div className="flex items-center gap-2">
+                            <Badge variant={department.location_id ? 'default' : 'secondary'}>
+                              {getLocationName(department.location_id) || 'All locations'}
+                            </Badge>
+                            <span className="text-xs text-muted-foreground">
+                              {countDepartment(department)} employees
+                            </span>
+                          </div>
+                        </div>
+                        <div className="flex gap-1">
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => setEditState({ kind: 'section', departmentId: department.id, name: '', locationId: ALL_LOCATIONS })}
+                          >
+                            <Plus className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => setEditState({
+                              kind: 'department',
+                              id: department.id,
+                              name: department.name,
+                              locationId: department.location_id || ALL_LOCATIONS,
+                            })}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => setMergeState({ kind: 'department', id: department.id, name: department.name })}
+                          >
+                            <Merge className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => setDeleteState({
+                              kind: 'department',
+                              id: department.id,
+                              name: department.name,
+                              count: countDepartment(department),
+                            })}
+                          >
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </div>
+                      </div>
+
+                      {department.sections.length === 0 ? (
+                        <p className="text-sm text-muted-foreground pl-3 border-l">No sections</p>
+                      ) : (
+                        <ul className="space-y-1 pl-3 border-l">
+                          {department.sections.map(section => (
+                            <li key={section.id} className="flex items-center justify-between text-sm">
+                              <span>
+                                {section.name}
+                                <span className="text-xs text-muted-foreground ml-2">
+                                  {countDepartment(department, section)}
+                                </span>
+                              </span>
+                              <div className="flex gap-1">
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  onClick={() => setEditState({
+                                    kind: 'section',
+                                    id: section.id,
+                                    departmentId: department.id,
+                                    name: section.name,
+                                    locationId: ALL_LOCATIONS,
+                                  })}
+                                >
+                                  <Edit className="h-3 w-3" />
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  onClick={() => setMergeState({ kind: 'section', id: section.id, name: section.name })}
+                                >
+                                  <Merge className="h-3 w-3" />
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  onClick={() => setDeleteState({
+                                    kind: 'section',
+                                    id: section.id,
+                                    name: section.name,
+                                    count: countDepartment(department, section),
+                                  })}
+                                >
+                                  <Trash2 className="h-3 w-3 text-destructive" />
+                                </Button>
+                              </div>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      {/* Add/Edit Dialog */}
+      <Dialog open={!!editState} onOpenChange={(open) => !open && setEditState(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {editState?.id ? 'Edit' : 'Add'} {editState?.kind === 'department' ? 'Department' : 'Section'}
+            </DialogTitle>
+            <DialogDescription>
+              {editState?.id
+                ? 'Renaming updates every employee record that uses it'
+                : editState?.kind === 'section'
+                  ? `Add a section to ${departments?.find(d => d.id === editState?.departmentId)?.name}`
+                  : 'Add a department for all locations or a single site'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="tree-name">Name</Label>
+              <Input
+                id="tree-name"
+                value={editState?.name || ''}
+                onChange={(e) => editState && setEditState({ ...editState, name: e.target.value })}
+              />
+            </div>
+            {editState?.kind === 'department' && (
+              <div className="space-y-2">
+                <Label>Location</Label>
+                <Select
+                  value={editState.locationId}
+                  onValueChange={(value) => setEditState({ ...editState, locationId: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_LOCATIONS}>All locations</SelectItem>
+                    {locations?.map(loc => (
+                      <SelectItem key={loc.id} value={loc.id}>
+                        {loc.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditState(null)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Merge Dialog */}
+      <Dialog open={!!mergeState} onOpenChange={(open) => !open && setMergeState(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Merge {mergeState?.name}</DialogTitle>
+            <DialogDescription>
+              {mergeState?.kind === 'department'
+                ? 'Moves its sections and employees to the selected department, then removes it.'
+                : 'Moves its employees to the selected section, then removes it.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>Merge into</Label>
+            <Select value={mergeTargetId} onValueChange={setMergeTargetId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select target" />
+              </SelectTrigger>
+              <SelectContent>
+                {mergeTargets?.map(target => (
+                  <SelectItem key={target.id} value={target.id}>
+                    {target.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMergeState(null)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button onClick={handleMerge} disabled={isSubmitting || !mergeTargetId}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Merge
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={!!deleteState} onOpenChange={() => setDeleteState(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleteState?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleteState && deleteState.count > 0
+                ? `${deleteState.count} employees still use it. Merge it into another ${deleteState.kind} instead.`
+                : deleteState?.kind === 'department'
+                  ? 'The department and all its sections will be removed.'
+                  : 'The section will be removed.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive"
+              disabled={!!deleteState && deleteState.count > 0}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default DepartmentsManagement;
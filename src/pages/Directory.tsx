@@ -0,0 +1,226 @@
+import { useState } from 'react';
+import { useNavigate, Navigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/useAuth';
+import { useLocations } from '@/hooks/useLocations';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Loader2, ArrowLeft, BookUser, Search, Phone, PhoneCall, Printer, MapPin } from 'lucide-react';
+import { Footer } from '@/components/Footer';
+import {
+  buildDirectoryPrintHtml,
+  getSipLink,
+  getTelLink,
+  groupByLocation,
+  matchesDirectorySearch,
+  type DirectoryEntry,
+} from '@/lib/directory';
+import { printHtml } from '@/lib/print';
+import logo from '@/assets/logo.jpg';
+
+const Directory = () => {
+  const { user, loading } = useAuth();
+  const navigate = useNavigate();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [locationFilter, setLocationFilter] = useState('all');
+  const { data: locations } = useLocations();
+
+  const { data: entries, isLoading } = useQuery({
+    queryKey: ['directory'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('employees')
+        .select('id, name, department, section, location, extension_number, email')
+        .not('extension_number', 'is', null)
+        .neq('extension_number', '')
+        .is('archived_at', null)
+        .is('deleted_at', null)
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return data as DirectoryEntry[];
+    },
+    enabled: !!user,
+  });
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  const term = searchTerm.trim().toLowerCase();
+  const filteredEntries = entries?.filter(entry =>
+    (locationFilter === 'all' || entry.location === locationFilter) && matchesDirectorySearch(entry, term)
+  ) || [];
+  const groups = groupByLocation(filteredEntries, locations?.map(l => l.name) || []);
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <header className="border-b border-border bg-card animate-fade-in shadow-md">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <img src={logo} alt="Logo" className="h-10 w-auto object-contain" />
+              <div className="flex items-center gap-2">
+                <BookUser className="h-6 w-6 text-primary" />
+                <div>
+                  <h1 className="text-2xl font-bold text-foreground">Phone Directory</h1>
+                  <p className="text-sm text-muted-foreground">Staff extensions by location</p>
+                </div>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button onClick={() => printHtml(buildDirectoryPrintHtml(groups))} variant="secondary" className="hover-scale" disabled={groups.length === 0}>
+                <Printer className="h-4 w-4 mr-2" />
+                Print / PDF
+              </Button>
+              <Button onClick={() => navigate('/dashboard')} variant="outline" className="hover-scale">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Dashboard
+              </Button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 animate-fade-in-up flex-1 space-y-4">
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex flex-col md:flex-row gap-4">
+              <div className="flex-1 relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search by name, department, section, location or extension..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-9"
+                />
+              </div>
+              <Select value={locationFilter} onValueChange={setLocationFilter}>
+                <SelectTrigger className="w-full md:w-[220px]">
+                  <SelectValue placeholder="Location" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Locations</SelectItem>
+                  {locations?.map(loc => (
+                    <SelectItem key={loc.id} value={loc.name}>
+                      {loc.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardContent>
+        </Card>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : groups.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <p className="text-muted-foreground">No extensions found</p>
+            </CardContent>
+          </Card>
+        ) : (
+          groups.map(group => (
+            <Card key={group.location}>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <MapPin className="h-5 w-5 text-primary" />
+                  {group.location}
+                  <Badge variant="secondary">{group.entries.length}</Badge>
+                </CardTitle>
+                <CardDescription>Click an extension to dial it</CardDescription>
+              </CardHeader>
+              <CardContent className="p-0">
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Name</TableHead>
+                        <TableHead>Department</TableHead>
+                        <TableHead>Section</TableHead>
+                        <TableHead>Extension</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {group.entries.map(entry => {
+                        const sipLink = getSipLink(entry.extension_number);
+                        return (
+                          <TableRow key={entry.id}>
+                            <TableCell className="font-medium">
+                              {entry.name || '-'}
+                              {entry.email && (
+                                <a href={`mailto:${entry.email}`} className="block text-xs text-muted-foreground hover:underline">
+                                  {entry.email}
+                                </a>
+                              )}
+                            </TableCell>
+                            <TableCell>{entry.department || '-'}</TableCell>
+                            <TableCell>{entry.section || '-'}</TableCell>
+                            <TableCell>
+                              <div className="flex items-center gap-3">
+                                <a
+                                  href={getTelLink(entry.extension_number)}
+                                  className="inline-flex items-center gap-1 font-mono font-semibold text-primary hover:underline"
+                                >
+                                  <Phone className="h-4 w-4" />
+                                  {entry.extension_number}
+                                </a>
+                                {sipLink && (
+                                  <a
+                                    href={sipLink}
+                                    className="inline-flex items-center gap-1 text-xs text-muted-foreground hover:underline"
+                                    title="Call with softphone"
+                                  >
+                                    <PhoneCall className="h-3 w-3" />
+                                    SIP
+                                  </a>
+                                )}
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default Directory;
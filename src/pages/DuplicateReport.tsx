@@ -0,0 +1,178 @@
+import { useState } from 'react';
+import { Link, useNavigate, Navigate } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { useDuplicateReport } from '@/hooks/useDuplicates';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Loader2, ArrowLeft, Copy, Filter } from 'lucide-react';
+import { Footer } from '@/components/Footer';
+import {
+  IDENTIFIER_FIELDS,
+  describeIdentifierRecord,
+  getIdentifierFieldLabel,
+  getIdentifierRecordPath,
+} from '@/lib/duplicates';
+import logo from '@/assets/logo.jpg';
+
+const DuplicateReport = () => {
+  const { user, loading } = useAuth();
+  const navigate = useNavigate();
+  const [fieldFilter, setFieldFilter] = useState('all');
+  const { data: groups, isLoading } = useDuplicateReport();
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  const filteredGroups = groups?.filter(g => fieldFilter === 'all' || g.field === fieldFilter) || [];
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <header className="border-b border-border bg-card animate-fade-in shadow-md">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <img src={logo} alt="Logo" className="h-10 w-auto object-contain" />
+              <div className="flex items-center gap-2">
+                <Copy className="h-6 w-6 text-primary" />
+                <div>
+                  <h1 className="text-2xl font-bold text-foreground">Duplicate Report</h1>
+                  <p className="text-sm text-muted-foreground">Identifiers recorded on more than one record</p>
+                </div>
+              </div>
+            </div>
+            <Button onClick={() => navigate('/dashboard')} variant="outline" className="hover-scale">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Dashboard
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 animate-fade-in-up flex-1 space-y-4">
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+          {IDENTIFIER_FIELDS.map(field => (
+            <Card
+              key={field.value}
+              className="cursor-pointer transition-all duration-200 hover:bg-accent/50"
+              onClick={() => setFieldFilter(fieldFilter === field.value ? 'all' : field.value)}
+            >
+              <CardContent className="p-4">
+                <p className="text-sm text-muted-foreground">{field.label}</p>
+                <p className="text-2xl font-bold">
+                  {groups?.filter(g => g.field === field.value).length || 0}
+                </p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Filter className="h-5 w-5 text-primary" />
+                <CardTitle className="text-foreground">Duplicates</CardTitle>
+              </div>
+              <Select value={fieldFilter} onValueChange={setFieldFilter}>
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Fields</SelectItem>
+                  {IDENTIFIER_FIELDS.map(field => (
+                    <SelectItem key={field.value} value={field.value}>
+                      {field.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <CardDescription>
+              Serial numbers are compared across computers and all devices, ignoring case
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-0">
+            {isLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-primary" />
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Field</TableHead>
+                      <TableHead>Value</TableHead>
+                      <TableHead>Recorded On</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredGroups.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={3} className="text-center py-8 text-muted-foreground">
+                          No duplicates found
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      filteredGroups.map(group => (
+                        <TableRow key={`${group.field}-${group.value}`}>
+                          <TableCell>
+                            <Badge variant="outline">{getIdentifierFieldLabel(group.field)}</Badge>
+                          </TableCell>
+                          <TableCell className="font-mono">{group.value}</TableCell>
+                          <TableCell>
+                            <ul className="space-y-1">
+                              {group.records.map(record => (
+                                <li key={record.assetId || `${record.employeeId}-${record.source}`}>
+                                  <Link
+                                    to={getIdentifierRecordPath(record)}
+                                    className="text-primary hover:underline"
+                                  >
+                                    {describeIdentifierRecord(record)}
+                                  </Link>
+                                </li>
+                              ))}
+                            </ul>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default DuplicateReport;
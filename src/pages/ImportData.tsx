@@ -1,12 +1,25 @@
 import { useEffect, useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
-import { ArrowLeft, Loader2, Upload, FileSpreadsheet, CheckCircle2, AlertCircle } from 'lucide-react';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ArrowLeft, Loader2, Upload, FileSpreadsheet, CheckCircle2, AlertCircle, Copy, ExternalLink } from 'lucide-react';
 import { Footer } from '@/components/Footer';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { useLocations, findLocation } from '@/hooks/useLocations';
+import { useDepartments, findDepartment, findSection } from '@/hooks/useDepartments';
+import { fetchIdentifierRecords } from '@/hooks/useDuplicates';
+import {
+  describeDuplicate,
+  findDuplicates,
+  getAssetIdentifiers,
+  getEmployeeIdentifiers,
+  getIdentifierRecordPath,
+  type DuplicateMatch,
+} from '@/lib/duplicates';
 import * as XLSX from 'xlsx';
 
 interface ImportRow {
@@ -33,13 +46,18 @@ const ImportData = () => {
   const { user, loading } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { data: locations } = useLocations();
+  const { data: departments } = useDepartments();
   const [importing, setImporting] = useState(false);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
   const [importStatus, setImportStatus] = useState<{
     total: number;
     success: number;
     failed: number;
+    skipped: number;
     errors: string[];
-  }>({ total: 0, success: 0, failed: 0, errors: [] });
+    duplicates: { row: number; matches: DuplicateMatch[] }[];
+  }>({ total: 0, success: 0, failed: 0, skipped: 0, errors: [], duplicates: [] });
 
   useEffect(() => {
     if (!loading && !user) {
@@ -109,7 +127,7 @@ const ImportData = () => {
     if (!file) return;
 
     setImporting(true);
-    setImportStatus({ total: 0, success: 0, failed: 0, errors: [] });
+    setImportStatus({ total: 0, success: 0, failed: 0, skipped: 0, errors: [], duplicates: [] });
 
     try {
       const data = await file.arrayBuffer();
@@ -120,9 +138,15 @@ const ImportData = () => {
       const total = jsonData.length;
       let success = 0;
       let failed = 0;
+      let skipped = 0;
       const errors: string[] = [];
+      const duplicates: { row: number; matches: DuplicateMatch[] }[] = [];
+
+      // Rows are checked against existing records and against rows imported earlier in the file
+      const identifiers = await fetchIdentifierRecords();
 
       for (const row of jsonData) {
+        const rowNumber = success + failed + skipped + 1;
         try {
           // Helper function to get value from various column name variations
           const getValue = (keys: string[]): string | null => {
@@ -151,8 +175,8 @@ const ImportData = () => {
           const email = getValue(['Email ID', 'Email', 'E-mail', 'email', 'Email Address']) || '';
 
           // Get department and section
-          const department = getValue(['Department', 'Dept', 'department']) || '';
-          const section = getValue(['Section', 'section', 'Unit']);
+          const departmentName = getValue(['Department', 'Dept', 'department']);
+          const sectionName = getValue(['Section', 'section', 'Unit']);
 
           // Find serial number columns dynamically
           const rowKeys = Object.keys(row);
@@ -164,25 +188,41 @@ const ImportData = () => {
           const printer_serial = serialNumberKeys[1] ? (row[serialNumberKeys[1]] || null) : null;
           const scanner_serial = serialNumberKeys[2] ? (row[serialNumberKeys[2]] || null) : null;
 
+          // Locations must match the registry, ignoring case and extra spaces
+          const locationName = getValue(['Location', 'location', 'Office', 'Branch']);
+          const location = locationName ? findLocation(locations || [], locationName) : null;
+          if (locationName && !location) {
+            failed++;
+            errors.push(`Row ${rowNumber}: Unknown location "${locationName}"`);
+            continue;
+          }
+
+          // Department and section must exist in the tree for the row's location
+          const department = departmentName ? findDepartment(departments || [], departmentName, location?.id) : null;
+          if (departmentName && !department) {
+            failed++;
+            errors.push(`Row ${rowNumber}: Unknown department "${departmentName}"${location ? ` at ${location.name}` : ''}`);
+            continue;
+          }
+
+          const section = sectionName && department ? findSection(department, sectionName) : null;
+          if (sectionName && !section) {
+            failed++;
+            errors.push(`Row ${rowNumber}: Unknown section "${sectionName}"${department ? ` in ${department.name}` : ' (no department given)'}`);
+            continue;
+          }
+
           // Build employee data - all fields are optional except required ones
           const employeeData = {
             name: name || username || 'Unknown',
             username: username || email?.split('@')[0] || 'unknown',
             email: email || '',
-            department: department || 'Unassigned',
-            section: section || null,
+            department: department?.name || null,
+            section: section?.name || null,
             computer_name: getValue(['computer name', 'Computer Name', 'PC Name', 'Computer']) || null,
             computer_serial: getValue(['Seriel Number', 'Serial Number', 'Computer Serial', 'PC Serial']) || null,
             ip_address: getValue(['IP Address', 'IP', 'ip address', 'IP Add']) || null,
             specs: getValue(['specification', 'Specification', 'Specs', 'System Specs', 'Computer Specs']) || null,
-            led_model: getValue(['LED', 'LCD', 'Monitor', 'LED Model', 'LCD Model']) || null,
-            led_serial: led_serial,
-            printer_model: getValue(['Pinter', 'Printer', 'Printer Model']) || null,
-            printer_serial: printer_serial,
-            scanner_model: getValue(['Scanner', 'Scanner Model']) || null,
-            scanner_serial: scanner_serial,
-            keyboard: getValue(['Keboard', 'Keyboard', 'KB']) || null,
-            mouse: getValue(['Mouse', 'mouse']) || null,
             internet_access: getValue(['Internet Access', 'Internet', 'Net Access']) 
               ? convertToBoolean(getValue(['Internet Access', 'Internet', 'Net Access']) || '') 
               : true,
@@ -191,25 +231,74 @@ const ImportData = () => {
               : null,
             last_pm: parseExcelDate(getValue(['Last PM', 'PM Date', 'Last Maintenance'])),
             extension_number: getValue(['Ext Number', 'Extension', 'Ext', 'Extension Number', 'Phone']) || null,
-            location: getValue(['Location', 'location', 'Office', 'Branch']) || null,
+            location: location?.name || null,
             created_by: user?.id,
           };
 
-          const { error } = await supabase.from('employees').insert(employeeData);
+          // Devices are stored as assets assigned to the new employee
+          const devices = [
+            { asset_type: 'monitor', model: getValue(['LED', 'LCD', 'Monitor', 'LED Model', 'LCD Model']), serial_number: led_serial },
+            { asset_type: 'printer', model: getValue(['Pinter', 'Printer', 'Printer Model']), serial_number: printer_serial },
+            { asset_type: 'scanner', model: getValue(['Scanner', 'Scanner Model']), serial_number: scanner_serial },
+            { asset_type: 'keyboard', model: getValue(['Keboard', 'Keyboard', 'KB']), serial_number: null },
+            { asset_type: 'mouse', model: getValue(['Mouse', 'mouse']), serial_number: null },
+          ].filter(d => d.model || d.serial_number);
+
+          const deviceIdentifiers = devices.flatMap(d =>
+            getAssetIdentifiers({ ...d, serial_number: d.serial_number ? String(d.serial_number) : null }, employeeData.name)
+          );
+          const matches = findDuplicates(identifiers, [...getEmployeeIdentifiers(employeeData), ...deviceIdentifiers]);
+          if (matches.length > 0) {
+            duplicates.push({ row: rowNumber, matches });
+            if (skipDuplicates) {
+              skipped++;
+              continue;
+            }
+          }
+
+          const { data: created, error } = await supabase
+            .from('employees')
+            .insert(employeeData)
+            .select('id')
+            .single();
 
           if (error) {
             failed++;
-            errors.push(`Row ${success + failed}: ${error.message}`);
-          } else {
-            success++;
+            errors.push(`Row ${rowNumber}: ${error.message}`);
+            continue;
           }
+
+          identifiers.push(
+            ...getEmployeeIdentifiers({ ...employeeData, id: created.id }),
+            ...deviceIdentifiers.map(d => ({ ...d, employeeId: created.id }))
+          );
+
+          if (devices.length > 0) {
+            const { error: assetsError } = await supabase.from('assets').insert(
+              devices.map(d => ({
+                ...d,
+                serial_number: d.serial_number ? String(d.serial_number) : null,
+                employee_id: created.id,
+                status: 'assigned',
+                created_by: user?.id,
+              }))
+            );
+
+            if (assetsError) {
+              failed++;
+              errors.push(`Row ${rowNumber}: employee imported but devices failed - ${assetsError.message}`);
+              continue;
+            }
+          }
+
+          success++;
         } catch (err) {
           failed++;
-          errors.push(`Row ${success + failed}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+          errors.push(`Row ${rowNumber}: ${err instanceof Error ? err.message : 'Unknown error'}`);
         }
       }
 
-      setImportStatus({ total, success, failed, errors });
+      setImportStatus({ total, success, failed, skipped, errors, duplicates });
 
       if (success > 0) {
         toast({
@@ -218,6 +307,15 @@ const ImportData = () => {
         });
       }
 
+      if (duplicates.length > 0) {
+        toast({
+          title: 'Possible Duplicates',
+          description: skipDuplicates
+            ? `${skipped} rows were skipped because they match existing records.`
+            : `${duplicates.length} imported rows match existing records.`,
+        });
+      }
+
       if (failed > 0) {
         toast({
           title: 'Import Warnings',
@@ -311,10 +409,23 @@ const ImportData = () => {
                 </label>
               </div>
 
+              <div className="flex items-center justify-center gap-2 mb-4">
+                <Switch
+                  id="skip-duplicates"
+                  checked={skipDuplicates}
+                  onCheckedChange={setSkipDuplicates}
+                  disabled={importing}
+                />
+                <Label htmlFor="skip-duplicates" className="cursor-pointer">
+                  Skip rows that match an existing IP, computer name or serial number
+                </Label>
+              </div>
+
               <div className="text-xs text-muted-foreground space-y-1">
                 <p><strong>Flexible Import:</strong> Empty/missing fields will be imported as blank values.</p>
                 <p>Supported columns: IP Address, Username, Email, Department, Section, Computer Name, Location, etc.</p>
                 <p>Column names are matched flexibly (e.g., "Email ID" or "Email" both work).</p>
+                <p>Locations, departments and sections must already exist in their registries.</p>
               </div>
             </div>
 
@@ -333,6 +444,12 @@ const ImportData = () => {
                     <span>Successful:</span>
                     <span className="font-semibold">{importStatus.success}</span>
                   </div>
+                  {importStatus.skipped > 0 && (
+                    <div className="flex justify-between text-muted-foreground">
+                      <span>Skipped (duplicates):</span>
+                      <span className="font-semibold">{importStatus.skipped}</span>
+                    </div>
+                  )}
                   {importStatus.failed > 0 && (
                     <div className="flex justify-between text-red-600">
                       <span>Failed:</span>
@@ -341,6 +458,33 @@ const ImportData = () => {
                   )}
                 </div>
 
+                {importStatus.duplicates.length > 0 && (
+                  <div className="mt-4">
+                    <h4 className="font-semibold mb-2 flex items-center gap-2">
+                      <Copy className="h-4 w-4" />
+                      Possible Duplicates:
+                    </h4>
+                    <div className="border rounded-md p-3 max-h-64 overflow-y-auto space-y-2">
+                      {importStatus.duplicates.flatMap(({ row, matches }) =>
+                        matches.map((match, index) => (
+                          <div key={`${row}-${index}`} className="flex items-center justify-between gap-2 text-xs">
+                            <span>Row {row}: {describeDuplicate(match)}</span>
+                            <Link
+                              to={getIdentifierRecordPath(match.existing)}
+                              target="_blank"
+                              rel="noreferrer"
+                              className="shrink-0 inline-flex items-center gap-1 text-primary hover:underline"
+                            >
+                              <ExternalLink className="h-3 w-3" />
+                              Open
+                            </Link>
+                          </div>
+                        ))
+                      )}
+                    </div>
+                  </div>
+                )}
+
                 {importStatus.errors.length > 0 && (
                   <div className="mt-4">
                     <h4 className="font-semibold mb-2 flex items-center gap-2 text-red-600">
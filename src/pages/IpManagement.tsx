@@ -0,0 +1,362 @@
+import { useState } from 'react';
+import { useNavigate, Navigate } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { useAuth } from '@/hooks/useAuth';
+import { useLocations } from '@/hooks/useLocations';
+import { useSubnets, useIpUsage } from '@/hooks/useSubnets';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Loader2, ArrowLeft, Network, Plus, Edit, Trash2, AlertTriangle, ChevronDown, ChevronUp } from 'lucide-react';
+import { Footer } from '@/components/Footer';
+import { SubnetForm } from '@/components/SubnetForm';
+import {
+  findSubnet,
+  formatCidr,
+  getReservedReason,
+  getStaticCapacity,
+  ipToNumber,
+  isInSubnet,
+  isValidIPv4,
+  suggestNextFreeIp,
+  type Subnet,
+} from '@/lib/ipam';
+import logo from '@/assets/logo.jpg';
+
+interface IpConflict {
+  key: string;
+  ip: string;
+  employees: string[];
+  problem: string;
+}
+
+const IpManagement = () => {
+  const { user, loading, isAdmin } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [locationFilter, setLocationFilter] = useState('all');
+  const [isAddOpen, setIsAddOpen] = useState(false);
+  const [editSubnet, setEditSubnet] = useState<Subnet | null>(null);
+  const [deleteSubnet, setDeleteSubnet] = useState<Subnet | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const { data: subnets, isLoading } = useSubnets();
+  const { data: usage } = useIpUsage();
+  const { data: locations } = useLocations();
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  const addresses = (usage || []).map(u => ({ ...u, ip: u.ip_address!.trim() }));
+  const locationIds = new Map(locations?.map(l => [l.name, l.id]));
+  const locationNames = new Map(locations?.map(l => [l.id, l.name]));
+
+  // Every address that is shared, malformed, or not usable where the employee sits
+  const conflicts: IpConflict[] = [];
+  const byIp = new Map<string, typeof addresses>();
+  addresses.forEach(a => byIp.set(a.ip, [...(byIp.get(a.ip) || []), a]));
+  byIp.forEach((holders, ip) => {
+    if (holders.length > 1) {
+      conflicts.push({ key: `dup-${ip}`, ip, employees: holders.map(h => h.name), problem: 'Duplicate address' });
+    }
+  });
+  addresses.forEach(a => {
+    if (!isValidIPv4(a.ip)) {
+      conflicts.push({ key: `invalid-${a.id}`, ip: a.ip, employees: [a.name], problem: 'Not a valid IPv4 address' });
+      return;
+    }
+    const locationSubnets = subnets?.filter(s => s.location_id === locationIds.get(a.location || '')) || [];
+    if (locationSubnets.length === 0) return;
+    const subnet = findSubnet(locationSubnets, a.ip);
+    const problem = subnet
+      ? getReservedReason(a.ip, subnet)
+      : `outside the subnets of ${a.location}`;
+    if (problem) {
+      conflicts.push({ key: `range-${a.id}`, ip: a.ip, employees: [a.name], problem: `Address ${problem}` });
+    }
+  });
+
+  const filteredSubnets = subnets?.filter(s =>
+    locationFilter === 'all' || locationNames.get(s.location_id) === locationFilter
+  ) || [];
+  const filteredConflicts = conflicts.filter(c =>
+    locationFilter === 'all' ||
+    addresses.some(a => a.ip === c.ip && c.employees.includes(a.name) && a.location === locationFilter)
+  );
+
+  const closeForm = () => {
+    setIsAddOpen(false);
+    setEditSubnet(null);
+  };
+
+  const handleDelete = async () => {
+    if (!deleteSubnet) return;
+
+    const { error } = await supabase.from('subnets').delete().eq('id', deleteSubnet.id);
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+    toast.success('Subnet deleted');
+    setDeleteSubnet(null);
+    queryClient.invalidateQueries({ queryKey: ['subnets'] });
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <header className="border-b border-border bg-card animate-fade-in shadow-md">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <img src={logo} alt="Logo" className="h-10 w-auto object-contain" />
+              <div className="flex items-center gap-2">
+                <Network className="h-6 w-6 text-primary" />
+                <div>
+                  <h1 className="text-2xl font-bold text-foreground">IP Addresses</h1>
+                  <p className="text-sm text-muted-foreground">Subnets, utilisation and conflicts</p>
+                </div>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              {isAdmin && (
+                <Button onClick={() => setIsAddOpen(true)} className="hover-scale">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Subnet
+                </Button>
+              )}
+              <Button onClick={() => navigate('/dashboard')} variant="outline" className="hover-scale">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Dashboard
+              </Button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 animate-fade-in-up flex-1 space-y-4">
+        <div className="flex justify-end">
+          <Select value={locationFilter} onValueChange={setLocationFilter}>
+            <SelectTrigger className="w-full md:w-[220px]">
+              <SelectValue placeholder="Location" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Locations</SelectItem>
+              {locations?.map(loc => (
+                <SelectItem key={loc.id} value={loc.name}>
+                  {loc.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {filteredConflicts.length > 0 && (
+          <Card className="border-destructive/50">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-destructive">
+                <AlertTriangle className="h-5 w-5" />
+                Conflicts
+                <Badge variant="destructive">{filteredConflicts.length}</Badge>
+              </CardTitle>
+              <CardDescription>Shared, malformed or out-of-range addresses on employee records</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {filteredConflicts.map(conflict => (
+                <div
+                  key={conflict.key}
+                  className="flex items-center justify-between gap-4 p-3 rounded-lg border border-border/50"
+                >
+                  <div className="min-w-0">
+                    <p className="font-mono font-medium">{conflict.ip}</p>
+                    <p className="text-sm text-muted-foreground truncate">{conflict.employees.join(', ')}</p>
+                  </div>
+                  <Badge variant="outline" className="shrink-0">{conflict.problem}</Badge>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : filteredSubnets.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <p className="text-muted-foreground">No subnets defined</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-4 lg:grid-cols-2">
+            {filteredSubnets.map(subnet => {
+              const assigned = addresses
+                .filter(a => isValidIPv4(a.ip) && isInSubnet(a.ip, subnet))
+                .sort((a, b) => ipToNumber(a.ip) - ipToNumber(b.ip));
+              const staticUsed = assigned.filter(a => !getReservedReason(a.ip, subnet)).length;
+              const capacity = getStaticCapacity(subnet);
+              const nextFree = suggestNextFreeIp([subnet], addresses.map(a => a.ip));
+              const isExpanded = expanded === subnet.id;
+
+              return (
+                <Card key={subnet.id}>
+                  <CardHeader>
+                    <div className="flex items-start justify-between gap-2">
+                      <div>
+                        <CardTitle className="font-mono">{formatCidr(subnet)}</CardTitle>
+                        <CardDescription>
+                          {[locationNames.get(subnet.location_id), subnet.name, subnet.vlan && `VLAN ${subnet.vlan}`]
+                            .filter(Boolean)
+                            .join(' • ')}
+                        </CardDescription>
+                      </div>
+                      {isAdmin && (
+                        <div className="flex gap-1">
+                          <Button size="sm" variant="ghost" onClick={() => setEditSubnet(subnet)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button size="sm" variant="ghost" onClick={() => setDeleteSubnet(subnet)}>
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="grid grid-cols-2 gap-4 text-sm">
+                      <div>
+                        <p className="font-medium text-muted-foreground">Gateway</p>
+                        <p className="font-mono">{subnet.gateway || '-'}</p>
+                      </div>
+                      <div>
+                        <p className="font-medium text-muted-foreground">DHCP Pool</p>
+                        <p className="font-mono">
+                          {subnet.dhcp_start && subnet.dhcp_end ? `${subnet.dhcp_start} – ${subnet.dhcp_end}` : '-'}
+                        </p>
+                      </div>
+                      <div>
+                        <p className="font-medium text-muted-foreground">Next Free Static</p>
+                        <p className="font-mono">{nextFree || 'Subnet full'}</p>
+                      </div>
+                    </div>
+                    <div className="space-y-1">
+                      <div className="flex justify-between text-sm">
+                        <span>Static addresses used</span>
+                        <span>{staticUsed} / {capacity}</span>
+                      </div>
+                      <Progress value={capacity > 0 ? (staticUsed / capacity) * 100 : 100} />
+                    </div>
+                    {assigned.length > 0 && (
+                      <div>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="px-0"
+                          onClick={() => setExpanded(isExpanded ? null : subnet.id)}
+                        >
+                          {isExpanded ? <ChevronUp className="h-4 w-4 mr-1" /> : <ChevronDown className="h-4 w-4 mr-1" />}
+                          {assigned.length} recorded address{assigned.length === 1 ? '' : 'es'}
+                        </Button>
+                        {isExpanded && (
+                          <ul className="mt-2 space-y-1 text-sm">
+                            {assigned.map(a => {
+                              const reserved = getReservedReason(a.ip, subnet);
+                              return (
+                                <li key={a.id} className="flex items-center justify-between gap-2">
+                                  <span className="font-mono">{a.ip}</span>
+                                  <span className="truncate text-muted-foreground">
+                                    {a.name}{a.computer_name ? ` (${a.computer_name})` : ''}
+                                  </span>
+                                  {reserved && <Badge variant="destructive" className="shrink-0">{reserved}</Badge>}
+                                </li>
+                              );
+                            })}
+                          </ul>
+                        )}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </main>
+
+      <Dialog open={isAddOpen || !!editSubnet} onOpenChange={(open) => !open && closeForm()}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editSubnet ? 'Edit Subnet' : 'Add Subnet'}</DialogTitle>
+            <DialogDescription>Static addresses are handed out from outside the DHCP pool</DialogDescription>
+          </DialogHeader>
+          <SubnetForm
+            key={editSubnet?.id || 'new'}
+            subnet={editSubnet || undefined}
+            onSuccess={() => {
+              closeForm();
+              queryClient.invalidateQueries({ queryKey: ['subnets'] });
+            }}
+            onCancel={closeForm}
+          />
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleteSubnet} onOpenChange={(open) => !open && setDeleteSubnet(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleteSubnet && formatCidr(deleteSubnet)}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Addresses on employee records are kept, but will no longer be checked against this subnet.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-destructive">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default IpManagement;
@@ -0,0 +1,357 @@
+import { useState } from 'react';
+import { useNavigate, useParams, Navigate } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Loader2, ArrowLeft, KeyRound, Edit, Trash2, UserPlus, X } from 'lucide-react';
+import { Footer } from '@/components/Footer';
+import { EmployeePicker } from '@/components/EmployeePicker';
+import { LicenseForm } from '@/components/LicenseForm';
+import {
+  LICENSE_EXPIRY_LABELS,
+  formatLicenseKeyHint,
+  getLicenseExpiryStatus,
+  getLicenseModelLabel,
+} from '@/lib/licenses';
+
+const LicenseDetails = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user, loading, isAdmin } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const [isAssignOpen, setIsAssignOpen] = useState(false);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+  const [assignTo, setAssignTo] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { data: license, isLoading } = useQuery({
+    queryKey: ['license', id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('software_licenses')
+        .select('*, license_seats(*, employees(name, location, department)), software_license_keys(license_key)')
+        .eq('id', id!)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user && !!id,
+  });
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  const seats = [...(license?.license_seats || [])].sort((a, b) =>
+    (a.employees?.name || '').localeCompare(b.employees?.name || '')
+  );
+  const isFull = !!license && seats.length >= license.seats_purchased;
+  const expiryStatus = getLicenseExpiryStatus(license?.expiry_date || null);
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['license', id] });
+    queryClient.invalidateQueries({ queryKey: ['licenses'] });
+  };
+
+  const handleAssign = async () => {
+    if (!assignTo) {
+      toast.error('Select an employee');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const { error } = await supabase.from('license_seats').insert({
+        license_id: id!,
+        employee_id: assignTo,
+        assigned_by: user.id,
+      });
+
+      if (error) {
+        throw error.code === '23505' ? new Error('This employee already has a seat') : error;
+      }
+      toast.success('Seat assigned');
+      setIsAssignOpen(false);
+      setAssignTo(null);
+      refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'An error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRevoke = async (seatId: string) => {
+    const { error } = await supabase.from('license_seats').delete().eq('id', seatId);
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+    toast.success('Seat released');
+    refresh();
+  };
+
+  const handleDelete = async () => {
+    const { error } = await supabase.from('software_licenses').delete().eq('id', id!);
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+    toast.success('License deleted');
+    queryClient.invalidateQueries({ queryKey: ['licenses'] });
+    navigate('/licenses');
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <header className="border-b border-border bg-card animate-fade-in shadow-md">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Button onClick={() => navigate('/licenses')} variant="ghost" size="icon" className="hover-scale">
+                <ArrowLeft className="h-5 w-5" />
+              </Button>
+              <div className="flex items-center gap-2">
+                <KeyRound className="h-6 w-6 text-primary" />
+                <div>
+                  <h1 className="text-2xl font-bold text-foreground">{license?.software_name || 'License'}</h1>
+                  <p className="text-sm text-muted-foreground">{license?.vendor || 'Software license'}</p>
+                </div>
+              </div>
+            </div>
+            {isAdmin && license && (
+              <div className="flex gap-2">
+                <Button onClick={() => setIsEditOpen(true)} variant="outline" className="hover-scale">
+                  <Edit className="h-4 w-4 mr-2" />
+                  Edit
+                </Button>
+                <Button onClick={() => setIsDeleteOpen(true)} variant="outline" className="hover-scale">
+                  <Trash2 className="h-4 w-4 mr-2 text-destructive" />
+                  Delete
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 animate-fade-in-up flex-1">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : !license ? (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <p className="text-muted-foreground">License not found</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-6 lg:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle>License</CardTitle>
+                  {expiryStatus && (
+                    <Badge variant={expiryStatus === 'expired' ? 'destructive' : expiryStatus === 'expiring' ? 'default' : 'secondary'}>
+                      {LICENSE_EXPIRY_LABELS[expiryStatus]}
+                    </Badge>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent className="grid grid-cols-2 gap-4">
+                <div className="col-span-2">
+                  <p className="text-sm font-medium text-muted-foreground">License Key</p>
+                  <p className="font-mono break-all">
+                    {license.software_license_keys?.license_key
+                      ?? (license.license_key_hint !== null ? formatLicenseKeyHint(license.license_key_hint) : '-')}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-muted-foreground">Model</p>
+                  <p className="font-medium">{getLicenseModelLabel(license.license_model)}</p>
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-muted-foreground">Vendor</p>
+                  <p className="font-medium">{license.vendor || '-'}</p>
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-muted-foreground">Purchase Date</p>
+                  <p className="font-medium">
+                    {license.purchase_date ? format(new Date(license.purchase_date), 'PP') : '-'}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-muted-foreground">Expiry Date</p>
+                  <p className="font-medium">
+                    {license.expiry_date ? format(new Date(license.expiry_date), 'PP') : 'Perpetual'}
+                  </p>
+                </div>
+                <div className="col-span-2">
+                  <p className="text-sm font-medium text-muted-foreground">Notes</p>
+                  <p className="whitespace-pre-wrap">{license.notes || '-'}</p>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <CardTitle>Seats</CardTitle>
+                    <CardDescription>
+                      {seats.length} of {license.seats_purchased} in use
+                    </CardDescription>
+                  </div>
+                  {isAdmin && (
+                    <Button onClick={() => setIsAssignOpen(true)} disabled={isFull} className="hover-scale">
+                      <UserPlus className="h-4 w-4 mr-2" />
+                      Assign Seat
+                    </Button>
+                  )}
+                </div>
+                <Progress value={license.seats_purchased ? (seats.length / license.seats_purchased) * 100 : 100} />
+              </CardHeader>
+              <CardContent>
+                {seats.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No seats assigned</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {seats.map(seat => (
+                      <li
+                        key={seat.id}
+                        className="flex items-center justify-between gap-2 p-3 rounded-lg border border-border/50"
+                      >
+                        <div>
+                          <p className="font-medium">{seat.employees?.name || '-'}</p>
+                          <p className="text-sm text-muted-foreground">
+                            {[
+                              seat.computer_name || seat.computer_serial,
+                              seat.employees?.location,
+                              `since ${format(new Date(seat.assigned_at), 'PP')}`,
+                            ].filter(Boolean).join(' • ')}
+                          </p>
+                        </div>
+                        {isAdmin && (
+                          <Button size="sm" variant="ghost" onClick={() => handleRevoke(seat.id)}>
+                            <X className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </main>
+
+      {/* Edit Dialog */}
+      <Dialog open={isEditOpen} onOpenChange={setIsEditOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Edit License</DialogTitle>
+            <DialogDescription>Update license details</DialogDescription>
+          </DialogHeader>
+          {license && (
+            <LicenseForm
+              license={license}
+              licenseKey={license.software_license_keys?.license_key}
+              seatsUsed={seats.length}
+              onSuccess={() => {
+                setIsEditOpen(false);
+                refresh();
+              }}
+              onCancel={() => setIsEditOpen(false)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Assign Dialog */}
+      <Dialog open={isAssignOpen} onOpenChange={(open) => !open && setIsAssignOpen(false)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Assign Seat</DialogTitle>
+            <DialogDescription>
+              {license?.license_model === 'per_device'
+                ? 'The seat is tied to the computer recorded for this employee'
+                : 'The seat is tied to this employee'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>Employee</Label>
+            <EmployeePicker value={assignTo} onChange={setAssignTo} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsAssignOpen(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button onClick={handleAssign} disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Assign
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={isDeleteOpen} onOpenChange={setIsDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {license?.software_name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The license and its {seats.length} seat assignments will be removed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-destructive">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default LicenseDetails;
@@ -0,0 +1,279 @@
+import { useState } from 'react';
+import { useNavigate, Navigate } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2, ArrowLeft, KeyRound, Search, Filter, Plus, Users, CalendarClock, AlertTriangle } from 'lucide-react';
+import { Footer } from '@/components/Footer';
+import { LicenseForm } from '@/components/LicenseForm';
+import {
+  LICENSE_EXPIRY_LABELS,
+  LICENSE_EXPIRY_WARNING_DAYS,
+  getLicenseExpiryStatus,
+  getLicenseModelLabel,
+} from '@/lib/licenses';
+import logo from '@/assets/logo.jpg';
+
+const Licenses = () => {
+  const { user, loading, isAdmin } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [reportFilter, setReportFilter] = useState('all');
+  const [isAddOpen, setIsAddOpen] = useState(false);
+
+  const { data: licenses, isLoading } = useQuery({
+    queryKey: ['licenses'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('software_licenses')
+        .select('*, license_seats(id)')
+        .order('software_name', { ascending: true });
+
+      if (error) throw error;
+
+      return data.map(({ license_seats, ...license }) => ({
+        ...license,
+        seatsUsed: license_seats.length,
+        expiryStatus: getLicenseExpiryStatus(license.expiry_date),
+      }));
+    },
+    enabled: !!user,
+  });
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  const seatsUsed = licenses?.reduce((sum, l) => sum + l.seatsUsed, 0) || 0;
+  const seatsPurchased = licenses?.reduce((sum, l) => sum + l.seats_purchased, 0) || 0;
+  const expiringCount = licenses?.filter(l => l.expiryStatus === 'expiring').length || 0;
+  const expiredCount = licenses?.filter(l => l.expiryStatus === 'expired').length || 0;
+
+  const term = searchTerm.toLowerCase();
+  const filteredLicenses = licenses?.filter(license => {
+    if (reportFilter === 'expiring' && license.expiryStatus !== 'expiring') return false;
+    if (reportFilter === 'expired' && license.expiryStatus !== 'expired') return false;
+    if (reportFilter === 'full' && license.seatsUsed < license.seats_purchased) return false;
+    if (reportFilter === 'available' && license.seatsUsed >= license.seats_purchased) return false;
+    if (!term) return true;
+    return (
+      license.software_name.toLowerCase().includes(term) ||
+      license.vendor?.toLowerCase().includes(term)
+    );
+  });
+
+  const summaryCards = [
+    { title: 'Software Titles', value: licenses?.length || 0, icon: KeyRound },
+    { title: 'Seats Used', value: `${seatsUsed} / ${seatsPurchased}`, icon: Users },
+    { title: `Expiring in ${LICENSE_EXPIRY_WARNING_DAYS} Days`, value: expiringCount, icon: CalendarClock },
+    { title: 'Expired', value: expiredCount, icon: AlertTriangle },
+  ];
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <header className="border-b border-border bg-card animate-fade-in shadow-md">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <img src={logo} alt="Logo" className="h-10 w-auto object-contain" />
+              <div className="flex items-center gap-2">
+                <KeyRound className="h-6 w-6 text-primary" />
+                <div>
+                  <h1 className="text-2xl font-bold text-foreground">Software Licenses</h1>
+                  <p className="text-sm text-muted-foreground">License inventory and seat assignment</p>
+                </div>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              {isAdmin && (
+                <Button onClick={() => setIsAddOpen(true)} className="hover-scale">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add License
+                </Button>
+              )}
+              <Button onClick={() => navigate('/dashboard')} variant="outline" className="hover-scale">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Dashboard
+              </Button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 animate-fade-in-up flex-1 space-y-4">
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+          {summaryCards.map(card => (
+            <Card key={card.title}>
+              <CardContent className="p-4 flex items-center justify-between">
+                <div>
+                  <p className="text-sm text-muted-foreground">{card.title}</p>
+                  <p className="text-2xl font-bold">{card.value}</p>
+                </div>
+                <card.icon className="h-8 w-8 text-primary" />
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <Filter className="h-5 w-5 text-primary" />
+              <CardTitle className="text-foreground">Search & Reports</CardTitle>
+            </div>
+            <CardDescription>Find licenses by software or vendor</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-col md:flex-row gap-4">
+              <div className="flex-1 relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search by software or vendor..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-9"
+                />
+              </div>
+              <Select value={reportFilter} onValueChange={setReportFilter}>
+                <SelectTrigger className="w-full md:w-[220px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Licenses</SelectItem>
+                  <SelectItem value="expiring">Expiring in {LICENSE_EXPIRY_WARNING_DAYS} days</SelectItem>
+                  <SelectItem value="expired">Expired</SelectItem>
+                  <SelectItem value="full">All seats used</SelectItem>
+                  <SelectItem value="available">Seats available</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="p-0">
+            {isLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-primary" />
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Software</TableHead>
+                      <TableHead>Vendor</TableHead>
+                      <TableHead>Model</TableHead>
+                      <TableHead className="w-[200px]">Seats Used / Purchased</TableHead>
+                      <TableHead>Expiry</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredLicenses?.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                          No licenses found
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      filteredLicenses?.map(license => (
+                        <TableRow
+                          key={license.id}
+                          className="cursor-pointer transition-all duration-200 hover:bg-accent/50"
+                          onClick={() => navigate(`/licenses/${license.id}`)}
+                        >
+                          <TableCell className="font-medium">{license.software_name}</TableCell>
+                          <TableCell>{license.vendor || '-'}</TableCell>
+                          <TableCell>{getLicenseModelLabel(license.license_model)}</TableCell>
+                          <TableCell>
+                            <div className="space-y-1">
+                              <p className="text-sm">{license.seatsUsed} / {license.seats_purchased}</p>
+                              <Progress
+                                value={license.seats_purchased ? (license.seatsUsed / license.seats_purchased) * 100 : 100}
+                              />
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            {license.expiry_date ? (
+                              <div className="flex items-center gap-2">
+                                {format(new Date(license.expiry_date), 'PP')}
+                                {license.expiryStatus && license.expiryStatus !== 'ok' && (
+                                  <Badge variant={license.expiryStatus === 'expired' ? 'destructive' : 'default'}>
+                                    {LICENSE_EXPIRY_LABELS[license.expiryStatus]}
+                                  </Badge>
+                                )}
+                              </div>
+                            ) : (
+                              'Perpetual'
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <Dialog open={isAddOpen} onOpenChange={setIsAddOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Add License</DialogTitle>
+            <DialogDescription>Record a software title and the seats purchased</DialogDescription>
+          </DialogHeader>
+          <LicenseForm
+            onSuccess={() => {
+              setIsAddOpen(false);
+              queryClient.invalidateQueries({ queryKey: ['licenses'] });
+            }}
+            onCancel={() => setIsAddOpen(false)}
+          />
+        </DialogContent>
+      </Dialog>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default Licenses;
@@ -1,57 +1,151 @@
 import { useState } from 'react';
 import { useNavigate, Navigate } from 'react-router-dom';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '@/hooks/useAuth';
+import { useLocations, type Location } from '@/hooks/useLocations';
+import { useSubnets } from '@/hooks/useSubnets';
 import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import { 
   Loader2, 
   ArrowLeft, 
   MapPin, 
   Users, 
   Search,
-  Building2
+  Building2,
+  Plus,
+  Edit,
+  Merge,
+  Trash2,
+  Phone,
+  User,
+  Network
 } from 'lucide-react';
 import { Footer } from '@/components/Footer';
+import { LocationForm } from '@/components/LocationForm';
+import { formatCidr } from '@/lib/ipam';
 import logo from '@/assets/logo.jpg';
 
-interface LocationData {
-  location: string | null;
-  count: number;
-}
-
 const LocationsManagement = () => {
   const { user, loading, isAdmin } = useAuth();
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
   const [searchTerm, setSearchTerm] = useState('');
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editLocation, setEditLocation] = useState<Location | undefined>(undefined);
+  const [mergeSource, setMergeSource] = useState<Location | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+  const [deleteLocation, setDeleteLocation] = useState<Location | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { data: locations, isLoading } = useLocations();
+  const { data: subnets } = useSubnets();
 
-  const { data: locations, isLoading } = useQuery({
+  const { data: counts } = useQuery({
     queryKey: ['locations-stats'],
     queryFn: async () => {
       const { data: employees, error } = await supabase
         .from('employees')
-        .select('location');
+        .select('location')
+        .is('deleted_at', null);
       
       if (error) throw error;
 
-      // Group by location and count
-      const locationMap = new Map<string, number>();
+      // Count employees per location
+      const locationMap = new Map<string | null, number>();
       employees?.forEach(emp => {
-        const loc = emp.location || 'Unassigned';
-        locationMap.set(loc, (locationMap.get(loc) || 0) + 1);
+        locationMap.set(emp.location, (locationMap.get(emp.location) || 0) + 1);
       });
 
-      // Convert to array and sort by count
-      const locationData: LocationData[] = Array.from(locationMap.entries())
-        .map(([location, count]) => ({ location, count }))
-        .sort((a, b) => b.count - a.count);
-
-      return locationData;
+      return locationMap;
     }
   });
 
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['locations'] });
+    queryClient.invalidateQueries({ queryKey: ['locations-stats'] });
+    queryClient.invalidateQueries({ queryKey: ['employee-stats'] });
+  };
+
+  const openForm = (location?: Location) => {
+    setEditLocation(location);
+    setIsFormOpen(true);
+  };
+
+  const handleMerge = async () => {
+    if (!mergeSource || !mergeTargetId) return;
+
+    setIsSubmitting(true);
+    try {
+      const { error } = await supabase.rpc('merge_locations', {
+        _source_id: mergeSource.id,
+        _target_id: mergeTargetId,
+      });
+
+      if (error) throw error;
+      toast.success(`Merged ${mergeSource.name}`);
+      setMergeSource(null);
+      setMergeTargetId('');
+      refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'An error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteLocation) return;
+
+    try {
+      const { error } = await supabase
+        .from('locations')
+        .delete()
+        .eq('id', deleteLocation.id);
+
+      if (error) {
+        throw error.code === '23503'
+          ? new Error('This location has consumable history. Merge it into another location instead.')
+          : error;
+      }
+      toast.success('Location deleted');
+      refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'An error occurred');
+    } finally {
+      setDeleteLocation(null);
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -68,12 +162,15 @@ const LocationsManagement = () => {
     return <Navigate to="/dashboard" replace />;
   }
 
+  const getCount = (name: string | null) => counts?.get(name) || 0;
+
   const filteredLocations = locations?.filter(loc => 
-    (loc.location || '').toLowerCase().includes(searchTerm.toLowerCase())
+    loc.name.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
-  const totalEmployees = locations?.reduce((sum, loc) => sum + loc.count, 0) || 0;
-  const totalLocations = locations?.filter(loc => loc.location !== 'Unassigned').length || 0;
+  const totalEmployees = Array.from(counts?.values() || []).reduce((sum, count) => sum + count, 0);
+  const totalLocations = locations?.length || 0;
+  const unassignedCount = getCount(null);
 
   return (
     <div className="min-h-screen bg-background flex flex-col">
@@ -86,7 +183,7 @@ const LocationsManagement = () => {
                 <MapPin className="h-6 w-6 text-primary" />
                 <div>
                   <h1 className="text-2xl font-bold text-foreground">Locations Management</h1>
-                  <p className="text-sm text-muted-foreground">View employee distribution by location</p>
+                  <p className="text-sm text-muted-foreground">Manage sites and view employee distribution</p>
                 </div>
               </div>
             </div>
@@ -132,10 +229,16 @@ const LocationsManagement = () => {
         {/* Search */}
         <Card className="mb-6">
           <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <MapPin className="h-5 w-5" />
-              All Locations
-            </CardTitle>
+            <div className="flex items-center justify-between">
+              <CardTitle className="flex items-center gap-2">
+                <MapPin className="h-5 w-5" />
+                All Locations
+              </CardTitle>
+              <Button onClick={() => openForm()} className="hover-scale">
+                <Plus className="h-4 w-4 mr-2" />
+                Add Location
+              </Button>
+            </div>
           </CardHeader>
           <CardContent>
             <div className="relative mb-4">
@@ -154,31 +257,86 @@ const LocationsManagement = () => {
               </div>
             ) : (
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                {filteredLocations?.map((loc, index) => (
-                  <Card 
-                    key={loc.location || 'unassigned'} 
-                    className="hover-lift cursor-pointer transition-all duration-200 hover:border-primary/50"
-                    style={{ animationDelay: `${index * 50}ms` }}
-                    onClick={() => navigate(`/dashboard?location=${encodeURIComponent(loc.location || '')}`)}
-                  >
+                {filteredLocations?.map((loc, index) => {
+                  const locationSubnets = subnets?.filter(s => s.location_id === loc.id) || [];
+                  return (
+                    <Card 
+                      key={loc.id} 
+                      className="hover-lift cursor-pointer transition-all duration-200 hover:border-primary/50"
+                      style={{ animationDelay: `${index * 50}ms` }}
+                      onClick={() => navigate(`/dashboard?location=${encodeURIComponent(loc.name)}`)}
+                    >
+                      <CardContent className="p-4 space-y-3">
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center gap-3">
+                            <div className="p-2 rounded-lg bg-primary/10">
+                              <MapPin className="h-4 w-4 text-primary" />
+                            </div>
+                            <div>
+                              <p className="font-medium text-foreground">{loc.name}</p>
+                              <p className="text-sm text-muted-foreground">
+                                {getCount(loc.name)} {getCount(loc.name) === 1 ? 'employee' : 'employees'}
+                              </p>
+                            </div>
+                          </div>
+                          <div className="text-2xl font-bold text-primary">{getCount(loc.name)}</div>
+                        </div>
+
+                        {(loc.address || loc.contact_person || loc.phone || locationSubnets.length > 0) && (
+                          <div className="space-y-1 text-sm text-muted-foreground">
+                            {loc.address && (
+                              <p className="flex items-center gap-2"><Building2 className="h-3 w-3" />{loc.address}</p>
+                            )}
+                            {loc.contact_person && (
+                              <p className="flex items-center gap-2"><User className="h-3 w-3" />{loc.contact_person}</p>
+                            )}
+                            {loc.phone && (
+                              <p className="flex items-center gap-2"><Phone className="h-3 w-3" />{loc.phone}</p>
+                            )}
+                            {locationSubnets.length > 0 && (
+                              <p className="flex items-center gap-2">
+                                <Network className="h-3 w-3" />{locationSubnets.map(formatCidr).join(', ')}
+                              </p>
+                            )}
+                          </div>
+                        )}
+
+                        <div className="flex justify-end gap-1" onClick={(e) => e.stopPropagation()}>
+                          <Button size="sm" variant="ghost" onClick={() => openForm(loc)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button size="sm" variant="ghost" onClick={() => setMergeSource(loc)} disabled={totalLocations < 2}>
+                            <Merge className="h-4 w-4" />
+                          </Button>
+                          <Button size="sm" variant="ghost" onClick={() => setDeleteLocation(loc)}>
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  );
+                })}
+
+                {unassignedCount > 0 && !searchTerm && (
+                  <Card className="hover-lift transition-all duration-200">
                     <CardContent className="p-4">
                       <div className="flex items-center justify-between">
                         <div className="flex items-center gap-3">
-                          <div className={`p-2 rounded-lg ${loc.location === 'Unassigned' ? 'bg-muted' : 'bg-primary/10'}`}>
-                            <MapPin className={`h-4 w-4 ${loc.location === 'Unassigned' ? 'text-muted-foreground' : 'text-primary'}`} />
+                          <div className="p-2 rounded-lg bg-muted">
+                            <MapPin className="h-4 w-4 text-muted-foreground" />
                           </div>
                           <div>
-                            <p className="font-medium text-foreground">{loc.location || 'Unassigned'}</p>
+                            <p className="font-medium text-foreground">Unassigned</p>
                             <p className="text-sm text-muted-foreground">
-                              {loc.count} {loc.count === 1 ? 'employee' : 'employees'}
+                              {unassignedCount} {unassignedCount === 1 ? 'employee' : 'employees'}
                             </p>
                           </div>
                         </div>
-                        <div className="text-2xl font-bold text-primary">{loc.count}</div>
+                        <div className="text-2xl font-bold text-muted-foreground">{unassignedCount}</div>
                       </div>
                     </CardContent>
                   </Card>
-                ))}
+                )}
               </div>
             )}
 
@@ -191,6 +349,92 @@ const LocationsManagement = () => {
         </Card>
       </main>
 
+      {/* Add/Edit Dialog */}
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editLocation ? 'Edit Location' : 'Add Location'}</DialogTitle>
+            <DialogDescription>
+              {editLocation
+                ? 'Renaming updates every employee at this location'
+                : 'Register a new site'}
+            </DialogDescription>
+          </DialogHeader>
+          {isFormOpen && (
+            <LocationForm
+              location={editLocation}
+              locations={locations || []}
+              onSuccess={() => {
+                setIsFormOpen(false);
+                refresh();
+              }}
+              onCancel={() => setIsFormOpen(false)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Merge Dialog */}
+      <Dialog open={!!mergeSource} onOpenChange={(open) => !open && setMergeSource(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Merge {mergeSource?.name}</DialogTitle>
+            <DialogDescription>
+              Moves {getCount(mergeSource?.name ?? null)} employees to the selected location, along with its departments,
+              subnets, PM rules, consumable stock and role access, and removes {mergeSource?.name}.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>Merge into</Label>
+            <Select value={mergeTargetId} onValueChange={setMergeTargetId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select location" />
+              </SelectTrigger>
+              <SelectContent>
+                {locations?.filter(loc => loc.id !== mergeSource?.id).map(loc => (
+                  <SelectItem key={loc.id} value={loc.id}>
+                    {loc.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMergeSource(null)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button onClick={handleMerge} disabled={isSubmitting || !mergeTargetId}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Merge
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={!!deleteLocation} onOpenChange={() => setDeleteLocation(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleteLocation?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {getCount(deleteLocation?.name ?? null) > 0
+                ? `${getCount(deleteLocation?.name ?? null)} employees are still at this location. Merge it into another location instead.`
+                : 'This location has no employees and will be removed from the registry.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive"
+              disabled={getCount(deleteLocation?.name ?? null) > 0}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       <Footer />
     </div>
   );
@@ -0,0 +1,260 @@
+import { useState } from 'react';
+import { useNavigate, Navigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { useAuth } from '@/hooks/useAuth';
+import { useLocations } from '@/hooks/useLocations';
+import { useCanLogPm, usePmSchedule, type PmScheduleItem } from '@/hooks/usePmSchedule';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Loader2, ArrowLeft, Wrench, Search, Filter } from 'lucide-react';
+import { Footer } from '@/components/Footer';
+import { PmLogDialog } from '@/components/PmLogDialog';
+import { PmIntervalsManager } from '@/components/PmIntervalsManager';
+import { PmChecklistManager } from '@/components/PmChecklistManager';
+import { PmFollowUps } from '@/components/PmFollowUps';
+import {
+  PM_DEVICE_TYPES,
+  PM_STATUS_LABELS,
+  getPmDeviceTypeLabel,
+  getPmStatusVariant,
+  type PmStatus,
+} from '@/lib/pm';
+import logo from '@/assets/logo.jpg';
+
+const Maintenance = () => {
+  const { user, loading, isAdmin } = useAuth();
+  const navigate = useNavigate();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState('pending');
+  const [locationFilter, setLocationFilter] = useState('all');
+  const [typeFilter, setTypeFilter] = useState('all');
+  const [logItem, setLogItem] = useState<PmScheduleItem | null>(null);
+
+  const { data: schedule, isLoading } = usePmSchedule();
+  const canLogPm = useCanLogPm();
+  const { data: locations } = useLocations();
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  const term = searchTerm.toLowerCase();
+  const filteredSchedule = schedule?.filter(item => {
+    if (statusFilter === 'pending' && item.status === 'ok') return false;
+    if (statusFilter !== 'pending' && statusFilter !== 'all' && item.status !== statusFilter) return false;
+    if (locationFilter !== 'all' && item.location !== locationFilter) return false;
+    if (typeFilter !== 'all' && item.deviceType !== typeFilter) return false;
+    if (!term) return true;
+    return (
+      item.label.toLowerCase().includes(term) ||
+      item.holder?.toLowerCase().includes(term)
+    );
+  });
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <header className="border-b border-border bg-card animate-fade-in shadow-md">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <img src={logo} alt="Logo" className="h-10 w-auto object-contain" />
+              <div className="flex items-center gap-2">
+                <Wrench className="h-6 w-6 text-primary" />
+                <div>
+                  <h1 className="text-2xl font-bold text-foreground">Preventive Maintenance</h1>
+                  <p className="text-sm text-muted-foreground">PM schedule, checklists and follow-up work</p>
+                </div>
+              </div>
+            </div>
+            <Button onClick={() => navigate('/dashboard')} variant="outline" className="hover-scale">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Dashboard
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 animate-fade-in-up flex-1 space-y-4">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <Filter className="h-5 w-5 text-primary" />
+              <CardTitle className="text-foreground">Search & Filter</CardTitle>
+            </div>
+            <CardDescription>Find devices by name, serial or holder</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-col md:flex-row gap-4">
+              <div className="flex-1 relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search by device or holder..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-9"
+                />
+              </div>
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger className="w-full md:w-[180px]">
+                  <SelectValue placeholder="Status" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="pending">Due & Overdue</SelectItem>
+                  <SelectItem value="all">All Statuses</SelectItem>
+                  {(Object.keys(PM_STATUS_LABELS) as PmStatus[]).map(status => (
+                    <SelectItem key={status} value={status}>
+                      {PM_STATUS_LABELS[status]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={locationFilter} onValueChange={setLocationFilter}>
+                <SelectTrigger className="w-full md:w-[180px]">
+                  <SelectValue placeholder="Location" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Locations</SelectItem>
+                  {locations?.map(loc => (
+                    <SelectItem key={loc.id} value={loc.name}>
+                      {loc.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={typeFilter} onValueChange={setTypeFilter}>
+                <SelectTrigger className="w-full md:w-[180px]">
+                  <SelectValue placeholder="Type" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Types</SelectItem>
+                  {PM_DEVICE_TYPES.map(type => (
+                    <SelectItem key={type.value} value={type.value}>
+                      {type.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="p-0">
+            {isLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-primary" />
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Device</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Holder</TableHead>
+                      <TableHead>Location</TableHead>
+                      <TableHead>Last PM</TableHead>
+                      <TableHead>Next Due</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredSchedule?.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={8} className="text-center py-8 text-muted-foreground">
+                          No devices found
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      filteredSchedule?.map(item => (
+                        <TableRow key={item.key}>
+                          <TableCell className="font-medium">
+                            {item.assetId ? (
+                              <button
+                                type="button"
+                                className="hover:underline text-left"
+                                onClick={() => navigate(`/assets/${item.assetId}`)}
+                              >
+                                {item.label}
+                              </button>
+                            ) : (
+                              item.label
+                            )}
+                          </TableCell>
+                          <TableCell>{getPmDeviceTypeLabel(item.deviceType)}</TableCell>
+                          <TableCell>{item.holder || '-'}</TableCell>
+                          <TableCell>{item.location || '-'}</TableCell>
+                          <TableCell>{item.lastPm ? format(new Date(item.lastPm), 'PP') : '-'}</TableCell>
+                          <TableCell>
+                            {item.nextDue ? format(item.nextDue, 'PP') : '-'}
+                            <span className="text-xs text-muted-foreground ml-1">({item.intervalDays}d)</span>
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={getPmStatusVariant(item.status)}>{PM_STATUS_LABELS[item.status]}</Badge>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {canLogPm && (
+                              <Button size="sm" variant="outline" onClick={() => setLogItem(item)}>
+                                Log PM
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <PmFollowUps />
+
+        {isAdmin && <PmIntervalsManager />}
+
+        {isAdmin && <PmChecklistManager />}
+      </main>
+
+      {logItem && (
+        <PmLogDialog
+          open={!!logItem}
+          onOpenChange={(open) => !open && setLogItem(null)}
+          employeeId={logItem.employeeId}
+          assetId={logItem.assetId}
+          label={logItem.label}
+        />
+      )}
+
+      <Footer />
+    </div>
+  );
+};
+
+export default Maintenance;
@@ -0,0 +1,515 @@
+import { useState } from 'react';
+import { useNavigate, useParams, Navigate } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { useAuth } from '@/hooks/useAuth';
+import { useHasRole } from '@/hooks/useUserRoles';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Loader2, ArrowLeft, UserMinus, CheckCircle2, XCircle, PenLine, Wifi, Usb } from 'lucide-react';
+import { Footer } from '@/components/Footer';
+import {
+  getEmploymentStatusLabel,
+  getEmploymentStatusVariant,
+  getOffboardingItemStatusLabel,
+  getOffboardingItemStatusVariant,
+  getOffboardingItemTypeLabel,
+  type OffboardingItem,
+} from '@/lib/offboarding';
+
+type SignDepartment = 'hr' | 'it';
+
+const SIGN_OFF_LABELS: Record<SignDepartment, string> = {
+  hr: 'HR',
+  it: 'IT',
+};
+
+const OffboardingDetails = () => {
+  const { employeeId } = useParams<{ employeeId: string }>();
+  const { user, loading, isAdmin } = useAuth();
+  const { data: isHr } = useHasRole('hr');
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [exitDate, setExitDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [reason, setReason] = useState('');
+  const [resolveState, setResolveState] = useState<{ item: OffboardingItem; status: 'returned' | 'missing' } | null>(null);
+  const [signDepartment, setSignDepartment] = useState<SignDepartment | null>(null);
+  const [notes, setNotes] = useState('');
+  const [isCancelOpen, setIsCancelOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { data: employee, isLoading } = useQuery({
+    queryKey: ['offboarding', employeeId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('employees')
+        .select('id, name, email, location, department, employment_status, exit_date, internet_access, usb_access, archived_at, assets(id), license_seats(id), offboardings(*, offboarding_items(*))')
+        .eq('id', employeeId!)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user && !!employeeId,
+  });
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  const offboarding = employee?.offboardings;
+  const items = [...(offboarding?.offboarding_items || [])].sort((a, b) =>
+    a.item_type.localeCompare(b.item_type) || a.label.localeCompare(b.label)
+  );
+  const resolvedCount = items.filter(i => i.status !== 'pending').length;
+  const isComplete = !!offboarding?.completed_at;
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['offboarding', employeeId] });
+    queryClient.invalidateQueries({ queryKey: ['offboardings'] });
+  };
+
+  // Runs one of the offboarding functions, surfacing its message on failure
+  const runAction = async (action: () => PromiseLike<{ error: Error | null }>, successMessage: string) => {
+    setIsSubmitting(true);
+    try {
+      const { error } = await action();
+      if (error) throw error;
+      toast.success(successMessage);
+      refresh();
+      return true;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'An error occurred');
+      return false;
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleStart = async () => {
+    if (!exitDate) {
+      toast.error('Enter the exit date');
+      return;
+    }
+    await runAction(
+      () => supabase.rpc('start_offboarding', {
+        _employee_id: employeeId!,
+        _exit_date: exitDate,
+        _reason: reason.trim() || undefined,
+      }),
+      'Offboarding started; internet and USB access revoked'
+    );
+  };
+
+  const handleResolve = async () => {
+    if (!resolveState) return;
+    const done = await runAction(
+      () => supabase.rpc('resolve_offboarding_item', {
+        _item_id: resolveState.item.id,
+        _status: resolveState.status,
+        _notes: notes.trim() || undefined,
+      }),
+      resolveState.status === 'returned' ? `${resolveState.item.label} recorded as returned` : `${resolveState.item.label} recorded as not recovered`
+    );
+    if (done) {
+      setResolveState(null);
+      setNotes('');
+    }
+  };
+
+  const handleSign = async () => {
+    if (!signDepartment || !offboarding) return;
+    const done = await runAction(
+      () => supabase.rpc('sign_offboarding', {
+        _offboarding_id: offboarding.id,
+        _department: signDepartment,
+        _notes: notes.trim() || undefined,
+      }),
+      `${SIGN_OFF_LABELS[signDepartment]} sign-off recorded`
+    );
+    if (done) {
+      setSignDepartment(null);
+      setNotes('');
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!offboarding) return;
+    await runAction(
+      () => supabase.rpc('cancel_offboarding', { _offboarding_id: offboarding.id }),
+      'Offboarding cancelled'
+    );
+  };
+
+  const signOffs: { department: SignDepartment; name: string | null; at: string | null; notes: string | null }[] = offboarding
+    ? [
+        { department: 'hr', name: offboarding.hr_signed_by_name, at: offboarding.hr_signed_at, notes: offboarding.hr_notes },
+        { department: 'it', name: offboarding.it_signed_by_name, at: offboarding.it_signed_at, notes: offboarding.it_notes },
+      ]
+    : [];
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <header className="border-b border-border bg-card animate-fade-in shadow-md">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Button onClick={() => navigate('/offboarding')} variant="ghost" size="icon" className="hover-scale">
+                <ArrowLeft className="h-5 w-5" />
+              </Button>
+              <div className="flex items-center gap-2">
+                <UserMinus className="h-6 w-6 text-primary" />
+                <div>
+                  <h1 className="text-2xl font-bold text-foreground">{employee?.name || 'Offboarding'}</h1>
+                  <p className="text-sm text-muted-foreground">
+                    {[employee?.department, employee?.location].filter(Boolean).join(' • ') || 'Employee offboarding'}
+                  </p>
+                </div>
+              </div>
+            </div>
+            {isAdmin && offboarding && !isComplete && (
+              <Button onClick={() => setIsCancelOpen(true)} variant="outline" className="hover-scale">
+                Cancel Offboarding
+              </Button>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 animate-fade-in-up flex-1">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : !employee ? (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <p className="text-muted-foreground">Employee not found</p>
+            </CardContent>
+          </Card>
+        ) : !offboarding ? (
+          <Card className="max-w-2xl mx-auto">
+            <CardHeader>
+              <CardTitle>Start Offboarding</CardTitle>
+              <CardDescription>
+                {employee.name} will be marked as leaving and lose internet and USB access straight away. Their
+                computer, {employee.assets.length} devices and {employee.license_seats.length} license seats will be
+                listed for recovery.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {isAdmin ? (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="exit_date">Exit Date</Label>
+                    <Input id="exit_date" type="date" value={exitDate} onChange={(e) => setExitDate(e.target.value)} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="reason">Reason</Label>
+                    <Textarea
+                      id="reason"
+                      value={reason}
+                      onChange={(e) => setReason(e.target.value)}
+                      placeholder="Resignation, end of contract, transfer..."
+                    />
+                  </div>
+                  <Button onClick={handleStart} disabled={isSubmitting} variant="destructive">
+                    {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Start Offboarding
+                  </Button>
+                </>
+              ) : (
+                <p className="text-sm text-muted-foreground">Only admins can start an offboarding.</p>
+              )}
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-6 lg:grid-cols-3">
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle>Status</CardTitle>
+                  <Badge variant={getEmploymentStatusVariant(employee.employment_status)}>
+                    {getEmploymentStatusLabel(employee.employment_status)}
+                  </Badge>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div>
+                  <p className="text-sm font-medium text-muted-foreground">Exit Date</p>
+                  <p className="font-medium">{format(new Date(offboarding.exit_date), 'PP')}</p>
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-muted-foreground">Reason</p>
+                  <p className="whitespace-pre-wrap">{offboarding.reason || '-'}</p>
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-muted-foreground">Started</p>
+                  <p className="font-medium">
+                    {offboarding.created_at && format(new Date(offboarding.created_at), 'PPp')}
+                    {offboarding.started_by_name && ` by ${offboarding.started_by_name}`}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Badge variant={employee.internet_access ? 'destructive' : 'secondary'}>
+                    <Wifi className="h-3 w-3 mr-1" />
+                    Internet {employee.internet_access ? 'on' : 'revoked'}
+                  </Badge>
+                  <Badge variant={employee.usb_access ? 'destructive' : 'secondary'}>
+                    <Usb className="h-3 w-3 mr-1" />
+                    USB {employee.usb_access ? 'on' : 'revoked'}
+                  </Badge>
+                </div>
+                {employee.archived_at && (
+                  <p className="text-sm text-muted-foreground">
+                    Archived on {format(new Date(employee.archived_at), 'PP')}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle>Equipment to Recover</CardTitle>
+                <CardDescription>
+                  {resolvedCount} of {items.length} items accounted for
+                </CardDescription>
+                <Progress value={items.length ? (resolvedCount / items.length) * 100 : 100} />
+              </CardHeader>
+              <CardContent>
+                {items.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Nothing was assigned to this employee</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {items.map(item => (
+                      <li
+                        key={item.id}
+                        className="flex items-center justify-between gap-2 p-3 rounded-lg border border-border/50"
+                      >
+                        <div className="min-w-0">
+                          <p className="font-medium">
+                            {item.label}
+                            <span className="ml-2 text-xs text-muted-foreground">{getOffboardingItemTypeLabel(item.item_type)}</span>
+                          </p>
+                          <p className="text-sm text-muted-foreground">
+                            {[
+                              item.serial,
+                              item.resolved_at && `${format(new Date(item.resolved_at), 'PP')} by ${item.resolved_by_name || 'Unknown'}`,
+                              item.notes,
+                            ].filter(Boolean).join(' • ') || '-'}
+                          </p>
+                        </div>
+                        {item.status === 'pending' && isAdmin && !offboarding.it_signed_at ? (
+                          <div className="flex gap-1 shrink-0">
+                            <Button size="sm" variant="outline" onClick={() => setResolveState({ item, status: 'returned' })}>
+                              <CheckCircle2 className="h-4 w-4 mr-1" />
+                              {item.item_type === 'license' ? 'Revoke' : 'Returned'}
+                            </Button>
+                            {item.item_type !== 'license' && (
+                              <Button size="sm" variant="ghost" onClick={() => setResolveState({ item, status: 'missing' })}>
+                                <XCircle className="h-4 w-4 mr-1 text-destructive" />
+                                Missing
+                              </Button>
+                            )}
+                          </div>
+                        ) : (
+                          <Badge variant={getOffboardingItemStatusVariant(item.status)} className="shrink-0">
+                            {getOffboardingItemStatusLabel(item.status)}
+                          </Badge>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="lg:col-span-3">
+              <CardHeader>
+                <CardTitle>Sign-off</CardTitle>
+                <CardDescription>
+                  The record is archived once HR and IT have both signed. IT signs after every item is accounted for.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="grid gap-4 md:grid-cols-2">
+                {signOffs.map(signOff => {
+                  const canSign = !signOff.at && (isAdmin || (signOff.department === 'hr' && !!isHr));
+                  const blocked = signOff.department === 'it' && resolvedCount < items.length;
+                  return (
+                    <div key={signOff.department} className="p-4 rounded-lg border border-border/50 space-y-2">
+                      <div className="flex items-center justify-between">
+                        <p className="font-semibold">{SIGN_OFF_LABELS[signOff.department]}</p>
+                        {signOff.at ? (
+                          <Badge variant="secondary">Signed</Badge>
+                        ) : (
+                          <Badge variant="outline">Pending</Badge>
+                        )}
+                      </div>
+                      {signOff.at ? (
+                        <>
+                          <p className="text-sm">
+                            {signOff.name || 'Unknown'} on {format(new Date(signOff.at), 'PPp')}
+                          </p>
+                          {signOff.notes && (
+                            <p className="text-sm text-muted-foreground whitespace-pre-wrap">{signOff.notes}</p>
+                          )}
+                        </>
+                      ) : canSign ? (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={blocked}
+                          onClick={() => setSignDepartment(signOff.department)}
+                        >
+                          <PenLine className="h-4 w-4 mr-2" />
+                          Sign for {SIGN_OFF_LABELS[signOff.department]}
+                        </Button>
+                      ) : (
+                        <p className="text-sm text-muted-foreground">
+                          {signOff.department === 'hr' ? 'Awaiting HR or an admin' : 'Awaiting an admin'}
+                        </p>
+                      )}
+                      {!signOff.at && blocked && (
+                        <p className="text-xs text-muted-foreground">
+                          {items.length - resolvedCount} items still to recover
+                        </p>
+                      )}
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </main>
+
+      {/* Resolve Item Dialog */}
+      <Dialog
+        open={!!resolveState}
+        onOpenChange={(open) => {
+          if (!open) {
+            setResolveState(null);
+            setNotes('');
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {resolveState?.status === 'missing' ? 'Not Recovered' : 'Record Return'}: {resolveState?.item.label}
+            </DialogTitle>
+            <DialogDescription>
+              {resolveState?.item.item_type === 'license'
+                ? 'The seat is released for someone else.'
+                : resolveState?.status === 'missing'
+                  ? 'The device is retired with your note as the reason.'
+                  : resolveState?.item.item_type === 'asset'
+                    ? 'The device goes back into stock.'
+                    : 'The computer is recorded as handed back.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="item-notes">{resolveState?.status === 'missing' ? 'What happened' : 'Notes'}</Label>
+            <Textarea id="item-notes" value={notes} onChange={(e) => setNotes(e.target.value)} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setResolveState(null)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button onClick={handleResolve} disabled={isSubmitting || (resolveState?.status === 'missing' && !notes.trim())}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Sign-off Dialog */}
+      <Dialog
+        open={!!signDepartment}
+        onOpenChange={(open) => {
+          if (!open) {
+            setSignDepartment(null);
+            setNotes('');
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{signDepartment && SIGN_OFF_LABELS[signDepartment]} Sign-off</DialogTitle>
+            <DialogDescription>Your name and the time are recorded on the offboarding.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="sign-notes">Notes</Label>
+            <Textarea id="sign-notes" value={notes} onChange={(e) => setNotes(e.target.value)} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSignDepartment(null)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button onClick={handleSign} disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Sign Off
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Cancel Confirmation */}
+      <AlertDialog open={isCancelOpen} onOpenChange={setIsCancelOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancel offboarding for {employee?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The employee is marked active again. Internet and USB access stay revoked, and items already recovered
+              stay recovered.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep</AlertDialogCancel>
+            <AlertDialogAction onClick={handleCancel} className="bg-destructive">
+              Cancel Offboarding
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default OffboardingDetails;
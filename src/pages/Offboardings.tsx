@@ -0,0 +1,183 @@
+import { useState } from 'react';
+import { useNavigate, Navigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Loader2, ArrowLeft, UserMinus } from 'lucide-react';
+import { Footer } from '@/components/Footer';
+import logo from '@/assets/logo.jpg';
+
+const Offboardings = () => {
+  const { user, loading } = useAuth();
+  const navigate = useNavigate();
+  const [statusFilter, setStatusFilter] = useState('open');
+
+  const { data: offboardings, isLoading } = useQuery({
+    queryKey: ['offboardings'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('offboardings')
+        .select('*, employees(name, department, location), offboarding_items(status)')
+        .order('exit_date', { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user,
+  });
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  const filteredOffboardings = offboardings?.filter(o =>
+    statusFilter === 'all' || (statusFilter === 'open' ? !o.completed_at : !!o.completed_at)
+  ) || [];
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <header className="border-b border-border bg-card animate-fade-in shadow-md">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <img src={logo} alt="Logo" className="h-10 w-auto object-contain" />
+              <div className="flex items-center gap-2">
+                <UserMinus className="h-6 w-6 text-primary" />
+                <div>
+                  <h1 className="text-2xl font-bold text-foreground">Offboarding</h1>
+                  <p className="text-sm text-muted-foreground">Leavers, equipment recovery and sign-off</p>
+                </div>
+              </div>
+            </div>
+            <Button onClick={() => navigate('/dashboard')} variant="outline" className="hover-scale">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Dashboard
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 animate-fade-in-up flex-1">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-foreground">Offboardings</CardTitle>
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="open">In Progress</SelectItem>
+                  <SelectItem value="completed">Completed</SelectItem>
+                  <SelectItem value="all">All</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <CardDescription>
+              Start an offboarding from the employee list on the dashboard
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-0">
+            {isLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-primary" />
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Employee</TableHead>
+                      <TableHead>Exit Date</TableHead>
+                      <TableHead>Recovered</TableHead>
+                      <TableHead>HR</TableHead>
+                      <TableHead>IT</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredOffboardings.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                          No offboardings found
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      filteredOffboardings.map(offboarding => {
+                        const resolved = offboarding.offboarding_items.filter(i => i.status !== 'pending').length;
+                        const missing = offboarding.offboarding_items.filter(i => i.status === 'missing').length;
+                        return (
+                          <TableRow
+                            key={offboarding.id}
+                            className="cursor-pointer"
+                            onClick={() => navigate(`/offboarding/${offboarding.employee_id}`)}
+                          >
+                            <TableCell>
+                              <p className="font-medium">{offboarding.employees?.name}</p>
+                              <p className="text-sm text-muted-foreground">
+                                {[offboarding.employees?.department, offboarding.employees?.location].filter(Boolean).join(' • ')}
+                              </p>
+                            </TableCell>
+                            <TableCell>{format(new Date(offboarding.exit_date), 'PP')}</TableCell>
+                            <TableCell>
+                              {resolved} / {offboarding.offboarding_items.length}
+                              {missing > 0 && (
+                                <Badge variant="destructive" className="ml-2">{missing} missing</Badge>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              {offboarding.hr_signed_at ? offboarding.hr_signed_by_name || 'Signed' : '-'}
+                            </TableCell>
+                            <TableCell>
+                              {offboarding.it_signed_at ? offboarding.it_signed_by_name || 'Signed' : '-'}
+                            </TableCell>
+                            <TableCell>
+                              <Badge variant={offboarding.completed_at ? 'secondary' : 'destructive'}>
+                                {offboarding.completed_at ? 'Completed' : 'In Progress'}
+                              </Badge>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default Offboardings;
@@ -0,0 +1,245 @@
+import { useState } from 'react';
+import { useNavigate, useParams, Navigate } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { useAuth } from '@/hooks/useAuth';
+import { useOnboardingTasks } from '@/hooks/useOnboarding';
+import { useProfiles, getProfileName } from '@/hooks/useProfiles';
+import { useMyLocationScope } from '@/hooks/useUserRoles';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2, ArrowLeft, UserCheck, ListChecks } from 'lucide-react';
+import { Footer } from '@/components/Footer';
+import { getOnboardingProgress, isOnboardingTaskOverdue, type OnboardingTask } from '@/lib/onboarding';
+
+const UNASSIGNED = '__unassigned__';
+
+const Onboarding = () => {
+  const { employeeId } = useParams<{ employeeId: string }>();
+  const { user, loading, isAdmin } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { data: profiles } = useProfiles();
+  const { data: tasks, isLoading: tasksLoading } = useOnboardingTasks(employeeId);
+  const { data: locationScope } = useMyLocationScope();
+  const [isStarting, setIsStarting] = useState(false);
+
+  const { data: employee, isLoading: employeeLoading } = useQuery({
+    queryKey: ['onboarding-employee', employeeId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('employees')
+        .select('id, name, department, section, location, created_by, created_at')
+        .eq('id', employeeId!)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user && !!employeeId,
+  });
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  const isLoading = tasksLoading || employeeLoading;
+  const progress = getOnboardingProgress(tasks || []);
+  // Same rule as start_onboarding
+  const canStart = isAdmin
+    || (!locationScope && employee?.created_by === user.id)
+    || (!!employee?.location && !!locationScope?.editable.includes(employee.location));
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['onboarding'] });
+
+  const updateTask = async (task: OnboardingTask, values: Partial<OnboardingTask>) => {
+    try {
+      const { error } = await supabase
+        .from('onboarding_tasks')
+        .update(values)
+        .eq('id', task.id);
+
+      if (error) throw error;
+      refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'An error occurred');
+    }
+  };
+
+  const handleStart = async () => {
+    setIsStarting(true);
+    try {
+      const { error } = await supabase.rpc('start_onboarding', { _employee_id: employeeId! });
+      if (error) throw error;
+      toast.success('Onboarding checklist started');
+      refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'An error occurred');
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <header className="border-b border-border bg-card animate-fade-in shadow-md">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center gap-4">
+            <Button onClick={() => navigate('/dashboard')} variant="ghost" size="icon" className="hover-scale">
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div className="flex items-center gap-2">
+              <UserCheck className="h-6 w-6 text-primary" />
+              <div>
+                <h1 className="text-2xl font-bold text-foreground">
+                  {employee ? `Onboarding: ${employee.name}` : 'Onboarding'}
+                </h1>
+                <p className="text-sm text-muted-foreground">
+                  {[employee?.department, employee?.section, employee?.location].filter(Boolean).join(' • ') || 'New joiner checklist'}
+                </p>
+              </div>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 animate-fade-in-up flex-1">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : !employee ? (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <p className="text-muted-foreground">Employee not found</p>
+            </CardContent>
+          </Card>
+        ) : !tasks || tasks.length === 0 ? (
+          <Card className="max-w-2xl mx-auto">
+            <CardContent className="py-12 text-center space-y-4">
+              <p className="text-muted-foreground">No onboarding checklist for {employee.name}</p>
+              {canStart && (
+                <Button onClick={handleStart} disabled={isStarting}>
+                  {isStarting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Start Checklist
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        ) : (
+          <Card className="max-w-4xl mx-auto">
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="flex items-center gap-2">
+                  <ListChecks className="h-5 w-5" />
+                  Checklist
+                </CardTitle>
+                {progress.done === progress.total ? (
+                  <Badge variant="secondary">Complete</Badge>
+                ) : progress.overdue > 0 ? (
+                  <Badge variant="destructive">{progress.overdue} overdue</Badge>
+                ) : null}
+              </div>
+              <CardDescription>
+                {progress.done} of {progress.total} done. Admins assign tasks and set due dates; assignees tick off their own.
+              </CardDescription>
+              <Progress value={(progress.done / progress.total) * 100} />
+            </CardHeader>
+            <CardContent>
+              <ul className="space-y-2">
+                {tasks.map(task => {
+                  const canComplete = isAdmin || task.assignee_id === user.id;
+                  const overdue = isOnboardingTaskOverdue(task);
+                  return (
+                    <li
+                      key={task.id}
+                      className="flex flex-col md:flex-row md:items-center gap-3 p-3 rounded-lg border border-border/50"
+                    >
+                      <div className="flex items-center gap-3 flex-1 min-w-0">
+                        <Checkbox
+                          id={task.id}
+                          checked={!!task.completed_at}
+                          disabled={!canComplete}
+                          onCheckedChange={(checked) =>
+                            updateTask(task, { completed_at: checked ? new Date().toISOString() : null })
+                          }
+                        />
+                        <div className="min-w-0">
+                          <label
+                            htmlFor={task.id}
+                            className={`font-medium ${task.completed_at ? 'line-through text-muted-foreground' : ''}`}
+                          >
+                            {task.label}
+                          </label>
+                          {task.completed_at ? (
+                            <p className="text-xs text-muted-foreground">
+                              Done {format(new Date(task.completed_at), 'PP')}
+                              {task.completed_by_name && ` by ${task.completed_by_name}`}
+                            </p>
+                          ) : overdue ? (
+                            <p className="text-xs text-destructive">Overdue</p>
+                          ) : null}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-2 shrink-0">
+                        <Select
+                          value={task.assignee_id || UNASSIGNED}
+                          onValueChange={(value) => updateTask(task, { assignee_id: value === UNASSIGNED ? null : value })}
+                          disabled={!isAdmin}
+                        >
+                          <SelectTrigger className="w-[180px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                            {profiles?.map(profile => (
+                              <SelectItem key={profile.id} value={profile.id}>
+                                {getProfileName(profile)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Input
+                          type="date"
+                          className="w-[160px]"
+                          value={task.due_date || ''}
+                          onChange={(e) => updateTask(task, { due_date: e.target.value || null })}
+                          disabled={!isAdmin}
+                        />
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default Onboarding;
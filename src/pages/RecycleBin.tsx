@@ -0,0 +1,237 @@
+import { useState } from 'react';
+import { useNavigate, Navigate } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Loader2, ArrowLeft, Trash2, RotateCcw } from 'lucide-react';
+import { Footer } from '@/components/Footer';
+import { RECYCLE_BIN_RETENTION_DAYS, getPurgeDate } from '@/lib/recycleBin';
+import logo from '@/assets/logo.jpg';
+
+interface DeletedEmployee {
+  id: string;
+  name: string;
+  department: string;
+  location: string | null;
+  deleted_at: string;
+  deleted_by_name: string | null;
+}
+
+const RecycleBin = () => {
+  const { user, loading, isAdmin } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [purgeEmployee, setPurgeEmployee] = useState<DeletedEmployee | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const { data: employees, isLoading } = useQuery({
+    queryKey: ['recycle-bin'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('employees')
+        .select('id, name, department, location, deleted_at, deleted_by_name')
+        .not('deleted_at', 'is', null)
+        .order('deleted_at', { ascending: false });
+
+      if (error) throw error;
+      return data as DeletedEmployee[];
+    },
+    enabled: isAdmin,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['recycle-bin'] });
+    queryClient.invalidateQueries({ queryKey: ['employee-stats'] });
+  };
+
+  const handleRestore = async (employee: DeletedEmployee) => {
+    setRestoringId(employee.id);
+    try {
+      const { error } = await supabase.rpc('restore_employee', { _employee_id: employee.id });
+
+      if (error) throw error;
+      toast.success(`${employee.name} restored`);
+      refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'An error occurred');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const handlePurge = async () => {
+    if (!purgeEmployee) return;
+
+    try {
+      const { error } = await supabase.rpc('purge_deleted_employees', { _employee_id: purgeEmployee.id });
+
+      if (error) throw error;
+      toast.success(`${purgeEmployee.name} permanently deleted`);
+      refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'An error occurred');
+    } finally {
+      setPurgeEmployee(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  if (!isAdmin) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <header className="border-b border-border bg-card animate-fade-in shadow-md">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <img src={logo} alt="Logo" className="h-10 w-auto object-contain" />
+              <div className="flex items-center gap-2">
+                <Trash2 className="h-6 w-6 text-primary" />
+                <div>
+                  <h1 className="text-2xl font-bold text-foreground">Recycle Bin</h1>
+                  <p className="text-sm text-muted-foreground">Deleted employee records</p>
+                </div>
+              </div>
+            </div>
+            <Button onClick={() => navigate('/dashboard')} variant="outline" className="hover-scale">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Dashboard
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 animate-fade-in-up flex-1">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-foreground">Deleted Employees</CardTitle>
+            <CardDescription>
+              Records are purged permanently {RECYCLE_BIN_RETENTION_DAYS} days after deletion
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-0">
+            {isLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-primary" />
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Department</TableHead>
+                      <TableHead>Location</TableHead>
+                      <TableHead>Deleted</TableHead>
+                      <TableHead>Purge Date</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {!employees || employees.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                          The recycle bin is empty
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      employees.map(employee => (
+                        <TableRow key={employee.id}>
+                          <TableCell className="font-medium">{employee.name}</TableCell>
+                          <TableCell>{employee.department}</TableCell>
+                          <TableCell>{employee.location || '-'}</TableCell>
+                          <TableCell>
+                            {format(new Date(employee.deleted_at), 'PP')}
+                            <p className="text-sm text-muted-foreground">{employee.deleted_by_name || 'Unknown'}</p>
+                          </TableCell>
+                          <TableCell>{format(getPurgeDate(employee.deleted_at), 'PP')}</TableCell>
+                          <TableCell className="text-right">
+                            <div className="flex justify-end gap-2">
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => handleRestore(employee)}
+                                disabled={restoringId === employee.id}
+                              >
+                                {restoringId === employee.id ? (
+                                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                                ) : (
+                                  <RotateCcw className="h-4 w-4 mr-2" />
+                                )}
+                                Restore
+                              </Button>
+                              <Button size="sm" variant="ghost" onClick={() => setPurgeEmployee(employee)}>
+                                <Trash2 className="h-4 w-4 text-destructive" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <AlertDialog open={!!purgeEmployee} onOpenChange={() => setPurgeEmployee(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete permanently?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {purgeEmployee?.name}'s record will be removed for good. The activity log keeps a copy of
+              the last saved details.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handlePurge} className="bg-destructive">
+              Delete Permanently
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default RecycleBin;
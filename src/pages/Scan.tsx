@@ -0,0 +1,175 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate, Navigate } from 'react-router-dom';
+import jsQR from 'jsqr';
+import { useAuth } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Loader2, ArrowLeft, ScanLine, CameraOff } from 'lucide-react';
+import { Footer } from '@/components/Footer';
+import { parseRecordLink } from '@/lib/labels';
+import logo from '@/assets/logo.jpg';
+
+const Scan = () => {
+  const { user, loading } = useAuth();
+  const navigate = useNavigate();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [lastUnknown, setLastUnknown] = useState<string | null>(null);
+  const [manualCode, setManualCode] = useState('');
+
+  useEffect(() => {
+    if (!user) return;
+
+    let stream: MediaStream | null = null;
+    let frame = 0;
+    let stopped = false;
+
+    // Each video frame is drawn to a canvas and searched for a QR code
+    const tick = () => {
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      if (stopped || !video || !canvas) return;
+
+      if (video.readyState === video.HAVE_ENOUGH_DATA) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        const context = canvas.getContext('2d', { willReadFrequently: true });
+        context?.drawImage(video, 0, 0, canvas.width, canvas.height);
+        const image = context?.getImageData(0, 0, canvas.width, canvas.height);
+        const code = image && jsQR(image.data, image.width, image.height, { inversionAttempts: 'dontInvert' });
+
+        if (code?.data) {
+          const path = parseRecordLink(code.data);
+          if (path) {
+            navigate(path);
+            return;
+          }
+          setLastUnknown(code.data);
+        }
+      }
+      frame = requestAnimationFrame(tick);
+    };
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+        if (stopped || !videoRef.current) return;
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+        frame = requestAnimationFrame(tick);
+      } catch (error) {
+        setCameraError(
+          error instanceof Error && error.name === 'NotAllowedError'
+            ? 'Camera access was denied. Allow it in the browser settings and reload.'
+            : 'No camera is available. Scanning needs a camera and an HTTPS connection.'
+        );
+      }
+    };
+
+    start();
+
+    return () => {
+      stopped = true;
+      cancelAnimationFrame(frame);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [user, navigate]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  const handleManualOpen = (e: React.FormEvent) => {
+    e.preventDefault();
+    const path = parseRecordLink(manualCode);
+    if (path) {
+      navigate(path);
+    } else {
+      setLastUnknown(manualCode);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <header className="border-b border-border bg-card animate-fade-in shadow-md">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <img src={logo} alt="Logo" className="h-10 w-auto object-contain" />
+              <div className="flex items-center gap-2">
+                <ScanLine className="h-6 w-6 text-primary" />
+                <div>
+                  <h1 className="text-2xl font-bold text-foreground">Scan Label</h1>
+                  <p className="text-sm text-muted-foreground">Point the camera at a QR sticker</p>
+                </div>
+              </div>
+            </div>
+            <Button onClick={() => navigate('/dashboard')} variant="outline" className="hover-scale">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Dashboard
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 animate-fade-in-up flex-1">
+        <div className="max-w-xl mx-auto space-y-4">
+          <Card>
+            <CardContent className="p-4">
+              {cameraError ? (
+                <div className="flex flex-col items-center gap-2 py-12 text-center text-muted-foreground">
+                  <CameraOff className="h-10 w-10" />
+                  <p>{cameraError}</p>
+                </div>
+              ) : (
+                <div className="relative overflow-hidden rounded-lg bg-muted">
+                  <video ref={videoRef} className="w-full" muted playsInline />
+                  <div className="pointer-events-none absolute inset-[20%] rounded-lg border-4 border-primary/70" />
+                </div>
+              )}
+              <canvas ref={canvasRef} className="hidden" />
+              {lastUnknown && (
+                <p className="mt-3 text-sm text-destructive break-all">
+                  Not a label from this system: {lastUnknown}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Enter Code</CardTitle>
+              <CardDescription>Type or paste a label link if the sticker will not scan</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleManualOpen} className="flex gap-2">
+                <Input
+                  value={manualCode}
+                  onChange={(e) => setManualCode(e.target.value)}
+                  placeholder={`${window.location.origin}/assets/...`}
+                />
+                <Button type="submit" disabled={!manualCode.trim()}>
+                  Open
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default Scan;
@@ -0,0 +1,453 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams, Navigate } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { useAuth } from '@/hooks/useAuth';
+import { useProfiles, useMyEmployee, getProfileName } from '@/hooks/useProfiles';
+import { supabase } from '@/integrations/supabase/client';
+import type { TablesUpdate } from '@/integrations/supabase/types';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2, ArrowLeft, LifeBuoy, MessageSquare, Send, CheckCircle } from 'lucide-react';
+import { Footer } from '@/components/Footer';
+import {
+  TICKET_PRIORITIES,
+  TICKET_STATUSES,
+  formatTicketNumber,
+  getTicketPriorityLabel,
+  getTicketPriorityVariant,
+  getTicketStatusLabel,
+  getTicketStatusVariant,
+  isTicketClosed,
+} from '@/lib/tickets';
+
+const UNASSIGNED = '__unassigned__';
+
+const TicketDetails = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user, loading, isAdmin } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [comment, setComment] = useState('');
+  const [resolveStatus, setResolveStatus] = useState<string | null>(null);
+  const [resolution, setResolution] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { data: profiles } = useProfiles();
+  const { data: myEmployee } = useMyEmployee();
+
+  const { data: ticket, isLoading } = useQuery({
+    queryKey: ['ticket', id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('tickets')
+        .select('*, employees(name, location, department)')
+        .eq('id', id!)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user && !!id,
+  });
+
+  const { data: comments } = useQuery({
+    queryKey: ['ticket-comments', id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('ticket_comments')
+        .select('*')
+        .eq('ticket_id', id!)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user && !!id,
+  });
+
+  useEffect(() => {
+    if (!id) return;
+
+    // Keep the thread live while several technicians work the ticket
+    const channel = supabase
+      .channel(`ticket-comments-${id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'ticket_comments',
+          filter: `ticket_id=eq.${id}`,
+        },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ['ticket-comments', id] });
+          queryClient.invalidateQueries({ queryKey: ['ticket', id] });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [id, queryClient]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  // Reporters can only comment; the database refuses their other changes
+  const canEdit = !!ticket && (isAdmin || ticket.assignee_id === user.id);
+  const canComment = canEdit || (!!ticket && (
+    ticket.created_by === user.id || (!!myEmployee && ticket.employee_id === myEmployee.id)
+  ));
+
+  const getName = (userId: string | null) =>
+    getProfileName(profiles?.find(p => p.id === userId));
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['ticket', id] });
+    queryClient.invalidateQueries({ queryKey: ['ticket-comments', id] });
+    queryClient.invalidateQueries({ queryKey: ['tickets'] });
+  };
+
+  const updateTicket = async (changes: TablesUpdate<'tickets'>, message: string) => {
+    setIsSubmitting(true);
+    try {
+      const { error } = await supabase.from('tickets').update(changes).eq('id', id!);
+      if (error) throw error;
+      toast.success(message);
+      refresh();
+      return true;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'An error occurred');
+      return false;
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleStatusChange = (status: string) => {
+    // Closing a ticket needs a resolution note
+    if (isTicketClosed(status) && !ticket?.resolution) {
+      setResolveStatus(status);
+      return;
+    }
+    updateTicket({ status }, `Status set to ${getTicketStatusLabel(status)}`);
+  };
+
+  const handleResolve = async () => {
+    if (!resolveStatus) return;
+    if (!resolution.trim()) {
+      toast.error('Describe how the issue was resolved');
+      return;
+    }
+
+    const updated = await updateTicket(
+      { status: resolveStatus, resolution: resolution.trim() },
+      `Ticket ${getTicketStatusLabel(resolveStatus).toLowerCase()}`
+    );
+    if (updated) {
+      setResolveStatus(null);
+      setResolution('');
+    }
+  };
+
+  const handleComment = async () => {
+    if (!comment.trim()) return;
+
+    setIsSubmitting(true);
+    try {
+      const { error } = await supabase.from('ticket_comments').insert({
+        ticket_id: id!,
+        author_id: user.id,
+        body: comment.trim(),
+      });
+
+      if (error) throw error;
+      setComment('');
+      queryClient.invalidateQueries({ queryKey: ['ticket-comments', id] });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'An error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <header className="border-b border-border bg-card animate-fade-in shadow-md">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center gap-4">
+            <Button onClick={() => navigate('/tickets')} variant="ghost" size="icon" className="hover-scale">
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div className="flex items-center gap-2">
+              <LifeBuoy className="h-6 w-6 text-primary" />
+              <div>
+                <h1 className="text-2xl font-bold text-foreground">
+                  {ticket ? `${formatTicketNumber(ticket)} ${ticket.title}` : 'Ticket'}
+                </h1>
+                <p className="text-sm text-muted-foreground">
+                  {ticket?.created_at
+                    ? `Raised ${format(new Date(ticket.created_at), 'PPp')}${getName(ticket.created_by) ? ` by ${getName(ticket.created_by)}` : ''}`
+                    : 'Helpdesk ticket'}
+                </p>
+              </div>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 animate-fade-in-up flex-1">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : !ticket ? (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <p className="text-muted-foreground">Ticket not found</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-6 lg:grid-cols-3">
+            <div className="space-y-6 lg:col-span-2">
+              <Card>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <CardTitle>Details</CardTitle>
+                    <div className="flex gap-1">
+                      <Badge variant={getTicketPriorityVariant(ticket.priority)}>
+                        {getTicketPriorityLabel(ticket.priority)}
+                      </Badge>
+                      <Badge variant={getTicketStatusVariant(ticket.status)}>
+                        {getTicketStatusLabel(ticket.status)}
+                      </Badge>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <p className="text-sm font-medium text-muted-foreground">Employee</p>
+                      <p className="font-medium">
+                        {ticket.employees
+                          ? `${ticket.employees.name}${ticket.employees.location ? ` (${ticket.employees.location})` : ''}`
+                          : ticket.employee_name || '-'}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-sm font-medium text-muted-foreground">Device Serial</p>
+                      <p className="font-medium">{ticket.device_serial || '-'}</p>
+                    </div>
+                  </div>
+                  <div>
+                    <p className="text-sm font-medium text-muted-foreground">Description</p>
+                    <p className="whitespace-pre-wrap">{ticket.description || '-'}</p>
+                  </div>
+                  {ticket.resolution && (
+                    <div className="p-4 bg-primary/10 rounded-lg border border-primary/20">
+                      <p className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+                        <CheckCircle className="h-4 w-4" />
+                        Resolution
+                        {ticket.resolved_at && ` • ${format(new Date(ticket.resolved_at), 'PP')}`}
+                        {getName(ticket.resolved_by) && ` by ${getName(ticket.resolved_by)}`}
+                      </p>
+                      <p className="whitespace-pre-wrap">{ticket.resolution}</p>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <div className="flex items-center gap-2">
+                    <MessageSquare className="h-5 w-5 text-primary" />
+                    <CardTitle>Activity</CardTitle>
+                  </div>
+                  <CardDescription>Comments and changes, oldest first</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {!comments || comments.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No comments yet</p>
+                  ) : (
+                    <ol className="space-y-3">
+                      {comments.map(entry => (
+                        <li
+                          key={entry.id}
+                          className={entry.is_system
+                            ? 'text-sm text-muted-foreground'
+                            : 'p-3 rounded-lg border border-border/50'}
+                        >
+                          <p className="text-xs text-muted-foreground">
+                            {entry.author_name || 'Unknown'}
+                            {entry.created_at && ` • ${format(new Date(entry.created_at), 'PPp')}`}
+                          </p>
+                          <p className="whitespace-pre-wrap">{entry.body}</p>
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+
+                  {canComment && (
+                    <div className="space-y-2">
+                      <Textarea
+                        placeholder="Add a comment..."
+                        value={comment}
+                        onChange={(e) => setComment(e.target.value)}
+                      />
+                      <div className="flex justify-end">
+                        <Button onClick={handleComment} disabled={isSubmitting || !comment.trim()}>
+                          <Send className="h-4 w-4 mr-2" />
+                          Comment
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card className="h-fit">
+              <CardHeader>
+                <CardTitle>Manage</CardTitle>
+                {!canEdit && (
+                  <CardDescription>Only admins and the assignee can change this ticket</CardDescription>
+                )}
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label>Status</Label>
+                  <Select value={ticket.status} onValueChange={handleStatusChange} disabled={!canEdit || isSubmitting}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TICKET_STATUSES.map(status => (
+                        <SelectItem key={status.value} value={status.value}>
+                          {status.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Priority</Label>
+                  <Select
+                    value={ticket.priority}
+                    onValueChange={(priority) => updateTicket({ priority }, `Priority set to ${getTicketPriorityLabel(priority)}`)}
+                    disabled={!canEdit || isSubmitting}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TICKET_PRIORITIES.map(priority => (
+                        <SelectItem key={priority.value} value={priority.value}>
+                          {priority.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Assignee</Label>
+                  <Select
+                    value={ticket.assignee_id || UNASSIGNED}
+                    onValueChange={(value) => updateTicket(
+                      { assignee_id: value === UNASSIGNED ? null : value },
+                      value === UNASSIGNED ? 'Ticket unassigned' : `Assigned to ${getName(value)}`
+                    )}
+                    disabled={!canEdit || isSubmitting}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                      {profiles?.map(profile => (
+                        <SelectItem key={profile.id} value={profile.id}>
+                          {getProfileName(profile)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {isAdmin && ticket.assignee_id !== user.id && (
+                    <Button
+                      variant="link"
+                      className="px-0"
+                      onClick={() => updateTicket({ assignee_id: user.id }, 'Assigned to you')}
+                      disabled={isSubmitting}
+                    >
+                      Assign to me
+                    </Button>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </main>
+
+      {/* Resolve Dialog */}
+      <Dialog open={!!resolveStatus} onOpenChange={(open) => !open && setResolveStatus(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{resolveStatus === 'closed' ? 'Close' : 'Resolve'} Ticket</DialogTitle>
+            <DialogDescription>Record how the issue was resolved</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="resolution">Resolution</Label>
+            <Textarea
+              id="resolution"
+              rows={4}
+              value={resolution}
+              onChange={(e) => setResolution(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setResolveStatus(null)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button onClick={handleResolve} disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {resolveStatus === 'closed' ? 'Close Ticket' : 'Resolve'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default TicketDetails;
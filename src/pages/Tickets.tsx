@@ -0,0 +1,284 @@
+import { useState } from 'react';
+import { useNavigate, Navigate } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { useAuth } from '@/hooks/useAuth';
+import { useProfiles, getProfileName } from '@/hooks/useProfiles';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2, ArrowLeft, LifeBuoy, Search, Filter, Plus } from 'lucide-react';
+import { Footer } from '@/components/Footer';
+import { TicketForm } from '@/components/TicketForm';
+import {
+  TICKET_PRIORITIES,
+  TICKET_STATUSES,
+  formatTicketNumber,
+  getTicketPriorityLabel,
+  getTicketPriorityVariant,
+  getTicketStatusLabel,
+  getTicketStatusVariant,
+  isTicketClosed,
+} from '@/lib/tickets';
+import logo from '@/assets/logo.jpg';
+
+const Tickets = () => {
+  const { user, loading, isAdmin } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState('active');
+  const [priorityFilter, setPriorityFilter] = useState('all');
+  const [assigneeFilter, setAssigneeFilter] = useState('all');
+  const [isNewOpen, setIsNewOpen] = useState(false);
+
+  const { data: profiles } = useProfiles();
+
+  const { data: tickets, isLoading } = useQuery({
+    queryKey: ['tickets'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('tickets')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user,
+  });
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  const getAssigneeName = (assigneeId: string | null) =>
+    getProfileName(profiles?.find(p => p.id === assigneeId));
+
+  const term = searchTerm.toLowerCase();
+  const filteredTickets = tickets?.filter(ticket => {
+    if (statusFilter === 'active' && isTicketClosed(ticket.status)) return false;
+    if (statusFilter !== 'active' && statusFilter !== 'all' && ticket.status !== statusFilter) return false;
+    if (priorityFilter !== 'all' && ticket.priority !== priorityFilter) return false;
+    if (assigneeFilter === 'mine' && ticket.assignee_id !== user.id) return false;
+    if (assigneeFilter === 'unassigned' && ticket.assignee_id) return false;
+    if (!term) return true;
+    return (
+      ticket.title.toLowerCase().includes(term) ||
+      formatTicketNumber(ticket).includes(term) ||
+      ticket.employee_name?.toLowerCase().includes(term) ||
+      ticket.device_serial?.toLowerCase().includes(term)
+    );
+  });
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <header className="border-b border-border bg-card animate-fade-in shadow-md">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <img src={logo} alt="Logo" className="h-10 w-auto object-contain" />
+              <div className="flex items-center gap-2">
+                <LifeBuoy className="h-6 w-6 text-primary" />
+                <div>
+                  <h1 className="text-2xl font-bold text-foreground">Helpdesk</h1>
+                  <p className="text-sm text-muted-foreground">IT support tickets</p>
+                </div>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button onClick={() => setIsNewOpen(true)} className="hover-scale">
+                <Plus className="h-4 w-4 mr-2" />
+                New Ticket
+              </Button>
+              <Button onClick={() => navigate('/dashboard')} variant="outline" className="hover-scale">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Dashboard
+              </Button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 animate-fade-in-up flex-1 space-y-4">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <Filter className="h-5 w-5 text-primary" />
+              <CardTitle className="text-foreground">Search & Filter</CardTitle>
+            </div>
+            <CardDescription>Find tickets by number, title, employee or device serial</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-col md:flex-row gap-4">
+              <div className="flex-1 relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search tickets..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-9"
+                />
+              </div>
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger className="w-full md:w-[180px]">
+                  <SelectValue placeholder="Status" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="active">Active</SelectItem>
+                  <SelectItem value="all">All Statuses</SelectItem>
+                  {TICKET_STATUSES.map(status => (
+                    <SelectItem key={status.value} value={status.value}>
+                      {status.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={priorityFilter} onValueChange={setPriorityFilter}>
+                <SelectTrigger className="w-full md:w-[180px]">
+                  <SelectValue placeholder="Priority" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Priorities</SelectItem>
+                  {TICKET_PRIORITIES.map(priority => (
+                    <SelectItem key={priority.value} value={priority.value}>
+                      {priority.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={assigneeFilter} onValueChange={setAssigneeFilter}>
+                <SelectTrigger className="w-full md:w-[180px]">
+                  <SelectValue placeholder="Assignee" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Anyone</SelectItem>
+                  <SelectItem value="mine">Assigned to me</SelectItem>
+                  <SelectItem value="unassigned">Unassigned</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="p-0">
+            {isLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-primary" />
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Ticket</TableHead>
+                      <TableHead>Employee</TableHead>
+                      <TableHead>Device</TableHead>
+                      <TableHead>Priority</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Assignee</TableHead>
+                      <TableHead>Raised</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredTickets?.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                          No tickets found
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      filteredTickets?.map(ticket => (
+                        <TableRow
+                          key={ticket.id}
+                          className="cursor-pointer transition-all duration-200 hover:bg-accent/50"
+                          onClick={() => navigate(`/tickets/${ticket.id}`)}
+                        >
+                          <TableCell className="font-medium">
+                            <span className="text-muted-foreground mr-2">{formatTicketNumber(ticket)}</span>
+                            {ticket.title}
+                          </TableCell>
+                          <TableCell>{ticket.employee_name || '-'}</TableCell>
+                          <TableCell>{ticket.device_serial || '-'}</TableCell>
+                          <TableCell>
+                            <Badge variant={getTicketPriorityVariant(ticket.priority)}>
+                              {getTicketPriorityLabel(ticket.priority)}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={getTicketStatusVariant(ticket.status)}>
+                              {getTicketStatusLabel(ticket.status)}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>{getAssigneeName(ticket.assignee_id) || '-'}</TableCell>
+                          <TableCell>{ticket.created_at ? format(new Date(ticket.created_at), 'PP') : '-'}</TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <Dialog open={isNewOpen} onOpenChange={setIsNewOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>New Ticket</DialogTitle>
+            <DialogDescription>
+              {isAdmin ? 'Raise a helpdesk ticket for any employee' : 'Report a problem with your equipment'}
+            </DialogDescription>
+          </DialogHeader>
+          <TicketForm
+            isAdmin={isAdmin}
+            onSuccess={(ticketId) => {
+              setIsNewOpen(false);
+              queryClient.invalidateQueries({ queryKey: ['tickets'] });
+              navigate(`/tickets/${ticketId}`);
+            }}
+            onCancel={() => setIsNewOpen(false)}
+          />
+        </DialogContent>
+      </Dialog>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default Tickets;
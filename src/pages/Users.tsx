@@ -0,0 +1,502 @@
+import { useState } from 'react';
+import { useNavigate, Navigate } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { useAuth } from '@/hooks/useAuth';
+import { useProfiles, getProfileName, type Profile } from '@/hooks/useProfiles';
+import { useLocations } from '@/hooks/useLocations';
+import { useRoleAuditLog, useUserRoles } from '@/hooks/useUserRoles';
+import { useInvitations } from '@/hooks/useInvitations';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Loader2, ArrowLeft, UserCog, Search, History, Plus, MapPin, X, Mail, Copy } from 'lucide-react';
+import { Footer } from '@/components/Footer';
+import { GrantRoleDialog } from '@/components/GrantRoleDialog';
+import { InviteUserDialog } from '@/components/InviteUserDialog';
+import { SignupDomainsCard } from '@/components/SignupDomainsCard';
+import { APP_ROLES, getRoleLabel, isLocationScopedRole, type AppRole } from '@/lib/roles';
+import {
+  getInvitationLink,
+  getInvitationStatus,
+  getInvitationStatusLabel,
+  getInvitationStatusVariant,
+  type Invitation,
+} from '@/lib/invitations';
+import logo from '@/assets/logo.jpg';
+
+interface RoleTarget {
+  profile: Profile;
+  role?: AppRole;
+  locationIds?: string[];
+}
+
+const Users = () => {
+  const { user, loading, isAdmin } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [search, setSearch] = useState('');
+  const [grantTarget, setGrantTarget] = useState<RoleTarget | null>(null);
+  const [revokeTarget, setRevokeTarget] = useState<Required<Pick<RoleTarget, 'profile' | 'role'>> | null>(null);
+  const [inviteOpen, setInviteOpen] = useState(false);
+  const [revokeInvitation, setRevokeInvitation] = useState<Invitation | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const { data: profiles, isLoading } = useProfiles();
+  const { data: locations } = useLocations();
+  const { data: rolesByUser, isLoading: rolesLoading } = useUserRoles(isAdmin);
+  const { data: auditLog, isLoading: auditLoading } = useRoleAuditLog(isAdmin);
+  const { data: invitations, isLoading: invitationsLoading } = useInvitations(isAdmin);
+
+  const getRoles = (profile: Profile) => (rolesByUser?.get(profile.id) || []).map(grant => grant.role);
+  const getLocationNames = (ids: string[]) =>
+    (locations || []).filter(l => ids.includes(l.id)).map(l => l.name).join(', ');
+
+  const adminCount = [...(rolesByUser?.values() || [])].filter(grants => grants.some(g => g.role === 'admin')).length;
+  const query = search.trim().toLowerCase();
+  const filteredProfiles = (profiles || []).filter(profile =>
+    !query
+      || profile.email.toLowerCase().includes(query)
+      || (profile.full_name || '').toLowerCase().includes(query)
+  );
+
+  const isLastAdmin = (profile: Profile) =>
+    adminCount <= 1 && getRoles(profile).includes('admin');
+
+  const handleRevoke = async () => {
+    if (!revokeTarget) return;
+    const { profile, role } = revokeTarget;
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from('user_roles')
+        .delete()
+        .eq('user_id', profile.id)
+        .eq('role', role);
+
+      if (error) throw error;
+      toast.success(`${getRoleLabel(role)} role revoked from ${getProfileName(profile)}`);
+      queryClient.invalidateQueries({ queryKey: ['user-roles'] });
+      queryClient.invalidateQueries({ queryKey: ['role-audit-log'] });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'An error occurred');
+    } finally {
+      setIsSaving(false);
+      setRevokeTarget(null);
+    }
+  };
+
+  const handleRevokeInvitation = async () => {
+    if (!revokeInvitation) return;
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from('user_invitations')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', revokeInvitation.id);
+
+      if (error) throw error;
+      toast.success(`Invitation for ${revokeInvitation.email} revoked`);
+      queryClient.invalidateQueries({ queryKey: ['invitations'] });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'An error occurred');
+    } finally {
+      setIsSaving(false);
+      setRevokeInvitation(null);
+    }
+  };
+
+  const copyInvitationLink = async (invitation: Invitation) => {
+    try {
+      await navigator.clipboard.writeText(getInvitationLink(invitation.token));
+      toast.success('Invitation link copied');
+    } catch {
+      toast.error('Could not copy the link');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  if (!isAdmin) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <header className="border-b border-border bg-card animate-fade-in shadow-md">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <img src={logo} alt="Logo" className="h-10 w-auto object-contain" />
+              <div className="flex items-center gap-2">
+                <UserCog className="h-6 w-6 text-primary" />
+                <div>
+                  <h1 className="text-2xl font-bold text-foreground">Users</h1>
+                  <p className="text-sm text-muted-foreground">Manage user roles and invitations</p>
+                </div>
+              </div>
+            </div>
+            <Button onClick={() => navigate('/dashboard')} variant="outline" className="hover-scale">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Dashboard
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 animate-fade-in-up flex-1 space-y-6">
+        <Card>
+          <CardHeader>
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+              <div>
+                <CardTitle className="text-foreground">Users & Roles</CardTitle>
+                <CardDescription>
+                  Viewers, technicians and location managers only see the locations chosen for them
+                </CardDescription>
+              </div>
+              <div className="relative md:w-72">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search users..."
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  className="pl-9"
+                />
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="p-0">
+            {isLoading || rolesLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-primary" />
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Email</TableHead>
+                      <TableHead>Roles</TableHead>
+                      <TableHead>Joined</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredProfiles.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                          No users found
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      filteredProfiles.map(profile => {
+                        const grants = rolesByUser?.get(profile.id) || [];
+                        return (
+                          <TableRow key={profile.id}>
+                            <TableCell className="font-medium">
+                              {profile.full_name || '-'}
+                              {profile.id === user.id && (
+                                <span className="text-sm text-muted-foreground"> (you)</span>
+                              )}
+                            </TableCell>
+                            <TableCell>{profile.email}</TableCell>
+                            <TableCell>
+                              <div className="space-y-1">
+                                {grants.length === 0 ? (
+                                  <span className="text-sm text-muted-foreground">No roles</span>
+                                ) : (
+                                  grants.map(grant => {
+                                    const locked = grant.role === 'admin' && isLastAdmin(profile);
+                                    return (
+                                      <div key={grant.role} className="flex items-center gap-1">
+                                        <Badge variant={grant.role === 'admin' ? 'default' : 'secondary'}>
+                                          {getRoleLabel(grant.role)}
+                                        </Badge>
+                                        {isLocationScopedRole(grant.role) && (
+                                          <Button
+                                            size="sm"
+                                            variant="ghost"
+                                            className="h-6 px-2 text-xs"
+                                            title="Change locations"
+                                            onClick={() => setGrantTarget({ profile, role: grant.role, locationIds: grant.locationIds })}
+                                          >
+                                            <MapPin className="h-3 w-3 mr-1" />
+                                            {getLocationNames(grant.locationIds) || 'No locations'}
+                                          </Button>
+                                        )}
+                                        <Button
+                                          size="sm"
+                                          variant="ghost"
+                                          className="h-6 w-6 p-0"
+                                          onClick={() => setRevokeTarget({ profile, role: grant.role })}
+                                          disabled={locked}
+                                          title={locked ? 'The last remaining admin cannot be removed' : `Revoke ${getRoleLabel(grant.role)}`}
+                                        >
+                                          <X className="h-3 w-3" />
+                                        </Button>
+                                      </div>
+                                    );
+                                  })
+                                )}
+                              </div>
+                            </TableCell>
+                            <TableCell>{profile.created_at ? format(new Date(profile.created_at), 'PP') : '-'}</TableCell>
+                            <TableCell className="text-right">
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => setGrantTarget({ profile })}
+                                disabled={grants.length >= APP_ROLES.length}
+                              >
+                                <Plus className="h-4 w-4 mr-2" />
+                                Grant Role
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+              <div>
+                <div className="flex items-center gap-2">
+                  <Mail className="h-5 w-5 text-primary" />
+                  <CardTitle className="text-foreground">Invitations</CardTitle>
+                </div>
+                <CardDescription>The invited role is granted when they sign up with the link</CardDescription>
+              </div>
+              <Button onClick={() => setInviteOpen(true)} className="hover-scale">
+                <Plus className="h-4 w-4 mr-2" />
+                Invite User
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="p-0">
+            {invitationsLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-primary" />
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Email</TableHead>
+                      <TableHead>Role</TableHead>
+                      <TableHead>Invited By</TableHead>
+                      <TableHead>Expires</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {!invitations || invitations.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                          No invitations sent yet
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      invitations.map(invitation => {
+                        const status = getInvitationStatus(invitation);
+                        return (
+                          <TableRow key={invitation.id}>
+                            <TableCell className="font-medium">{invitation.email}</TableCell>
+                            <TableCell>
+                              <Badge variant={invitation.role === 'admin' ? 'default' : 'secondary'}>
+                                {getRoleLabel(invitation.role)}
+                              </Badge>
+                              {invitation.location_ids.length > 0 && (
+                                <span className="text-sm text-muted-foreground ml-2">
+                                  {getLocationNames(invitation.location_ids)}
+                                </span>
+                              )}
+                            </TableCell>
+                            <TableCell>{invitation.invited_by_name || '-'}</TableCell>
+                            <TableCell>{format(new Date(invitation.expires_at), 'PPp')}</TableCell>
+                            <TableCell>
+                              <Badge variant={getInvitationStatusVariant(status)}>
+                                {getInvitationStatusLabel(status)}
+                              </Badge>
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {status === 'pending' && (
+                                <div className="flex justify-end gap-2">
+                                  <Button size="sm" variant="outline" onClick={() => copyInvitationLink(invitation)}>
+                                    <Copy className="h-4 w-4 mr-2" />
+                                    Copy Link
+                                  </Button>
+                                  <Button size="sm" variant="outline" onClick={() => setRevokeInvitation(invitation)}>
+                                    <X className="h-4 w-4 mr-2" />
+                                    Revoke
+                                  </Button>
+                                </div>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <SignupDomainsCard />
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <History className="h-5 w-5 text-primary" />
+              <CardTitle className="text-foreground">Role History</CardTitle>
+            </div>
+            <CardDescription>The latest 100 role grants and revocations</CardDescription>
+          </CardHeader>
+          <CardContent className="p-0">
+            {auditLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-primary" />
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>When</TableHead>
+                      <TableHead>User</TableHead>
+                      <TableHead>Change</TableHead>
+                      <TableHead>Changed By</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {!auditLog || auditLog.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={4} className="text-center py-8 text-muted-foreground">
+                          No role changes recorded yet
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      auditLog.map(entry => (
+                        <TableRow key={entry.id}>
+                          <TableCell>{format(new Date(entry.created_at), 'PPp')}</TableCell>
+                          <TableCell>{entry.user_name || entry.user_email || 'Deleted user'}</TableCell>
+                          <TableCell>
+                            <Badge variant={entry.action === 'GRANT' ? 'default' : 'destructive'}>
+                              {entry.action === 'GRANT' ? 'Granted' : 'Revoked'} {getRoleLabel(entry.role)}
+                            </Badge>
+                            {entry.location_name && (
+                              <span className="text-sm text-muted-foreground ml-2">at {entry.location_name}</span>
+                            )}
+                          </TableCell>
+                          <TableCell>{entry.changed_by_name || 'System'}</TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      {grantTarget && (
+        <GrantRoleDialog
+          open={!!grantTarget}
+          onOpenChange={(open) => !open && setGrantTarget(null)}
+          profile={grantTarget.profile}
+          heldRoles={getRoles(grantTarget.profile)}
+          editRole={grantTarget.role}
+          initialLocationIds={grantTarget.locationIds}
+        />
+      )}
+
+      {inviteOpen && <InviteUserDialog open={inviteOpen} onOpenChange={setInviteOpen} />}
+
+      <AlertDialog open={!!revokeInvitation} onOpenChange={(open) => !open && !isSaving && setRevokeInvitation(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke invitation?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The sign-up link sent to {revokeInvitation?.email} will stop working.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isSaving}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRevokeInvitation} disabled={isSaving} className="bg-destructive">
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Revoke Invitation
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={!!revokeTarget} onOpenChange={(open) => !open && !isSaving && setRevokeTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke {revokeTarget && getRoleLabel(revokeTarget.role)} role?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {getProfileName(revokeTarget?.profile)} will lose the {revokeTarget && getRoleLabel(revokeTarget.role)} role.
+              {revokeTarget?.role === 'admin' && revokeTarget.profile.id === user.id
+                && ' You are removing your own admin access and will lose access to this page.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isSaving}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRevoke} disabled={isSaving} className="bg-destructive">
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Revoke Role
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default Users;
@@ -0,0 +1,268 @@
+import { useState } from 'react';
+import { useNavigate, useSearchParams, Navigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import * as XLSX from 'xlsx';
+import { useAuth } from '@/hooks/useAuth';
+import { useLocations } from '@/hooks/useLocations';
+import { useWarrantyReport } from '@/hooks/useWarrantyReport';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Loader2, ArrowLeft, ShieldCheck, Search, Filter, FileSpreadsheet } from 'lucide-react';
+import { Footer } from '@/components/Footer';
+import {
+  WARRANTY_DEVICE_TYPES,
+  WARRANTY_STATUS_LABELS,
+  formatCost,
+  getWarrantyDeviceTypeLabel,
+  getWarrantyStatusVariant,
+  type WarrantyStatus,
+} from '@/lib/warranty';
+import logo from '@/assets/logo.jpg';
+
+const WarrantyReport = () => {
+  const { user, loading } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState(searchParams.get('status') || 'all');
+  const [locationFilter, setLocationFilter] = useState('all');
+  const [typeFilter, setTypeFilter] = useState('all');
+
+  const { data: items, isLoading } = useWarrantyReport();
+  const { data: locations } = useLocations();
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  const term = searchTerm.toLowerCase();
+  const filteredItems = items?.filter(item => {
+    if (statusFilter !== 'all' && item.status !== statusFilter) return false;
+    if (locationFilter !== 'all' && item.location !== locationFilter) return false;
+    if (typeFilter !== 'all' && item.deviceType !== typeFilter) return false;
+    if (!term) return true;
+    return (
+      item.label.toLowerCase().includes(term) ||
+      item.serial?.toLowerCase().includes(term) ||
+      item.holder?.toLowerCase().includes(term) ||
+      item.vendor?.toLowerCase().includes(term) ||
+      item.purchaseOrder?.toLowerCase().includes(term)
+    );
+  }) || [];
+
+  const exportToExcel = () => {
+    const data = filteredItems.map(item => ({
+      'Device': item.label,
+      'Type': getWarrantyDeviceTypeLabel(item.deviceType),
+      'Serial Number': item.serial || '',
+      'Holder': item.holder || '',
+      'Location': item.location || '',
+      'Vendor': item.vendor || '',
+      'Purchase Order': item.purchaseOrder || '',
+      'Purchase Date': item.purchaseDate ? new Date(item.purchaseDate).toLocaleDateString() : '',
+      'Cost': item.cost ?? '',
+      'Warranty End': item.warrantyEnd ? new Date(item.warrantyEnd).toLocaleDateString() : '',
+      'Status': WARRANTY_STATUS_LABELS[item.status],
+    }));
+
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(data), 'Warranty');
+    XLSX.writeFile(workbook, `warranty_${new Date().toISOString().split('T')[0]}.xlsx`);
+
+    toast.success('Exported to Excel');
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <header className="border-b border-border bg-card animate-fade-in shadow-md">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <img src={logo} alt="Logo" className="h-10 w-auto object-contain" />
+              <div className="flex items-center gap-2">
+                <ShieldCheck className="h-6 w-6 text-primary" />
+                <div>
+                  <h1 className="text-2xl font-bold text-foreground">Warranty Report</h1>
+                  <p className="text-sm text-muted-foreground">Purchase and warranty position of every device</p>
+                </div>
+              </div>
+            </div>
+            <Button onClick={() => navigate('/dashboard')} variant="outline" className="hover-scale">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Dashboard
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 animate-fade-in-up flex-1 space-y-4">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Filter className="h-5 w-5 text-primary" />
+                <CardTitle className="text-foreground">Search & Filter</CardTitle>
+              </div>
+              <Button onClick={exportToExcel} variant="outline" disabled={filteredItems.length === 0}>
+                <FileSpreadsheet className="h-4 w-4 mr-2" />
+                Export Excel
+              </Button>
+            </div>
+            <CardDescription>Find devices by name, serial, holder, vendor or purchase order</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-col md:flex-row gap-4">
+              <div className="flex-1 relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search devices..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-9"
+                />
+              </div>
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger className="w-full md:w-[180px]">
+                  <SelectValue placeholder="Status" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Statuses</SelectItem>
+                  {(Object.keys(WARRANTY_STATUS_LABELS) as WarrantyStatus[]).map(status => (
+                    <SelectItem key={status} value={status}>
+                      {WARRANTY_STATUS_LABELS[status]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={locationFilter} onValueChange={setLocationFilter}>
+                <SelectTrigger className="w-full md:w-[180px]">
+                  <SelectValue placeholder="Location" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Locations</SelectItem>
+                  {locations?.map(loc => (
+                    <SelectItem key={loc.id} value={loc.name}>
+                      {loc.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={typeFilter} onValueChange={setTypeFilter}>
+                <SelectTrigger className="w-full md:w-[180px]">
+                  <SelectValue placeholder="Type" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Types</SelectItem>
+                  {WARRANTY_DEVICE_TYPES.map(type => (
+                    <SelectItem key={type.value} value={type.value}>
+                      {type.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="p-0">
+            {isLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-primary" />
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Device</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Holder</TableHead>
+                      <TableHead>Location</TableHead>
+                      <TableHead>Vendor</TableHead>
+                      <TableHead>Purchase Order</TableHead>
+                      <TableHead>Purchased</TableHead>
+                      <TableHead className="text-right">Cost</TableHead>
+                      <TableHead>Warranty End</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredItems.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={10} className="text-center py-8 text-muted-foreground">
+                          No devices found
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      filteredItems.map(item => (
+                        <TableRow key={item.key}>
+                          <TableCell className="font-medium">
+                            {item.assetId ? (
+                              <button
+                                type="button"
+                                className="hover:underline text-left"
+                                onClick={() => navigate(`/assets/${item.assetId}`)}
+                              >
+                                {item.label}
+                              </button>
+                            ) : (
+                              item.label
+                            )}
+                          </TableCell>
+                          <TableCell>{getWarrantyDeviceTypeLabel(item.deviceType)}</TableCell>
+                          <TableCell>{item.holder || '-'}</TableCell>
+                          <TableCell>{item.location || '-'}</TableCell>
+                          <TableCell>{item.vendor || '-'}</TableCell>
+                          <TableCell>{item.purchaseOrder || '-'}</TableCell>
+                          <TableCell>{item.purchaseDate ? format(new Date(item.purchaseDate), 'PP') : '-'}</TableCell>
+                          <TableCell className="text-right">{formatCost(item.cost)}</TableCell>
+                          <TableCell>{item.warrantyEnd ? format(new Date(item.warrantyEnd), 'PP') : '-'}</TableCell>
+                          <TableCell>
+                            <Badge variant={getWarrantyStatusVariant(item.status)}>
+                              {WARRANTY_STATUS_LABELS[item.status]}
+                            </Badge>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default WarrantyReport;
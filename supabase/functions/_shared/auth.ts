@@ -0,0 +1,18 @@
+import type { SupabaseClient, User } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+
+// The signed-in user who called the function, from the JWT in the
+// Authorization header. Null for anonymous calls and invalid tokens.
+export const getCaller = async (req: Request, supabase: SupabaseClient): Promise<User | null> => {
+  const token = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "");
+  if (!token) return null;
+
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+  if (error) return null;
+  return user;
+};
+
+export const isAdmin = async (supabase: SupabaseClient, userId: string) => {
+  const { data, error } = await supabase.rpc("has_role", { _user_id: userId, _role: "admin" });
+  if (error) throw error;
+  return data === true;
+};
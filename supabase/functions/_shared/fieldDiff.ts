@@ -0,0 +1,150 @@
+// Structured diffs for employee fields, shared by the Activity Log and the
+// update notification email. Lists of objects (peripherals, devices) are
+// compared item by item instead of as one long JSON string.
+
+export interface ValueChange {
+  field: string;
+  oldValue: string;
+  newValue: string;
+}
+
+export interface ListItemChange {
+  kind: "added" | "removed" | "changed";
+  label: string;
+  changes: ValueChange[];
+}
+
+export type FieldDiff =
+  | { kind: "value"; oldValue: string; newValue: string }
+  | { kind: "list"; items: ListItemChange[] }
+  | { kind: "object"; changes: ValueChange[] };
+
+type Item = Record<string, unknown>;
+
+// Fields tried in turn to pair up an old list item with its new version
+const IDENTITY_FIELDS = ["id", "serial", "serial_number", "name"];
+
+const isItem = (value: unknown): value is Item =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// The audit log stores JSON columns as text, so parse anything that looks like JSON
+export const parseJsonValue = (value: unknown): unknown => {
+  if (typeof value !== "string") return value;
+  const trimmed = value.trim();
+  if (!trimmed.startsWith("[") && !trimmed.startsWith("{")) return value;
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    return value;
+  }
+};
+
+export const formatDiffValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === "") return "";
+  if (value === true || value === "true") return "Yes";
+  if (value === false || value === "false") return "No";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+const getKey = (item: Item, field: string) => {
+  const value = formatDiffValue(item[field]).trim().toLowerCase();
+  return value || null;
+};
+
+export const getItemLabel = (item: unknown): string => {
+  if (!isItem(item)) return formatDiffValue(item) || "Item";
+  const type = formatDiffValue(item.type ?? item.asset_type);
+  const name = formatDiffValue(item.name) || formatDiffValue(item.model);
+  return [type, name].filter(Boolean).join(": ") || "Item";
+};
+
+const diffItems = (oldItem: Item, newItem: Item): ValueChange[] =>
+  [...new Set([...Object.keys(oldItem), ...Object.keys(newItem)])]
+    .filter((field) => field !== "id" && field !== "key")
+    .map((field) => ({
+      field,
+      oldValue: formatDiffValue(oldItem[field]),
+      newValue: formatDiffValue(newItem[field]),
+    }))
+    .filter((change) => change.oldValue !== change.newValue);
+
+// Fields that identify an item already appear in its label
+const LABEL_FIELDS = ["id", "key", "name", "type", "asset_type"];
+
+const describeItem = (item: unknown): ValueChange[] =>
+  isItem(item)
+    ? Object.entries(item)
+      .filter(([field, value]) => !LABEL_FIELDS.includes(field) && formatDiffValue(value))
+      .map(([field, value]) => ({ field, oldValue: "", newValue: formatDiffValue(value) }))
+    : [];
+
+export const diffLists = (oldList: unknown[], newList: unknown[]): ListItemChange[] => {
+  const unmatchedOld = [...oldList];
+  const unmatchedNew = [...newList];
+  const result: ListItemChange[] = [];
+
+  for (const field of IDENTITY_FIELDS) {
+    for (const newItem of [...unmatchedNew]) {
+      if (!isItem(newItem)) continue;
+      const key = getKey(newItem, field);
+      if (!key) continue;
+      const oldIndex = unmatchedOld.findIndex((oldItem) => isItem(oldItem) && getKey(oldItem, field) === key);
+      if (oldIndex === -1) continue;
+
+      const oldItem = unmatchedOld.splice(oldIndex, 1)[0] as Item;
+      unmatchedNew.splice(unmatchedNew.indexOf(newItem), 1);
+      const changes = diffItems(oldItem, newItem);
+      if (changes.length > 0) {
+        result.push({ kind: "changed", label: getItemLabel(oldItem), changes });
+      }
+    }
+  }
+
+  // Plain values (or items with nothing to pair on) only match when identical
+  for (const newItem of [...unmatchedNew]) {
+    const oldIndex = unmatchedOld.findIndex((oldItem) => JSON.stringify(oldItem) === JSON.stringify(newItem));
+    if (oldIndex === -1) continue;
+    unmatchedOld.splice(oldIndex, 1);
+    unmatchedNew.splice(unmatchedNew.indexOf(newItem), 1);
+  }
+
+  return [
+    ...unmatchedOld.map((item): ListItemChange => ({ kind: "removed", label: getItemLabel(item), changes: describeItem(item) })),
+    ...unmatchedNew.map((item): ListItemChange => ({ kind: "added", label: getItemLabel(item), changes: describeItem(item) })),
+    ...result,
+  ];
+};
+
+// Returns null when nothing actually changed
+export const diffFieldValues = (oldRaw: unknown, newRaw: unknown): FieldDiff | null => {
+  const oldValue = parseJsonValue(oldRaw);
+  const newValue = parseJsonValue(newRaw);
+
+  if ((Array.isArray(oldValue) || oldValue == null) && (Array.isArray(newValue) || newValue == null) && (oldValue || newValue)) {
+    const items = diffLists((oldValue as unknown[]) || [], (newValue as unknown[]) || []);
+    return items.length > 0 ? { kind: "list", items } : null;
+  }
+
+  if ((isItem(oldValue) || oldValue == null) && (isItem(newValue) || newValue == null) && (oldValue || newValue)) {
+    const changes = diffItems((oldValue as Item) || {}, (newValue as Item) || {});
+    return changes.length > 0 ? { kind: "object", changes } : null;
+  }
+
+  const oldText = formatDiffValue(oldValue);
+  const newText = formatDiffValue(newValue);
+  return oldText === newText ? null : { kind: "value", oldValue: oldText, newValue: newText };
+};
+
+// One line per item, e.g. "Changed Monitor: Dell (serial ABC → XYZ)"
+export const describeListItemChange = (item: ListItemChange): string => {
+  const verb = item.kind === "added" ? "Added" : item.kind === "removed" ? "Removed" : "Changed";
+  const details = item.changes
+    .map((change) =>
+      item.kind === "changed"
+        ? `${change.field.replace(/_/g, " ")} ${change.oldValue || "not set"} → ${change.newValue || "not set"}`
+        : `${change.field.replace(/_/g, " ")} ${change.newValue}`
+    )
+    .join(", ");
+  return details ? `${verb} ${item.label} (${details})` : `${verb} ${item.label}`;
+};
@@ -0,0 +1,193 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { Resend } from "https://esm.sh/resend@4.0.0";
+import { getCaller, isAdmin } from "../_shared/auth.ts";
+import { describeListItemChange, diffFieldValues } from "../_shared/fieldDiff.ts";
+import { escapeHtml } from "../_shared/html.ts";
+
+const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+interface ChangeRequestNotificationRequest {
+  requestId: string;
+}
+
+// Tells the requester that their change request was rejected, and why. Only
+// the requester or an admin can ask, and each rejection is sent once.
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { requestId }: ChangeRequestNotificationRequest = await req.json();
+
+    console.log("Processing change request notification for:", requestId);
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const caller = await getCaller(req, supabase);
+    if (!caller) {
+      return new Response(JSON.stringify({ error: "Not authenticated" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      });
+    }
+
+    const { data: request, error: requestError } = await supabase
+      .from("employee_change_requests")
+      .select("status, changes, requested_by, reviewed_by_name, review_comment, notified_at, employees(name)")
+      .eq("id", requestId)
+      .single();
+
+    if (requestError || !request) {
+      console.error("Error fetching change request:", requestError);
+      throw new Error("Change request not found");
+    }
+
+    if (caller.id !== request.requested_by && !(await isAdmin(supabase, caller.id))) {
+      return new Response(JSON.stringify({ error: "Not allowed" }), {
+        status: 403,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      });
+    }
+
+    // Only rejections not yet sent go out, so the endpoint can't be used to spam requesters
+    if (request.status !== "rejected" || request.notified_at) {
+      return new Response(
+        JSON.stringify({ message: "Nothing to send for this request" }),
+        {
+          status: 200,
+          headers: { "Content-Type": "application/json", ...corsHeaders },
+        }
+      );
+    }
+
+    const { data: requester, error: requesterError } = await supabase
+      .from("profiles")
+      .select("email, full_name")
+      .eq("id", request.requested_by)
+      .single();
+
+    if (requesterError || !requester) {
+      console.error("Error fetching requester:", requesterError);
+      throw new Error("Failed to fetch requester email");
+    }
+
+    const employeeName = (request.employees as { name: string } | null)?.name || "an employee";
+    const changes = request.changes as Record<string, { old: string | null; new: string | null }>;
+
+    const changesHtml = Object.entries(changes)
+      .map(([field, change]) => {
+        const diff = diffFieldValues(change.old, change.new);
+        if (!diff) return "";
+
+        const value = diff.kind === "value"
+          ? `${escapeHtml(diff.oldValue || "Not set")} → ${escapeHtml(diff.newValue || "Not set")}`
+          : `<ul style="margin: 0; padding-left: 18px;">${
+            (diff.kind === "list"
+              ? diff.items.map(describeListItemChange)
+              : diff.changes.map((c) => `${c.field.replace(/_/g, " ")}: ${c.oldValue || "not set"} → ${c.newValue || "not set"}`))
+              .map((line) => `<li>${escapeHtml(line)}</li>`)
+              .join("")
+          }</ul>`;
+
+        return `
+        <tr>
+          <td style="padding: 12px; border: 1px solid #e5e7eb; font-weight: 500;">${escapeHtml(field.replace(/_/g, " "))}</td>
+          <td style="padding: 12px; border: 1px solid #e5e7eb;">${value}</td>
+        </tr>
+      `;
+      })
+      .join("");
+
+    const emailHtml = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #1f2937; border-bottom: 2px solid #ef4444; padding-bottom: 10px;">
+          Change Request Rejected
+        </h2>
+
+        <p style="color: #374151;">
+          Hi ${escapeHtml(requester.full_name || requester.email)}, your requested changes to
+          <strong>${escapeHtml(employeeName)}</strong> were not applied.
+        </p>
+
+        <div style="background-color: #fef2f2; padding: 15px; border-radius: 5px; margin: 20px 0;">
+          <h3 style="margin-top: 0; color: #374151;">Reviewer Comment</h3>
+          <p style="margin: 5px 0;">${escapeHtml(request.review_comment || "")}</p>
+          <p style="margin: 5px 0; color: #6b7280;">— ${escapeHtml(request.reviewed_by_name || "An admin")}</p>
+        </div>
+
+        <h3 style="color: #374151;">Requested Changes</h3>
+        <table style="width: 100%; border-collapse: collapse; margin: 20px 0;">
+          <tbody>
+            ${changesHtml}
+          </tbody>
+        </table>
+
+        <p style="color: #6b7280; font-size: 12px; margin-top: 30px; padding-top: 20px; border-top: 1px solid #e5e7eb;">
+          This is an automated notification from the Office Support Dashboard.
+        </p>
+      </div>
+    `;
+
+    // Claimed before sending, so calls made at the same time can't both send
+    const { data: claimed, error: claimError } = await supabase
+      .from("employee_change_requests")
+      .update({ notified_at: new Date().toISOString() })
+      .eq("id", requestId)
+      .eq("status", "rejected")
+      .is("notified_at", null)
+      .select("id");
+
+    if (claimError) throw claimError;
+    if (claimed.length === 0) {
+      return new Response(
+        JSON.stringify({ message: "Nothing to send for this request" }),
+        {
+          status: 200,
+          headers: { "Content-Type": "application/json", ...corsHeaders },
+        }
+      );
+    }
+
+    const emailResponse = await resend.emails.send({
+      from: "Office Support Dashboard <onboarding@resend.dev>",
+      to: [requester.email],
+      subject: `Change Request Rejected: ${employeeName}`,
+      html: emailHtml,
+    });
+
+    if (emailResponse.error) {
+      // Released so the notification can be sent again
+      await supabase.from("employee_change_requests").update({ notified_at: null }).eq("id", requestId);
+      throw new Error(emailResponse.error.message);
+    }
+
+    console.log("Email sent successfully:", emailResponse);
+
+    return new Response(JSON.stringify(emailResponse), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        ...corsHeaders,
+      },
+    });
+  } catch (error) {
+    console.error("Error in send-change-request-notification function:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return new Response(JSON.stringify({ error: message }), {
+      status: 500,
+      headers: { "Content-Type": "application/json", ...corsHeaders },
+    });
+  }
+};
+
+serve(handler);
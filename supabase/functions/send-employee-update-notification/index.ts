@@ -1,6 +1,8 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
 import { Resend } from "https://esm.sh/resend@4.0.0";
+import { describeListItemChange, diffFieldValues, type FieldDiff } from "../_shared/fieldDiff.ts";
+import { escapeHtml } from "../_shared/html.ts";
 
 const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
 const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
@@ -18,6 +20,9 @@ interface UpdateNotificationRequest {
   employeeSection: string;
   changedBy: string;
   changedByEmail: string;
+  employeeId: string;
+  // Devices written in the same save; their changes come from the audit log
+  assetIds?: string[];
   oldData: Record<string, any>;
   newData: Record<string, any>;
 }
@@ -34,6 +39,8 @@ const handler = async (req: Request): Promise<Response> => {
       employeeSection,
       changedBy,
       changedByEmail,
+      employeeId,
+      assetIds = [],
       oldData,
       newData,
     }: UpdateNotificationRequest = await req.json();
@@ -80,7 +87,7 @@ const handler = async (req: Request): Promise<Response> => {
     console.log(`Sending notifications to ${adminEmails.length} admins`);
 
     // Calculate changes
-    const changes: Array<{ field: string; oldValue: string; newValue: string }> = [];
+    const changes: Array<{ field: string; diff: FieldDiff }> = [];
     const fieldLabels: Record<string, string> = {
       name: "Name",
       username: "Username",
@@ -91,14 +98,6 @@ const handler = async (req: Request): Promise<Response> => {
       computer_serial: "Computer Serial",
       ip_address: "IP Address",
       specs: "Specifications",
-      led_model: "LED Model",
-      led_serial: "LED Serial",
-      printer_model: "Printer Model",
-      printer_serial: "Printer Serial",
-      scanner_model: "Scanner Model",
-      scanner_serial: "Scanner Serial",
-      keyboard: "Keyboard",
-      mouse: "Mouse",
       internet_access: "Internet Access",
       usb_access: "USB Access",
       last_pm: "Last PM",
@@ -106,20 +105,39 @@ const handler = async (req: Request): Promise<Response> => {
     };
 
     for (const key in newData) {
-      if (
-        key !== "updated_at" &&
-        key !== "created_at" &&
-        key !== "id" &&
-        oldData[key] !== newData[key]
-      ) {
-        const oldVal = oldData[key] === null || oldData[key] === undefined ? "Not set" : String(oldData[key]);
-        const newVal = newData[key] === null || newData[key] === undefined ? "Not set" : String(newData[key]);
-        
-        changes.push({
-          field: fieldLabels[key] || key,
-          oldValue: oldVal === "true" ? "Yes" : oldVal === "false" ? "No" : oldVal,
-          newValue: newVal === "true" ? "Yes" : newVal === "false" ? "No" : newVal,
-        });
+      if (key === "updated_at" || key === "created_at" || key === "id") continue;
+
+      // Same structured diff as the Activity Log, so device lists read item by item
+      const diff = diffFieldValues(oldData[key], newData[key]);
+      if (diff) {
+        changes.push({ field: fieldLabels[key] || key, diff });
+      }
+    }
+
+    // Latest audit entry per device, as logged against this employee by
+    // log_asset_change, diffed the same way as the Activity Log shows it
+    if (assetIds.length > 0) {
+      const { data: deviceLogs, error: deviceLogsError } = await supabase
+        .from("employee_audit_log")
+        .select("asset_id, changes")
+        .eq("employee_id", employeeId)
+        .in("asset_id", assetIds)
+        .order("created_at", { ascending: false });
+
+      if (deviceLogsError) {
+        console.error("Error fetching device changes:", deviceLogsError);
+        throw new Error("Failed to fetch device changes");
+      }
+
+      const seen = new Set<string>();
+      const deviceItems = (deviceLogs || []).flatMap((log) => {
+        if (seen.has(log.asset_id)) return [];
+        seen.add(log.asset_id);
+        const diff = diffFieldValues(log.changes?.devices?.old, log.changes?.devices?.new);
+        return diff?.kind === "list" ? diff.items : [];
+      });
+      if (deviceItems.length > 0) {
+        changes.push({ field: "Devices", diff: { kind: "list", items: deviceItems } });
       }
     }
 
@@ -136,15 +154,33 @@ const handler = async (req: Request): Promise<Response> => {
 
     // Build changes HTML
     const changesHtml = changes
-      .map(
-        (change) => `
+      .map(({ field, diff }) => {
+        if (diff.kind === "value") {
+          return `
+        <tr>
+          <td style="padding: 12px; border: 1px solid #e5e7eb; font-weight: 500;">${field}</td>
+          <td style="padding: 12px; border: 1px solid #e5e7eb; color: #ef4444;">${escapeHtml(diff.oldValue || "Not set")}</td>
+          <td style="padding: 12px; border: 1px solid #e5e7eb; color: #10b981;">${escapeHtml(diff.newValue || "Not set")}</td>
+        </tr>
+      `;
+        }
+
+        const lines = diff.kind === "list"
+          ? diff.items.map(describeListItemChange)
+          : diff.changes.map((change) =>
+            `${change.field.replace(/_/g, " ")}: ${change.oldValue || "not set"} → ${change.newValue || "not set"}`
+          );
+        return `
         <tr>
-          <td style="padding: 12px; border: 1px solid #e5e7eb; font-weight: 500;">${change.field}</td>
-          <td style="padding: 12px; border: 1px solid #e5e7eb; color: #ef4444;">${change.oldValue}</td>
-          <td style="padding: 12px; border: 1px solid #e5e7eb; color: #10b981;">${change.newValue}</td>
+          <td style="padding: 12px; border: 1px solid #e5e7eb; font-weight: 500;">${field}</td>
+          <td colspan="2" style="padding: 12px; border: 1px solid #e5e7eb;">
+            <ul style="margin: 0; padding-left: 18px;">
+              ${lines.map((line) => `<li>${escapeHtml(line)}</li>`).join("")}
+            </ul>
+          </td>
         </tr>
-      `
-      )
+      `;
+      })
       .join("");
 
     const emailHtml = `
@@ -0,0 +1,147 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { Resend } from "https://esm.sh/resend@4.0.0";
+import { getCaller, isAdmin } from "../_shared/auth.ts";
+import { escapeHtml } from "../_shared/html.ts";
+
+const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+// Links are only ever built from here, never from the request
+const siteUrl = Deno.env.get("SITE_URL");
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+interface InvitationEmailRequest {
+  invitationId: string;
+}
+
+const ROLE_LABELS: Record<string, string> = {
+  admin: "Admin",
+  employee: "Employee",
+  viewer: "Viewer",
+  technician: "Technician",
+  location_manager: "Location Manager",
+  hr: "HR",
+};
+
+// Sends the invitee their sign-up link. Only admins can ask.
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { invitationId }: InvitationEmailRequest = await req.json();
+
+    console.log("Processing invitation email for:", invitationId);
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const caller = await getCaller(req, supabase);
+    if (!caller) {
+      return new Response(JSON.stringify({ error: "Not authenticated" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      });
+    }
+    if (!(await isAdmin(supabase, caller.id))) {
+      return new Response(JSON.stringify({ error: "Only admins can send invitations" }), {
+        status: 403,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      });
+    }
+
+    if (!siteUrl) {
+      throw new Error("SITE_URL is not configured");
+    }
+
+    const { data: invitation, error: invitationError } = await supabase
+      .from("user_invitations")
+      .select("email, role, token, expires_at, accepted_at, revoked_at, invited_by_name")
+      .eq("id", invitationId)
+      .single();
+
+    if (invitationError || !invitation) {
+      console.error("Error fetching invitation:", invitationError);
+      throw new Error("Invitation not found");
+    }
+
+    // Only usable invitations are sent, so the endpoint can't be used to resend old links
+    if (invitation.accepted_at || invitation.revoked_at || new Date(invitation.expires_at) <= new Date()) {
+      return new Response(
+        JSON.stringify({ message: "Invitation is no longer valid" }),
+        {
+          status: 200,
+          headers: { "Content-Type": "application/json", ...corsHeaders },
+        }
+      );
+    }
+
+    const inviteUrl = `${siteUrl.replace(/\/$/, "")}/auth?invite=${invitation.token}`;
+    const roleLabel = ROLE_LABELS[invitation.role] || invitation.role;
+    const expiresAt = new Date(invitation.expires_at).toLocaleString("en-US", {
+      dateStyle: "medium",
+      timeStyle: "short",
+      timeZone: "UTC",
+    });
+
+    const emailHtml = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #1f2937; border-bottom: 2px solid #3b82f6; padding-bottom: 10px;">
+          You're Invited
+        </h2>
+
+        <p style="color: #374151;">
+          ${escapeHtml(invitation.invited_by_name || "An admin")} has invited you to the Office Support Dashboard
+          as <strong>${escapeHtml(roleLabel)}</strong>.
+        </p>
+
+        <p style="margin: 30px 0;">
+          <a href="${escapeHtml(inviteUrl)}"
+            style="background-color: #3b82f6; color: #ffffff; padding: 12px 24px; border-radius: 5px; text-decoration: none;">
+            Create Your Account
+          </a>
+        </p>
+
+        <p style="color: #6b7280;">
+          Sign up with ${escapeHtml(invitation.email)}. This invitation expires ${escapeHtml(expiresAt)} (UTC).
+        </p>
+
+        <p style="color: #6b7280; font-size: 12px; margin-top: 30px; padding-top: 20px; border-top: 1px solid #e5e7eb;">
+          This is an automated notification from the Office Support Dashboard.
+        </p>
+      </div>
+    `;
+
+    const emailResponse = await resend.emails.send({
+      from: "Office Support Dashboard <onboarding@resend.dev>",
+      to: [invitation.email],
+      subject: "You're invited to the Office Support Dashboard",
+      html: emailHtml,
+    });
+
+    console.log("Email sent successfully:", emailResponse);
+
+    return new Response(JSON.stringify(emailResponse), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        ...corsHeaders,
+      },
+    });
+  } catch (error) {
+    console.error("Error in send-invitation-email function:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return new Response(JSON.stringify({ error: message }), {
+      status: 500,
+      headers: { "Content-Type": "application/json", ...corsHeaders },
+    });
+  }
+};
+
+serve(handler);
@@ -0,0 +1,112 @@
+-- Create assets table so every device has its own record instead of a fixed
+-- column pair on employees
+CREATE TABLE public.assets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  asset_type TEXT NOT NULL CHECK (asset_type IN ('monitor', 'printer', 'scanner', 'keyboard', 'mouse', 'other')),
+  name TEXT,
+  model TEXT,
+  serial_number TEXT,
+  status TEXT NOT NULL DEFAULT 'in_stock' CHECK (status IN ('assigned', 'in_stock', 'in_repair', 'retired')),
+  employee_id UUID REFERENCES public.employees(id) ON DELETE SET NULL,
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.assets ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_assets_employee_id ON public.assets(employee_id);
+CREATE INDEX idx_assets_serial_number ON public.assets(serial_number);
+
+CREATE TRIGGER update_assets_updated_at
+BEFORE UPDATE ON public.assets
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- RLS Policies for assets
+CREATE POLICY "Anyone authenticated can view assets"
+ON public.assets FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Authenticated users can insert assets"
+ON public.assets FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = created_by);
+
+CREATE POLICY "Admins can update all assets"
+ON public.assets FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can update assets of employees they created"
+ON public.assets FOR UPDATE
+TO authenticated
+USING (
+  auth.uid() = created_by
+  OR EXISTS (
+    SELECT 1 FROM public.employees
+    WHERE employees.id = assets.employee_id AND employees.created_by = auth.uid()
+  )
+);
+
+CREATE POLICY "Admins can delete assets"
+ON public.assets FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Move existing device columns into assets
+INSERT INTO public.assets (asset_type, model, serial_number, status, employee_id, created_by)
+SELECT 'monitor', NULLIF(TRIM(led_model), ''), NULLIF(TRIM(led_serial), ''), 'assigned', id, created_by
+FROM public.employees
+WHERE COALESCE(TRIM(led_model), '') <> '' OR COALESCE(TRIM(led_serial), '') <> '';
+
+INSERT INTO public.assets (asset_type, model, serial_number, status, employee_id, created_by)
+SELECT 'printer', NULLIF(TRIM(printer_model), ''), NULLIF(TRIM(printer_serial), ''), 'assigned', id, created_by
+FROM public.employees
+WHERE COALESCE(TRIM(printer_model), '') <> '' OR COALESCE(TRIM(printer_serial), '') <> '';
+
+INSERT INTO public.assets (asset_type, model, serial_number, status, employee_id, created_by)
+SELECT 'scanner', NULLIF(TRIM(scanner_model), ''), NULLIF(TRIM(scanner_serial), ''), 'assigned', id, created_by
+FROM public.employees
+WHERE COALESCE(TRIM(scanner_model), '') <> '' OR COALESCE(TRIM(scanner_serial), '') <> '';
+
+INSERT INTO public.assets (asset_type, model, status, employee_id, created_by)
+SELECT 'keyboard', TRIM(keyboard), 'assigned', id, created_by
+FROM public.employees
+WHERE COALESCE(TRIM(keyboard), '') <> '';
+
+INSERT INTO public.assets (asset_type, model, status, employee_id, created_by)
+SELECT 'mouse', TRIM(mouse), 'assigned', id, created_by
+FROM public.employees
+WHERE COALESCE(TRIM(mouse), '') <> '';
+
+INSERT INTO public.assets (asset_type, name, model, serial_number, status, employee_id, created_by)
+SELECT
+  'other',
+  NULLIF(TRIM(peripheral->>'name'), ''),
+  NULLIF(TRIM(peripheral->>'model'), ''),
+  NULLIF(TRIM(peripheral->>'serial'), ''),
+  'assigned',
+  employees.id,
+  employees.created_by
+FROM public.employees
+CROSS JOIN LATERAL jsonb_array_elements(COALESCE(employees.custom_peripherals, '[]'::jsonb)) AS peripheral
+WHERE COALESCE(TRIM(peripheral->>'name'), '') <> '';
+
+-- Drop the flat device columns now that assets hold them
+ALTER TABLE public.employees
+DROP COLUMN led_model,
+DROP COLUMN led_serial,
+DROP COLUMN printer_model,
+DROP COLUMN printer_serial,
+DROP COLUMN scanner_model,
+DROP COLUMN scanner_serial,
+DROP COLUMN keyboard,
+DROP COLUMN mouse,
+DROP COLUMN custom_peripherals;
+
+-- Enable realtime for the assets table
+ALTER TABLE public.assets REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.assets;
@@ -0,0 +1,112 @@
+-- Create asset assignment history so we know who held which device and when
+CREATE TABLE public.asset_assignments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  asset_id UUID NOT NULL REFERENCES public.assets(id) ON DELETE CASCADE,
+  employee_id UUID REFERENCES public.employees(id) ON DELETE SET NULL,
+  -- Kept so the history stays readable after the employee is deleted
+  employee_name TEXT,
+  assigned_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  assigned_by UUID REFERENCES auth.users(id),
+  assign_reason TEXT,
+  returned_at TIMESTAMP WITH TIME ZONE,
+  returned_by UUID REFERENCES auth.users(id),
+  return_reason TEXT
+);
+
+ALTER TABLE public.asset_assignments ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_asset_assignments_asset_id ON public.asset_assignments(asset_id);
+CREATE INDEX idx_asset_assignments_employee_id ON public.asset_assignments(employee_id);
+
+-- History rows are written by the trigger below, clients only read them
+CREATE POLICY "Anyone authenticated can view asset assignments"
+ON public.asset_assignments FOR SELECT
+TO authenticated
+USING (true);
+
+-- Record an assignment whenever an asset changes hands
+CREATE OR REPLACE FUNCTION public.track_asset_assignment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  reason TEXT := NULLIF(current_setting('app.assignment_reason', true), '');
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.employee_id IS NOT DISTINCT FROM NEW.employee_id THEN
+    RETURN NEW;
+  END IF;
+
+  -- Close the current assignment
+  IF TG_OP = 'UPDATE' AND OLD.employee_id IS NOT NULL THEN
+    UPDATE public.asset_assignments
+    SET returned_at = NOW(), returned_by = auth.uid(), return_reason = reason
+    WHERE asset_id = NEW.id AND returned_at IS NULL;
+  END IF;
+
+  -- Open a new one for the new holder
+  IF NEW.employee_id IS NOT NULL THEN
+    INSERT INTO public.asset_assignments (asset_id, employee_id, employee_name, assigned_by, assign_reason)
+    SELECT NEW.id, NEW.employee_id, employees.name, auth.uid(), reason
+    FROM public.employees
+    WHERE employees.id = NEW.employee_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER asset_assignment_insert
+AFTER INSERT ON public.assets
+FOR EACH ROW
+EXECUTE FUNCTION public.track_asset_assignment();
+
+CREATE TRIGGER asset_assignment_update
+AFTER UPDATE OF employee_id ON public.assets
+FOR EACH ROW
+EXECUTE FUNCTION public.track_asset_assignment();
+
+-- Check-out: hand an asset to an employee, returning it from any current holder
+CREATE OR REPLACE FUNCTION public.assign_asset(_asset_id UUID, _employee_id UUID, _reason TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('app.assignment_reason', COALESCE(_reason, ''), true);
+
+  UPDATE public.assets
+  SET employee_id = _employee_id, status = 'assigned'
+  WHERE id = _asset_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Asset not found or you do not have permission to assign it';
+  END IF;
+END;
+$$;
+
+-- Check-in: take an asset back from its holder
+CREATE OR REPLACE FUNCTION public.return_asset(_asset_id UUID, _reason TEXT DEFAULT NULL, _status TEXT DEFAULT 'in_stock')
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('app.assignment_reason', COALESCE(_reason, ''), true);
+
+  UPDATE public.assets
+  SET employee_id = NULL, status = _status
+  WHERE id = _asset_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Asset not found or you do not have permission to return it';
+  END IF;
+END;
+$$;
+
+-- Seed the history with the current holders
+INSERT INTO public.asset_assignments (asset_id, employee_id, employee_name, assigned_at, assigned_by, assign_reason)
+SELECT assets.id, assets.employee_id, employees.name, COALESCE(assets.created_at, NOW()), assets.created_by, 'Migrated from employee record'
+FROM public.assets
+JOIN public.employees ON employees.id = assets.employee_id;
@@ -0,0 +1,98 @@
+-- Create locations registry so each site exists once with its own details
+CREATE TABLE public.locations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE CHECK (name = TRIM(name) AND name <> ''),
+  address TEXT,
+  contact_person TEXT,
+  phone TEXT,
+  subnet TEXT,
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- "Kashmir Road" and "kashmir road" are the same site
+CREATE UNIQUE INDEX idx_locations_name_lower ON public.locations(LOWER(name));
+
+ALTER TABLE public.locations ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_locations_updated_at
+BEFORE UPDATE ON public.locations
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- RLS Policies for locations
+CREATE POLICY "Anyone authenticated can view locations"
+ON public.locations FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage locations"
+ON public.locations FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Clean up existing location strings without writing an audit entry per row
+ALTER TABLE public.employees DISABLE TRIGGER employee_audit_update;
+
+UPDATE public.employees
+SET location = NULLIF(REGEXP_REPLACE(TRIM(location), '\s+', ' ', 'g'), '')
+WHERE location IS DISTINCT FROM NULLIF(REGEXP_REPLACE(TRIM(location), '\s+', ' ', 'g'), '');
+
+-- Seed the registry with the most used spelling of each location
+INSERT INTO public.locations (name)
+SELECT DISTINCT ON (LOWER(location)) location
+FROM (
+  SELECT location, COUNT(*) AS uses
+  FROM public.employees
+  WHERE location IS NOT NULL
+  GROUP BY location
+) AS spellings
+ORDER BY LOWER(location), uses DESC, location;
+
+UPDATE public.employees
+SET location = locations.name
+FROM public.locations
+WHERE LOWER(employees.location) = LOWER(locations.name)
+  AND employees.location <> locations.name;
+
+ALTER TABLE public.employees ENABLE TRIGGER employee_audit_update;
+
+-- Employees can only point at registered locations, and renames cascade to them
+ALTER TABLE public.employees
+ADD CONSTRAINT employees_location_fkey
+FOREIGN KEY (location)
+REFERENCES public.locations(name)
+ON UPDATE CASCADE;
+
+-- Merge a duplicate location into another, moving every employee across
+CREATE OR REPLACE FUNCTION public.merge_locations(_source_id UUID, _target_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  source_name TEXT;
+  target_name TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can merge locations';
+  END IF;
+
+  IF _source_id = _target_id THEN
+    RAISE EXCEPTION 'Cannot merge a location into itself';
+  END IF;
+
+  SELECT name INTO source_name FROM public.locations WHERE id = _source_id;
+  SELECT name INTO target_name FROM public.locations WHERE id = _target_id;
+
+  IF source_name IS NULL OR target_name IS NULL THEN
+    RAISE EXCEPTION 'Location not found';
+  END IF;
+
+  UPDATE public.employees SET location = target_name WHERE location = source_name;
+  DELETE FROM public.locations WHERE id = _source_id;
+END;
+$$;
@@ -0,0 +1,280 @@
+-- Create managed department -> section tree. A department without a location
+-- is available everywhere, one with a location only at that site.
+CREATE TABLE public.departments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (name = TRIM(name) AND name <> ''),
+  location_id UUID REFERENCES public.locations(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_departments_name_location
+ON public.departments(LOWER(name), COALESCE(location_id, '00000000-0000-0000-0000-000000000000'::uuid));
+
+CREATE TABLE public.sections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  department_id UUID NOT NULL REFERENCES public.departments(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (name = TRIM(name) AND name <> ''),
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_sections_department_name ON public.sections(department_id, LOWER(name));
+
+ALTER TABLE public.departments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sections ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_departments_updated_at
+BEFORE UPDATE ON public.departments
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_sections_updated_at
+BEFORE UPDATE ON public.sections
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- RLS Policies for departments and sections
+CREATE POLICY "Anyone authenticated can view departments"
+ON public.departments FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage departments"
+ON public.departments FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Anyone authenticated can view sections"
+ON public.sections FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage sections"
+ON public.sections FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Clean up existing values without writing an audit entry per row
+ALTER TABLE public.employees DISABLE TRIGGER employee_audit_update;
+
+UPDATE public.employees
+SET
+  department = NULLIF(REGEXP_REPLACE(TRIM(department), '\s+', ' ', 'g'), ''),
+  section = NULLIF(REGEXP_REPLACE(TRIM(section), '\s+', ' ', 'g'), '')
+WHERE department IS DISTINCT FROM NULLIF(REGEXP_REPLACE(TRIM(department), '\s+', ' ', 'g'), '')
+   OR section IS DISTINCT FROM NULLIF(REGEXP_REPLACE(TRIM(section), '\s+', ' ', 'g'), '');
+
+-- Seed the tree with the most used spelling of each department and section
+INSERT INTO public.departments (name)
+SELECT DISTINCT ON (LOWER(department)) department
+FROM (
+  SELECT department, COUNT(*) AS uses
+  FROM public.employees
+  WHERE department IS NOT NULL
+  GROUP BY department
+) AS spellings
+ORDER BY LOWER(department), uses DESC, department;
+
+UPDATE public.employees
+SET department = departments.name
+FROM public.departments
+WHERE LOWER(employees.department) = LOWER(departments.name)
+  AND employees.department <> departments.name;
+
+INSERT INTO public.sections (department_id, name)
+SELECT DISTINCT ON (departments.id, LOWER(spellings.section)) departments.id, spellings.section
+FROM (
+  SELECT department, section, COUNT(*) AS uses
+  FROM public.employees
+  WHERE department IS NOT NULL AND section IS NOT NULL
+  GROUP BY department, section
+) AS spellings
+JOIN public.departments ON departments.name = spellings.department
+ORDER BY departments.id, LOWER(spellings.section), spellings.uses DESC, spellings.section;
+
+UPDATE public.employees
+SET section = sections.name
+FROM public.sections
+JOIN public.departments ON departments.id = sections.department_id
+WHERE employees.department = departments.name
+  AND LOWER(employees.section) = LOWER(sections.name)
+  AND employees.section <> sections.name;
+
+ALTER TABLE public.employees ENABLE TRIGGER employee_audit_update;
+
+-- Rename a department and every employee record using it
+CREATE OR REPLACE FUNCTION public.rename_department(_department_id UUID, _name TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  old_name TEXT;
+  scope TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can rename departments';
+  END IF;
+
+  SELECT departments.name, locations.name INTO old_name, scope
+  FROM public.departments
+  LEFT JOIN public.locations ON locations.id = departments.location_id
+  WHERE departments.id = _department_id;
+
+  IF old_name IS NULL THEN
+    RAISE EXCEPTION 'Department not found';
+  END IF;
+
+  UPDATE public.departments SET name = TRIM(_name) WHERE id = _department_id;
+
+  UPDATE public.employees
+  SET department = TRIM(_name)
+  WHERE department = old_name AND (scope IS NULL OR location = scope);
+END;
+$$;
+
+-- Merge a duplicate department into another, moving its sections and employees
+CREATE OR REPLACE FUNCTION public.merge_departments(_source_id UUID, _target_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  source_name TEXT;
+  target_name TEXT;
+  scope TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can merge departments';
+  END IF;
+
+  IF _source_id = _target_id THEN
+    RAISE EXCEPTION 'Cannot merge a department into itself';
+  END IF;
+
+  SELECT departments.name, locations.name INTO source_name, scope
+  FROM public.departments
+  LEFT JOIN public.locations ON locations.id = departments.location_id
+  WHERE departments.id = _source_id;
+
+  SELECT name INTO target_name FROM public.departments WHERE id = _target_id;
+
+  IF source_name IS NULL OR target_name IS NULL THEN
+    RAISE EXCEPTION 'Department not found';
+  END IF;
+
+  -- Sections that already exist in the target take the target's spelling
+  UPDATE public.employees
+  SET section = target_sections.name
+  FROM public.sections AS source_sections
+  JOIN public.sections AS target_sections
+    ON target_sections.department_id = _target_id
+   AND LOWER(target_sections.name) = LOWER(source_sections.name)
+  WHERE source_sections.department_id = _source_id
+    AND employees.department = source_name
+    AND employees.section = source_sections.name
+    AND (scope IS NULL OR employees.location = scope);
+
+  -- The rest move across as they are
+  UPDATE public.sections
+  SET department_id = _target_id
+  WHERE department_id = _source_id
+    AND NOT EXISTS (
+      SELECT 1 FROM public.sections AS target_sections
+      WHERE target_sections.department_id = _target_id
+        AND LOWER(target_sections.name) = LOWER(sections.name)
+    );
+
+  UPDATE public.employees
+  SET department = target_name
+  WHERE department = source_name AND (scope IS NULL OR location = scope);
+
+  DELETE FROM public.departments WHERE id = _source_id;
+END;
+$$;
+
+-- Rename a section and every employee record using it
+CREATE OR REPLACE FUNCTION public.rename_section(_section_id UUID, _name TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  old_name TEXT;
+  department_name TEXT;
+  scope TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can rename sections';
+  END IF;
+
+  SELECT sections.name, departments.name, locations.name INTO old_name, department_name, scope
+  FROM public.sections
+  JOIN public.departments ON departments.id = sections.department_id
+  LEFT JOIN public.locations ON locations.id = departments.location_id
+  WHERE sections.id = _section_id;
+
+  IF old_name IS NULL THEN
+    RAISE EXCEPTION 'Section not found';
+  END IF;
+
+  UPDATE public.sections SET name = TRIM(_name) WHERE id = _section_id;
+
+  UPDATE public.employees
+  SET section = TRIM(_name)
+  WHERE department = department_name
+    AND section = old_name
+    AND (scope IS NULL OR location = scope);
+END;
+$$;
+
+-- Merge a duplicate section into another, moving its employees
+CREATE OR REPLACE FUNCTION public.merge_sections(_source_id UUID, _target_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  source_name TEXT;
+  source_department TEXT;
+  scope TEXT;
+  target_name TEXT;
+  target_department TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can merge sections';
+  END IF;
+
+  IF _source_id = _target_id THEN
+    RAISE EXCEPTION 'Cannot merge a section into itself';
+  END IF;
+
+  SELECT sections.name, departments.name, locations.name INTO source_name, source_department, scope
+  FROM public.sections
+  JOIN public.departments ON departments.id = sections.department_id
+  LEFT JOIN public.locations ON locations.id = departments.location_id
+  WHERE sections.id = _source_id;
+
+  SELECT sections.name, departments.name INTO target_name, target_department
+  FROM public.sections
+  JOIN public.departments ON departments.id = sections.department_id
+  WHERE sections.id = _target_id;
+
+  IF source_name IS NULL OR target_name IS NULL THEN
+    RAISE EXCEPTION 'Section not found';
+  END IF;
+
+  UPDATE public.employees
+  SET department = target_department, section = target_name
+  WHERE department = source_department
+    AND section = source_name
+    AND (scope IS NULL OR location = scope);
+
+  DELETE FROM public.sections WHERE id = _source_id;
+END;
+$$;
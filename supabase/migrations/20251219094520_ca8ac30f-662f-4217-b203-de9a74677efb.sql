@@ -0,0 +1,117 @@
+-- Preventive maintenance intervals. A rule can target a location, a device
+-- type, both or neither; the most specific matching rule wins.
+CREATE TABLE public.pm_intervals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  location_id UUID REFERENCES public.locations(id) ON DELETE CASCADE,
+  device_type TEXT CHECK (device_type IN ('computer', 'monitor', 'printer', 'scanner', 'keyboard', 'mouse', 'other')),
+  interval_days INTEGER NOT NULL CHECK (interval_days > 0),
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_pm_intervals_scope
+ON public.pm_intervals(COALESCE(location_id, '00000000-0000-0000-0000-000000000000'::uuid), COALESCE(device_type, ''));
+
+ALTER TABLE public.pm_intervals ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_pm_intervals_updated_at
+BEFORE UPDATE ON public.pm_intervals
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE POLICY "Anyone authenticated can view pm intervals"
+ON public.pm_intervals FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage pm intervals"
+ON public.pm_intervals FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Quarterly by default
+INSERT INTO public.pm_intervals (interval_days) VALUES (90);
+
+-- Peripherals get their own PM date once a rule is set up for their type
+ALTER TABLE public.assets ADD COLUMN last_pm DATE;
+
+-- Completed maintenance visits, against a computer (employee) or an asset
+CREATE TABLE public.pm_records (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  employee_id UUID REFERENCES public.employees(id) ON DELETE CASCADE,
+  asset_id UUID REFERENCES public.assets(id) ON DELETE CASCADE,
+  performed_at DATE NOT NULL DEFAULT CURRENT_DATE,
+  performed_by UUID REFERENCES auth.users(id),
+  -- Kept so the history stays readable after the account is removed
+  performed_by_name TEXT,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK ((employee_id IS NULL) <> (asset_id IS NULL))
+);
+
+ALTER TABLE public.pm_records ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_pm_records_employee_id ON public.pm_records(employee_id);
+CREATE INDEX idx_pm_records_asset_id ON public.pm_records(asset_id);
+
+CREATE POLICY "Anyone authenticated can view pm records"
+ON public.pm_records FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Authenticated users can log pm records"
+ON public.pm_records FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = performed_by);
+
+CREATE POLICY "Admins can delete pm records"
+ON public.pm_records FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Stamp the technician's name and move last_pm forward. Runs as definer so
+-- technicians can log visits on records they are not allowed to edit.
+CREATE OR REPLACE FUNCTION public.apply_pm_record()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND TG_WHEN = 'BEFORE' THEN
+    IF NEW.performed_by_name IS NULL THEN
+      SELECT COALESCE(full_name, email) INTO NEW.performed_by_name
+      FROM public.profiles
+      WHERE id = NEW.performed_by;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.employee_id IS NOT NULL THEN
+    UPDATE public.employees
+    SET last_pm = NEW.performed_at
+    WHERE id = NEW.employee_id
+      AND (last_pm IS NULL OR last_pm < NEW.performed_at);
+  ELSE
+    UPDATE public.assets
+    SET last_pm = NEW.performed_at
+    WHERE id = NEW.asset_id
+      AND (last_pm IS NULL OR last_pm < NEW.performed_at);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER pm_record_stamp
+BEFORE INSERT ON public.pm_records
+FOR EACH ROW
+EXECUTE FUNCTION public.apply_pm_record();
+
+CREATE TRIGGER pm_record_apply
+AFTER INSERT ON public.pm_records
+FOR EACH ROW
+EXECUTE FUNCTION public.apply_pm_record();
+
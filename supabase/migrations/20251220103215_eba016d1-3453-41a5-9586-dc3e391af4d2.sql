@@ -0,0 +1,145 @@
+-- PM checklist templates. Items live on immutable versions so past visits
+-- keep showing the checklist they were performed against.
+CREATE TABLE public.pm_checklist_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE CHECK (name = TRIM(name) AND name <> ''),
+  description TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE public.pm_checklist_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_id UUID NOT NULL REFERENCES public.pm_checklist_templates(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL DEFAULT 1,
+  items TEXT[] NOT NULL CHECK (array_length(items, 1) > 0),
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (template_id, version)
+);
+
+ALTER TABLE public.pm_checklist_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.pm_checklist_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_pm_checklist_templates_updated_at
+BEFORE UPDATE ON public.pm_checklist_templates
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE POLICY "Anyone authenticated can view pm checklist templates"
+ON public.pm_checklist_templates FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage pm checklist templates"
+ON public.pm_checklist_templates FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Versions are append-only: admins publish new ones, nobody edits old ones
+CREATE POLICY "Anyone authenticated can view pm checklist versions"
+ON public.pm_checklist_versions FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can publish pm checklist versions"
+ON public.pm_checklist_versions FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Number versions per template
+CREATE OR REPLACE FUNCTION public.set_pm_checklist_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  SELECT COALESCE(MAX(version), 0) + 1 INTO NEW.version
+  FROM public.pm_checklist_versions
+  WHERE template_id = NEW.template_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER pm_checklist_version_number
+BEFORE INSERT ON public.pm_checklist_versions
+FOR EACH ROW
+EXECUTE FUNCTION public.set_pm_checklist_version();
+
+-- Which checklist a visit was performed against
+ALTER TABLE public.pm_records
+ADD COLUMN checklist_version_id UUID REFERENCES public.pm_checklist_versions(id);
+
+-- One row per checklist item per visit. Failed items stay open as follow-up
+-- work until someone resolves them.
+CREATE TABLE public.pm_check_results (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  pm_record_id UUID NOT NULL REFERENCES public.pm_records(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  item TEXT NOT NULL,
+  passed BOOLEAN NOT NULL,
+  comment TEXT,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  resolved_by UUID REFERENCES auth.users(id),
+  resolution_note TEXT,
+  UNIQUE (pm_record_id, position)
+);
+
+ALTER TABLE public.pm_check_results ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_pm_check_results_open
+ON public.pm_check_results(pm_record_id)
+WHERE NOT passed AND resolved_at IS NULL;
+
+CREATE POLICY "Anyone authenticated can view pm check results"
+ON public.pm_check_results FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Technicians can record results for their own visits"
+ON public.pm_check_results FOR INSERT
+TO authenticated
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.pm_records
+    WHERE pm_records.id = pm_record_id
+      AND pm_records.performed_by = auth.uid()
+  )
+);
+
+-- Close a failed item. Any technician may do this, but only the resolution
+-- fields change, so it runs as definer instead of opening up UPDATE.
+CREATE OR REPLACE FUNCTION public.resolve_pm_follow_up(_result_id UUID, _note TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE public.pm_check_results
+  SET resolved_at = NOW(), resolved_by = auth.uid(), resolution_note = NULLIF(TRIM(_note), '')
+  WHERE id = _result_id AND NOT passed AND resolved_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Follow-up not found or already resolved';
+  END IF;
+END;
+$$;
+
+-- Starter template matching what technicians already check
+WITH template AS (
+  INSERT INTO public.pm_checklist_templates (name, description)
+  VALUES ('Workstation PM', 'Standard preventive maintenance for desktop computers')
+  RETURNING id
+)
+INSERT INTO public.pm_checklist_versions (template_id, items)
+SELECT id, ARRAY['Dust cleaned', 'Antivirus updated', 'Disk health OK', 'Windows updates installed', 'UPS tested']
+FROM template;
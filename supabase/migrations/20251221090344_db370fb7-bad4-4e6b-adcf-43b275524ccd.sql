@@ -0,0 +1,200 @@
+-- Link a signed-in user to their own employee record by email
+CREATE OR REPLACE FUNCTION public.current_employee_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT employees.id
+  FROM public.employees
+  JOIN public.profiles ON LOWER(profiles.email) = LOWER(employees.email)
+  WHERE profiles.id = auth.uid()
+  LIMIT 1
+$$;
+
+-- IT helpdesk tickets
+CREATE TABLE public.tickets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  ticket_number BIGINT GENERATED ALWAYS AS IDENTITY UNIQUE,
+  title TEXT NOT NULL CHECK (TRIM(title) <> ''),
+  description TEXT,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'in_progress', 'on_hold', 'resolved', 'closed')),
+  priority TEXT NOT NULL DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high', 'urgent')),
+  employee_id UUID REFERENCES public.employees(id) ON DELETE SET NULL,
+  -- Kept so the ticket stays readable after the employee is deleted
+  employee_name TEXT,
+  device_serial TEXT,
+  assignee_id UUID REFERENCES auth.users(id),
+  resolution TEXT,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  resolved_by UUID REFERENCES auth.users(id),
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (status NOT IN ('resolved', 'closed') OR resolution IS NOT NULL)
+);
+
+CREATE INDEX idx_tickets_employee_id ON public.tickets(employee_id);
+CREATE INDEX idx_tickets_assignee_id ON public.tickets(assignee_id);
+CREATE INDEX idx_tickets_status ON public.tickets(status);
+
+CREATE TABLE public.ticket_comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  ticket_id UUID NOT NULL REFERENCES public.tickets(id) ON DELETE CASCADE,
+  author_id UUID REFERENCES auth.users(id),
+  author_name TEXT,
+  body TEXT NOT NULL CHECK (TRIM(body) <> ''),
+  -- Status, priority and assignee changes are logged here by a trigger
+  is_system BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_ticket_comments_ticket_id ON public.ticket_comments(ticket_id);
+
+ALTER TABLE public.tickets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ticket_comments ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_tickets_updated_at
+BEFORE UPDATE ON public.tickets
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- RLS Policies for tickets
+CREATE POLICY "Anyone authenticated can view tickets"
+ON public.tickets FOR SELECT
+TO authenticated
+USING (true);
+
+-- Staff raise tickets about their own equipment, admins for anyone
+CREATE POLICY "Users can raise tickets for their own equipment"
+ON public.tickets FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = created_by
+  AND (
+    public.has_role(auth.uid(), 'admin')
+    OR employee_id = public.current_employee_id()
+  )
+);
+
+CREATE POLICY "Admins can update all tickets"
+ON public.tickets FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Assignees and reporters can update their tickets"
+ON public.tickets FOR UPDATE
+TO authenticated
+USING (auth.uid() = assignee_id OR auth.uid() = created_by);
+
+CREATE POLICY "Admins can delete tickets"
+ON public.tickets FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- RLS Policies for ticket comments
+CREATE POLICY "Anyone authenticated can view ticket comments"
+ON public.ticket_comments FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Participants can comment on tickets"
+ON public.ticket_comments FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = author_id
+  AND NOT is_system
+  AND EXISTS (
+    SELECT 1 FROM public.tickets
+    WHERE tickets.id = ticket_id
+      AND (
+        public.has_role(auth.uid(), 'admin')
+        OR tickets.created_by = auth.uid()
+        OR tickets.assignee_id = auth.uid()
+        OR tickets.employee_id = public.current_employee_id()
+      )
+  )
+);
+
+-- Snapshot names, stamp resolution and log changes to the comment thread
+CREATE OR REPLACE FUNCTION public.track_ticket_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  actor_name TEXT;
+BEGIN
+  IF NEW.employee_id IS NOT NULL AND (TG_OP = 'INSERT' OR NEW.employee_id IS DISTINCT FROM OLD.employee_id) THEN
+    SELECT name INTO NEW.employee_name FROM public.employees WHERE id = NEW.employee_id;
+  END IF;
+
+  IF NEW.status IN ('resolved', 'closed') AND (TG_OP = 'INSERT' OR OLD.status NOT IN ('resolved', 'closed')) THEN
+    NEW.resolved_at := NOW();
+    NEW.resolved_by := auth.uid();
+  ELSIF NEW.status NOT IN ('resolved', 'closed') THEN
+    NEW.resolved_at := NULL;
+    NEW.resolved_by := NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    SELECT COALESCE(full_name, email) INTO actor_name FROM public.profiles WHERE id = auth.uid();
+
+    IF NEW.status IS DISTINCT FROM OLD.status THEN
+      INSERT INTO public.ticket_comments (ticket_id, author_id, author_name, body, is_system)
+      VALUES (NEW.id, auth.uid(), actor_name, 'Status changed from ' || OLD.status || ' to ' || NEW.status, true);
+    END IF;
+
+    IF NEW.priority IS DISTINCT FROM OLD.priority THEN
+      INSERT INTO public.ticket_comments (ticket_id, author_id, author_name, body, is_system)
+      VALUES (NEW.id, auth.uid(), actor_name, 'Priority changed from ' || OLD.priority || ' to ' || NEW.priority, true);
+    END IF;
+
+    IF NEW.assignee_id IS DISTINCT FROM OLD.assignee_id THEN
+      INSERT INTO public.ticket_comments (ticket_id, author_id, author_name, body, is_system)
+      SELECT NEW.id, auth.uid(), actor_name,
+        CASE WHEN NEW.assignee_id IS NULL THEN 'Unassigned'
+             ELSE 'Assigned to ' || COALESCE(profiles.full_name, profiles.email) END,
+        true
+      FROM (SELECT 1) AS one
+      LEFT JOIN public.profiles ON profiles.id = NEW.assignee_id;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER ticket_changes
+BEFORE INSERT OR UPDATE ON public.tickets
+FOR EACH ROW
+EXECUTE FUNCTION public.track_ticket_changes();
+
+-- Stamp the author's name on comments
+CREATE OR REPLACE FUNCTION public.stamp_ticket_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.author_name IS NULL THEN
+    SELECT COALESCE(full_name, email) INTO NEW.author_name
+    FROM public.profiles
+    WHERE id = NEW.author_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER ticket_comment_stamp
+BEFORE INSERT ON public.ticket_comments
+FOR EACH ROW
+EXECUTE FUNCTION public.stamp_ticket_comment();
+
+-- Enable realtime so the comment thread updates live
+ALTER TABLE public.ticket_comments REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.ticket_comments;
@@ -0,0 +1,103 @@
+-- Software license inventory
+CREATE TABLE public.software_licenses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  software_name TEXT NOT NULL CHECK (TRIM(software_name) <> ''),
+  vendor TEXT,
+  license_key TEXT,
+  -- Per-user seats follow the person, per-device seats the computer
+  license_model TEXT NOT NULL DEFAULT 'per_user' CHECK (license_model IN ('per_user', 'per_device')),
+  seats_purchased INTEGER NOT NULL DEFAULT 1 CHECK (seats_purchased >= 0),
+  purchase_date DATE,
+  expiry_date DATE,
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE public.license_seats (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  license_id UUID NOT NULL REFERENCES public.software_licenses(id) ON DELETE CASCADE,
+  employee_id UUID NOT NULL REFERENCES public.employees(id) ON DELETE CASCADE,
+  -- The computer a per-device seat is installed on, as it was when assigned
+  computer_name TEXT,
+  computer_serial TEXT,
+  assigned_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  assigned_by UUID REFERENCES auth.users(id),
+  UNIQUE (license_id, employee_id)
+);
+
+CREATE INDEX idx_license_seats_employee_id ON public.license_seats(employee_id);
+
+ALTER TABLE public.software_licenses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.license_seats ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_software_licenses_updated_at
+BEFORE UPDATE ON public.software_licenses
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- RLS Policies for licenses and seats
+CREATE POLICY "Anyone authenticated can view software licenses"
+ON public.software_licenses FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage software licenses"
+ON public.software_licenses FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Anyone authenticated can view license seats"
+ON public.license_seats FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage license seats"
+ON public.license_seats FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Refuse to hand out more seats than were purchased, and record the computer
+-- for per-device licenses
+CREATE OR REPLACE FUNCTION public.check_license_seat()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  purchased INTEGER;
+  model TEXT;
+  used INTEGER;
+BEGIN
+  SELECT seats_purchased, license_model INTO purchased, model
+  FROM public.software_licenses
+  WHERE id = NEW.license_id
+  FOR UPDATE;
+
+  SELECT COUNT(*) INTO used FROM public.license_seats WHERE license_id = NEW.license_id;
+
+  IF used >= purchased THEN
+    RAISE EXCEPTION 'All % seats of this license are in use', purchased;
+  END IF;
+
+  IF model = 'per_device' THEN
+    SELECT computer_name, computer_serial INTO NEW.computer_name, NEW.computer_serial
+    FROM public.employees
+    WHERE id = NEW.employee_id;
+
+    IF NEW.computer_name IS NULL AND NEW.computer_serial IS NULL THEN
+      RAISE EXCEPTION 'This employee has no computer recorded for a per-device license';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER license_seat_check
+BEFORE INSERT ON public.license_seats
+FOR EACH ROW
+EXECUTE FUNCTION public.check_license_seat();
@@ -0,0 +1,18 @@
+-- Purchase and warranty details for the computer recorded on each employee
+ALTER TABLE public.employees
+ADD COLUMN computer_purchase_date DATE,
+ADD COLUMN computer_purchase_order TEXT,
+ADD COLUMN computer_cost NUMERIC(12, 2) CHECK (computer_cost >= 0),
+ADD COLUMN computer_vendor TEXT,
+ADD COLUMN computer_warranty_end DATE;
+
+-- ...and for every other device
+ALTER TABLE public.assets
+ADD COLUMN purchase_date DATE,
+ADD COLUMN purchase_order TEXT,
+ADD COLUMN cost NUMERIC(12, 2) CHECK (cost >= 0),
+ADD COLUMN vendor TEXT,
+ADD COLUMN warranty_end DATE;
+
+CREATE INDEX idx_employees_computer_warranty_end ON public.employees(computer_warranty_end);
+CREATE INDEX idx_assets_warranty_end ON public.assets(warranty_end);
@@ -0,0 +1,124 @@
+-- Printer consumables catalog, mapped to the printer models each item fits
+CREATE TABLE public.consumables (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (TRIM(name) <> ''),
+  part_number TEXT,
+  kind TEXT NOT NULL DEFAULT 'toner' CHECK (kind IN ('toner', 'drum', 'ink', 'ribbon', 'other')),
+  printer_models TEXT[] NOT NULL DEFAULT '{}',
+  -- Stock to hold for every deployed printer that takes this item
+  min_per_printer INTEGER NOT NULL DEFAULT 1 CHECK (min_per_printer >= 0),
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_consumables_part_number_lower ON public.consumables(LOWER(part_number));
+
+-- On-hand quantity per location, kept in step by the transaction trigger
+CREATE TABLE public.consumable_stock (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  consumable_id UUID NOT NULL REFERENCES public.consumables(id) ON DELETE CASCADE,
+  location_id UUID NOT NULL REFERENCES public.locations(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL DEFAULT 0 CHECK (quantity >= 0),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (consumable_id, location_id)
+);
+
+CREATE TABLE public.consumable_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  consumable_id UUID NOT NULL REFERENCES public.consumables(id) ON DELETE CASCADE,
+  location_id UUID NOT NULL REFERENCES public.locations(id) ON DELETE CASCADE,
+  transaction_type TEXT NOT NULL CHECK (transaction_type IN ('receive', 'issue')),
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  -- Who asked for the toner and which printer it went into
+  employee_id UUID REFERENCES public.employees(id) ON DELETE SET NULL,
+  asset_id UUID REFERENCES public.assets(id) ON DELETE SET NULL,
+  notes TEXT,
+  performed_by UUID REFERENCES auth.users(id),
+  performed_by_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_consumable_transactions_consumable_id ON public.consumable_transactions(consumable_id);
+CREATE INDEX idx_consumable_transactions_created_at ON public.consumable_transactions(created_at DESC);
+
+ALTER TABLE public.consumables ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.consumable_stock ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.consumable_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_consumables_updated_at
+BEFORE UPDATE ON public.consumables
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- RLS Policies for consumables. Stock is only ever written by the trigger below.
+CREATE POLICY "Anyone authenticated can view consumables"
+ON public.consumables FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage consumables"
+ON public.consumables FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Anyone authenticated can view consumable stock"
+ON public.consumable_stock FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Anyone authenticated can view consumable transactions"
+ON public.consumable_transactions FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can record consumable transactions"
+ON public.consumable_transactions FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'admin') AND auth.uid() = performed_by);
+
+-- Stamp the technician's name and move the stock level. Issuing more than is
+-- on hand at the location is refused.
+CREATE OR REPLACE FUNCTION public.apply_consumable_transaction()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  on_hand INTEGER;
+BEGIN
+  IF NEW.performed_by_name IS NULL THEN
+    SELECT COALESCE(full_name, email) INTO NEW.performed_by_name
+    FROM public.profiles
+    WHERE id = NEW.performed_by;
+  END IF;
+
+  INSERT INTO public.consumable_stock (consumable_id, location_id, quantity)
+  VALUES (NEW.consumable_id, NEW.location_id, 0)
+  ON CONFLICT (consumable_id, location_id) DO NOTHING;
+
+  SELECT quantity INTO on_hand
+  FROM public.consumable_stock
+  WHERE consumable_id = NEW.consumable_id AND location_id = NEW.location_id
+  FOR UPDATE;
+
+  IF NEW.transaction_type = 'issue' AND on_hand < NEW.quantity THEN
+    RAISE EXCEPTION 'Only % in stock at this location', on_hand;
+  END IF;
+
+  UPDATE public.consumable_stock
+  SET quantity = quantity + CASE WHEN NEW.transaction_type = 'issue' THEN -NEW.quantity ELSE NEW.quantity END,
+      updated_at = NOW()
+  WHERE consumable_id = NEW.consumable_id AND location_id = NEW.location_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER consumable_transaction_apply
+BEFORE INSERT ON public.consumable_transactions
+FOR EACH ROW
+EXECUTE FUNCTION public.apply_consumable_transaction();
@@ -0,0 +1,132 @@
+-- IP address management: subnets per location with their gateway and DHCP pool
+CREATE TABLE public.subnets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  location_id UUID NOT NULL REFERENCES public.locations(id) ON DELETE CASCADE,
+  name TEXT,
+  network TEXT NOT NULL,
+  prefix_length INTEGER NOT NULL CHECK (prefix_length BETWEEN 8 AND 30),
+  gateway TEXT,
+  dhcp_start TEXT,
+  dhcp_end TEXT,
+  vlan INTEGER CHECK (vlan BETWEEN 1 AND 4094),
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  -- The casts reject anything that isn't an IPv4 address, and a network with host bits set
+  CONSTRAINT subnets_network_valid CHECK (
+    family(network::inet) = 4 AND (network || '/' || prefix_length)::cidr IS NOT NULL
+  ),
+  CONSTRAINT subnets_gateway_in_subnet CHECK (
+    gateway IS NULL OR gateway::inet << (network || '/' || prefix_length)::cidr
+  ),
+  CONSTRAINT subnets_dhcp_range_valid CHECK (
+    (dhcp_start IS NULL AND dhcp_end IS NULL) OR (
+      dhcp_start::inet << (network || '/' || prefix_length)::cidr
+      AND dhcp_end::inet << (network || '/' || prefix_length)::cidr
+      AND dhcp_start::inet <= dhcp_end::inet
+    )
+  )
+);
+
+CREATE INDEX idx_subnets_location_id ON public.subnets(location_id);
+
+ALTER TABLE public.subnets ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_subnets_updated_at
+BEFORE UPDATE ON public.subnets
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- RLS Policies for subnets
+CREATE POLICY "Anyone authenticated can view subnets"
+ON public.subnets FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage subnets"
+ON public.subnets FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Subnets may not overlap, wherever they are
+CREATE OR REPLACE FUNCTION public.check_subnet_overlap()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  clash TEXT;
+BEGIN
+  SELECT network || '/' || prefix_length INTO clash
+  FROM public.subnets
+  WHERE id <> NEW.id
+    AND (network || '/' || prefix_length)::cidr && (NEW.network || '/' || NEW.prefix_length)::cidr
+  LIMIT 1;
+
+  IF clash IS NOT NULL THEN
+    RAISE EXCEPTION 'Overlaps existing subnet %', clash;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER subnet_overlap_check
+BEFORE INSERT OR UPDATE ON public.subnets
+FOR EACH ROW
+EXECUTE FUNCTION public.check_subnet_overlap();
+
+-- Carry over the free-text subnet recorded on each location where it parses
+DO $$
+DECLARE
+  loc RECORD;
+  parsed CIDR;
+BEGIN
+  FOR loc IN SELECT id, subnet FROM public.locations WHERE subnet IS NOT NULL AND TRIM(subnet) <> '' LOOP
+    BEGIN
+      parsed := TRIM(loc.subnet)::cidr;
+      IF family(parsed) = 4 AND masklen(parsed) BETWEEN 8 AND 30 THEN
+        INSERT INTO public.subnets (location_id, network, prefix_length)
+        VALUES (loc.id, host(parsed), masklen(parsed));
+      END IF;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE NOTICE 'Skipping subnet "%" of location %', loc.subnet, loc.id;
+    END;
+  END LOOP;
+END;
+$$;
+
+ALTER TABLE public.locations DROP COLUMN subnet;
+
+-- Merging locations now also moves their subnets across
+CREATE OR REPLACE FUNCTION public.merge_locations(_source_id UUID, _target_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  source_name TEXT;
+  target_name TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can merge locations';
+  END IF;
+
+  IF _source_id = _target_id THEN
+    RAISE EXCEPTION 'Cannot merge a location into itself';
+  END IF;
+
+  SELECT name INTO source_name FROM public.locations WHERE id = _source_id;
+  SELECT name INTO target_name FROM public.locations WHERE id = _target_id;
+
+  IF source_name IS NULL OR target_name IS NULL THEN
+    RAISE EXCEPTION 'Location not found';
+  END IF;
+
+  UPDATE public.employees SET location = target_name WHERE location = source_name;
+  UPDATE public.subnets SET location_id = _target_id WHERE location_id = _source_id;
+  DELETE FROM public.locations WHERE id = _source_id;
+END;
+$$;
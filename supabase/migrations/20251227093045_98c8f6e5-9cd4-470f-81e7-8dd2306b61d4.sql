@@ -0,0 +1,283 @@
+-- Leavers are archived rather than deleted, so their history and the
+-- equipment they held stay on record
+ALTER TABLE public.employees
+  ADD COLUMN employment_status TEXT NOT NULL DEFAULT 'active' CHECK (employment_status IN ('active', 'leaving', 'left')),
+  ADD COLUMN exit_date DATE,
+  ADD COLUMN archived_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_employees_employment_status ON public.employees(employment_status);
+
+-- One offboarding per leaver. HR and IT each sign off; the record is
+-- archived once both have.
+CREATE TABLE public.offboardings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  employee_id UUID NOT NULL UNIQUE REFERENCES public.employees(id) ON DELETE CASCADE,
+  exit_date DATE NOT NULL,
+  reason TEXT,
+  started_by UUID REFERENCES auth.users(id),
+  started_by_name TEXT,
+  hr_signed_by UUID REFERENCES auth.users(id),
+  hr_signed_by_name TEXT,
+  hr_signed_at TIMESTAMP WITH TIME ZONE,
+  hr_notes TEXT,
+  it_signed_by UUID REFERENCES auth.users(id),
+  it_signed_by_name TEXT,
+  it_signed_at TIMESTAMP WITH TIME ZONE,
+  it_notes TEXT,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Everything the leaver held when offboarding started, and what became of it
+CREATE TABLE public.offboarding_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  offboarding_id UUID NOT NULL REFERENCES public.offboardings(id) ON DELETE CASCADE,
+  item_type TEXT NOT NULL CHECK (item_type IN ('computer', 'asset', 'license')),
+  asset_id UUID REFERENCES public.assets(id) ON DELETE SET NULL,
+  license_id UUID REFERENCES public.software_licenses(id) ON DELETE SET NULL,
+  -- Kept so the checklist stays readable after the device or license is removed
+  label TEXT NOT NULL,
+  serial TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'returned', 'missing')),
+  notes TEXT,
+  resolved_by UUID REFERENCES auth.users(id),
+  resolved_by_name TEXT,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_offboarding_items_offboarding_id ON public.offboarding_items(offboarding_id);
+
+ALTER TABLE public.offboardings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.offboarding_items ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_offboardings_updated_at
+BEFORE UPDATE ON public.offboardings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Changes go through the functions below, which keep the sign-off trail
+CREATE POLICY "Anyone authenticated can view offboardings"
+ON public.offboardings FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Anyone authenticated can view offboarding items"
+ON public.offboarding_items FOR SELECT
+TO authenticated
+USING (true);
+
+-- Marks the employee as leaving, cuts internet and USB access, and lists
+-- the computer, devices and license seats to recover
+CREATE OR REPLACE FUNCTION public.start_offboarding(_employee_id UUID, _exit_date DATE, _reason TEXT DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_offboarding_id UUID;
+  employee_row public.employees;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can offboard employees';
+  END IF;
+
+  SELECT * INTO employee_row FROM public.employees WHERE id = _employee_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Employee not found';
+  END IF;
+  IF employee_row.employment_status <> 'active' THEN
+    RAISE EXCEPTION '% is already being offboarded', COALESCE(employee_row.name, 'This employee');
+  END IF;
+
+  INSERT INTO public.offboardings (employee_id, exit_date, reason, started_by, started_by_name)
+  VALUES (
+    _employee_id,
+    _exit_date,
+    NULLIF(TRIM(_reason), ''),
+    auth.uid(),
+    (SELECT COALESCE(full_name, email) FROM public.profiles WHERE id = auth.uid())
+  )
+  RETURNING id INTO new_offboarding_id;
+
+  UPDATE public.employees
+  SET employment_status = 'leaving', exit_date = _exit_date, internet_access = false, usb_access = false
+  WHERE id = _employee_id;
+
+  IF employee_row.computer_name IS NOT NULL OR employee_row.computer_serial IS NOT NULL THEN
+    INSERT INTO public.offboarding_items (offboarding_id, item_type, label, serial)
+    VALUES (new_offboarding_id, 'computer', COALESCE('Computer ' || employee_row.computer_name, 'Computer'), employee_row.computer_serial);
+  END IF;
+
+  INSERT INTO public.offboarding_items (offboarding_id, item_type, asset_id, label, serial)
+  SELECT new_offboarding_id, 'asset', id,
+    COALESCE(NULLIF(name, ''), INITCAP(asset_type)) || COALESCE(' ' || model, ''),
+    serial_number
+  FROM public.assets
+  WHERE employee_id = _employee_id;
+
+  INSERT INTO public.offboarding_items (offboarding_id, item_type, license_id, label)
+  SELECT new_offboarding_id, 'license', software_licenses.id, software_licenses.software_name
+  FROM public.license_seats
+  JOIN public.software_licenses ON software_licenses.id = license_seats.license_id
+  WHERE license_seats.employee_id = _employee_id;
+
+  RETURN new_offboarding_id;
+END;
+$$;
+
+-- Records what happened to one item. Returned devices go back to stock and
+-- returned license seats are released; devices never recovered are retired.
+CREATE OR REPLACE FUNCTION public.resolve_offboarding_item(_item_id UUID, _status TEXT, _notes TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  item public.offboarding_items;
+  offboarded_employee_id UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can record returned equipment';
+  END IF;
+  IF _status NOT IN ('returned', 'missing') THEN
+    RAISE EXCEPTION 'Unknown item status %', _status;
+  END IF;
+
+  SELECT offboarding_items.* INTO item
+  FROM public.offboarding_items
+  JOIN public.offboardings ON offboardings.id = offboarding_items.offboarding_id
+  WHERE offboarding_items.id = _item_id AND offboardings.it_signed_at IS NULL;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item not found or IT has already signed off';
+  END IF;
+  IF item.status <> 'pending' THEN
+    RAISE EXCEPTION '% has already been recorded as %', item.label, item.status;
+  END IF;
+  IF _status = 'missing' AND NULLIF(TRIM(_notes), '') IS NULL THEN
+    RAISE EXCEPTION 'Explain what happened to items that were not recovered';
+  END IF;
+
+  SELECT employee_id INTO offboarded_employee_id FROM public.offboardings WHERE id = item.offboarding_id;
+
+  IF item.item_type = 'asset' THEN
+    PERFORM set_config(
+      'app.assignment_reason',
+      CASE WHEN _status = 'returned' THEN 'Recovered at offboarding' ELSE 'Not recovered at offboarding' END,
+      true
+    );
+    UPDATE public.assets
+    SET employee_id = NULL, status = CASE WHEN _status = 'returned' THEN 'in_stock' ELSE 'retired' END
+    WHERE id = item.asset_id AND employee_id = offboarded_employee_id;
+  ELSIF item.item_type = 'license' THEN
+    DELETE FROM public.license_seats
+    WHERE license_id = item.license_id AND employee_id = offboarded_employee_id;
+  END IF;
+
+  UPDATE public.offboarding_items
+  SET status = _status,
+    notes = NULLIF(TRIM(_notes), ''),
+    resolved_by = auth.uid(),
+    resolved_by_name = (SELECT COALESCE(full_name, email) FROM public.profiles WHERE id = auth.uid()),
+    resolved_at = NOW()
+  WHERE id = _item_id;
+END;
+$$;
+
+-- HR confirms the exit; IT confirms once every item is accounted for.
+-- The second sign-off completes the offboarding and archives the employee.
+CREATE OR REPLACE FUNCTION public.sign_offboarding(_offboarding_id UUID, _department TEXT, _notes TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  offboarding public.offboardings;
+  signer_name TEXT;
+  pending_count INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO offboarding FROM public.offboardings WHERE id = _offboarding_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Offboarding not found';
+  END IF;
+
+  SELECT COALESCE(full_name, email) INTO signer_name FROM public.profiles WHERE id = auth.uid();
+
+  IF _department = 'hr' THEN
+    IF offboarding.hr_signed_at IS NOT NULL THEN
+      RAISE EXCEPTION 'HR has already signed off';
+    END IF;
+
+    UPDATE public.offboardings
+    SET hr_signed_by = auth.uid(), hr_signed_by_name = signer_name, hr_signed_at = NOW(), hr_notes = NULLIF(TRIM(_notes), '')
+    WHERE id = _offboarding_id
+    RETURNING * INTO offboarding;
+  ELSIF _department = 'it' THEN
+    IF NOT public.has_role(auth.uid(), 'admin') THEN
+      RAISE EXCEPTION 'Only admins can sign off for IT';
+    END IF;
+    IF offboarding.it_signed_at IS NOT NULL THEN
+      RAISE EXCEPTION 'IT has already signed off';
+    END IF;
+
+    SELECT COUNT(*) INTO pending_count
+    FROM public.offboarding_items
+    WHERE offboarding_id = _offboarding_id AND status = 'pending';
+    IF pending_count > 0 THEN
+      RAISE EXCEPTION '% items still need to be recovered', pending_count;
+    END IF;
+
+    UPDATE public.offboardings
+    SET it_signed_by = auth.uid(), it_signed_by_name = signer_name, it_signed_at = NOW(), it_notes = NULLIF(TRIM(_notes), '')
+    WHERE id = _offboarding_id
+    RETURNING * INTO offboarding;
+  ELSE
+    RAISE EXCEPTION 'Unknown sign-off %', _department;
+  END IF;
+
+  IF offboarding.hr_signed_at IS NOT NULL AND offboarding.it_signed_at IS NOT NULL THEN
+    UPDATE public.offboardings SET completed_at = NOW() WHERE id = _offboarding_id;
+
+    UPDATE public.employees
+    SET employment_status = 'left', archived_at = NOW()
+    WHERE id = offboarding.employee_id;
+  END IF;
+END;
+$$;
+
+-- Undoes an offboarding started by mistake. Access is not restored
+-- automatically, and items already recovered stay recovered.
+CREATE OR REPLACE FUNCTION public.cancel_offboarding(_offboarding_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  offboarded_employee_id UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can cancel an offboarding';
+  END IF;
+
+  DELETE FROM public.offboardings
+  WHERE id = _offboarding_id AND completed_at IS NULL
+  RETURNING employee_id INTO offboarded_employee_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Offboarding not found or already completed';
+  END IF;
+
+  UPDATE public.employees
+  SET employment_status = 'active', exit_date = NULL
+  WHERE id = offboarded_employee_id;
+END;
+$$;
@@ -0,0 +1,104 @@
+-- Onboarding checklist started when a new joiner is added
+CREATE TABLE public.onboarding_tasks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  employee_id UUID NOT NULL REFERENCES public.employees(id) ON DELETE CASCADE,
+  task_key TEXT NOT NULL,
+  label TEXT NOT NULL CHECK (TRIM(label) <> ''),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  assignee_id UUID REFERENCES auth.users(id),
+  due_date DATE,
+  notes TEXT,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  completed_by UUID REFERENCES auth.users(id),
+  completed_by_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (employee_id, task_key)
+);
+
+CREATE INDEX idx_onboarding_tasks_employee_id ON public.onboarding_tasks(employee_id);
+CREATE INDEX idx_onboarding_tasks_assignee_id ON public.onboarding_tasks(assignee_id);
+
+ALTER TABLE public.onboarding_tasks ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_onboarding_tasks_updated_at
+BEFORE UPDATE ON public.onboarding_tasks
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE POLICY "Anyone authenticated can view onboarding tasks"
+ON public.onboarding_tasks FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage onboarding tasks"
+ON public.onboarding_tasks FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Assignees can update their onboarding tasks"
+ON public.onboarding_tasks FOR UPDATE
+TO authenticated
+USING (auth.uid() = assignee_id);
+
+-- Stamp who ticked a task off; only admins may reassign or reschedule
+CREATE OR REPLACE FUNCTION public.track_onboarding_task_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin')
+     AND (NEW.assignee_id IS DISTINCT FROM OLD.assignee_id
+          OR NEW.due_date IS DISTINCT FROM OLD.due_date
+          OR NEW.label IS DISTINCT FROM OLD.label) THEN
+    RAISE EXCEPTION 'Only admins can reassign or reschedule onboarding tasks';
+  END IF;
+
+  IF NEW.completed_at IS NOT NULL AND OLD.completed_at IS NULL THEN
+    NEW.completed_at := NOW();
+    NEW.completed_by := auth.uid();
+    SELECT COALESCE(full_name, email) INTO NEW.completed_by_name FROM public.profiles WHERE id = auth.uid();
+  ELSIF NEW.completed_at IS NULL THEN
+    NEW.completed_by := NULL;
+    NEW.completed_by_name := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER onboarding_task_changes
+BEFORE UPDATE ON public.onboarding_tasks
+FOR EACH ROW
+EXECUTE FUNCTION public.track_onboarding_task_changes();
+
+-- Create the standard checklist for a new joiner. Whoever added the record
+-- may start it, since adding employees is not limited to admins.
+CREATE OR REPLACE FUNCTION public.start_onboarding(_employee_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.employees
+    WHERE id = _employee_id
+      AND (created_by = auth.uid() OR public.has_role(auth.uid(), 'admin'))
+  ) THEN
+    RAISE EXCEPTION 'Only admins or the person who added this employee can start onboarding';
+  END IF;
+
+  INSERT INTO public.onboarding_tasks (employee_id, task_key, label, sort_order, due_date)
+  VALUES
+    (_employee_id, 'account_created', 'Account created', 1, CURRENT_DATE),
+    (_employee_id, 'pc_imaged', 'PC imaged', 2, CURRENT_DATE + 1),
+    (_employee_id, 'extension_assigned', 'Extension assigned', 3, CURRENT_DATE + 1),
+    (_employee_id, 'peripherals_issued', 'Peripherals issued', 4, CURRENT_DATE + 2),
+    (_employee_id, 'access_granted', 'Access granted', 5, CURRENT_DATE + 2)
+  ON CONFLICT (employee_id, task_key) DO NOTHING;
+END;
+$$;
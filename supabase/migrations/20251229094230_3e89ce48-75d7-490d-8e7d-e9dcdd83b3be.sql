@@ -0,0 +1,103 @@
+-- Soft delete for employees. Deleted records sit in the recycle bin until
+-- they are restored or purged after the retention period.
+ALTER TABLE public.employees
+  ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN deleted_by UUID REFERENCES auth.users(id),
+  ADD COLUMN deleted_by_name TEXT;
+
+CREATE INDEX idx_employees_deleted_at ON public.employees(deleted_at);
+
+CREATE OR REPLACE FUNCTION public.delete_employee(_employee_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can delete employees';
+  END IF;
+
+  UPDATE public.employees
+  SET deleted_at = NOW(),
+      deleted_by = auth.uid(),
+      deleted_by_name = (SELECT COALESCE(full_name, email) FROM public.profiles WHERE id = auth.uid())
+  WHERE id = _employee_id
+    AND deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Employee not found or already deleted';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.restore_employee(_employee_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can restore employees';
+  END IF;
+
+  UPDATE public.employees
+  SET deleted_at = NULL,
+      deleted_by = NULL,
+      deleted_by_name = NULL
+  WHERE id = _employee_id
+    AND deleted_at IS NOT NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Employee is not in the recycle bin';
+  END IF;
+END;
+$$;
+
+-- Permanently removes one binned record, or everything past the retention
+-- period when no id is given. Returns the number of records purged.
+CREATE OR REPLACE FUNCTION public.purge_deleted_employees(_employee_id UUID DEFAULT NULL, _retention_days INTEGER DEFAULT 30)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  purged INTEGER;
+BEGIN
+  -- The scheduled job runs without a signed-in user
+  IF auth.uid() IS NOT NULL AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can purge employees';
+  END IF;
+
+  DELETE FROM public.employees
+  WHERE deleted_at IS NOT NULL
+    AND (
+      id = _employee_id
+      OR (_employee_id IS NULL AND deleted_at < NOW() - make_interval(days => _retention_days))
+    );
+
+  GET DIAGNOSTICS purged = ROW_COUNT;
+  RETURN purged;
+END;
+$$;
+
+-- Signed-out callers would skip the admin check above
+REVOKE EXECUTE ON FUNCTION public.purge_deleted_employees(UUID, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.purge_deleted_employees(UUID, INTEGER) TO authenticated;
+
+-- The nightly purge runs without a signed-in user, so its audit entries
+-- have no actor
+ALTER TABLE public.employee_audit_log
+  ALTER COLUMN changed_by DROP NOT NULL,
+  ALTER COLUMN changed_by_email DROP NOT NULL;
+
+-- Purge expired records nightly
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA extensions;
+
+SELECT cron.schedule(
+  'purge-deleted-employees',
+  '30 2 * * *',
+  $$SELECT public.purge_deleted_employees()$$
+);
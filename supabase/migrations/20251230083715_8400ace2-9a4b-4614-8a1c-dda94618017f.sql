@@ -0,0 +1,156 @@
+-- Point-in-time rollback of employees from their audit log snapshots
+ALTER TABLE public.employee_audit_log
+  ADD COLUMN restored_from UUID REFERENCES public.employee_audit_log(id) ON DELETE SET NULL;
+
+-- Same as before, plus the audit entry a restore was made from
+CREATE OR REPLACE FUNCTION public.log_employee_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  user_email TEXT;
+  user_name TEXT;
+  changes_json JSONB;
+  restored_from_id UUID := NULLIF(current_setting('app.restored_from', true), '')::UUID;
+BEGIN
+  -- Get user information
+  SELECT email, full_name INTO user_email, user_name
+  FROM public.profiles
+  WHERE id = auth.uid();
+
+  -- Calculate changes for UPDATE operations
+  IF TG_OP = 'UPDATE' THEN
+    SELECT jsonb_object_agg(
+      key,
+      jsonb_build_object(
+        'old', old_value,
+        'new', new_value
+      )
+    ) INTO changes_json
+    FROM (
+      SELECT 
+        key,
+        old_vals.value as old_value,
+        new_vals.value as new_value
+      FROM jsonb_each_text(to_jsonb(OLD)) old_vals
+      FULL OUTER JOIN jsonb_each_text(to_jsonb(NEW)) new_vals USING (key)
+      WHERE old_vals.value IS DISTINCT FROM new_vals.value
+        AND key NOT IN ('updated_at')
+    ) AS changed_keys;
+  END IF;
+
+  -- Insert audit log
+  IF TG_OP = 'DELETE' THEN
+    INSERT INTO public.employee_audit_log (
+      employee_id, action, changed_by, changed_by_email, changed_by_name,
+      old_data, new_data, changes
+    )
+    VALUES (
+      OLD.id, 'DELETE', auth.uid(), user_email, user_name,
+      to_jsonb(OLD), NULL, NULL
+    );
+    RETURN OLD;
+  ELSIF TG_OP = 'UPDATE' THEN
+    INSERT INTO public.employee_audit_log (
+      employee_id, action, changed_by, changed_by_email, changed_by_name,
+      old_data, new_data, changes, restored_from
+    )
+    VALUES (
+      NEW.id, 'UPDATE', auth.uid(), user_email, user_name,
+      to_jsonb(OLD), to_jsonb(NEW), changes_json, restored_from_id
+    );
+    RETURN NEW;
+  ELSIF TG_OP = 'INSERT' THEN
+    INSERT INTO public.employee_audit_log (
+      employee_id, action, changed_by, changed_by_email, changed_by_name,
+      old_data, new_data, changes, restored_from
+    )
+    VALUES (
+      NEW.id, 'INSERT', auth.uid(), user_email, user_name,
+      NULL, to_jsonb(NEW), NULL, restored_from_id
+    );
+    RETURN NEW;
+  END IF;
+END;
+$function$;
+
+-- Roll an employee back to the version before or after an audited change,
+-- either whole or just the given fields. Identity, timestamps, offboarding
+-- state and recycle-bin markers are never rolled back. A purged employee is
+-- recreated from the snapshot. Returns the employee id.
+CREATE OR REPLACE FUNCTION public.restore_employee_version(
+  _audit_id UUID,
+  _version TEXT DEFAULT 'after',
+  _fields TEXT[] DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  entry public.employee_audit_log%ROWTYPE;
+  snapshot JSONB;
+  target_id UUID;
+  restore_columns TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can restore employee versions';
+  END IF;
+
+  IF _version NOT IN ('before', 'after') THEN
+    RAISE EXCEPTION 'Version must be before or after';
+  END IF;
+
+  SELECT * INTO entry FROM public.employee_audit_log WHERE id = _audit_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Audit entry not found';
+  END IF;
+
+  snapshot := CASE WHEN _version = 'before' THEN entry.old_data ELSE entry.new_data END;
+  IF snapshot IS NULL THEN
+    RAISE EXCEPTION 'This entry has no % version', _version;
+  END IF;
+
+  target_id := (snapshot->>'id')::UUID;
+
+  -- Columns dropped or added since the snapshot are left alone
+  SELECT string_agg(format('%I', column_name), ', ' ORDER BY ordinal_position) INTO restore_columns
+  FROM information_schema.columns
+  WHERE table_schema = 'public'
+    AND table_name = 'employees'
+    AND column_name NOT IN (
+      'id', 'created_at', 'created_by', 'updated_at',
+      'employment_status', 'exit_date', 'archived_at',
+      'deleted_at', 'deleted_by', 'deleted_by_name'
+    )
+    AND snapshot ? column_name
+    AND (_fields IS NULL OR column_name = ANY(_fields));
+
+  IF restore_columns IS NULL THEN
+    RAISE EXCEPTION 'No restorable fields selected';
+  END IF;
+
+  PERFORM set_config('app.restored_from', _audit_id::TEXT, true);
+
+  IF EXISTS (SELECT 1 FROM public.employees WHERE id = target_id) THEN
+    EXECUTE format(
+      'UPDATE public.employees SET (%1$s) = (SELECT %1$s FROM jsonb_populate_record(NULL::public.employees, $1)) WHERE id = $2',
+      restore_columns
+    ) USING snapshot, target_id;
+  ELSE
+    IF _fields IS NOT NULL THEN
+      RAISE EXCEPTION 'This employee has been purged; restore the whole record instead';
+    END IF;
+
+    EXECUTE format(
+      'INSERT INTO public.employees (id, created_by, %1$s) SELECT $2, $3, %1$s FROM jsonb_populate_record(NULL::public.employees, $1)',
+      restore_columns
+    ) USING snapshot, target_id, auth.uid();
+  END IF;
+
+  RETURN target_id;
+END;
+$$;
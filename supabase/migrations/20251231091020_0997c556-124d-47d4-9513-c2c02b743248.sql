@@ -0,0 +1,10 @@
+-- Full-text search across the values an audit entry recorded, plus the actor,
+-- so questions like "who changed 10.0.0.5" can be answered server-side
+ALTER TABLE public.employee_audit_log
+  ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (
+    to_tsvector('simple'::regconfig, COALESCE(changes, new_data, old_data, '{}'::jsonb))
+    || to_tsvector('simple'::regconfig, COALESCE(changed_by_name, '') || ' ' || COALESCE(changed_by_email, ''))
+  ) STORED;
+
+CREATE INDEX idx_employee_audit_log_search_vector ON public.employee_audit_log USING GIN (search_vector);
+CREATE INDEX idx_employee_audit_log_changed_by ON public.employee_audit_log(changed_by);
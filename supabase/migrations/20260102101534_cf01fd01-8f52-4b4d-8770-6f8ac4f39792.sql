@@ -0,0 +1,87 @@
+-- Audit trail for role grants and revocations. Written by a trigger so
+-- changes made from the SQL console are recorded as well.
+CREATE TABLE public.role_audit_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  user_email TEXT,
+  user_name TEXT,
+  role app_role NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('GRANT', 'REVOKE')),
+  changed_by UUID,
+  changed_by_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.role_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view role audit logs"
+ON public.role_audit_log FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE INDEX idx_role_audit_log_user_id ON public.role_audit_log(user_id);
+CREATE INDEX idx_role_audit_log_created_at ON public.role_audit_log(created_at DESC);
+
+-- There must always be at least one admin left to manage roles
+CREATE OR REPLACE FUNCTION public.prevent_last_admin_removal()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.role = 'admin' AND (TG_OP = 'DELETE' OR NEW.role <> 'admin') THEN
+    -- Lock the admin rows so two admins can't demote each other at once
+    PERFORM 1 FROM public.user_roles WHERE role = 'admin' FOR UPDATE;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM public.user_roles
+      WHERE role = 'admin' AND id <> OLD.id
+    ) THEN
+      RAISE EXCEPTION 'Cannot remove the last remaining admin';
+    END IF;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_last_admin_removal
+BEFORE UPDATE OR DELETE ON public.user_roles
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_last_admin_removal();
+
+CREATE OR REPLACE FUNCTION public.log_role_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  actor_name TEXT := (SELECT COALESCE(full_name, email) FROM public.profiles WHERE id = auth.uid());
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    INSERT INTO public.role_audit_log (user_id, user_email, user_name, role, action, changed_by, changed_by_name)
+    SELECT OLD.user_id, p.email, p.full_name, OLD.role, 'REVOKE', auth.uid(), actor_name
+    FROM (SELECT 1) AS one
+    LEFT JOIN public.profiles p ON p.id = OLD.user_id;
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    INSERT INTO public.role_audit_log (user_id, user_email, user_name, role, action, changed_by, changed_by_name)
+    SELECT NEW.user_id, p.email, p.full_name, NEW.role, 'GRANT', auth.uid(), actor_name
+    FROM (SELECT 1) AS one
+    LEFT JOIN public.profiles p ON p.id = NEW.user_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER log_role_change
+AFTER INSERT OR UPDATE OR DELETE ON public.user_roles
+FOR EACH ROW
+EXECUTE FUNCTION public.log_role_change();
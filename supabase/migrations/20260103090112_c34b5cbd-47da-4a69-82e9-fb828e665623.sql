@@ -0,0 +1,5 @@
+-- Location-scoped roles. Added on their own so the new values are committed
+-- before the policies that use them are created.
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'viewer';
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'technician';
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'location_manager';
@@ -0,0 +1,331 @@
+-- Viewers, technicians and location managers only work at the locations
+-- they are assigned. Admins and users without one of these roles keep
+-- seeing every location, as before.
+CREATE TABLE public.user_role_locations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_role_id UUID NOT NULL REFERENCES public.user_roles(id) ON DELETE CASCADE,
+  location_id UUID NOT NULL REFERENCES public.locations(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(user_role_id, location_id)
+);
+
+CREATE INDEX idx_user_role_locations_location_id ON public.user_role_locations(location_id);
+
+ALTER TABLE public.user_role_locations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own role locations"
+ON public.user_role_locations FOR SELECT
+TO authenticated
+USING (EXISTS (
+  SELECT 1 FROM public.user_roles
+  WHERE user_roles.id = user_role_locations.user_role_id AND user_roles.user_id = auth.uid()
+));
+
+CREATE POLICY "Admins can manage role locations"
+ON public.user_role_locations FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- True for non-admins holding at least one location-scoped role
+CREATE OR REPLACE FUNCTION public.is_location_scoped(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT public.has_role(_user_id, 'admin') AND EXISTS (
+    SELECT 1
+    FROM public.user_roles
+    WHERE user_id = _user_id AND role IN ('viewer', 'technician', 'location_manager')
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_location_role(_user_id UUID, _location TEXT, _roles app_role[])
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_roles
+    JOIN public.user_role_locations ON user_role_locations.user_role_id = user_roles.id
+    JOIN public.locations ON locations.id = user_role_locations.location_id
+    WHERE user_roles.user_id = _user_id
+      AND user_roles.role = ANY(_roles)
+      AND locations.name = _location
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_view_location(_user_id UUID, _location TEXT)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT public.is_location_scoped(_user_id)
+    OR public.has_location_role(_user_id, _location, ARRAY['viewer', 'technician', 'location_manager']::app_role[])
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_edit_location(_user_id UUID, _location TEXT)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_location_role(_user_id, _location, ARRAY['technician', 'location_manager']::app_role[])
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_view_employee(_user_id UUID, _employee_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT public.is_location_scoped(_user_id) OR EXISTS (
+    SELECT 1
+    FROM public.employees
+    WHERE id = _employee_id
+      AND public.can_view_location(_user_id, location)
+  )
+$$;
+
+-- Unassigned stock has no location, so any technician or location manager
+-- may issue it. Assets held by someone follow the holder's location.
+CREATE OR REPLACE FUNCTION public.can_edit_asset_holder(_user_id UUID, _employee_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN _employee_id IS NULL THEN
+      public.has_role(_user_id, 'technician') OR public.has_role(_user_id, 'location_manager')
+    ELSE EXISTS (
+      SELECT 1
+      FROM public.employees
+      WHERE id = _employee_id
+        AND public.can_edit_location(_user_id, location)
+    )
+  END
+$$;
+
+-- Employees: scoped users see their locations only, and technicians and
+-- location managers may add and edit records there
+DROP POLICY IF EXISTS "Anyone authenticated can view employees" ON public.employees;
+
+CREATE POLICY "Users can view employees in their locations"
+ON public.employees FOR SELECT
+TO authenticated
+USING (public.can_view_location(auth.uid(), location));
+
+CREATE POLICY "Technicians can update employees in their locations"
+ON public.employees FOR UPDATE
+TO authenticated
+USING (public.can_edit_location(auth.uid(), location))
+WITH CHECK (public.can_edit_location(auth.uid(), location));
+
+CREATE POLICY "Scoped users can only add employees to their locations"
+ON public.employees AS RESTRICTIVE FOR INSERT
+TO authenticated
+WITH CHECK (NOT public.is_location_scoped(auth.uid()) OR public.can_edit_location(auth.uid(), location));
+
+CREATE POLICY "Scoped users can only edit employees in their locations"
+ON public.employees AS RESTRICTIVE FOR UPDATE
+TO authenticated
+USING (NOT public.is_location_scoped(auth.uid()) OR public.can_edit_location(auth.uid(), location))
+WITH CHECK (NOT public.is_location_scoped(auth.uid()) OR public.can_edit_location(auth.uid(), location));
+
+-- Assets: unassigned stock stays visible to everyone
+DROP POLICY IF EXISTS "Anyone authenticated can view assets" ON public.assets;
+
+CREATE POLICY "Users can view assets in their locations"
+ON public.assets FOR SELECT
+TO authenticated
+USING (employee_id IS NULL OR public.can_view_employee(auth.uid(), employee_id));
+
+CREATE POLICY "Technicians can update assets in their locations"
+ON public.assets FOR UPDATE
+TO authenticated
+USING (public.can_edit_asset_holder(auth.uid(), employee_id))
+WITH CHECK (public.can_edit_asset_holder(auth.uid(), employee_id));
+
+CREATE POLICY "Scoped users can only add assets to their locations"
+ON public.assets AS RESTRICTIVE FOR INSERT
+TO authenticated
+WITH CHECK (NOT public.is_location_scoped(auth.uid()) OR public.can_edit_asset_holder(auth.uid(), employee_id));
+
+CREATE POLICY "Scoped users can only edit assets in their locations"
+ON public.assets AS RESTRICTIVE FOR UPDATE
+TO authenticated
+USING (NOT public.is_location_scoped(auth.uid()) OR public.can_edit_asset_holder(auth.uid(), employee_id))
+WITH CHECK (NOT public.is_location_scoped(auth.uid()) OR public.can_edit_asset_holder(auth.uid(), employee_id));
+
+-- Records hanging off an employee follow the employee's location
+CREATE POLICY "Scoped users only see asset history in their locations"
+ON public.asset_assignments AS RESTRICTIVE FOR SELECT
+TO authenticated
+USING (employee_id IS NULL OR public.can_view_employee(auth.uid(), employee_id));
+
+CREATE POLICY "Scoped users only see license seats in their locations"
+ON public.license_seats AS RESTRICTIVE FOR SELECT
+TO authenticated
+USING (employee_id IS NULL OR public.can_view_employee(auth.uid(), employee_id));
+
+CREATE POLICY "Scoped users only see offboardings in their locations"
+ON public.offboardings AS RESTRICTIVE FOR SELECT
+TO authenticated
+USING (public.can_view_employee(auth.uid(), employee_id));
+
+CREATE POLICY "Scoped users only see onboarding tasks in their locations"
+ON public.onboarding_tasks AS RESTRICTIVE FOR SELECT
+TO authenticated
+USING (public.can_view_employee(auth.uid(), employee_id));
+
+CREATE POLICY "Scoped users only see pm records in their locations"
+ON public.pm_records AS RESTRICTIVE FOR SELECT
+TO authenticated
+USING (employee_id IS NULL OR public.can_view_employee(auth.uid(), employee_id));
+
+CREATE POLICY "Scoped users only see tickets in their locations"
+ON public.tickets AS RESTRICTIVE FOR SELECT
+TO authenticated
+USING (
+  employee_id IS NULL
+  OR created_by = auth.uid()
+  OR public.can_view_employee(auth.uid(), employee_id)
+);
+
+-- Location managers follow every change made at their locations
+CREATE POLICY "Location managers can view audit logs for their locations"
+ON public.employee_audit_log FOR SELECT
+TO authenticated
+USING (public.has_location_role(
+  auth.uid(),
+  COALESCE(new_data->>'location', old_data->>'location'),
+  ARRAY['location_manager']::app_role[]
+));
+
+-- Technicians add new joiners at their branch, so they may start onboarding
+CREATE OR REPLACE FUNCTION public.start_onboarding(_employee_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.employees
+    WHERE id = _employee_id
+      AND (
+        (created_by = auth.uid() AND NOT public.is_location_scoped(auth.uid()))
+        OR public.can_edit_location(auth.uid(), location)
+        OR public.has_role(auth.uid(), 'admin')
+      )
+  ) THEN
+    RAISE EXCEPTION 'Only admins or the person who added this employee can start onboarding';
+  END IF;
+
+  INSERT INTO public.onboarding_tasks (employee_id, task_key, label, sort_order, due_date)
+  VALUES
+    (_employee_id, 'account_created', 'Account created', 1, CURRENT_DATE),
+    (_employee_id, 'pc_imaged', 'PC imaged', 2, CURRENT_DATE + 1),
+    (_employee_id, 'extension_assigned', 'Extension assigned', 3, CURRENT_DATE + 1),
+    (_employee_id, 'peripherals_issued', 'Peripherals issued', 4, CURRENT_DATE + 2),
+    (_employee_id, 'access_granted', 'Access granted', 5, CURRENT_DATE + 2)
+  ON CONFLICT (employee_id, task_key) DO NOTHING;
+END;
+$$;
+
+-- Grants a role, or changes the locations of one already held. Scoped
+-- roles need at least one location.
+CREATE OR REPLACE FUNCTION public.grant_role(_user_id UUID, _role app_role, _location_ids UUID[] DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  role_id UUID;
+  scoped BOOLEAN := _role IN ('viewer', 'technician', 'location_manager');
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can grant roles';
+  END IF;
+
+  IF scoped AND COALESCE(cardinality(_location_ids), 0) = 0 THEN
+    RAISE EXCEPTION 'Choose at least one location for this role';
+  END IF;
+
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (_user_id, _role)
+  ON CONFLICT (user_id, role) DO NOTHING;
+
+  IF NOT scoped THEN
+    RETURN;
+  END IF;
+
+  SELECT id INTO role_id
+  FROM public.user_roles
+  WHERE user_id = _user_id AND role = _role;
+
+  DELETE FROM public.user_role_locations
+  WHERE user_role_id = role_id
+    AND location_id <> ALL(_location_ids);
+
+  INSERT INTO public.user_role_locations (user_role_id, location_id)
+  SELECT role_id, location_id
+  FROM unnest(_location_ids) AS location_id
+  ON CONFLICT (user_role_id, location_id) DO NOTHING;
+END;
+$$;
+
+-- Location changes go into the role audit trail as well
+ALTER TABLE public.role_audit_log ADD COLUMN location_name TEXT;
+
+CREATE OR REPLACE FUNCTION public.log_role_location_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  scope public.user_role_locations;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    scope := OLD;
+  ELSE
+    scope := NEW;
+  END IF;
+
+  -- Rows removed along with their role or location are covered by that change
+  INSERT INTO public.role_audit_log (user_id, user_email, user_name, role, location_name, action, changed_by, changed_by_name)
+  SELECT
+    user_roles.user_id,
+    profiles.email,
+    profiles.full_name,
+    user_roles.role,
+    locations.name,
+    CASE WHEN TG_OP = 'DELETE' THEN 'REVOKE' ELSE 'GRANT' END,
+    auth.uid(),
+    (SELECT COALESCE(full_name, email) FROM public.profiles WHERE id = auth.uid())
+  FROM public.user_roles
+  JOIN public.locations ON locations.id = scope.location_id
+  LEFT JOIN public.profiles ON profiles.id = user_roles.user_id
+  WHERE user_roles.id = scope.user_role_id;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER log_role_location_change
+AFTER INSERT OR DELETE ON public.user_role_locations
+FOR EACH ROW
+EXECUTE FUNCTION public.log_role_location_change();
@@ -0,0 +1,298 @@
+-- App-wide switches, kept in a single row
+CREATE TABLE public.app_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  require_change_approval BOOLEAN NOT NULL DEFAULT false,
+  updated_by UUID REFERENCES auth.users(id),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO public.app_settings DEFAULT VALUES;
+
+ALTER TABLE public.app_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_app_settings_updated_at
+BEFORE UPDATE ON public.app_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE POLICY "Anyone authenticated can view app settings"
+ON public.app_settings FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can update app settings"
+ON public.app_settings FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.change_approval_required()
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((SELECT require_change_approval FROM public.app_settings), false)
+$$;
+
+-- Edits from non-admins waiting for review. changes has the same
+-- {field: {old, new}} shape as the audit log.
+CREATE TABLE public.employee_change_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  employee_id UUID NOT NULL REFERENCES public.employees(id) ON DELETE CASCADE,
+  changes JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  requested_by UUID NOT NULL REFERENCES auth.users(id),
+  requested_by_name TEXT,
+  reviewed_by UUID REFERENCES auth.users(id),
+  reviewed_by_name TEXT,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  review_comment TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_employee_change_requests_status ON public.employee_change_requests(status);
+CREATE INDEX idx_employee_change_requests_employee_id ON public.employee_change_requests(employee_id);
+CREATE INDEX idx_employee_change_requests_requested_by ON public.employee_change_requests(requested_by);
+
+ALTER TABLE public.employee_change_requests ENABLE ROW LEVEL SECURITY;
+
+-- Requests are only written through the functions below
+CREATE POLICY "Admins can view all change requests"
+ON public.employee_change_requests FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can view their own change requests"
+ON public.employee_change_requests FOR SELECT
+TO authenticated
+USING (requested_by = auth.uid());
+
+-- While approval is required, non-admins can't edit employees directly
+CREATE POLICY "Non-admin edits need approval when required"
+ON public.employees AS RESTRICTIVE FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin') OR NOT public.change_approval_required());
+
+-- Audit entries made by approving a request point back at it
+ALTER TABLE public.employee_audit_log
+  ADD COLUMN change_request_id UUID REFERENCES public.employee_change_requests(id) ON DELETE SET NULL;
+
+-- Same as before, plus the change request an update was approved from
+CREATE OR REPLACE FUNCTION public.log_employee_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  user_email TEXT;
+  user_name TEXT;
+  changes_json JSONB;
+  restored_from_id UUID := NULLIF(current_setting('app.restored_from', true), '')::UUID;
+  change_request UUID := NULLIF(current_setting('app.change_request', true), '')::UUID;
+BEGIN
+  -- Get user information
+  SELECT email, full_name INTO user_email, user_name
+  FROM public.profiles
+  WHERE id = auth.uid();
+
+  -- Calculate changes for UPDATE operations
+  IF TG_OP = 'UPDATE' THEN
+    SELECT jsonb_object_agg(
+      key,
+      jsonb_build_object(
+        'old', old_value,
+        'new', new_value
+      )
+    ) INTO changes_json
+    FROM (
+      SELECT
+        key,
+        old_vals.value as old_value,
+        new_vals.value as new_value
+      FROM jsonb_each_text(to_jsonb(OLD)) old_vals
+      FULL OUTER JOIN jsonb_each_text(to_jsonb(NEW)) new_vals USING (key)
+      WHERE old_vals.value IS DISTINCT FROM new_vals.value
+        AND key NOT IN ('updated_at')
+    ) AS changed_keys;
+  END IF;
+
+  -- Insert audit log
+  IF TG_OP = 'DELETE' THEN
+    INSERT INTO public.employee_audit_log (
+      employee_id, action, changed_by, changed_by_email, changed_by_name,
+      old_data, new_data, changes
+    )
+    VALUES (
+      OLD.id, 'DELETE', auth.uid(), user_email, user_name,
+      to_jsonb(OLD), NULL, NULL
+    );
+    RETURN OLD;
+  ELSIF TG_OP = 'UPDATE' THEN
+    INSERT INTO public.employee_audit_log (
+      employee_id, action, changed_by, changed_by_email, changed_by_name,
+      old_data, new_data, changes, restored_from, change_request_id
+    )
+    VALUES (
+      NEW.id, 'UPDATE', auth.uid(), user_email, user_name,
+      to_jsonb(OLD), to_jsonb(NEW), changes_json, restored_from_id, change_request
+    );
+    RETURN NEW;
+  ELSIF TG_OP = 'INSERT' THEN
+    INSERT INTO public.employee_audit_log (
+      employee_id, action, changed_by, changed_by_email, changed_by_name,
+      old_data, new_data, changes, restored_from
+    )
+    VALUES (
+      NEW.id, 'INSERT', auth.uid(), user_email, user_name,
+      NULL, to_jsonb(NEW), NULL, restored_from_id
+    );
+    RETURN NEW;
+  END IF;
+END;
+$function$;
+
+-- Files an edit for review instead of applying it. Only fields that differ
+-- from the current record are kept; empty strings count as cleared.
+-- Returns the request id, or null when nothing differs.
+CREATE OR REPLACE FUNCTION public.request_employee_change(_employee_id UUID, _values JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_row public.employees%ROWTYPE;
+  changes_json JSONB;
+  request_id UUID;
+BEGIN
+  SELECT * INTO current_row
+  FROM public.employees
+  WHERE id = _employee_id AND deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Employee not found';
+  END IF;
+
+  -- Same people who could edit the record directly
+  IF NOT (
+    (current_row.created_by = auth.uid() AND NOT public.is_location_scoped(auth.uid()))
+    OR public.can_edit_location(auth.uid(), current_row.location)
+    OR public.has_role(auth.uid(), 'admin')
+  ) THEN
+    RAISE EXCEPTION 'You do not have permission to edit this employee';
+  END IF;
+
+  SELECT jsonb_object_agg(key, jsonb_build_object('old', old_value, 'new', new_value)) INTO changes_json
+  FROM (
+    SELECT
+      requested.key,
+      NULLIF(to_jsonb(current_row)->>requested.key, '') AS old_value,
+      NULLIF(requested.value #>> '{}', '') AS new_value
+    FROM jsonb_each(_values) AS requested
+    JOIN information_schema.columns
+      ON columns.table_schema = 'public'
+      AND columns.table_name = 'employees'
+      AND columns.column_name = requested.key
+    WHERE requested.key NOT IN (
+      'id', 'created_at', 'created_by', 'updated_at',
+      'employment_status', 'exit_date', 'archived_at',
+      'deleted_at', 'deleted_by', 'deleted_by_name'
+    )
+  ) AS fields
+  WHERE old_value IS DISTINCT FROM new_value;
+
+  IF changes_json IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF changes_json ? 'location'
+    AND public.is_location_scoped(auth.uid())
+    AND NOT public.can_edit_location(auth.uid(), changes_json->'location'->>'new')
+  THEN
+    RAISE EXCEPTION 'You can only move employees to your own locations';
+  END IF;
+
+  INSERT INTO public.employee_change_requests (employee_id, changes, requested_by, requested_by_name)
+  VALUES (
+    _employee_id,
+    changes_json,
+    auth.uid(),
+    (SELECT COALESCE(full_name, email) FROM public.profiles WHERE id = auth.uid())
+  )
+  RETURNING id INTO request_id;
+
+  RETURN request_id;
+END;
+$$;
+
+-- Approve (applying the requested values) or reject a pending request.
+-- Rejections need a comment for the requester.
+CREATE OR REPLACE FUNCTION public.review_change_request(_request_id UUID, _approve BOOLEAN, _comment TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request public.employee_change_requests%ROWTYPE;
+  new_values JSONB;
+  apply_columns TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can review change requests';
+  END IF;
+
+  SELECT * INTO request
+  FROM public.employee_change_requests
+  WHERE id = _request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Change request not found';
+  END IF;
+
+  IF request.status <> 'pending' THEN
+    RAISE EXCEPTION 'This request has already been reviewed';
+  END IF;
+
+  IF NOT _approve AND NULLIF(TRIM(_comment), '') IS NULL THEN
+    RAISE EXCEPTION 'Add a comment explaining the rejection';
+  END IF;
+
+  IF _approve THEN
+    IF NOT EXISTS (SELECT 1 FROM public.employees WHERE id = request.employee_id AND deleted_at IS NULL) THEN
+      RAISE EXCEPTION 'This employee has been deleted';
+    END IF;
+
+    SELECT jsonb_object_agg(key, value->'new') INTO new_values
+    FROM jsonb_each(request.changes);
+
+    -- Columns dropped since the request was made are skipped
+    SELECT string_agg(format('%I', column_name), ', ' ORDER BY ordinal_position) INTO apply_columns
+    FROM information_schema.columns
+    WHERE table_schema = 'public'
+      AND table_name = 'employees'
+      AND new_values ? column_name;
+
+    IF apply_columns IS NOT NULL THEN
+      PERFORM set_config('app.change_request', _request_id::TEXT, true);
+
+      EXECUTE format(
+        'UPDATE public.employees SET (%1$s) = (SELECT %1$s FROM jsonb_populate_record(NULL::public.employees, $1)) WHERE id = $2',
+        apply_columns
+      ) USING new_values, request.employee_id;
+    END IF;
+  END IF;
+
+  UPDATE public.employee_change_requests
+  SET status = CASE WHEN _approve THEN 'approved' ELSE 'rejected' END,
+      reviewed_by = auth.uid(),
+      reviewed_by_name = (SELECT COALESCE(full_name, email) FROM public.profiles WHERE id = auth.uid()),
+      reviewed_at = NOW(),
+      review_comment = NULLIF(TRIM(_comment), '')
+  WHERE id = _request_id;
+END;
+$$;
@@ -0,0 +1,173 @@
+-- Self sign-up is limited to these email domains; everyone else needs an invitation
+ALTER TABLE public.app_settings
+  ADD COLUMN allowed_signup_domains TEXT[] NOT NULL DEFAULT '{}';
+
+-- Invitations issued by admins. The role (and its locations, for scoped roles)
+-- is granted when the invitee signs up with the invitation's token.
+CREATE TABLE public.user_invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email TEXT NOT NULL,
+  role app_role NOT NULL,
+  location_ids UUID[] NOT NULL DEFAULT '{}',
+  token UUID NOT NULL UNIQUE DEFAULT gen_random_uuid(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  invited_by_name TEXT,
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  accepted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_user_invitations_email ON public.user_invitations(LOWER(email));
+
+ALTER TABLE public.user_invitations ENABLE ROW LEVEL SECURITY;
+
+-- Invitations are created through create_invitation and revoked by updating revoked_at
+CREATE POLICY "Admins can view invitations"
+ON public.user_invitations FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update invitations"
+ON public.user_invitations FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Replaces any pending invitation for the same email. Returns the new invitation id.
+CREATE OR REPLACE FUNCTION public.create_invitation(
+  _email TEXT,
+  _role app_role,
+  _location_ids UUID[] DEFAULT NULL,
+  _expires_in_days INTEGER DEFAULT 7
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  normalized_email TEXT := LOWER(TRIM(_email));
+  scoped BOOLEAN := _role IN ('viewer', 'technician', 'location_manager');
+  invitation_id UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can invite users';
+  END IF;
+
+  IF normalized_email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RAISE EXCEPTION 'Enter a valid email address';
+  END IF;
+
+  IF scoped AND COALESCE(cardinality(_location_ids), 0) = 0 THEN
+    RAISE EXCEPTION 'Choose at least one location for this role';
+  END IF;
+
+  IF _expires_in_days IS NULL OR _expires_in_days < 1 THEN
+    RAISE EXCEPTION 'Invitations must be valid for at least one day';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.profiles WHERE LOWER(email) = normalized_email) THEN
+    RAISE EXCEPTION 'A user with this email already exists';
+  END IF;
+
+  UPDATE public.user_invitations
+  SET revoked_at = NOW()
+  WHERE LOWER(email) = normalized_email
+    AND accepted_at IS NULL
+    AND revoked_at IS NULL;
+
+  INSERT INTO public.user_invitations (email, role, location_ids, expires_at, invited_by, invited_by_name)
+  VALUES (
+    normalized_email,
+    _role,
+    CASE WHEN scoped THEN _location_ids ELSE '{}' END,
+    NOW() + make_interval(days => _expires_in_days),
+    auth.uid(),
+    (SELECT COALESCE(full_name, email) FROM public.profiles WHERE id = auth.uid())
+  )
+  RETURNING id INTO invitation_id;
+
+  RETURN invitation_id;
+END;
+$$;
+
+-- Lets the sign-up page show who an invitation link is for. Only valid
+-- invitations are returned, and nothing is returned without the token.
+CREATE OR REPLACE FUNCTION public.get_invitation(_token UUID)
+RETURNS TABLE (email TEXT, role app_role, expires_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT email, role, expires_at
+  FROM public.user_invitations
+  WHERE token = _token
+    AND accepted_at IS NULL
+    AND revoked_at IS NULL
+    AND expires_at > NOW()
+$$;
+
+-- New accounts need either a valid invitation (matched on token and email) or
+-- an email on one of the allowed domains. Anything else aborts the sign-up.
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invitation public.user_invitations%ROWTYPE;
+  email_domain TEXT := LOWER(split_part(NEW.email, '@', 2));
+  role_id UUID;
+BEGIN
+  SELECT * INTO invitation
+  FROM public.user_invitations
+  WHERE token::TEXT = NEW.raw_user_meta_data->>'invite_token'
+    AND LOWER(email) = LOWER(NEW.email)
+    AND accepted_at IS NULL
+    AND revoked_at IS NULL
+    AND expires_at > NOW()
+  FOR UPDATE;
+
+  IF invitation.id IS NULL AND NOT EXISTS (
+    SELECT 1
+    FROM public.app_settings, unnest(allowed_signup_domains) AS domain
+    WHERE LOWER(domain) = email_domain
+  ) THEN
+    RAISE EXCEPTION 'Sign-up is by invitation only';
+  END IF;
+
+  INSERT INTO public.profiles (id, email, full_name)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    COALESCE(NEW.raw_user_meta_data->>'full_name', '')
+  );
+
+  IF invitation.id IS NULL THEN
+    -- Allowed domains get the employee role, as before
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (NEW.id, 'employee');
+  ELSE
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (NEW.id, invitation.role)
+    RETURNING id INTO role_id;
+
+    -- Locations deleted since the invitation was sent are skipped
+    INSERT INTO public.user_role_locations (user_role_id, location_id)
+    SELECT role_id, locations.id
+    FROM public.locations
+    WHERE locations.id = ANY(invitation.location_ids);
+
+    UPDATE public.user_invitations
+    SET accepted_at = NOW(),
+        accepted_by = NEW.id
+    WHERE id = invitation.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,136 @@
+-- Merging locations used to drop departments scoped to the source location,
+-- and their sections with them. They now merge into the target's department
+-- of the same name (its own, else the global one) or move across as they are.
+CREATE OR REPLACE FUNCTION public.merge_locations(_source_id UUID, _target_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  source_name TEXT;
+  target_name TEXT;
+  scoped_department RECORD;
+  match_id UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can merge locations';
+  END IF;
+
+  IF _source_id = _target_id THEN
+    RAISE EXCEPTION 'Cannot merge a location into itself';
+  END IF;
+
+  SELECT name INTO source_name FROM public.locations WHERE id = _source_id;
+  SELECT name INTO target_name FROM public.locations WHERE id = _target_id;
+
+  IF source_name IS NULL OR target_name IS NULL THEN
+    RAISE EXCEPTION 'Location not found';
+  END IF;
+
+  -- Before the employees move, so merge_departments still finds them at the source
+  FOR scoped_department IN SELECT id, name FROM public.departments WHERE location_id = _source_id LOOP
+    SELECT id INTO match_id
+    FROM public.departments
+    WHERE LOWER(name) = LOWER(scoped_department.name)
+      AND (location_id = _target_id OR location_id IS NULL)
+    ORDER BY location_id NULLS LAST
+    LIMIT 1;
+
+    IF match_id IS NULL THEN
+      UPDATE public.departments SET location_id = _target_id WHERE id = scoped_department.id;
+    ELSE
+      PERFORM public.merge_departments(scoped_department.id, match_id);
+    END IF;
+  END LOOP;
+
+  UPDATE public.employees SET location = target_name WHERE location = source_name;
+  UPDATE public.subnets SET location_id = _target_id WHERE location_id = _source_id;
+  DELETE FROM public.locations WHERE id = _source_id;
+END;
+$$;
+
+-- Renaming a global department skips employees at locations with their own
+-- department of the same name, since that is the one they belong to
+CREATE OR REPLACE FUNCTION public.rename_department(_department_id UUID, _name TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  old_name TEXT;
+  scope TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can rename departments';
+  END IF;
+
+  SELECT departments.name, locations.name INTO old_name, scope
+  FROM public.departments
+  LEFT JOIN public.locations ON locations.id = departments.location_id
+  WHERE departments.id = _department_id;
+
+  IF old_name IS NULL THEN
+    RAISE EXCEPTION 'Department not found';
+  END IF;
+
+  UPDATE public.departments SET name = TRIM(_name) WHERE id = _department_id;
+
+  UPDATE public.employees
+  SET department = TRIM(_name)
+  WHERE department = old_name
+    AND (
+      location = scope
+      OR (scope IS NULL AND NOT EXISTS (
+        SELECT 1
+        FROM public.departments AS overrides
+        JOIN public.locations ON locations.id = overrides.location_id
+        WHERE locations.name = employees.location
+          AND LOWER(overrides.name) = LOWER(old_name)
+      ))
+    );
+END;
+$$;
+
+-- Same for sections of a global department
+CREATE OR REPLACE FUNCTION public.rename_section(_section_id UUID, _name TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  old_name TEXT;
+  department_name TEXT;
+  scope TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can rename sections';
+  END IF;
+
+  SELECT sections.name, departments.name, locations.name INTO old_name, department_name, scope
+  FROM public.sections
+  JOIN public.departments ON departments.id = sections.department_id
+  LEFT JOIN public.locations ON locations.id = departments.location_id
+  WHERE sections.id = _section_id;
+
+  IF old_name IS NULL THEN
+    RAISE EXCEPTION 'Section not found';
+  END IF;
+
+  UPDATE public.sections SET name = TRIM(_name) WHERE id = _section_id;
+
+  UPDATE public.employees
+  SET section = TRIM(_name)
+  WHERE department = department_name
+    AND section = old_name
+    AND (
+      location = scope
+      OR (scope IS NULL AND NOT EXISTS (
+        SELECT 1
+        FROM public.departments AS overrides
+        JOIN public.locations ON locations.id = overrides.location_id
+        WHERE locations.name = employees.location
+          AND LOWER(overrides.name) = LOWER(department_name)
+      ))
+    );
+END;
+$$;
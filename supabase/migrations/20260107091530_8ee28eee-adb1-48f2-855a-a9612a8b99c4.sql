@@ -0,0 +1,67 @@
+-- Merging locations used to drop the source's PM interval rules. They now
+-- move to the target, keeping the stricter interval where both have one.
+CREATE OR REPLACE FUNCTION public.merge_locations(_source_id UUID, _target_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  source_name TEXT;
+  target_name TEXT;
+  scoped_department RECORD;
+  match_id UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can merge locations';
+  END IF;
+
+  IF _source_id = _target_id THEN
+    RAISE EXCEPTION 'Cannot merge a location into itself';
+  END IF;
+
+  SELECT name INTO source_name FROM public.locations WHERE id = _source_id;
+  SELECT name INTO target_name FROM public.locations WHERE id = _target_id;
+
+  IF source_name IS NULL OR target_name IS NULL THEN
+    RAISE EXCEPTION 'Location not found';
+  END IF;
+
+  -- Before the employees move, so merge_departments still finds them at the source
+  FOR scoped_department IN SELECT id, name FROM public.departments WHERE location_id = _source_id LOOP
+    SELECT id INTO match_id
+    FROM public.departments
+    WHERE LOWER(name) = LOWER(scoped_department.name)
+      AND (location_id = _target_id OR location_id IS NULL)
+    ORDER BY location_id NULLS LAST
+    LIMIT 1;
+
+    IF match_id IS NULL THEN
+      UPDATE public.departments SET location_id = _target_id WHERE id = scoped_department.id;
+    ELSE
+      PERFORM public.merge_departments(scoped_department.id, match_id);
+    END IF;
+  END LOOP;
+
+  UPDATE public.employees SET location = target_name WHERE location = source_name;
+  UPDATE public.subnets SET location_id = _target_id WHERE location_id = _source_id;
+
+  -- Where both locations have a rule for the same device type, the shorter interval wins
+  UPDATE public.pm_intervals AS target_rules
+  SET interval_days = LEAST(target_rules.interval_days, source_rules.interval_days)
+  FROM public.pm_intervals AS source_rules
+  WHERE source_rules.location_id = _source_id
+    AND target_rules.location_id = _target_id
+    AND target_rules.device_type IS NOT DISTINCT FROM source_rules.device_type;
+
+  DELETE FROM public.pm_intervals AS source_rules
+  WHERE location_id = _source_id
+    AND EXISTS (
+      SELECT 1 FROM public.pm_intervals AS target_rules
+      WHERE target_rules.location_id = _target_id
+        AND target_rules.device_type IS NOT DISTINCT FROM source_rules.device_type
+    );
+
+  UPDATE public.pm_intervals SET location_id = _target_id WHERE location_id = _source_id;
+  DELETE FROM public.locations WHERE id = _source_id;
+END;
+$$;
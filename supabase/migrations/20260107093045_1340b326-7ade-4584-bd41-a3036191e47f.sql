@@ -0,0 +1,30 @@
+-- Reporters could change anything on their own tickets, including closing or
+-- reassigning them. They can now only edit the description (and comment);
+-- status, priority, assignee and the rest stay with assignees and admins.
+CREATE OR REPLACE FUNCTION public.check_ticket_reporter_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- Scheduled jobs and cascades from deleted employees run without a user
+  IF auth.uid() IS NULL
+    OR auth.uid() = OLD.assignee_id
+    OR public.has_role(auth.uid(), 'admin')
+  THEN
+    RETURN NEW;
+  END IF;
+
+  IF (to_jsonb(NEW) - 'description' - 'updated_at') IS DISTINCT FROM (to_jsonb(OLD) - 'description' - 'updated_at') THEN
+    RAISE EXCEPTION 'Reporters can only change the description of their tickets';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Runs after ticket_changes, so the names and resolution stamps it sets are compared too
+CREATE TRIGGER ticket_reporter_update_check
+BEFORE UPDATE ON public.tickets
+FOR EACH ROW
+EXECUTE FUNCTION public.check_ticket_reporter_update();
@@ -0,0 +1,55 @@
+-- License keys were readable by everyone signed in, with masking left to the
+-- UI. They now live in a table only admins can read; everyone else gets the
+-- last few characters through license_key_hint.
+CREATE TABLE public.software_license_keys (
+  license_id UUID PRIMARY KEY REFERENCES public.software_licenses(id) ON DELETE CASCADE,
+  license_key TEXT NOT NULL CHECK (TRIM(license_key) <> ''),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.software_license_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_software_license_keys_updated_at
+BEFORE UPDATE ON public.software_license_keys
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE POLICY "Admins can manage software license keys"
+ON public.software_license_keys FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Empty for keys too short to show any of, null when there is no key
+ALTER TABLE public.software_licenses ADD COLUMN license_key_hint TEXT;
+
+CREATE OR REPLACE FUNCTION public.sync_license_key_hint()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    UPDATE public.software_licenses SET license_key_hint = NULL WHERE id = OLD.license_id;
+    RETURN OLD;
+  END IF;
+
+  UPDATE public.software_licenses
+  SET license_key_hint = CASE WHEN length(NEW.license_key) > 5 THEN right(NEW.license_key, 5) ELSE '' END
+  WHERE id = NEW.license_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER software_license_key_hint_sync
+AFTER INSERT OR UPDATE OR DELETE ON public.software_license_keys
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_license_key_hint();
+
+INSERT INTO public.software_license_keys (license_id, license_key)
+SELECT id, license_key
+FROM public.software_licenses
+WHERE NULLIF(TRIM(license_key), '') IS NOT NULL;
+
+ALTER TABLE public.software_licenses DROP COLUMN license_key;
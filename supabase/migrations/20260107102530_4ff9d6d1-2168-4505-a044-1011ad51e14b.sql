@@ -0,0 +1,70 @@
+-- HR sign-off on offboardings was open to any signed-in user. It now needs
+-- the new hr role, or admin.
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'hr';
+
+CREATE OR REPLACE FUNCTION public.sign_offboarding(_offboarding_id UUID, _department TEXT, _notes TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  offboarding public.offboardings;
+  signer_name TEXT;
+  pending_count INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO offboarding FROM public.offboardings WHERE id = _offboarding_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Offboarding not found';
+  END IF;
+
+  SELECT COALESCE(full_name, email) INTO signer_name FROM public.profiles WHERE id = auth.uid();
+
+  IF _department = 'hr' THEN
+    IF NOT public.has_role(auth.uid(), 'hr') AND NOT public.has_role(auth.uid(), 'admin') THEN
+      RAISE EXCEPTION 'Only HR or admins can sign off for HR';
+    END IF;
+    IF offboarding.hr_signed_at IS NOT NULL THEN
+      RAISE EXCEPTION 'HR has already signed off';
+    END IF;
+
+    UPDATE public.offboardings
+    SET hr_signed_by = auth.uid(), hr_signed_by_name = signer_name, hr_signed_at = NOW(), hr_notes = NULLIF(TRIM(_notes), '')
+    WHERE id = _offboarding_id
+    RETURNING * INTO offboarding;
+  ELSIF _department = 'it' THEN
+    IF NOT public.has_role(auth.uid(), 'admin') THEN
+      RAISE EXCEPTION 'Only admins can sign off for IT';
+    END IF;
+    IF offboarding.it_signed_at IS NOT NULL THEN
+      RAISE EXCEPTION 'IT has already signed off';
+    END IF;
+
+    SELECT COUNT(*) INTO pending_count
+    FROM public.offboarding_items
+    WHERE offboarding_id = _offboarding_id AND status = 'pending';
+    IF pending_count > 0 THEN
+      RAISE EXCEPTION '% items still need to be recovered', pending_count;
+    END IF;
+
+    UPDATE public.offboardings
+    SET it_signed_by = auth.uid(), it_signed_by_name = signer_name, it_signed_at = NOW(), it_notes = NULLIF(TRIM(_notes), '')
+    WHERE id = _offboarding_id
+    RETURNING * INTO offboarding;
+  ELSE
+    RAISE EXCEPTION 'Unknown sign-off %', _department;
+  END IF;
+
+  IF offboarding.hr_signed_at IS NOT NULL AND offboarding.it_signed_at IS NOT NULL THEN
+    UPDATE public.offboardings SET completed_at = NOW() WHERE id = _offboarding_id;
+
+    UPDATE public.employees
+    SET employment_status = 'left', archived_at = NOW()
+    WHERE id = offboarding.employee_id;
+  END IF;
+END;
+$$;
@@ -0,0 +1,88 @@
+-- Employee columns restore_employee_version can roll back, so the restore
+-- dialog doesn't offer columns dropped since a snapshot was taken. Identity,
+-- timestamps, offboarding state and recycle-bin markers are never rolled back.
+CREATE OR REPLACE FUNCTION public.employee_restorable_fields()
+RETURNS TEXT[]
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT array_agg(column_name::TEXT ORDER BY ordinal_position)
+  FROM information_schema.columns
+  WHERE table_schema = 'public'
+    AND table_name = 'employees'
+    AND column_name NOT IN (
+      'id', 'created_at', 'created_by', 'updated_at',
+      'employment_status', 'exit_date', 'archived_at',
+      'deleted_at', 'deleted_by', 'deleted_by_name'
+    )
+$$;
+
+-- Same as before, with the column list taken from employee_restorable_fields
+CREATE OR REPLACE FUNCTION public.restore_employee_version(
+  _audit_id UUID,
+  _version TEXT DEFAULT 'after',
+  _fields TEXT[] DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  entry public.employee_audit_log%ROWTYPE;
+  snapshot JSONB;
+  target_id UUID;
+  restore_columns TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can restore employee versions';
+  END IF;
+
+  IF _version NOT IN ('before', 'after') THEN
+    RAISE EXCEPTION 'Version must be before or after';
+  END IF;
+
+  SELECT * INTO entry FROM public.employee_audit_log WHERE id = _audit_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Audit entry not found';
+  END IF;
+
+  snapshot := CASE WHEN _version = 'before' THEN entry.old_data ELSE entry.new_data END;
+  IF snapshot IS NULL THEN
+    RAISE EXCEPTION 'This entry has no % version', _version;
+  END IF;
+
+  target_id := (snapshot->>'id')::UUID;
+
+  -- Columns dropped or added since the snapshot are left alone
+  SELECT string_agg(format('%I', field), ', ') INTO restore_columns
+  FROM unnest(public.employee_restorable_fields()) AS field
+  WHERE snapshot ? field
+    AND (_fields IS NULL OR field = ANY(_fields));
+
+  IF restore_columns IS NULL THEN
+    RAISE EXCEPTION 'No restorable fields selected';
+  END IF;
+
+  PERFORM set_config('app.restored_from', _audit_id::TEXT, true);
+
+  IF EXISTS (SELECT 1 FROM public.employees WHERE id = target_id) THEN
+    EXECUTE format(
+      'UPDATE public.employees SET (%1$s) = (SELECT %1$s FROM jsonb_populate_record(NULL::public.employees, $1)) WHERE id = $2',
+      restore_columns
+    ) USING snapshot, target_id;
+  ELSE
+    IF _fields IS NOT NULL THEN
+      RAISE EXCEPTION 'This employee has been purged; restore the whole record instead';
+    END IF;
+
+    EXECUTE format(
+      'INSERT INTO public.employees (id, created_by, %1$s) SELECT $2, $3, %1$s FROM jsonb_populate_record(NULL::public.employees, $1)',
+      restore_columns
+    ) USING snapshot, target_id, auth.uid();
+  END IF;
+
+  RETURN target_id;
+END;
+$$;
@@ -0,0 +1,13 @@
+-- Devices held by employees count as part of the record: while approval is
+-- required, non-admins can't add, edit or return them directly either.
+-- Stock devices with no holder are not affected.
+CREATE POLICY "Non-admin device edits need approval when required"
+ON public.assets AS RESTRICTIVE FOR INSERT
+TO authenticated
+WITH CHECK (employee_id IS NULL OR public.has_role(auth.uid(), 'admin') OR NOT public.change_approval_required());
+
+CREATE POLICY "Non-admin device changes need approval when required"
+ON public.assets AS RESTRICTIVE FOR UPDATE
+TO authenticated
+USING (employee_id IS NULL OR public.has_role(auth.uid(), 'admin') OR NOT public.change_approval_required())
+WITH CHECK (employee_id IS NULL OR public.has_role(auth.uid(), 'admin') OR NOT public.change_approval_required());
@@ -0,0 +1,4 @@
+-- Set when the requester has been emailed about a rejection, so each
+-- rejection is sent once however often the notification is asked for
+ALTER TABLE public.employee_change_requests
+  ADD COLUMN notified_at TIMESTAMP WITH TIME ZONE;
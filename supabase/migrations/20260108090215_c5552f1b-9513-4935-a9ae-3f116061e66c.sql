@@ -0,0 +1,22 @@
+-- Without a WITH CHECK the USING clause was applied to the new row too, so
+-- whoever added a device could hand it to any employee. Devices can now only
+-- go back to stock or to an employee the user created.
+DROP POLICY "Users can update assets of employees they created" ON public.assets;
+
+CREATE POLICY "Users can update assets of employees they created"
+ON public.assets FOR UPDATE
+TO authenticated
+USING (
+  auth.uid() = created_by
+  OR EXISTS (
+    SELECT 1 FROM public.employees
+    WHERE employees.id = assets.employee_id AND employees.created_by = auth.uid()
+  )
+)
+WITH CHECK (
+  employee_id IS NULL
+  OR EXISTS (
+    SELECT 1 FROM public.employees
+    WHERE employees.id = assets.employee_id AND employees.created_by = auth.uid()
+  )
+);
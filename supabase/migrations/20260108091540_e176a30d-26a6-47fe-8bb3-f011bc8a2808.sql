@@ -0,0 +1,84 @@
+-- Devices left employees for assets without an audit trigger of their own,
+-- so edits to a device went unrecorded. Changes now go into the holder's
+-- audit trail as a "devices" change with the device before and after, in
+-- the same list form the Activity Log and the update email already diff.
+-- A device moving between employees is removed from one and added to the
+-- other; devices in stock are logged without an employee. asset_id has no
+-- foreign key so the trail outlives deleted devices.
+ALTER TABLE public.employee_audit_log
+  ADD COLUMN asset_id UUID;
+
+CREATE INDEX idx_employee_audit_log_asset_id ON public.employee_audit_log(asset_id);
+
+CREATE OR REPLACE FUNCTION public.log_asset_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  user_email TEXT;
+  user_name TEXT;
+  old_device TEXT;
+  new_device TEXT;
+  old_holder UUID;
+  new_holder UUID;
+  holder public.employees%ROWTYPE;
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    old_holder := OLD.employee_id;
+    old_device := jsonb_build_array(to_jsonb(OLD) - 'employee_id' - 'created_by' - 'created_at' - 'updated_at')::TEXT;
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    new_holder := NEW.employee_id;
+    new_device := jsonb_build_array(to_jsonb(NEW) - 'employee_id' - 'created_by' - 'created_at' - 'updated_at')::TEXT;
+  END IF;
+
+  IF old_holder IS NOT DISTINCT FROM new_holder AND old_device IS NOT DISTINCT FROM new_device THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT email, full_name INTO user_email, user_name
+  FROM public.profiles
+  WHERE id = auth.uid();
+
+  IF old_holder IS NULL AND new_holder IS NULL THEN
+    INSERT INTO public.employee_audit_log (
+      employee_id, action, changed_by, changed_by_email, changed_by_name, changes, asset_id
+    )
+    VALUES (
+      NULL, 'UPDATE', auth.uid(), user_email, user_name,
+      jsonb_build_object('devices', jsonb_build_object('old', old_device, 'new', new_device)),
+      COALESCE(NEW.id, OLD.id)
+    );
+    RETURN NULL;
+  END IF;
+
+  -- Employees removed in the same statement (the device was released by the
+  -- delete) are covered by their own audit entry
+  FOR holder IN
+    SELECT * FROM public.employees WHERE id IN (old_holder, new_holder)
+  LOOP
+    INSERT INTO public.employee_audit_log (
+      employee_id, action, changed_by, changed_by_email, changed_by_name,
+      old_data, new_data, changes, asset_id
+    )
+    VALUES (
+      holder.id, 'UPDATE', auth.uid(), user_email, user_name,
+      to_jsonb(holder), to_jsonb(holder),
+      jsonb_build_object('devices', jsonb_build_object(
+        'old', CASE WHEN holder.id = old_holder THEN old_device END,
+        'new', CASE WHEN holder.id = new_holder THEN new_device END
+      )),
+      COALESCE(NEW.id, OLD.id)
+    );
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER asset_audit
+AFTER INSERT OR UPDATE OR DELETE ON public.assets
+FOR EACH ROW
+EXECUTE FUNCTION public.log_asset_change();
@@ -0,0 +1,9 @@
+-- Employees in the recycle bin stayed readable by every role, so anything
+-- querying employees or embedding them under assets could still show them.
+-- The recycle bin is admin-only, and so are the records in it.
+CREATE POLICY "Only admins can view deleted employees"
+ON public.employees
+AS RESTRICTIVE
+FOR SELECT
+TO authenticated
+USING (deleted_at IS NULL OR public.has_role(auth.uid(), 'admin'));
@@ -0,0 +1,47 @@
+-- Any signed-in user, employees included, could log a PM visit and move
+-- last_pm forward on any record. Logging is for admins and technicians;
+-- the trigger checks too, since it updates last_pm as definer. Server-side
+-- inserts without a user are left alone.
+CREATE POLICY "Only admins and technicians can log pm records"
+ON public.pm_records
+AS RESTRICTIVE
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'technician'));
+
+CREATE OR REPLACE FUNCTION public.apply_pm_record()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND TG_WHEN = 'BEFORE' THEN
+    IF auth.uid() IS NOT NULL
+      AND NOT (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'technician')) THEN
+      RAISE EXCEPTION 'Only admins and technicians can log PM visits';
+    END IF;
+
+    IF NEW.performed_by_name IS NULL THEN
+      SELECT COALESCE(full_name, email) INTO NEW.performed_by_name
+      FROM public.profiles
+      WHERE id = NEW.performed_by;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.employee_id IS NOT NULL THEN
+    UPDATE public.employees
+    SET last_pm = NEW.performed_at
+    WHERE id = NEW.employee_id
+      AND (last_pm IS NULL OR last_pm < NEW.performed_at);
+  ELSE
+    UPDATE public.assets
+    SET last_pm = NEW.performed_at
+    WHERE id = NEW.asset_id
+      AND (last_pm IS NULL OR last_pm < NEW.performed_at);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
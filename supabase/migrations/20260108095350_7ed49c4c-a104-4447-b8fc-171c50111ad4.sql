@@ -0,0 +1,24 @@
+-- Reporters were still allowed to rewrite the description, while the ticket
+-- page tells them only admins and the assignee can change a ticket. Reporters
+-- now only comment; every column stays with assignees and admins.
+CREATE OR REPLACE FUNCTION public.check_ticket_reporter_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- Scheduled jobs and cascades from deleted employees run without a user
+  IF auth.uid() IS NULL
+    OR auth.uid() = OLD.assignee_id
+    OR public.has_role(auth.uid(), 'admin')
+  THEN
+    RETURN NEW;
+  END IF;
+
+  IF (to_jsonb(NEW) - 'updated_at') IS DISTINCT FROM (to_jsonb(OLD) - 'updated_at') THEN
+    RAISE EXCEPTION 'Only admins and the assignee can change this ticket; reporters can comment on it';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
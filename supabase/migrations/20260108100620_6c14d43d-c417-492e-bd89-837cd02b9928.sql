@@ -0,0 +1,51 @@
+-- Rows hanging off a scoped record were still readable everywhere: comments
+-- of tickets, check results of PM visits and items of offboardings follow
+-- their parent now, and consumable stock and movements follow their location.
+CREATE POLICY "Scoped users only see ticket comments in their locations"
+ON public.ticket_comments AS RESTRICTIVE FOR SELECT
+TO authenticated
+USING (EXISTS (
+  SELECT 1 FROM public.tickets
+  WHERE tickets.id = ticket_comments.ticket_id
+    AND (
+      tickets.employee_id IS NULL
+      OR tickets.created_by = auth.uid()
+      OR public.can_view_employee(auth.uid(), tickets.employee_id)
+    )
+));
+
+CREATE POLICY "Scoped users only see pm check results in their locations"
+ON public.pm_check_results AS RESTRICTIVE FOR SELECT
+TO authenticated
+USING (EXISTS (
+  SELECT 1 FROM public.pm_records
+  WHERE pm_records.id = pm_check_results.pm_record_id
+    AND (pm_records.employee_id IS NULL OR public.can_view_employee(auth.uid(), pm_records.employee_id))
+));
+
+CREATE POLICY "Scoped users only see offboarding items in their locations"
+ON public.offboarding_items AS RESTRICTIVE FOR SELECT
+TO authenticated
+USING (EXISTS (
+  SELECT 1 FROM public.offboardings
+  WHERE offboardings.id = offboarding_items.offboarding_id
+    AND public.can_view_employee(auth.uid(), offboardings.employee_id)
+));
+
+CREATE POLICY "Scoped users only see consumable stock in their locations"
+ON public.consumable_stock AS RESTRICTIVE FOR SELECT
+TO authenticated
+USING (EXISTS (
+  SELECT 1 FROM public.locations
+  WHERE locations.id = consumable_stock.location_id
+    AND public.can_view_location(auth.uid(), locations.name)
+));
+
+CREATE POLICY "Scoped users only see consumable transactions in their locations"
+ON public.consumable_transactions AS RESTRICTIVE FOR SELECT
+TO authenticated
+USING (EXISTS (
+  SELECT 1 FROM public.locations
+  WHERE locations.id = consumable_transactions.location_id
+    AND public.can_view_location(auth.uid(), locations.name)
+));
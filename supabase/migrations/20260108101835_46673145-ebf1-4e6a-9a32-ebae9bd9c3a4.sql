@@ -0,0 +1,58 @@
+-- Scoped technicians could log visits for any employee or device, and the
+-- trigger then moved last_pm forward on records outside their locations.
+-- Visits now follow the location of the employee, or of the device's holder.
+CREATE POLICY "Scoped users can only log pm records in their locations"
+ON public.pm_records AS RESTRICTIVE FOR INSERT
+TO authenticated
+WITH CHECK (
+  NOT public.is_location_scoped(auth.uid())
+  OR public.can_edit_asset_holder(
+    auth.uid(),
+    COALESCE(pm_records.employee_id, (SELECT assets.employee_id FROM public.assets WHERE assets.id = pm_records.asset_id))
+  )
+);
+
+CREATE OR REPLACE FUNCTION public.apply_pm_record()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  holder_id UUID;
+BEGIN
+  IF TG_OP = 'INSERT' AND TG_WHEN = 'BEFORE' THEN
+    IF auth.uid() IS NOT NULL THEN
+      IF NOT (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'technician')) THEN
+        RAISE EXCEPTION 'Only admins and technicians can log PM visits';
+      END IF;
+
+      holder_id := COALESCE(NEW.employee_id, (SELECT employee_id FROM public.assets WHERE id = NEW.asset_id));
+      IF public.is_location_scoped(auth.uid()) AND NOT public.can_edit_asset_holder(auth.uid(), holder_id) THEN
+        RAISE EXCEPTION 'You can only log PM visits at your locations';
+      END IF;
+    END IF;
+
+    IF NEW.performed_by_name IS NULL THEN
+      SELECT COALESCE(full_name, email) INTO NEW.performed_by_name
+      FROM public.profiles
+      WHERE id = NEW.performed_by;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.employee_id IS NOT NULL THEN
+    UPDATE public.employees
+    SET last_pm = NEW.performed_at
+    WHERE id = NEW.employee_id
+      AND (last_pm IS NULL OR last_pm < NEW.performed_at);
+  ELSE
+    UPDATE public.assets
+    SET last_pm = NEW.performed_at
+    WHERE id = NEW.asset_id
+      AND (last_pm IS NULL OR last_pm < NEW.performed_at);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,84 @@
+-- Requested values were compared with the record as text, so values the
+-- form sends in another spelling (1200 for a cost of 1200.00, "true", a
+-- date with a time) were filed as changes. They are now cast to the
+-- column types first, and only values that differ once typed are kept.
+CREATE OR REPLACE FUNCTION public.request_employee_change(_employee_id UUID, _values JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_row public.employees%ROWTYPE;
+  requested_row public.employees%ROWTYPE;
+  changes_json JSONB;
+  request_id UUID;
+BEGIN
+  SELECT * INTO current_row
+  FROM public.employees
+  WHERE id = _employee_id AND deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Employee not found';
+  END IF;
+
+  -- Same people who could edit the record directly
+  IF NOT (
+    (current_row.created_by = auth.uid() AND NOT public.is_location_scoped(auth.uid()))
+    OR public.can_edit_location(auth.uid(), current_row.location)
+    OR public.has_role(auth.uid(), 'admin')
+  ) THEN
+    RAISE EXCEPTION 'You do not have permission to edit this employee';
+  END IF;
+
+  -- Empty strings count as cleared
+  requested_row := jsonb_populate_record(
+    current_row,
+    COALESCE(
+      (SELECT jsonb_object_agg(key, CASE WHEN value = '""'::jsonb THEN 'null'::jsonb ELSE value END) FROM jsonb_each(_values)),
+      '{}'::jsonb
+    )
+  );
+
+  SELECT jsonb_object_agg(key, jsonb_build_object('old', old_value #>> '{}', 'new', new_value #>> '{}')) INTO changes_json
+  FROM (
+    SELECT
+      requested.key,
+      NULLIF(NULLIF(to_jsonb(current_row)->requested.key, 'null'::jsonb), '""'::jsonb) AS old_value,
+      NULLIF(NULLIF(to_jsonb(requested_row)->requested.key, 'null'::jsonb), '""'::jsonb) AS new_value
+    FROM jsonb_each(_values) AS requested
+    JOIN information_schema.columns
+      ON columns.table_schema = 'public'
+      AND columns.table_name = 'employees'
+      AND columns.column_name = requested.key
+    WHERE requested.key NOT IN (
+      'id', 'created_at', 'created_by', 'updated_at',
+      'employment_status', 'exit_date', 'archived_at',
+      'deleted_at', 'deleted_by', 'deleted_by_name'
+    )
+  ) AS fields
+  WHERE old_value IS DISTINCT FROM new_value;
+
+  IF changes_json IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF changes_json ? 'location'
+    AND public.is_location_scoped(auth.uid())
+    AND NOT public.can_edit_location(auth.uid(), changes_json->'location'->>'new')
+  THEN
+    RAISE EXCEPTION 'You can only move employees to your own locations';
+  END IF;
+
+  INSERT INTO public.employee_change_requests (employee_id, changes, requested_by, requested_by_name)
+  VALUES (
+    _employee_id,
+    changes_json,
+    auth.uid(),
+    (SELECT COALESCE(full_name, email) FROM public.profiles WHERE id = auth.uid())
+  )
+  RETURNING id INTO request_id;
+
+  RETURN request_id;
+END;
+$$;
@@ -0,0 +1,96 @@
+-- Approving applied the requested values even when the record had been
+-- edited since the request was made, silently undoing the newer edit.
+-- Approval now stops when a requested field no longer holds the value the
+-- request was based on; the admin rejects it and a fresh one is filed.
+CREATE OR REPLACE FUNCTION public.review_change_request(_request_id UUID, _approve BOOLEAN, _comment TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request public.employee_change_requests%ROWTYPE;
+  current_row public.employees%ROWTYPE;
+  expected_row public.employees%ROWTYPE;
+  new_values JSONB;
+  apply_columns TEXT;
+  stale_fields TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can review change requests';
+  END IF;
+
+  SELECT * INTO request
+  FROM public.employee_change_requests
+  WHERE id = _request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Change request not found';
+  END IF;
+
+  IF request.status <> 'pending' THEN
+    RAISE EXCEPTION 'This request has already been reviewed';
+  END IF;
+
+  IF NOT _approve AND NULLIF(TRIM(_comment), '') IS NULL THEN
+    RAISE EXCEPTION 'Add a comment explaining the rejection';
+  END IF;
+
+  IF _approve THEN
+    SELECT * INTO current_row
+    FROM public.employees
+    WHERE id = request.employee_id AND deleted_at IS NULL
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'This employee has been deleted';
+    END IF;
+
+    -- The recorded old values, typed like the record so 1200 matches 1200.00
+    expected_row := jsonb_populate_record(
+      current_row,
+      (SELECT jsonb_object_agg(key, COALESCE(value->'old', 'null'::jsonb)) FROM jsonb_each(request.changes))
+    );
+
+    SELECT string_agg(column_name::TEXT, ', ' ORDER BY ordinal_position) INTO stale_fields
+    FROM information_schema.columns
+    WHERE table_schema = 'public'
+      AND table_name = 'employees'
+      AND request.changes ? column_name
+      AND NULLIF(NULLIF(to_jsonb(current_row)->column_name::TEXT, 'null'::jsonb), '""'::jsonb)
+        IS DISTINCT FROM NULLIF(NULLIF(to_jsonb(expected_row)->column_name::TEXT, 'null'::jsonb), '""'::jsonb);
+
+    IF stale_fields IS NOT NULL THEN
+      RAISE EXCEPTION 'The record has changed since this request was made (%); reject it and ask for a new one', stale_fields;
+    END IF;
+
+    SELECT jsonb_object_agg(key, value->'new') INTO new_values
+    FROM jsonb_each(request.changes);
+
+    -- Columns dropped since the request was made are skipped
+    SELECT string_agg(format('%I', column_name), ', ' ORDER BY ordinal_position) INTO apply_columns
+    FROM information_schema.columns
+    WHERE table_schema = 'public'
+      AND table_name = 'employees'
+      AND new_values ? column_name;
+
+    IF apply_columns IS NOT NULL THEN
+      PERFORM set_config('app.change_request', _request_id::TEXT, true);
+
+      EXECUTE format(
+        'UPDATE public.employees SET (%1$s) = (SELECT %1$s FROM jsonb_populate_record(NULL::public.employees, $1)) WHERE id = $2',
+        apply_columns
+      ) USING new_values, request.employee_id;
+    END IF;
+  END IF;
+
+  UPDATE public.employee_change_requests
+  SET status = CASE WHEN _approve THEN 'approved' ELSE 'rejected' END,
+      reviewed_by = auth.uid(),
+      reviewed_by_name = (SELECT COALESCE(full_name, email) FROM public.profiles WHERE id = auth.uid()),
+      reviewed_at = NOW(),
+      review_comment = NULLIF(TRIM(_comment), '')
+  WHERE id = _request_id;
+END;
+$$;
@@ -0,0 +1,20 @@
+-- Devices entered with a new employee were refused while approval was
+-- required, as if they were an edit. A new record has nothing to approve
+-- against, so whoever added the employee may add devices until the record
+-- is first changed. Device changes on existing employees still need an admin.
+DROP POLICY IF EXISTS "Non-admin device edits need approval when required" ON public.assets;
+
+CREATE POLICY "Non-admin device edits need approval when required"
+ON public.assets AS RESTRICTIVE FOR INSERT
+TO authenticated
+WITH CHECK (
+  employee_id IS NULL
+  OR public.has_role(auth.uid(), 'admin')
+  OR NOT public.change_approval_required()
+  OR EXISTS (
+    SELECT 1 FROM public.employees
+    WHERE employees.id = assets.employee_id
+      AND employees.created_by = auth.uid()
+      AND employees.updated_at = employees.created_at
+  )
+);